@@ -6,10 +6,20 @@ import { FirebaseModule } from './modules/firebase.module';
 import { UserModule } from './modules/user.module';
 import { AdminModule } from './modules/admin.module';
 import { PlatformModule } from './modules/platform.module';
-import { VeriffModule } from './modules/veriff.module';
+import { KycModule } from './modules/kyc.module';
 import { PassModule } from './modules/pass.module';
 import { HealthModule } from './modules/health.module';
 import { BatchVerifyModule } from './modules/batch-verify.module';
+import { ApiKeyModule } from './modules/api-key.module';
+import { WebhookModule } from './modules/webhook.module';
+import { PassportIndexerModule } from './modules/passport-indexer.module';
+import { AdminAuthModule } from './modules/admin-auth.module';
+import { WalletAuthModule } from './modules/wallet-auth.module';
+import { WalletModule } from './modules/wallet.module';
+import { HumanityPolicyModule } from './modules/humanity-policy.module';
+import { VerificationTypeModule } from './modules/verification-type.module';
+import { ScoreDecayModule } from './modules/score-decay.module';
+import { SocialVerificationModule } from './modules/social-verification.module';
 
 
 @Module({
@@ -22,10 +32,20 @@ import { BatchVerifyModule } from './modules/batch-verify.module';
     UserModule,
     AdminModule,
     PlatformModule,
-    VeriffModule,
+    KycModule,
     PassModule,
     HealthModule,
     BatchVerifyModule,
+    ApiKeyModule,
+    WebhookModule,
+    PassportIndexerModule,
+    AdminAuthModule,
+    WalletAuthModule,
+    WalletModule,
+    HumanityPolicyModule,
+    VerificationTypeModule,
+    ScoreDecayModule,
+    SocialVerificationModule,
   ],
   controllers: [AppController],
   providers: [AppService],
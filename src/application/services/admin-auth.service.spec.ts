@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AdminAuthService, ADMIN_TOKEN_AUDIENCE } from './admin-auth.service';
+import { AdminUserRepository } from '../../infrastructure/firebase/admin-user.repository';
+import { signJwt } from '../../infrastructure/auth/jwt';
+import { AdminUser } from '../../domain/entities/admin-user.entity';
+
+describe('AdminAuthService', () => {
+  let service: AdminAuthService;
+  let users: Map<string, AdminUser>;
+  let repository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    findByEmail: jest.Mock;
+    findAll: jest.Mock;
+    update: jest.Mock;
+  };
+
+  const settings: Record<string, string> = {};
+
+  const build = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminAuthService,
+        { provide: AdminUserRepository, useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AdminAuthService);
+  };
+
+  beforeEach(async () => {
+    users = new Map();
+    let nextId = 1;
+    repository = {
+      create: jest.fn(async (record: Omit<AdminUser, 'id'>) => {
+        const user = { id: `admin-${nextId++}`, ...record };
+        users.set(user.id, user);
+        return user;
+      }),
+      findById: jest.fn(async (id: string) => users.get(id) ?? null),
+      findByEmail: jest.fn(
+        async (email: string) => [...users.values()].find((user) => user.email === email) ?? null,
+      ),
+      findAll: jest.fn(async () => [...users.values()]),
+      update: jest.fn(async (id: string, update: Partial<AdminUser>) => {
+        users.set(id, { ...users.get(id), ...update });
+      }),
+    };
+    for (const key of Object.keys(settings)) {
+      delete settings[key];
+    }
+    settings.ADMIN_JWT_SECRET = 'admin-jwt-secret';
+
+    await build();
+  });
+
+  const createReviewer = async () =>
+    (await service.createUser(
+      { email: 'Reviewer@Veridion.id', password: 'correct horse battery', role: 'kyc-reviewer' },
+      'root@veridion.id',
+    )).admin;
+
+  it('stores a password hash, never the password, and normalises the email', async () => {
+    const admin = await createReviewer();
+
+    const stored = users.get(admin.id);
+    expect(stored.email).toBe('reviewer@veridion.id');
+    expect(stored.passwordHash).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(stored.passwordHash).not.toContain('correct horse battery');
+    expect(admin).not.toHaveProperty('passwordHash');
+  });
+
+  it('rejects a second admin with the same email', async () => {
+    await createReviewer();
+
+    const result = await service.createUser(
+      { email: 'reviewer@veridion.id', password: 'another password', role: 'operator' },
+      'root@veridion.id',
+    );
+
+    expect(result.error).toBe('ALREADY_EXISTS');
+  });
+
+  it('issues a token on login that authenticates to the stored role', async () => {
+    const admin = await createReviewer();
+
+    const result = await service.login({ email: 'reviewer@veridion.id', password: 'correct horse battery' });
+
+    expect(result).toEqual(expect.objectContaining({ success: true, tokenType: 'Bearer', expiresIn: 3600 }));
+    await expect(service.authenticate(result.accessToken)).resolves.toEqual({
+      id: admin.id,
+      email: 'reviewer@veridion.id',
+      role: 'kyc-reviewer',
+    });
+    expect(users.get(admin.id).lastLoginAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects a wrong password and unknown emails alike', async () => {
+    await createReviewer();
+
+    const wrongPassword = await service.login({ email: 'reviewer@veridion.id', password: 'wrong password' });
+    const unknown = await service.login({ email: 'nobody@veridion.id', password: 'correct horse battery' });
+
+    expect(wrongPassword.error).toBe('INVALID_CREDENTIALS');
+    expect(unknown).toEqual(wrongPassword);
+  });
+
+  it('uses the stored role, so demotions apply to issued tokens', async () => {
+    const admin = await createReviewer();
+    const { accessToken } = await service.login({ email: 'reviewer@veridion.id', password: 'correct horse battery' });
+
+    users.set(admin.id, { ...users.get(admin.id), role: 'read-only' });
+
+    await expect(service.authenticate(accessToken)).resolves.toEqual(
+      expect.objectContaining({ role: 'read-only' }),
+    );
+  });
+
+  it('stops accepting tokens of a disabled admin', async () => {
+    const admin = await createReviewer();
+    const { accessToken } = await service.login({ email: 'reviewer@veridion.id', password: 'correct horse battery' });
+
+    const result = await service.disableUser(admin.id, { id: 'root', email: 'root@veridion.id', role: 'superadmin' });
+
+    expect(result.success).toBe(true);
+    await expect(service.authenticate(accessToken)).resolves.toBeNull();
+    await expect(
+      service.login({ email: 'reviewer@veridion.id', password: 'correct horse battery' }),
+    ).resolves.toEqual(expect.objectContaining({ error: 'INVALID_CREDENTIALS' }));
+  });
+
+  it('does not let an admin disable themselves', async () => {
+    const admin = await createReviewer();
+
+    const result = await service.disableUser(admin.id, { id: admin.id, email: admin.email, role: 'superadmin' });
+
+    expect(result.error).toBe('SELF_DISABLE');
+  });
+
+  it('rejects expired, forged and wrong-audience tokens', async () => {
+    const admin = await createReviewer();
+    const claims = { sub: admin.id, aud: ADMIN_TOKEN_AUDIENCE };
+
+    const expired = signJwt(claims, 'admin-jwt-secret', 60, new Date(Date.now() - 120_000));
+    const forged = signJwt(claims, 'some-other-secret', 60);
+    const wrongAudience = signJwt({ ...claims, aud: 'veridion-wallet' }, 'admin-jwt-secret', 60);
+
+    await expect(service.authenticate(expired)).resolves.toBeNull();
+    await expect(service.authenticate(forged)).resolves.toBeNull();
+    await expect(service.authenticate(wrongAudience)).resolves.toBeNull();
+    await expect(service.authenticate('not-a-jwt')).resolves.toBeNull();
+  });
+
+  it('neither issues nor accepts tokens without ADMIN_JWT_SECRET', async () => {
+    const admin = await createReviewer();
+    const token = signJwt({ sub: admin.id, aud: ADMIN_TOKEN_AUDIENCE }, '', 60);
+    delete settings.ADMIN_JWT_SECRET;
+    await build();
+
+    const result = await service.login({ email: 'reviewer@veridion.id', password: 'correct horse battery' });
+
+    expect(result.error).toBe('NOT_CONFIGURED');
+    await expect(service.authenticate(token)).resolves.toBeNull();
+  });
+
+  it('creates the bootstrap superadmin once', async () => {
+    settings.ADMIN_BOOTSTRAP_EMAIL = 'root@veridion.id';
+    settings.ADMIN_BOOTSTRAP_PASSWORD = 'bootstrap password';
+    await build();
+
+    await service.onApplicationBootstrap();
+    await service.onApplicationBootstrap();
+
+    expect(repository.create).toHaveBeenCalledTimes(1);
+    expect([...users.values()][0]).toEqual(
+      expect.objectContaining({ email: 'root@veridion.id', role: 'superadmin', createdBy: 'bootstrap' }),
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { AdminUserRepository } from '../../infrastructure/firebase/admin-user.repository';
+import { signJwt, verifyJwt } from '../../infrastructure/auth/jwt';
+import {
+  AdminLoginDto,
+  AdminLoginResponse,
+  AdminPrincipal,
+  AdminUser,
+  AdminUserResponse,
+  AdminUserView,
+  CreateAdminUserDto,
+} from '../../domain/entities/admin-user.entity';
+
+export const ADMIN_TOKEN_AUDIENCE = 'veridion-admin';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Admin identities and their session tokens.
+ *
+ * Admins log in with email and password and receive an HS256 JWT signed
+ * with ADMIN_JWT_SECRET, valid for ADMIN_JWT_TTL_SECONDS. Without a secret
+ * no token is issued or accepted, so every /admin route answers 401.
+ *
+ * The first superadmin is created at startup from ADMIN_BOOTSTRAP_EMAIL and
+ * ADMIN_BOOTSTRAP_PASSWORD when no admin with that email exists yet; further
+ * admins are created by a superadmin through /admin/users.
+ */
+@Injectable()
+export class AdminAuthService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(AdminAuthService.name);
+  private readonly jwtSecret: string;
+  private readonly tokenTtlSeconds: number;
+
+  constructor(
+    private readonly adminUserRepository: AdminUserRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.jwtSecret = this.configService.get<string>('ADMIN_JWT_SECRET') || '';
+    this.tokenTtlSeconds = Number(this.configService.get<string>('ADMIN_JWT_TTL_SECONDS', '3600'));
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.jwtSecret) {
+      this.logger.warn('ADMIN_JWT_SECRET not configured; all /admin routes will reject requests');
+    }
+
+    const email = this.configService.get<string>('ADMIN_BOOTSTRAP_EMAIL');
+    const password = this.configService.get<string>('ADMIN_BOOTSTRAP_PASSWORD');
+    if (!email || !password) {
+      return;
+    }
+
+    try {
+      if (await this.adminUserRepository.findByEmail(this.normalizeEmail(email))) {
+        return;
+      }
+      await this.createUser({ email, password, role: 'superadmin' }, 'bootstrap');
+      this.logger.log(`Bootstrap superadmin created email=${email}`);
+    } catch (error) {
+      this.logger.error('Failed to create bootstrap superadmin', error);
+    }
+  }
+
+  async login(dto: AdminLoginDto): Promise<AdminLoginResponse> {
+    if (!this.jwtSecret) {
+      return { success: false, message: 'Admin login is not configured', error: 'NOT_CONFIGURED' };
+    }
+
+    const user = await this.adminUserRepository.findByEmail(this.normalizeEmail(dto.email));
+    // Hash even for unknown emails so response time does not reveal which exist
+    const passwordMatches = await this.verifyPassword(dto.password, user?.passwordHash);
+
+    if (!user || user.disabled || !passwordMatches) {
+      this.logger.warn(`Admin login rejected email=${dto.email}`);
+      return { success: false, message: 'Invalid email or password', error: 'INVALID_CREDENTIALS' };
+    }
+
+    const lastLoginAt = new Date();
+    await this.adminUserRepository.update(user.id, { lastLoginAt });
+
+    this.logger.log(`Admin logged in id=${user.id} role=${user.role}`);
+    return {
+      success: true,
+      accessToken: this.issueToken(user),
+      tokenType: 'Bearer',
+      expiresIn: this.tokenTtlSeconds,
+      admin: this.toView({ ...user, lastLoginAt }),
+    };
+  }
+
+  /**
+   * Admin behind a session token, or null when the token is invalid,
+   * expired, or its admin no longer exists or is disabled.
+   */
+  async authenticate(token: string): Promise<AdminPrincipal | null> {
+    const claims = verifyJwt(token, this.jwtSecret, ADMIN_TOKEN_AUDIENCE);
+    if (!claims) {
+      return null;
+    }
+
+    const user = await this.adminUserRepository.findById(claims.sub);
+    if (!user || user.disabled) {
+      return null;
+    }
+
+    return { id: user.id, email: user.email, role: user.role };
+  }
+
+  issueToken(user: Pick<AdminUser, 'id' | 'email' | 'role'>): string {
+    return signJwt(
+      { sub: user.id, aud: ADMIN_TOKEN_AUDIENCE, email: user.email, role: user.role },
+      this.jwtSecret,
+      this.tokenTtlSeconds,
+    );
+  }
+
+  async createUser(dto: CreateAdminUserDto, createdBy: string): Promise<AdminUserResponse> {
+    const email = this.normalizeEmail(dto.email);
+
+    if (await this.adminUserRepository.findByEmail(email)) {
+      return { success: false, message: 'An admin with this email already exists', error: 'ALREADY_EXISTS' };
+    }
+
+    const user = await this.adminUserRepository.create({
+      email,
+      passwordHash: await this.hashPassword(dto.password),
+      role: dto.role,
+      disabled: false,
+      createdAt: new Date(),
+      createdBy,
+    });
+
+    this.logger.log(`Admin created id=${user.id} role=${user.role} by=${createdBy}`);
+    return { success: true, message: 'Admin created', admin: this.toView(user) };
+  }
+
+  async listUsers(): Promise<AdminUserView[]> {
+    const users = await this.adminUserRepository.findAll();
+    return users.map((user) => this.toView(user));
+  }
+
+  /**
+   * Disable an admin. Tokens already issued to them stop working on their
+   * next request.
+   */
+  async disableUser(id: string, actor: AdminPrincipal): Promise<AdminUserResponse> {
+    const user = await this.adminUserRepository.findById(id);
+
+    if (!user) {
+      return { success: false, message: 'Admin not found', error: 'NOT_FOUND' };
+    }
+
+    if (user.id === actor.id) {
+      return { success: false, message: 'Admins cannot disable themselves', error: 'SELF_DISABLE' };
+    }
+
+    if (user.disabled) {
+      return { success: false, message: 'Admin already disabled', error: 'ALREADY_DISABLED' };
+    }
+
+    const disabledAt = new Date();
+    await this.adminUserRepository.update(id, { disabled: true, disabledAt });
+
+    this.logger.log(`Admin disabled id=${id} by=${actor.email}`);
+    return { success: true, message: 'Admin disabled', admin: this.toView({ ...user, disabled: true, disabledAt }) };
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+    const [scheme, saltHex, hashHex] = (stored ?? '').split('$');
+    const valid = scheme === 'scrypt' && !!saltHex && !!hashHex;
+
+    const expected = valid ? Buffer.from(hashHex, 'hex') : Buffer.alloc(KEY_LENGTH);
+    const actual = await scrypt(password, valid ? Buffer.from(saltHex, 'hex') : Buffer.alloc(16), KEY_LENGTH);
+
+    return valid && expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private toView(user: AdminUser): AdminUserView {
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      disabled: user.disabled,
+      createdAt: user.createdAt,
+      createdBy: user.createdBy,
+      lastLoginAt: user.lastLoginAt,
+      disabledAt: user.disabledAt,
+    };
+  }
+}
@@ -4,20 +4,46 @@ import { StellarService } from '../../infrastructure/stellar/stellar.service'
 import { PlatformService } from './platform.service';
 import { StellarTransactionQueue } from './stellar-transaction-queue.service';
 import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { KycStatusRepository } from '../../infrastructure/firebase/kyc-status.repository';
 import { UserService } from './user.service';
+import { WebhookService } from './webhook.service';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
 import { 
   BuildRegisterTransactionDto,
   SubmitSignedTransactionDto,
   BuildCreateVerificationTransactionDto
 } from '../../domain/entities/admin.entity';
 import { CreatePassDto } from '../../domain/entities/pass.entity';
+import { StatusType } from '../../domain/entities/admin.entity';
+import { KycStatusState, checkKycTransition } from '../../domain/entities/kyc-status.entity';
+
+const state = (overrides: Partial<KycStatusState> = {}): KycStatusState => ({
+  wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+  status: 'PENDING',
+  decidedAt: new Date('2025-01-01T00:00:00Z'),
+  source: 'veriff',
+  manual: false,
+  appliedAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
 
 describe('AdminService', () => {
   let service: AdminService;
   let stellarService: jest.Mocked<StellarService>;
   let platformService: jest.Mocked<PlatformService>;
   let failedTxRepository: jest.Mocked<FailedStellarTxRepository>;
+  let stellarQueue: { enqueue: jest.Mock; hasInFlightKey: jest.Mock };
   let userService: jest.Mocked<UserService>;
+  let webhookService: { publish: jest.Mock };
+  let verificationTypeRegistry: { authorize: jest.Mock };
+  let kycStatusRepository: {
+    find: jest.Mock;
+    claim: jest.Mock;
+    confirm: jest.Mock;
+    release: jest.Mock;
+    recordRejection: jest.Mock;
+    listRejections: jest.Mock;
+  };
 
   beforeEach(async () => {
     const mockStellarService = {
@@ -26,6 +52,8 @@ describe('AdminService', () => {
       buildCreateVerificationTransaction: jest.fn(),
       validateWalletAddress: jest.fn().mockReturnValue(true),
       submitRegisterWithRetry: jest.fn(),
+      decodeUpsertVerification: jest.fn(),
+      getVerifications: jest.fn(),
     };
 
     const mockUserService = {
@@ -37,10 +65,16 @@ describe('AdminService', () => {
     };
 
     const mockStellarQueue = {
-      enqueue: jest.fn((job: () => Promise<unknown>) => job()),
-      hasInFlightKey: jest.fn().mockReturnValue(false),
-      trackInFlightKey: jest.fn(),
-      untrackInFlightKey: jest.fn(),
+      enqueue: jest.fn(),
+      hasInFlightKey: jest.fn().mockResolvedValue(false),
+    };
+
+    const mockWebhookService = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const mockVerificationTypeRegistry = {
+      authorize: jest.fn(),
     };
 
     const mockFailedTxRepository = {
@@ -49,6 +83,7 @@ describe('AdminService', () => {
       findUnresolvedByIdempotencyKey: jest.fn().mockResolvedValue(null),
       markRetried: jest.fn(),
       markResolved: jest.fn(),
+      recordRetryError: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -74,6 +109,25 @@ describe('AdminService', () => {
           provide: UserService,
           useValue: mockUserService,
         },
+        {
+          provide: WebhookService,
+          useValue: mockWebhookService,
+        },
+        {
+          provide: VerificationTypeRegistryService,
+          useValue: mockVerificationTypeRegistry,
+        },
+        {
+          provide: KycStatusRepository,
+          useValue: {
+            find: jest.fn(),
+            claim: jest.fn(),
+            confirm: jest.fn(),
+            release: jest.fn(),
+            recordRejection: jest.fn(),
+            listRejections: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
@@ -81,9 +135,27 @@ describe('AdminService', () => {
     stellarService = module.get(StellarService);
     platformService = module.get(PlatformService);
     failedTxRepository = module.get(FailedStellarTxRepository);
+    stellarQueue = module.get(StellarTransactionQueue);
     userService = module.get(UserService);
+    webhookService = module.get(WebhookService);
+    verificationTypeRegistry = module.get(VerificationTypeRegistryService);
+    kycStatusRepository = module.get(KycStatusRepository);
 
     jest.clearAllMocks();
+    kycStatusRepository.find.mockResolvedValue(null);
+    kycStatusRepository.claim.mockImplementation(async (decision, current) => {
+      const transition = checkKycTransition(current, decision);
+      return transition.allowed === false ? { claimed: false, current, transition } : { claimed: true, previous: null };
+    });
+    kycStatusRepository.confirm.mockResolvedValue(true);
+    kycStatusRepository.recordRejection.mockImplementation(async (rejection) => ({ id: 'rejection-1', ...rejection }));
+    stellarService.getVerifications.mockResolvedValue([]);
+    verificationTypeRegistry.authorize.mockImplementation(async ({ points }) => ({
+      allowed: true,
+      entry: { key: 'Custom:email', canonicalPoints: 10, maxPoints: 20 },
+      vtype: { tag: 'Custom', values: ['email'] },
+      points: points ?? 10,
+    }));
   });
 
   describe('buildRegisterTransaction', () => {
@@ -263,6 +335,11 @@ describe('AdminService', () => {
 
       const result = await service.buildCreateVerificationTransaction(buildDto);
 
+      expect(verificationTypeRegistry.authorize).toHaveBeenCalledWith({
+        type: 'email',
+        points: 10,
+        issuer: buildDto.sourceAccount,
+      });
       expect(stellarService.buildCreateVerificationTransaction).toHaveBeenCalledWith(
         buildDto.wallet,
         expect.objectContaining({
@@ -307,6 +384,100 @@ describe('AdminService', () => {
         error: 'Verification creation failed',
       });
     });
+
+    it('uses the canonical points when none are given', async () => {
+      stellarService.buildCreateVerificationTransaction.mockResolvedValue({ success: true, xdr: 'xdr' });
+
+      await service.buildCreateVerificationTransaction({
+        wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+        verificationType: 'email',
+        sourceAccount: 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP',
+      });
+
+      expect(stellarService.buildCreateVerificationTransaction).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ points: 10 }),
+        expect.any(String),
+      );
+    });
+
+    it('does not build a verification the registry rejects', async () => {
+      verificationTypeRegistry.authorize.mockResolvedValue({
+        allowed: false,
+        message: 'Verification type Custom:unknown is not registered or disabled',
+      });
+
+      const result = await service.buildCreateVerificationTransaction({
+        wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+        verificationType: 'unknown',
+        points: 10,
+        sourceAccount: 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP',
+      });
+
+      expect(result).toEqual({
+        success: false,
+        message: 'Verification type Custom:unknown is not registered or disabled',
+        error: 'VERIFICATION_NOT_ALLOWED',
+      });
+      expect(stellarService.buildCreateVerificationTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitCreateVerificationTransaction', () => {
+    const submitDto: SubmitSignedTransactionDto = { signedXdr: 'signed-verification-xdr' };
+    const decoded = {
+      sourceAccount: 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP',
+      wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+      vtype: { tag: 'Custom', values: ['email'] },
+      points: 15,
+    };
+
+    it('checks the signed call against the registry before submitting', async () => {
+      stellarService.decodeUpsertVerification.mockReturnValue(decoded as any);
+      stellarService.submitSignedTransaction.mockResolvedValue({ success: true, transactionHash: 'hash' });
+
+      const result = await service.submitCreateVerificationTransaction(submitDto);
+
+      expect(verificationTypeRegistry.authorize).toHaveBeenCalledWith({
+        type: decoded.vtype,
+        points: 15,
+        issuer: decoded.sourceAccount,
+      });
+      expect(stellarService.submitSignedTransaction).toHaveBeenCalledWith('signed-verification-xdr');
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects points the registry does not allow', async () => {
+      stellarService.decodeUpsertVerification.mockReturnValue({ ...decoded, points: 500 } as any);
+      verificationTypeRegistry.authorize.mockResolvedValue({
+        allowed: false,
+        message: 'Points for Custom:email must be between 0 and 20, got 500',
+      });
+
+      const result = await service.submitCreateVerificationTransaction(submitDto);
+
+      expect(result.error).toBe('VERIFICATION_NOT_ALLOWED');
+      expect(stellarService.submitSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects transactions without an upsert_verification call', async () => {
+      stellarService.decodeUpsertVerification.mockReturnValue(null);
+
+      const result = await service.submitCreateVerificationTransaction(submitDto);
+
+      expect(result.error).toBe('VERIFICATION_NOT_ALLOWED');
+      expect(stellarService.submitSignedTransaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed XDR', async () => {
+      stellarService.decodeUpsertVerification.mockImplementation(() => {
+        throw new Error('XDR Read Error');
+      });
+
+      const result = await service.submitCreateVerificationTransaction(submitDto);
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'VERIFICATION_NOT_ALLOWED' }));
+    });
   });
 
   describe('generateApiKey', () => {
@@ -427,7 +598,9 @@ describe('AdminService', () => {
         surnames: 'Doe',
       };
 
-      stellarService.submitRegisterWithRetry.mockResolvedValue({
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
         success: true,
         transactionHash: 'tx-hash-123',
         attempts: 1,
@@ -436,11 +609,11 @@ describe('AdminService', () => {
 
       const result = await service.createPass(dto);
 
-      expect(stellarService.submitRegisterWithRetry).toHaveBeenCalledWith({
+      expect(stellarQueue.enqueue).toHaveBeenCalledWith({
+        operation: 'register',
         wallet,
-        name: 'John',
-        surnames: 'Doe',
-        sourceAccount,
+        payload: { name: 'John', surnames: 'Doe', sourceAccount },
+        idempotencyKey: expect.any(String),
       });
       expect(userService.create).toHaveBeenCalledWith({
         walletAddress: wallet,
@@ -453,6 +626,10 @@ describe('AdminService', () => {
         }),
       );
       expect(failedTxRepository.create).not.toHaveBeenCalled();
+      expect(webhookService.publish).toHaveBeenCalledWith('identity.registered', {
+        wallet,
+        transactionHash: 'tx-hash-123',
+      });
     });
 
     it('returns alreadyRegistered (409 signal) without dead-lettering', async () => {
@@ -463,7 +640,9 @@ describe('AdminService', () => {
         surnames: 'Doe',
       };
 
-      stellarService.submitRegisterWithRetry.mockResolvedValue({
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'failed',
         success: false,
         alreadyRegistered: true,
         attempts: 1,
@@ -474,11 +653,25 @@ describe('AdminService', () => {
 
       expect(result.success).toBe(false);
       expect(result.alreadyRegistered).toBe(true);
-      expect(failedTxRepository.create).not.toHaveBeenCalled();
       expect(userService.create).not.toHaveBeenCalled();
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
+
+    it('skips a registration already in the queue', async () => {
+      stellarQueue.hasInFlightKey.mockResolvedValue(true);
+
+      const result = await service.createPass({
+        wallet,
+        sourceAccount,
+        name: 'John',
+        surnames: 'Doe',
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, skipped: true }));
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
     });
 
-    it('dead-letters after exhausted retries', async () => {
+    it('reports failure once the queue dead-letters the job', async () => {
       const dto: CreatePassDto = {
         wallet,
         sourceAccount,
@@ -486,26 +679,390 @@ describe('AdminService', () => {
         surnames: 'Doe',
       };
 
-      stellarService.submitRegisterWithRetry.mockResolvedValue({
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'dead-lettered',
         success: false,
         attempts: 5,
         lastError: 'network error',
+        deadLetterId: 'dl-1',
       });
 
       const result = await service.createPass(dto);
 
-      expect(failedTxRepository.create).toHaveBeenCalledWith(
-        expect.objectContaining({
-          wallet,
-          operation: 'register',
-          resolved: false,
-        }),
-      );
       expect(result.success).toBe(false);
+      expect(result.error).toBe('network error');
       expect(result.alreadyRegistered).toBeFalsy();
     });
   });
 
+  describe('updateStatus', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+    beforeEach(() => {
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
+        success: true,
+        transactionHash: 'tx-hash-456',
+        attempts: 1,
+      });
+    });
+
+    it('publishes verification.upserted and status.changed webhook events', async () => {
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'APPROVED', sourceAccount },
+        { sessionToken: 'session-1', source: 'veriff' },
+      );
+
+      expect(result.success).toBe(true);
+      expect(webhookService.publish).toHaveBeenCalledWith('verification.upserted', {
+        wallet,
+        vtype: { tag: 'Custom', values: ['APPROVED'] },
+        points: 0,
+        issuer: 'admin',
+        transactionHash: 'tx-hash-456',
+      });
+      expect(webhookService.publish).toHaveBeenCalledWith('status.changed', {
+        wallet,
+        status: 'APPROVED',
+        source: 'veriff',
+        transactionHash: 'tx-hash-456',
+      });
+    });
+
+    it('publishes human.threshold_crossed when the wallet becomes human', async () => {
+      platformService.isHuman
+        .mockResolvedValueOnce({ success: true, isHuman: false, score: 40, message: '' })
+        .mockResolvedValueOnce({ success: true, isHuman: true, score: 60, message: '' });
+
+      await service.updateStatus(wallet, { status: 'APPROVED', sourceAccount });
+
+      expect(webhookService.publish).toHaveBeenCalledWith('human.threshold_crossed', {
+        wallet,
+        isHuman: true,
+        score: 60,
+        previousScore: 40,
+      });
+    });
+
+    it('does not publish human.threshold_crossed when the human flag is unchanged', async () => {
+      platformService.isHuman.mockResolvedValue({
+        success: true,
+        isHuman: true,
+        score: 80,
+        message: '',
+      });
+
+      await service.updateStatus(wallet, { status: 'APPROVED', sourceAccount });
+
+      expect(webhookService.publish).not.toHaveBeenCalledWith(
+        'human.threshold_crossed',
+        expect.anything(),
+      );
+    });
+
+    it('publishes nothing when the on-chain update fails', async () => {
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'failed',
+        success: false,
+        attempts: 5,
+        lastError: 'network error',
+      });
+
+      const result = await service.updateStatus(wallet, { status: 'REJECTED', sourceAccount });
+
+      expect(result.success).toBe(false);
+      expect(webhookService.publish).not.toHaveBeenCalled();
+      expect(kycStatusRepository.confirm).not.toHaveBeenCalled();
+      expect(kycStatusRepository.release).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet, status: 'REJECTED' }),
+        null,
+      );
+    });
+
+    it('keeps the claim of a dead-lettered write until it is retried or discarded', async () => {
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'dead-lettered',
+        success: false,
+        attempts: 5,
+        lastError: 'tx_bad_seq',
+        deadLetterId: 'dl-1',
+      });
+
+      const decidedAt = new Date('2025-03-01T10:00:00Z');
+
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'APPROVED', sourceAccount },
+        { sessionToken: 'session-1', decidedAt },
+      );
+
+      expect(result.success).toBe(false);
+      expect(kycStatusRepository.release).not.toHaveBeenCalled();
+      // The dead-letter record identifies the claim to confirm or release
+      expect(stellarQueue.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ payload: expect.objectContaining({ decidedAt: decidedAt.toISOString() }) }),
+      );
+    });
+
+    it('claims the status before queueing the write and confirms it with the transaction', async () => {
+      const decidedAt = new Date('2025-03-01T10:00:00Z');
+      const decision = {
+        wallet,
+        status: 'APPROVED',
+        decidedAt,
+        source: 'veriff',
+        manual: false,
+        appliedAt: expect.any(Date),
+      };
+
+      await service.updateStatus(
+        wallet,
+        { status: 'APPROVED', sourceAccount },
+        { source: 'veriff', decidedAt, automated: true },
+      );
+
+      expect(kycStatusRepository.claim).toHaveBeenCalledWith(decision, null);
+      expect(kycStatusRepository.claim.mock.invocationCallOrder[0]).toBeLessThan(
+        stellarQueue.enqueue.mock.invocationCallOrder[0],
+      );
+      expect(kycStatusRepository.confirm).toHaveBeenCalledWith(decision, 'tx-hash-456');
+    });
+
+    it('queues nothing when a concurrent decision already claimed the wallet', async () => {
+      kycStatusRepository.claim.mockResolvedValue({
+        claimed: false,
+        current: state({ status: 'APPROVED', decidedAt: new Date('2025-03-01T10:00:00Z') }),
+        transition: { allowed: false, code: 'TRANSITION_NOT_ALLOWED', reason: 'APPROVED -> PENDING requires manual review' },
+      });
+
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'PENDING', sourceAccount },
+        { source: 'veriff', decidedAt: new Date('2025-03-01T11:00:00Z'), automated: true },
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: false, error: 'TRANSITION_NOT_ALLOWED', currentStatus: 'APPROVED' }),
+      );
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
+      expect(kycStatusRepository.recordRejection).toHaveBeenCalled();
+    });
+
+    it('announces nothing for a write a later decision superseded while queued', async () => {
+      kycStatusRepository.confirm.mockResolvedValue(false);
+
+      const result = await service.updateStatus(wallet, { status: 'APPROVED', sourceAccount });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, transactionHash: 'tx-hash-456' }));
+      expect(result.message).toContain('superseded');
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
+
+    it('refuses a late automated resubmission for an approved wallet and records why', async () => {
+      kycStatusRepository.find.mockResolvedValue(
+        state({ status: 'APPROVED', decidedAt: new Date('2025-03-01T10:00:00Z') }),
+      );
+
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'PENDING', sourceAccount },
+        { source: 'veriff', decidedAt: new Date('2025-03-01T11:00:00Z'), automated: true },
+      );
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: false, error: 'TRANSITION_NOT_ALLOWED', currentStatus: 'APPROVED' }),
+      );
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
+      expect(kycStatusRepository.recordRejection).toHaveBeenCalledWith({
+        wallet,
+        from: 'APPROVED',
+        to: 'PENDING',
+        decidedAt: new Date('2025-03-01T11:00:00Z'),
+        currentDecidedAt: new Date('2025-03-01T10:00:00Z'),
+        source: 'veriff',
+        manual: false,
+        code: 'TRANSITION_NOT_ALLOWED',
+        reason: 'APPROVED -> PENDING requires manual review',
+        rejectedAt: expect.any(Date),
+      });
+    });
+
+    it('refuses decisions older than the status in force', async () => {
+      kycStatusRepository.find.mockResolvedValue(
+        state({ status: 'PENDING', decidedAt: new Date('2025-03-01T10:00:00Z') }),
+      );
+
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'APPROVED', sourceAccount },
+        { source: 'veriff', decidedAt: new Date('2025-03-01T09:00:00Z'), automated: true },
+      );
+
+      expect(result.error).toBe('STALE_DECISION');
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('lets manual decisions undo a settled status', async () => {
+      kycStatusRepository.find.mockResolvedValue(state({ status: 'REJECTED' }));
+
+      const result = await service.updateStatus(wallet, { status: 'APPROVED', sourceAccount }, { source: 'kyc-review' });
+
+      expect(result.success).toBe(true);
+      expect(kycStatusRepository.claim).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'APPROVED', manual: true, source: 'kyc-review' }),
+        expect.objectContaining({ status: 'REJECTED' }),
+      );
+    });
+
+    it('falls back to the newest on-chain status for wallets without a stored state', async () => {
+      stellarService.getVerifications.mockResolvedValue([
+        { issuer: 'admin', points: 0, timestamp: BigInt(1700000000), vtype: { tag: 'Custom', values: ['PENDING'] } },
+        { issuer: 'admin', points: 0, timestamp: BigInt(1700000100), vtype: { tag: 'Custom', values: ['APPROVED'] } },
+        { issuer: 'admin', points: 10, timestamp: BigInt(1700000200), vtype: { tag: 'GitHub', values: undefined } },
+      ] as any);
+
+      const result = await service.updateStatus(
+        wallet,
+        { status: 'PENDING', sourceAccount },
+        { source: 'veriff', decidedAt: new Date(), automated: true },
+      );
+
+      expect(result).toEqual(expect.objectContaining({ error: 'TRANSITION_NOT_ALLOWED', currentStatus: 'APPROVED' }));
+    });
+  });
+
+  describe('KYC status transitions', () => {
+    const earlier = new Date('2025-03-01T10:00:00Z');
+    const later = new Date('2025-03-01T11:00:00Z');
+
+    // [from, to, manual, allowed]
+    const table: [StatusType | null, StatusType, boolean, boolean][] = [
+      [null, 'APPROVED', false, true],
+      [null, 'REJECTED', false, true],
+      [null, 'PENDING', false, true],
+      ['PENDING', 'APPROVED', false, true],
+      ['PENDING', 'REJECTED', false, true],
+      ['PENDING', 'PENDING', false, true],
+      ['APPROVED', 'APPROVED', false, true],
+      ['APPROVED', 'PENDING', false, false],
+      ['APPROVED', 'REJECTED', false, false],
+      ['REJECTED', 'REJECTED', false, true],
+      ['REJECTED', 'APPROVED', false, false],
+      ['REJECTED', 'PENDING', false, false],
+      ['APPROVED', 'PENDING', true, true],
+      ['APPROVED', 'REJECTED', true, true],
+      ['REJECTED', 'APPROVED', true, true],
+      ['REJECTED', 'PENDING', true, true],
+    ];
+
+    it.each(table)('%s -> %s (manual: %s) allowed: %s', (from, to, manual, allowed) => {
+      const current = from ? { status: from, decidedAt: earlier } : null;
+
+      const check = checkKycTransition(current, { status: to, decidedAt: later, manual, source: 'test' });
+
+      expect(check.allowed).toBe(allowed);
+      if (check.allowed === false) {
+        expect(check).toEqual({
+          allowed: false,
+          code: 'TRANSITION_NOT_ALLOWED',
+          reason: `${from} -> ${to} requires manual review`,
+        });
+      }
+    });
+
+    it.each([
+      ['automated', false],
+      ['manual', true],
+    ])('refuses %s decisions older than the status in force', (_kind, manual) => {
+      const check = checkKycTransition(
+        { status: 'PENDING', decidedAt: later },
+        { status: 'APPROVED', decidedAt: earlier, manual, source: 'test' },
+      );
+
+      expect(check).toEqual(expect.objectContaining({ allowed: false, code: 'STALE_DECISION' }));
+    });
+
+    it('accepts a decision made at the same time as the status in force', () => {
+      expect(
+        checkKycTransition(
+          { status: 'PENDING', decidedAt: earlier },
+          { status: 'APPROVED', decidedAt: earlier, manual: false, source: 'test' },
+        ),
+      ).toEqual({ allowed: true });
+    });
+  });
+
+  describe('issueVerification', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+    beforeEach(() => {
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
+        success: true,
+        transactionHash: 'tx-hash-789',
+        attempts: 1,
+      });
+    });
+
+    it('queues the verification with the registry points and publishes verification.upserted', async () => {
+      const result = await service.issueVerification(wallet, {
+        type: 'Custom:email',
+        sourceAccount,
+        idempotencyKey: 'key-1',
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, points: 10, transactionHash: 'tx-hash-789' }));
+      expect(verificationTypeRegistry.authorize).toHaveBeenCalledWith({
+        type: 'Custom:email',
+        points: undefined,
+        issuer: sourceAccount,
+      });
+      expect(stellarQueue.enqueue).toHaveBeenCalledWith({
+        operation: 'upsert_verification',
+        wallet,
+        payload: { sourceAccount, issuer: 'admin', points: 10, vtype: { tag: 'Custom', values: ['email'] } },
+        idempotencyKey: 'key-1',
+      });
+      expect(webhookService.publish).toHaveBeenCalledWith('verification.upserted', {
+        wallet,
+        vtype: { tag: 'Custom', values: ['email'] },
+        points: 10,
+        issuer: 'admin',
+        transactionHash: 'tx-hash-789',
+      });
+    });
+
+    it('does not queue a verification the registry rejects', async () => {
+      verificationTypeRegistry.authorize.mockResolvedValue({ allowed: false, message: 'Custom:email is disabled' });
+
+      const result = await service.issueVerification(wallet, { type: 'Custom:email', sourceAccount });
+
+      expect(result.error).toBe('VERIFICATION_NOT_ALLOWED');
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('skips a verification whose key is already in the queue', async () => {
+      stellarQueue.hasInFlightKey.mockResolvedValue(true);
+
+      const result = await service.issueVerification(wallet, {
+        type: 'Custom:email',
+        sourceAccount,
+        idempotencyKey: 'key-1',
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: true, skipped: true }));
+      expect(stellarQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
   describe('retryFailedStellarTx (register)', () => {
     it('retries a dead-lettered register operation and marks it resolved', async () => {
       const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
@@ -526,7 +1083,9 @@ describe('AdminService', () => {
         resolved: false,
         createdAt: new Date(),
       } as any);
-      stellarService.submitRegisterWithRetry.mockResolvedValue({
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
         success: true,
         transactionHash: 'retry-hash',
         attempts: 1,
@@ -534,14 +1093,141 @@ describe('AdminService', () => {
 
       const result = await service.retryFailedStellarTx('rec1');
 
-      expect(stellarService.submitRegisterWithRetry).toHaveBeenCalledWith({
+      expect(stellarQueue.enqueue).toHaveBeenCalledWith({
+        operation: 'register',
         wallet,
-        name: 'John',
-        surnames: 'Doe',
-        sourceAccount,
+        payload: { name: 'John', surnames: 'Doe', sourceAccount },
       });
       expect(failedTxRepository.markResolved).toHaveBeenCalledWith('rec1', 'retry-hash');
+      expect(webhookService.publish).toHaveBeenCalledWith('identity.registered', {
+        wallet,
+        transactionHash: 'retry-hash',
+      });
       expect(result.success).toBe(true);
     });
+
+    it('publishes the status events once a dead-lettered status write lands', async () => {
+      const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+      failedTxRepository.findById.mockResolvedValue({
+        id: 'rec1',
+        wallet,
+        operation: 'upsert_verification',
+        payload: {
+          sourceAccount: 'GSOURCE',
+          issuer: 'admin',
+          points: 0,
+          vtype: { tag: 'Custom', values: ['APPROVED'] },
+          status: 'APPROVED',
+          source: 'veriff',
+        },
+        idempotencyKey: 'k',
+        attempts: 5,
+        lastError: 'tx_bad_seq',
+        resolved: false,
+        createdAt: new Date(),
+      } as any);
+      platformService.isHuman
+        .mockResolvedValueOnce({ success: true, isHuman: false, score: 40, message: '' })
+        .mockResolvedValueOnce({ success: true, isHuman: true, score: 60, message: '' });
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
+        success: true,
+        transactionHash: 'retry-hash',
+        attempts: 1,
+      });
+
+      await service.retryFailedStellarTx('rec1');
+
+      expect(webhookService.publish).toHaveBeenCalledWith('verification.upserted', {
+        wallet,
+        vtype: { tag: 'Custom', values: ['APPROVED'] },
+        points: 0,
+        issuer: 'admin',
+        transactionHash: 'retry-hash',
+      });
+      expect(webhookService.publish).toHaveBeenCalledWith('status.changed', {
+        wallet,
+        status: 'APPROVED',
+        source: 'veriff',
+        transactionHash: 'retry-hash',
+      });
+      expect(webhookService.publish).toHaveBeenCalledWith('human.threshold_crossed', {
+        wallet,
+        isHuman: true,
+        score: 60,
+        previousScore: 40,
+      });
+    });
+
+    it('confirms the KYC status claim the dead-lettered status write kept', async () => {
+      const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+      const decidedAt = '2025-01-01T00:00:00.000Z';
+      failedTxRepository.findById.mockResolvedValue({
+        id: 'rec1',
+        wallet,
+        operation: 'upsert_verification',
+        payload: { status: 'APPROVED', sourceAccount: 'GSOURCE', source: 'veriff', decidedAt },
+        idempotencyKey: 'k',
+        attempts: 5,
+        lastError: 'tx_bad_seq',
+        resolved: false,
+        createdAt: new Date(),
+      } as any);
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'succeeded',
+        success: true,
+        transactionHash: 'retry-hash',
+        attempts: 1,
+      });
+
+      await service.retryFailedStellarTx('rec1');
+
+      expect(kycStatusRepository.confirm).toHaveBeenCalledWith(
+        { wallet, status: 'APPROVED', decidedAt: new Date(decidedAt) },
+        'retry-hash',
+      );
+      expect(webhookService.publish).toHaveBeenCalledWith('status.changed', expect.objectContaining({ wallet }));
+
+      webhookService.publish.mockClear();
+      kycStatusRepository.confirm.mockResolvedValue(false);
+
+      const superseded = await service.retryFailedStellarTx('rec1');
+
+      expect(superseded.success).toBe(true);
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
+
+    it('records the new error when the retry fails', async () => {
+      failedTxRepository.findById.mockResolvedValue({
+        id: 'rec1',
+        wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+        operation: 'upsert_verification',
+        payload: { status: 'APPROVED', sourceAccount: 'GSOURCE' },
+        idempotencyKey: 'k',
+        attempts: 5,
+        lastError: 'tx_bad_seq',
+        resolved: false,
+        createdAt: new Date(),
+      } as any);
+      stellarQueue.enqueue.mockResolvedValue({
+        jobId: 'job-1',
+        state: 'failed',
+        success: false,
+        attempts: 5,
+        lastError: 'Transaction timed out',
+      });
+
+      const result = await service.retryFailedStellarTx('rec1');
+
+      expect(result.success).toBe(false);
+      expect(failedTxRepository.recordRetryError).toHaveBeenCalledWith(
+        'rec1',
+        'Transaction timed out',
+      );
+      expect(failedTxRepository.markResolved).not.toHaveBeenCalled();
+      expect(webhookService.publish).not.toHaveBeenCalled();
+    });
   });
 });
@@ -9,7 +9,10 @@ import {
 import { PlatformService } from './platform.service';
 import { UserService } from './user.service';
 import { StellarTransactionQueue } from './stellar-transaction-queue.service';
+import { WebhookService } from './webhook.service';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
 import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { KycStatusRepository } from '../../infrastructure/firebase/kyc-status.repository';
 import { 
   BuildRegisterTransactionDto,
   BuildRegisterTransactionResponse,
@@ -22,11 +25,21 @@ import {
   GetStatusResponse,
   UpdateStatusDto,
   UpdateStatusResponse,
-  UpdateStatusOptions
+  UpdateStatusOptions,
+  IssueVerificationRequest,
+  IssueVerificationResponse,
+  isStatusType
 } from '../../domain/entities/admin.entity';
 import { ApiKeyRequestDto, ApiKeyResponse as HumanApiKeyResponse } from '../../domain/entities/api-key.entity';
 import { RetryStellarTxResponse } from '../../domain/entities/failed-stellar-tx.entity';
+import { StellarTxJobOutcome, UpsertVerificationJobPayload } from '../../domain/entities/stellar-tx-job.entity';
+import {
+  KycStatusHistoryResponse,
+  KycStatusState,
+  kycStatusClaimOf,
+} from '../../domain/entities/kyc-status.entity';
 import { CreatePassDto, CreatePassResponse, CreatePassOptions } from '../../domain/entities/pass.entity';
+import type { VerificationType } from '../../../packages/stellar-passport/src';
 
 @Injectable()
 export class AdminService {
@@ -38,6 +51,9 @@ export class AdminService {
     private readonly stellarQueue: StellarTransactionQueue,
     private readonly failedTxRepository: FailedStellarTxRepository,
     private readonly userService: UserService,
+    private readonly webhookService: WebhookService,
+    private readonly verificationTypeRegistry: VerificationTypeRegistryService,
+    private readonly kycStatusRepository: KycStatusRepository,
   ) {}
 
 
@@ -134,9 +150,50 @@ export class AdminService {
     }
   }
 
+  /**
+   * Submit a signed create-verification transaction (SUBMIT phase)
+   * The upsert_verification call it carries must pass the verification type registry
+   */
+  async submitCreateVerificationTransaction(
+    submitDto: SubmitSignedTransactionDto
+  ): Promise<SubmitSignedTransactionResponse> {
+    let decoded;
+    try {
+      decoded = this.stellarService.decodeUpsertVerification(submitDto.signedXdr);
+    } catch (error) {
+      return {
+        success: false,
+        message: `Invalid transaction XDR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: 'VERIFICATION_NOT_ALLOWED'
+      };
+    }
+
+    if (!decoded) {
+      return {
+        success: false,
+        message: 'Transaction does not call upsert_verification on the Passport contract',
+        error: 'VERIFICATION_NOT_ALLOWED'
+      };
+    }
+
+    const authorization = await this.verificationTypeRegistry.authorize({
+      type: decoded.vtype,
+      points: decoded.points,
+      issuer: decoded.sourceAccount,
+    });
+
+    if (authorization.allowed === false) {
+      this.logger.warn(`Rejected create verification submit for wallet: ${decoded.wallet}: ${authorization.message}`);
+      return { success: false, message: authorization.message, error: 'VERIFICATION_NOT_ALLOWED' };
+    }
+
+    return this.submitSignedTransaction(submitDto);
+  }
+
   /**
    * Build a transaction for creating verification (BUILD phase)
    * Creates an unsigned XDR transaction that the client can sign
+   * The type, points and issuing source account must pass the verification type registry
    */
   async buildCreateVerificationTransaction(
     buildDto: BuildCreateVerificationTransactionDto
@@ -144,12 +201,23 @@ export class AdminService {
     try {
       this.logger.log(`Building create verification transaction for wallet: ${buildDto.wallet}, source account: ${buildDto.sourceAccount}`);
 
+      const authorization = await this.verificationTypeRegistry.authorize({
+        type: buildDto.verificationType,
+        points: buildDto.points,
+        issuer: buildDto.sourceAccount,
+      });
+
+      if (authorization.allowed === false) {
+        this.logger.warn(`Rejected create verification build for wallet: ${buildDto.wallet}: ${authorization.message}`);
+        return { success: false, message: authorization.message, error: 'VERIFICATION_NOT_ALLOWED' };
+      }
+
       // Create a verification object compatible with the new interface
       const verification = {
         issuer: 'admin', // Default issuer for admin-created verifications
-        points: buildDto.points,
+        points: authorization.points,
         timestamp: BigInt(Date.now()),
-        vtype: this.convertToVerificationType(buildDto.verificationType)
+        vtype: authorization.vtype
       };
 
       // Call the stellar service to build the transaction
@@ -272,23 +340,6 @@ export class AdminService {
     }
   }
 
-  /**
-   * Convert string verification type to VerificationType enum
-   */
-  private convertToVerificationType(type: string): any {
-    switch (type.toLowerCase()) {
-      case 'over18':
-        return { tag: 'Over18', values: undefined };
-      case 'twitter':
-        return { tag: 'Twitter', values: undefined };
-      case 'github':
-        return { tag: 'GitHub', values: undefined };
-      default:
-        // For custom types, wrap in Custom
-        return { tag: 'Custom', values: [type] };
-    }
-  }
-
   /**
    * Get the current sequence number for an account
    */
@@ -347,8 +398,9 @@ export class AdminService {
   }
 
   /**
-   * Get user status from verifications
-   * Searches through user verifications to find Custom verification with status
+   * Get user status
+   * The status applied through the KYC state machine, or, for wallets
+   * without one, the newest Custom status verification on-chain
    */
   async getStatus(wallet: string): Promise<GetStatusResponse> {
     try {
@@ -363,26 +415,7 @@ export class AdminService {
         };
       }
 
-      // Get all verifications for the user
-      const verifications = await this.stellarService.getVerifications(wallet);
-
-      // Look for Custom verification with status (most recent one)
-      let latestStatus: StatusType | null = null;
-      let latestTimestamp = BigInt(0);
-
-      for (const verification of verifications) {
-        if (verification.vtype.tag === 'Custom' && verification.vtype.values[0]) {
-          const customValue = verification.vtype.values[0];
-          // Check if it's a status verification
-          if (['APPROVED', 'PENDING', 'REJECTED'].includes(customValue)) {
-            const status = customValue as StatusType;
-            if (verification.timestamp > latestTimestamp) {
-              latestStatus = status;
-              latestTimestamp = verification.timestamp;
-            }
-          }
-        }
-      }
+      const latestStatus = (await this.currentKycStatus(wallet))?.status ?? null;
 
       if (latestStatus) {
         this.logger.log(`Status found for wallet: ${wallet}, status: ${latestStatus}`);
@@ -413,6 +446,9 @@ export class AdminService {
   /**
    * Update user status by submitting an upsert_verification transaction on-chain.
    * Routed through the serial Stellar transaction queue with optional idempotency.
+   * The change must pass the KYC state machine (checkKycTransition), checked
+   * and claimed in one transaction before the write is queued; refused
+   * decisions are recorded with their reason and nothing is written.
    */
   async updateStatus(
     wallet: string,
@@ -442,7 +478,7 @@ export class AdminService {
         };
       }
 
-      if (!['APPROVED', 'PENDING', 'REJECTED'].includes(updateDto.status)) {
+      if (!isStatusType(updateDto.status)) {
         return {
           success: false,
           message: 'Invalid status type. Must be APPROVED, PENDING, or REJECTED',
@@ -460,7 +496,7 @@ export class AdminService {
           : undefined);
 
       if (idempotencyKey) {
-        if (this.stellarQueue.hasInFlightKey(idempotencyKey)) {
+        if (await this.stellarQueue.hasInFlightKey(idempotencyKey)) {
           this.logger.log(
             `Skipping duplicate in-flight submission for key=${idempotencyKey}`,
           );
@@ -487,33 +523,98 @@ export class AdminService {
         }
       }
 
-      const verification = {
-        issuer: 'admin',
-        points: 0,
-        timestamp: BigInt(Date.now()),
-        vtype: { tag: 'Custom', values: [updateDto.status] } as any,
-      };
-
-      const payload = {
+      const decision: KycStatusState = {
+        wallet,
         status: updateDto.status,
-        sourceAccount: updateDto.sourceAccount,
-        sessionToken: options?.sessionToken,
+        decidedAt: options?.decidedAt ?? new Date(),
+        manual: !options?.automated,
+        source: options?.source ?? 'admin',
+        appliedAt: new Date(),
       };
+      const claim = await this.kycStatusRepository.claim(decision, await this.currentKycStatus(wallet));
 
-      const result = await this.stellarQueue.enqueue(
-        () =>
-          this.stellarService.submitVerificationWithRetry({
+      if (claim.claimed === false) {
+        const { current, transition } = claim;
+        this.logger.warn(`Rejected KYC status ${updateDto.status} for wallet: ${wallet}: ${transition.reason}`);
+        try {
+          await this.kycStatusRepository.recordRejection({
             wallet,
-            verification,
+            from: current?.status,
+            to: decision.status,
+            decidedAt: decision.decidedAt,
+            currentDecidedAt: current?.decidedAt,
+            source: decision.source,
+            manual: decision.manual,
+            code: transition.code,
+            reason: transition.reason,
+            rejectedAt: new Date(),
+          });
+        } catch (error) {
+          this.logger.error(`Failed to record rejected KYC transition for wallet: ${wallet}`, error);
+        }
+        return {
+          success: false,
+          message: `Status transition rejected: ${transition.reason}`,
+          error: transition.code,
+          currentStatus: current?.status,
+        };
+      }
+
+      const before = await this.readHumanity(wallet);
+      const vtype: VerificationType = { tag: 'Custom', values: [updateDto.status] };
+
+      let result: StellarTxJobOutcome;
+      try {
+        result = await this.stellarQueue.enqueue({
+          operation,
+          wallet,
+          payload: {
             sourceAccount: updateDto.sourceAccount,
-          }),
-        idempotencyKey,
-      );
+            issuer: 'admin',
+            points: 0,
+            vtype,
+            status: updateDto.status,
+            source: decision.source,
+            decidedAt: decision.decidedAt.toISOString(),
+            sessionToken: options?.sessionToken,
+          },
+          idempotencyKey,
+        });
+      } catch (error) {
+        await this.releaseKycClaim(decision, claim.previous);
+        throw error;
+      }
 
       if (result.success) {
         this.logger.log(
           `Status updated on-chain for wallet: ${wallet}, status: ${updateDto.status}, hash: ${result.transactionHash}`,
         );
+
+        let superseded = false;
+        try {
+          superseded = !(await this.kycStatusRepository.confirm(decision, result.transactionHash));
+        } catch (error) {
+          this.logger.error(`Status on-chain but not recorded in the KYC state for wallet: ${wallet}`, error);
+        }
+
+        // A later decision claimed the wallet while this one was in the queue;
+        // it is written after this one and announces itself
+        if (superseded) {
+          return {
+            success: true,
+            message: `Status ${updateDto.status} written on-chain but superseded by a later decision`,
+            transactionHash: result.transactionHash,
+            sourceAccount: updateDto.sourceAccount,
+          };
+        }
+
+        await this.publishVerificationConfirmed(
+          wallet,
+          { vtype, points: 0, issuer: 'admin', status: updateDto.status, source: decision.source },
+          result.transactionHash,
+          before,
+        );
+
         return {
           success: true,
           message: `Status updated on-chain: ${updateDto.status}`,
@@ -522,17 +623,10 @@ export class AdminService {
         };
       }
 
-      if (idempotencyKey) {
-        await this.failedTxRepository.create({
-          wallet,
-          operation,
-          payload,
-          idempotencyKey,
-          attempts: result.attempts,
-          lastError: result.lastError ?? 'Unknown error',
-          resolved: false,
-          createdAt: new Date(),
-        });
+      // A dead-lettered write keeps its claim until it is retried (confirmed) or
+      // discarded (released); anything else gives it up
+      if (result.state !== 'dead-lettered') {
+        await this.releaseKycClaim(decision, claim.previous);
       }
 
       return {
@@ -553,6 +647,97 @@ export class AdminService {
     }
   }
 
+  /**
+   * Write a verification on-chain for a wallet (admin-sponsored), routed
+   * through the serial Stellar transaction queue. The type, points and
+   * source account must pass the verification type registry.
+   */
+  async issueVerification(
+    wallet: string,
+    request: IssueVerificationRequest,
+  ): Promise<IssueVerificationResponse> {
+    const operation = 'upsert_verification';
+
+    try {
+      const authorization = await this.verificationTypeRegistry.authorize({
+        type: request.type,
+        points: request.points,
+        issuer: request.sourceAccount,
+      });
+
+      if (authorization.allowed === false) {
+        this.logger.warn(`Rejected ${request.type} verification for wallet: ${wallet}: ${authorization.message}`);
+        return { success: false, message: authorization.message, error: 'VERIFICATION_NOT_ALLOWED' };
+      }
+
+      if (request.idempotencyKey) {
+        if (await this.stellarQueue.hasInFlightKey(request.idempotencyKey)) {
+          this.logger.log(`Skipping duplicate in-flight verification for key=${request.idempotencyKey}`);
+          return { success: true, skipped: true, message: 'Duplicate submission skipped (already in queue)' };
+        }
+
+        const unresolved = await this.failedTxRepository.findUnresolvedByIdempotencyKey(request.idempotencyKey);
+        if (unresolved) {
+          this.logger.log(`Skipping duplicate verification for unresolved dead-letter key=${request.idempotencyKey}`);
+          return {
+            success: true,
+            skipped: true,
+            message: 'Duplicate submission skipped (unresolved dead-letter exists)',
+          };
+        }
+      }
+
+      const before = await this.readHumanity(wallet);
+      const { vtype, points } = authorization;
+
+      const result = await this.stellarQueue.enqueue({
+        operation,
+        wallet,
+        payload: {
+          sourceAccount: request.sourceAccount,
+          issuer: 'admin',
+          points,
+          vtype,
+        },
+        idempotencyKey: request.idempotencyKey,
+      });
+
+      if (result.success) {
+        this.logger.log(
+          `Verification ${authorization.entry.key} written on-chain for wallet: ${wallet}, hash: ${result.transactionHash}`,
+        );
+
+        await this.publishVerificationConfirmed(
+          wallet,
+          { vtype, points, issuer: 'admin' },
+          result.transactionHash,
+          before,
+        );
+
+        return {
+          success: true,
+          message: `Verification ${authorization.entry.key} written on-chain`,
+          points,
+          transactionHash: result.transactionHash,
+        };
+      }
+
+      // With an idempotency key the queue has dead-lettered the job for retry
+      return {
+        success: false,
+        message: `Failed to submit verification: ${result.lastError}`,
+        error: result.lastError,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to issue ${request.type} verification for wallet: ${wallet}`, error);
+      return {
+        success: false,
+        message: `Failed to issue verification: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   /**
    * Register a wallet's identity on-chain (admin-sponsored), routed through the
    * serial Stellar transaction queue with retry/backoff and idempotency.
@@ -581,7 +766,7 @@ export class AdminService {
         options?.idempotencyKey ??
         crypto.createHash('sha256').update(`${dto.wallet}:${operation}`).digest('hex');
 
-      if (this.stellarQueue.hasInFlightKey(idempotencyKey)) {
+      if (await this.stellarQueue.hasInFlightKey(idempotencyKey)) {
         this.logger.log(`Skipping duplicate in-flight register for key=${idempotencyKey}`);
         return { success: true, skipped: true, message: 'Duplicate registration skipped (already in queue)' };
       }
@@ -592,22 +777,16 @@ export class AdminService {
         return { success: true, skipped: true, message: 'Duplicate registration skipped (unresolved dead-letter exists)' };
       }
 
-      const payload = {
-        name: dto.name,
-        surnames: dto.surnames,
-        sourceAccount: dto.sourceAccount,
-      };
-
-      const result = await this.stellarQueue.enqueue(
-        () =>
-          this.stellarService.submitRegisterWithRetry({
-            wallet: dto.wallet,
-            name: dto.name,
-            surnames: dto.surnames,
-            sourceAccount: dto.sourceAccount,
-          }),
+      const result = await this.stellarQueue.enqueue({
+        operation,
+        wallet: dto.wallet,
+        payload: {
+          name: dto.name,
+          surnames: dto.surnames,
+          sourceAccount: dto.sourceAccount,
+        },
         idempotencyKey,
-      );
+      });
 
       if (result.alreadyRegistered) {
         this.logger.warn(`Wallet already registered on-chain: ${dto.wallet}`);
@@ -633,6 +812,11 @@ export class AdminService {
           );
         }
 
+        await this.webhookService.publish('identity.registered', {
+          wallet: dto.wallet,
+          transactionHash: result.transactionHash,
+        });
+
         return {
           success: true,
           message: 'Identity registered on-chain',
@@ -641,18 +825,8 @@ export class AdminService {
         };
       }
 
-      // Exhausted retries -> dead-letter for later retry via /admin/stellar/retry/:id
-      await this.failedTxRepository.create({
-        wallet: dto.wallet,
-        operation,
-        payload,
-        idempotencyKey,
-        attempts: result.attempts,
-        lastError: result.lastError ?? 'Unknown error',
-        resolved: false,
-        createdAt: new Date(),
-      });
-
+      // Exhausted retries -> the queue dead-lettered the job for later retry
+      // via /admin/stellar/retry/:id
       return {
         success: false,
         message: `Failed to register identity: ${result.lastError}`,
@@ -669,7 +843,8 @@ export class AdminService {
   }
 
   /**
-   * Re-enqueue a dead-letter Stellar transaction for retry.
+   * Re-enqueue a dead-letter Stellar transaction for retry. Takes no retry
+   * lease; callers go through DeadLetterService.retry.
    */
   async retryFailedStellarTx(id: string): Promise<RetryStellarTxResponse> {
     const record = await this.failedTxRepository.findById(id);
@@ -705,17 +880,20 @@ export class AdminService {
         };
       }
 
-      const result = await this.stellarQueue.enqueue(() =>
-        this.stellarService.submitRegisterWithRetry({
-          wallet: record.wallet,
-          name,
-          surnames,
-          sourceAccount,
-        }),
-      );
+      const result = await this.stellarQueue.enqueue({
+        operation: 'register',
+        wallet: record.wallet,
+        payload: { name, surnames, sourceAccount },
+      });
 
       if (result.success || result.alreadyRegistered) {
         await this.failedTxRepository.markResolved(id, result.transactionHash);
+        if (result.success) {
+          await this.webhookService.publish('identity.registered', {
+            wallet: record.wallet,
+            transactionHash: result.transactionHash,
+          });
+        }
         return {
           success: true,
           message: result.alreadyRegistered
@@ -725,6 +903,7 @@ export class AdminService {
         };
       }
 
+      await this.failedTxRepository.recordRetryError(id, result.lastError ?? 'Unknown error');
       return {
         success: false,
         message: `Retry failed: ${result.lastError}`,
@@ -732,11 +911,15 @@ export class AdminService {
       };
     }
 
-    // Default: upsert_verification (existing behavior)
+    // Default: upsert_verification. Older records only carry the status;
+    // newer ones carry the verification itself.
     const sourceAccount = record.payload.sourceAccount as string;
     const status = record.payload.status as StatusType;
+    const vtype =
+      (record.payload.vtype as VerificationType) ??
+      (status ? { tag: 'Custom' as const, values: [status] as [string] } : undefined);
 
-    if (!sourceAccount || !status) {
+    if (!sourceAccount || !vtype) {
       return {
         success: false,
         message: 'Dead-letter payload missing sourceAccount or status',
@@ -744,23 +927,40 @@ export class AdminService {
       };
     }
 
-    const verification = {
-      issuer: 'admin',
-      points: 0,
-      timestamp: BigInt(Date.now()),
-      vtype: { tag: 'Custom', values: [status] } as any,
+    const payload = {
+      sourceAccount,
+      issuer: (record.payload.issuer as string) ?? 'admin',
+      points: (record.payload.points as number) ?? 0,
+      vtype,
+      status,
+      source: record.payload.source as string | undefined,
     };
+    const before = await this.readHumanity(record.wallet);
 
-    const result = await this.stellarQueue.enqueue(() =>
-      this.stellarService.submitVerificationWithRetry({
-        wallet: record.wallet,
-        verification,
-        sourceAccount,
-      }),
-    );
+    const result = await this.stellarQueue.enqueue({
+      operation: 'upsert_verification',
+      wallet: record.wallet,
+      payload,
+    });
 
     if (result.success) {
       await this.failedTxRepository.markResolved(id, result.transactionHash);
+
+      // A status write confirms the claim it kept while dead-lettered; a
+      // later decision that replaced it announces itself
+      const claim = kycStatusClaimOf(record.wallet, record.payload);
+      let superseded = false;
+      if (claim) {
+        try {
+          superseded = !(await this.kycStatusRepository.confirm(claim, result.transactionHash));
+        } catch (error) {
+          this.logger.error(`Status on-chain but not recorded in the KYC state for wallet: ${record.wallet}`, error);
+        }
+      }
+
+      if (!superseded) {
+        await this.publishVerificationConfirmed(record.wallet, payload, result.transactionHash, before);
+      }
       return {
         success: true,
         message: 'Dead-letter transaction retried successfully',
@@ -768,6 +968,7 @@ export class AdminService {
       };
     }
 
+    await this.failedTxRepository.recordRetryError(id, result.lastError ?? 'Unknown error');
     return {
       success: false,
       message: `Retry failed: ${result.lastError}`,
@@ -775,4 +976,121 @@ export class AdminService {
     };
   }
 
+  /**
+   * KYC status in force and the decisions refused for a wallet, most recent
+   * first
+   */
+  async kycStatusHistory(wallet: string, limit = 20): Promise<KycStatusHistoryResponse> {
+    const [current, rejections] = await Promise.all([
+      this.kycStatusRepository.find(wallet),
+      this.kycStatusRepository.listRejections(wallet, limit),
+    ]);
+    return { success: true, current: current ?? undefined, rejections };
+  }
+
+  /**
+   * Status in force for a wallet. Wallets whose status predates the state
+   * machine fall back to the newest Custom status verification on-chain,
+   * decided at its ledger timestamp.
+   */
+  private async currentKycStatus(
+    wallet: string,
+  ): Promise<Pick<KycStatusState, 'status' | 'decidedAt'> | null> {
+    const stored = await this.kycStatusRepository.find(wallet);
+    if (stored) {
+      return stored;
+    }
+
+    const verifications = await this.stellarService.getVerifications(wallet);
+    let latest: { status: StatusType; timestamp: bigint } | null = null;
+
+    for (const verification of verifications) {
+      const customValue = verification.vtype.tag === 'Custom' ? verification.vtype.values[0] : undefined;
+      if (
+        isStatusType(customValue) &&
+        (!latest || verification.timestamp > latest.timestamp)
+      ) {
+        latest = { status: customValue, timestamp: verification.timestamp };
+      }
+    }
+
+    return latest ? { status: latest.status, decidedAt: new Date(Number(latest.timestamp) * 1000) } : null;
+  }
+
+  private async releaseKycClaim(decision: KycStatusState, previous: KycStatusState | null): Promise<void> {
+    try {
+      await this.kycStatusRepository.release(decision, previous);
+    } catch (error) {
+      this.logger.error(`Failed to release KYC status ${decision.status} for wallet: ${decision.wallet}`, error);
+    }
+  }
+
+  /** Current score and human flag for a wallet, or null when it cannot be read. */
+  private async readHumanity(wallet: string): Promise<{ isHuman: boolean; score: number } | null> {
+    try {
+      const check = await this.platformService.isHuman(wallet);
+      if (!check?.success || typeof check.score !== 'number') {
+        return null;
+      }
+      return { isHuman: !!check.isHuman, score: check.score };
+    } catch (error) {
+      this.logger.warn(`Could not read humanity for wallet: ${wallet}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Tell integrators about a verification the chain confirmed, whether it
+   * landed on the first try or on a retry of its dead-letter record:
+   * verification.upserted, status.changed for a KYC status, and
+   * human.threshold_crossed.
+   */
+  private async publishVerificationConfirmed(
+    wallet: string,
+    payload: Pick<UpsertVerificationJobPayload, 'vtype' | 'points' | 'issuer' | 'status' | 'source'>,
+    transactionHash: string | undefined,
+    before: { isHuman: boolean; score: number } | null,
+  ): Promise<void> {
+    await this.webhookService.publish('verification.upserted', {
+      wallet,
+      vtype: payload.vtype,
+      points: payload.points,
+      issuer: payload.issuer,
+      transactionHash,
+    });
+    if (payload.status) {
+      await this.webhookService.publish('status.changed', {
+        wallet,
+        status: payload.status,
+        source: payload.source ?? 'admin',
+        transactionHash,
+      });
+    }
+    await this.publishThresholdCrossing(wallet, before);
+  }
+
+  /**
+   * Publish human.threshold_crossed when a write moved the wallet across the
+   * human threshold. Skipped when either side could not be read.
+   */
+  private async publishThresholdCrossing(
+    wallet: string,
+    before: { isHuman: boolean; score: number } | null,
+  ): Promise<void> {
+    if (!before) {
+      return;
+    }
+
+    const after = await this.readHumanity(wallet);
+    if (!after || after.isHuman === before.isHuman) {
+      return;
+    }
+
+    await this.webhookService.publish('human.threshold_crossed', {
+      wallet,
+      isHuman: after.isHuman,
+      score: after.score,
+      previousScore: before.score,
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyRepository } from '../../infrastructure/firebase/api-key.repository';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { IntegratorApiKey } from '../../domain/entities/api-key.entity';
+import { HumanityPolicyService } from './humanity-policy.service';
+
+const sha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  let repository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    findByHash: jest.Mock;
+    findAll: jest.Mock;
+    update: jest.Mock;
+  };
+  let humanityPolicyService: { exists: jest.Mock };
+  let webhookEndpointRepository: { deactivateByOwner: jest.Mock };
+
+  const storedKey: IntegratorApiKey = {
+    id: 'key-1',
+    name: 'Acme',
+    keyHash: sha256('veridion_old'),
+    prefix: 'veridion_old',
+    scopes: ['verify:batch'],
+    revoked: false,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn(async (record) => ({ id: 'key-1', ...record })),
+      findById: jest.fn(),
+      findByHash: jest.fn(),
+      findAll: jest.fn(),
+      update: jest.fn().mockResolvedValue(undefined),
+    };
+
+    humanityPolicyService = { exists: jest.fn().mockResolvedValue(true) };
+    webhookEndpointRepository = { deactivateByOwner: jest.fn().mockResolvedValue(0) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        { provide: ApiKeyRepository, useValue: repository },
+        { provide: HumanityPolicyService, useValue: humanityPolicyService },
+        { provide: WebhookEndpointRepository, useValue: webhookEndpointRepository },
+      ],
+    }).compile();
+
+    service = module.get(ApiKeyService);
+  });
+
+  describe('create', () => {
+    it('stores only the hash and returns the plaintext once', async () => {
+      const result = await service.create({
+        name: 'Acme',
+        scopes: ['verify:batch', 'webhooks:manage', 'verify:batch'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.apiKey).toMatch(/^veridion_[0-9a-f]{64}$/);
+
+      const stored = repository.create.mock.calls[0][0];
+      expect(stored.keyHash).toBe(sha256(result.apiKey!));
+      expect(stored).not.toHaveProperty('apiKey');
+      expect(stored.scopes).toEqual(['verify:batch', 'webhooks:manage']);
+      expect(result.apiKey!.startsWith(stored.prefix)).toBe(true);
+      expect(result.key).not.toHaveProperty('keyHash');
+    });
+  });
+
+  describe('list', () => {
+    it('omits key hashes', async () => {
+      repository.findAll.mockResolvedValue([storedKey]);
+
+      const keys = await service.list();
+
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).not.toHaveProperty('keyHash');
+      expect(keys[0].name).toBe('Acme');
+    });
+  });
+
+  describe('rotate', () => {
+    it('replaces the hash in place and returns the new key', async () => {
+      repository.findById.mockResolvedValue(storedKey);
+
+      const result = await service.rotate('key-1');
+
+      expect(result.success).toBe(true);
+      expect(repository.update).toHaveBeenCalledWith(
+        'key-1',
+        expect.objectContaining({
+          keyHash: sha256(result.apiKey!),
+          rotatedAt: expect.any(Date),
+        }),
+      );
+      expect(result.key?.scopes).toEqual(['verify:batch']);
+    });
+
+    it('returns NOT_FOUND for an unknown id', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      const result = await service.rotate('missing');
+
+      expect(result.error).toBe('NOT_FOUND');
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to rotate a revoked key', async () => {
+      repository.findById.mockResolvedValue({ ...storedKey, revoked: true });
+
+      const result = await service.rotate('key-1');
+
+      expect(result.error).toBe('REVOKED');
+    });
+  });
+
+  describe('revoke', () => {
+    it('marks the key revoked', async () => {
+      repository.findById.mockResolvedValue(storedKey);
+
+      const result = await service.revoke('key-1');
+
+      expect(result.success).toBe(true);
+      expect(repository.update).toHaveBeenCalledWith('key-1', {
+        revoked: true,
+        revokedAt: expect.any(Date),
+      });
+    });
+
+    it('deactivates the webhook endpoints of the key', async () => {
+      repository.findById.mockResolvedValue(storedKey);
+      webhookEndpointRepository.deactivateByOwner.mockResolvedValue(2);
+
+      await service.revoke('key-1');
+
+      expect(webhookEndpointRepository.deactivateByOwner).toHaveBeenCalledWith('key-1');
+    });
+
+    it('returns REVOKED when already revoked', async () => {
+      repository.findById.mockResolvedValue({ ...storedKey, revoked: true });
+
+      const result = await service.revoke('key-1');
+
+      expect(result.error).toBe('REVOKED');
+    });
+  });
+
+  describe('assignPolicy', () => {
+    it('stores an existing policy on the key', async () => {
+      repository.findById.mockResolvedValue(storedKey);
+
+      const result = await service.assignPolicy('key-1', 'kyc-approved');
+
+      expect(humanityPolicyService.exists).toHaveBeenCalledWith('kyc-approved');
+      expect(repository.update).toHaveBeenCalledWith('key-1', { policyId: 'kyc-approved' });
+      expect(result.key.policyId).toBe('kyc-approved');
+    });
+
+    it('clears the policy with null', async () => {
+      repository.findById.mockResolvedValue({ ...storedKey, policyId: 'kyc-approved' });
+
+      const result = await service.assignPolicy('key-1', null);
+
+      expect(repository.update).toHaveBeenCalledWith('key-1', { policyId: null });
+      expect(result.key.policyId).toBeUndefined();
+    });
+
+    it('returns POLICY_NOT_FOUND for an unknown policy', async () => {
+      repository.findById.mockResolvedValue(storedKey);
+      humanityPolicyService.exists.mockResolvedValue(false);
+
+      const result = await service.assignPolicy('key-1', 'missing');
+
+      expect(result.error).toBe('POLICY_NOT_FOUND');
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('looks the key up by hash and records last use', async () => {
+      repository.findByHash.mockResolvedValue(storedKey);
+
+      const result = await service.authenticate('veridion_old');
+
+      expect(repository.findByHash).toHaveBeenCalledWith(sha256('veridion_old'));
+      expect(result).toBe(storedKey);
+      expect(repository.update).toHaveBeenCalledWith('key-1', {
+        lastUsedAt: expect.any(Date),
+      });
+    });
+
+    it('rejects revoked keys', async () => {
+      repository.findByHash.mockResolvedValue({ ...storedKey, revoked: true });
+
+      await expect(service.authenticate('veridion_old')).resolves.toBeNull();
+    });
+
+    it('still authenticates when recording last use fails', async () => {
+      repository.findByHash.mockResolvedValue(storedKey);
+      repository.update.mockRejectedValue(new Error('firestore down'));
+
+      await expect(service.authenticate('veridion_old')).resolves.toBe(storedKey);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { ApiKeyRepository } from '../../infrastructure/firebase/api-key.repository';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { HumanityPolicyService } from './humanity-policy.service';
+import {
+  CreateIntegratorApiKeyDto,
+  IntegratorApiKey,
+  IntegratorApiKeyResponse,
+  IntegratorApiKeyView,
+} from '../../domain/entities/api-key.entity';
+
+const KEY_PREFIX = 'veridion_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(
+    private readonly apiKeyRepository: ApiKeyRepository,
+    private readonly humanityPolicyService: HumanityPolicyService,
+    private readonly webhookEndpointRepository: WebhookEndpointRepository,
+  ) {}
+
+  /**
+   * Mint a new integrator key. The plaintext is returned once and only its
+   * hash is stored.
+   */
+  async create(dto: CreateIntegratorApiKeyDto): Promise<IntegratorApiKeyResponse> {
+    const apiKey = this.mintKey();
+
+    const record = await this.apiKeyRepository.create({
+      name: dto.name,
+      keyHash: this.hashKey(apiKey),
+      prefix: apiKey.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: [...new Set(dto.scopes)],
+      revoked: false,
+      createdAt: new Date(),
+    });
+
+    this.logger.log(`API key created for integrator=${dto.name} id=${record.id}`);
+    return {
+      success: true,
+      message: 'API key created. Store it now, it will not be shown again.',
+      apiKey,
+      key: this.toView(record),
+    };
+  }
+
+  async list(): Promise<IntegratorApiKeyView[]> {
+    const records = await this.apiKeyRepository.findAll();
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * Replace the secret of an existing key in place. The old key stops working
+   * immediately; name and scopes are kept.
+   */
+  async rotate(id: string): Promise<IntegratorApiKeyResponse> {
+    const record = await this.apiKeyRepository.findById(id);
+
+    if (!record) {
+      return { success: false, message: 'API key not found', error: 'NOT_FOUND' };
+    }
+
+    if (record.revoked) {
+      return { success: false, message: 'API key is revoked', error: 'REVOKED' };
+    }
+
+    const apiKey = this.mintKey();
+    const update = {
+      keyHash: this.hashKey(apiKey),
+      prefix: apiKey.slice(0, DISPLAY_PREFIX_LENGTH),
+      rotatedAt: new Date(),
+    };
+
+    await this.apiKeyRepository.update(id, update);
+
+    this.logger.log(`API key rotated for integrator=${record.name} id=${id}`);
+    return {
+      success: true,
+      message: 'API key rotated. Store it now, it will not be shown again.',
+      apiKey,
+      key: this.toView({ ...record, ...update }),
+    };
+  }
+
+  /**
+   * Revoke a key and deactivate its webhook endpoints, so the integrator
+   * stops receiving identity events with it.
+   */
+  async revoke(id: string): Promise<IntegratorApiKeyResponse> {
+    const record = await this.apiKeyRepository.findById(id);
+
+    if (!record) {
+      return { success: false, message: 'API key not found', error: 'NOT_FOUND' };
+    }
+
+    if (record.revoked) {
+      return { success: false, message: 'API key is already revoked', error: 'REVOKED' };
+    }
+
+    const update = { revoked: true, revokedAt: new Date() };
+    await this.apiKeyRepository.update(id, update);
+    const endpoints = await this.webhookEndpointRepository.deactivateByOwner(id);
+
+    this.logger.warn(`API key revoked for integrator=${record.name} id=${id}, webhook endpoints deactivated: ${endpoints}`);
+    return {
+      success: true,
+      message: 'API key revoked',
+      key: this.toView({ ...record, ...update }),
+    };
+  }
+
+  /**
+   * Set the humanity policy used for the key's requests, or clear it with
+   * null so the default policy applies.
+   */
+  async assignPolicy(id: string, policyId: string | null): Promise<IntegratorApiKeyResponse> {
+    const record = await this.apiKeyRepository.findById(id);
+
+    if (!record) {
+      return { success: false, message: 'API key not found', error: 'NOT_FOUND' };
+    }
+
+    if (policyId && !(await this.humanityPolicyService.exists(policyId))) {
+      return {
+        success: false,
+        message: `Humanity policy ${policyId} not found`,
+        error: 'POLICY_NOT_FOUND',
+      };
+    }
+
+    // null (not undefined) so Firestore clears the field
+    await this.apiKeyRepository.update(id, { policyId: policyId || null });
+
+    this.logger.log(`API key policy set for integrator=${record.name} id=${id} policy=${policyId || 'default'}`);
+    return {
+      success: true,
+      message: policyId ? `Humanity policy ${policyId} assigned` : 'Humanity policy cleared',
+      key: this.toView({ ...record, policyId: policyId || undefined }),
+    };
+  }
+
+  /**
+   * Resolve a plaintext key to its active record, or null when the key is
+   * unknown or revoked. Records the last-used timestamp without blocking.
+   */
+  async authenticate(apiKey: string): Promise<IntegratorApiKey | null> {
+    if (!apiKey) {
+      return null;
+    }
+
+    const record = await this.apiKeyRepository.findByHash(this.hashKey(apiKey));
+
+    if (!record || record.revoked) {
+      return null;
+    }
+
+    this.apiKeyRepository
+      .update(record.id, { lastUsedAt: new Date() })
+      .catch((error) =>
+        this.logger.warn(
+          `Failed to record lastUsedAt for API key id=${record.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ),
+      );
+
+    return record;
+  }
+
+  private mintKey(): string {
+    return `${KEY_PREFIX}${crypto.randomBytes(32).toString('hex')}`;
+  }
+
+  private hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private toView(record: IntegratorApiKey): IntegratorApiKeyView {
+    return {
+      id: record.id,
+      name: record.name,
+      prefix: record.prefix,
+      scopes: record.scopes,
+      revoked: record.revoked,
+      policyId: record.policyId,
+      createdAt: record.createdAt,
+      lastUsedAt: record.lastUsedAt,
+      rotatedAt: record.rotatedAt,
+      revokedAt: record.revokedAt,
+    };
+  }
+}
@@ -1,8 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { BadRequestException, UnprocessableEntityException } from '@nestjs/common';
+import {
+  BadRequestException,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { BatchVerifyService } from './batch-verify.service';
 import { IDENTITY_READ_PORT } from '../../domain/ports/identity-read.port';
+import { HumanityPolicyService } from './humanity-policy.service';
+import { HumanityPolicyRepository } from '../../infrastructure/firebase/humanity-policy.repository';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { HumanityPolicy } from '../../domain/entities/humanity-policy.entity';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -13,13 +21,16 @@ const INVALID_WALLET = 'not-a-stellar-address';
 function buildModule(
   overrides: {
     getScore?: jest.Mock;
+    getVerifications?: jest.Mock;
     validateWalletAddress?: jest.Mock;
     threshold?: number;
     maxWallets?: number;
+    policies?: HumanityPolicy[];
   } = {},
 ) {
   const mockIdentityRead = {
     getScore: overrides.getScore ?? jest.fn(),
+    getVerifications: overrides.getVerifications ?? jest.fn().mockResolvedValue([]),
     validateWalletAddress:
       overrides.validateWalletAddress ??
       jest.fn((w: string) => w !== INVALID_WALLET),
@@ -27,8 +38,8 @@ function buildModule(
 
   const mockConfigService = {
     get: jest.fn((key: string, defaultValue?: unknown) => {
-      if (key === 'BATCH_VERIFY_HUMAN_THRESHOLD') {
-        return overrides.threshold ?? 35;
+      if (key === 'HUMAN_THRESHOLD') {
+        return String(overrides.threshold ?? 35);
       }
       if (key === 'BATCH_VERIFY_MAX_WALLETS') {
         return overrides.maxWallets ?? 25;
@@ -41,6 +52,19 @@ function buildModule(
     providers: [
       BatchVerifyService,
       { provide: IDENTITY_READ_PORT, useValue: mockIdentityRead },
+      HumanityPolicyService,
+      {
+        provide: HumanityPolicyRepository,
+        useValue: {
+          findCurrent: jest.fn(
+            async (id: string) => overrides.policies?.find((policy) => policy.id === id) ?? null,
+          ),
+        },
+      },
+      {
+        provide: VerificationTypeRegistryService,
+        useValue: { agingRules: jest.fn().mockResolvedValue({ GitHub: { expirySeconds: 86400 } }) },
+      },
       { provide: ConfigService, useValue: mockConfigService },
     ],
   }).compile();
@@ -80,7 +104,9 @@ describe('BatchVerifyService', () => {
         registered: true,
         score: 50,
         isHuman: true,
+        unmet: [],
       });
+      expect(result.policy).toEqual({ id: 'default', version: 0 });
     });
 
     it('returns isHuman: false for a wallet with score below threshold', async () => {
@@ -128,6 +154,7 @@ describe('BatchVerifyService', () => {
         registered: false,
         score: 0,
         isHuman: false,
+        unmet: ['registered'],
       });
     });
 
@@ -219,7 +246,7 @@ describe('BatchVerifyService', () => {
   // ── Config-driven threshold ────────────────────────────────────────────────
 
   describe('verifyBatch — configurable threshold', () => {
-    it('uses threshold from ConfigService', async () => {
+    it('uses HUMAN_THRESHOLD from ConfigService for the default policy', async () => {
       const module: TestingModule = await buildModule({ threshold: 50 });
       const svc = module.get<BatchVerifyService>(BatchVerifyService);
       const port = module.get(IDENTITY_READ_PORT);
@@ -244,6 +271,73 @@ describe('BatchVerifyService', () => {
     });
   });
 
+  // ── Humanity policies ──────────────────────────────────────────────────────
+
+  describe('verifyBatch — humanity policies', () => {
+    const strict: HumanityPolicy = {
+      id: 'strict',
+      version: 2,
+      minScore: 40,
+      requiredVerifications: [],
+      requiredKycStatus: 'approved',
+      excludedIssuers: [],
+      createdAt: new Date(),
+    };
+
+    it('applies the selected policy and reports its version', async () => {
+      const module: TestingModule = await buildModule({ policies: [strict] });
+      const svc = module.get<BatchVerifyService>(BatchVerifyService);
+      const port = module.get(IDENTITY_READ_PORT);
+      (port.getScore as jest.Mock).mockResolvedValue(45);
+
+      const result = await svc.verifyBatch([VALID_WALLET_A], { integratorPolicyId: 'strict' });
+
+      expect(result.threshold).toBe(40);
+      expect(result.policy).toEqual({ id: 'strict', version: 2 });
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({ isHuman: false, unmet: ['kycStatus:approved'] }),
+      );
+    });
+
+    it('throws 404 for an unknown policy', async () => {
+      await expect(
+        service.verifyBatch([VALID_WALLET_A], { policyId: 'missing' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(identityRead.getScore).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── Effective scoring ──────────────────────────────────────────────────────
+
+  describe('verifyBatch — effective scoring', () => {
+    it('scores wallets by their unexpired verifications', async () => {
+      const nowSeconds = Math.floor(Date.now() / 1000);
+      const getVerifications = jest.fn().mockResolvedValue([
+        { vtype: { tag: 'Over18', values: undefined }, points: 25, timestamp: BigInt(nowSeconds - 60), issuer: 'GISSUER' },
+        { vtype: { tag: 'GitHub', values: undefined }, points: 20, timestamp: BigInt(nowSeconds - 2 * 86400), issuer: 'GISSUER' },
+      ]);
+      const module: TestingModule = await buildModule({ getVerifications });
+      const svc = module.get<BatchVerifyService>(BatchVerifyService);
+      (module.get(IDENTITY_READ_PORT).getScore as jest.Mock).mockResolvedValue(45);
+
+      const result = await svc.verifyBatch([VALID_WALLET_A], {}, 'effective');
+
+      expect(result.scoring).toBe('effective');
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({ score: 25, isHuman: false, unmet: ['minScore'] }),
+      );
+    });
+
+    it('keeps contract scores by default', async () => {
+      identityRead.getScore.mockResolvedValue(45);
+
+      const result = await service.verifyBatch([VALID_WALLET_A]);
+
+      expect(result.scoring).toBe('raw');
+      expect(result.results[0].score).toBe(45);
+    });
+  });
+
   // ── Unexpected errors ──────────────────────────────────────────────────────
 
   describe('verifyBatch — unexpected errors', () => {
@@ -3,28 +3,31 @@ import {
   Inject,
   Injectable,
   Logger,
+  NotFoundException,
   UnprocessableEntityException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { IDENTITY_READ_PORT, IdentityReadPort } from '../../domain/ports/identity-read.port';
 import { BatchVerifyResult, WalletResult } from '../../domain/entities/batch-verify.entity';
+import {
+  HumanityPolicy,
+  HumanityPolicySelection,
+} from '../../domain/entities/humanity-policy.entity';
+import { ScoringMode } from '../../domain/entities/effective-score.entity';
+import { HumanityPolicyService } from './humanity-policy.service';
 
 @Injectable()
 export class BatchVerifyService {
   private readonly logger = new Logger(BatchVerifyService.name);
 
-  private readonly threshold: number;
   private readonly maxWallets: number;
 
   constructor(
     @Inject(IDENTITY_READ_PORT)
     private readonly identityRead: IdentityReadPort,
+    private readonly humanityPolicyService: HumanityPolicyService,
     private readonly configService: ConfigService,
   ) {
-    this.threshold = this.configService.get<number>(
-      'BATCH_VERIFY_HUMAN_THRESHOLD',
-      35,
-    );
     this.maxWallets = this.configService.get<number>(
       'BATCH_VERIFY_MAX_WALLETS',
       25,
@@ -36,12 +39,18 @@ export class BatchVerifyService {
    *
    * Rules:
    *  - Empty array or count > maxWallets → 400
+   *  - Unknown humanity policy → 404
    *  - Invalid address format → skipped, counted in `invalid`
    *  - All addresses invalid → 422
    *  - Unregistered wallet → { registered: false, score: 0, isHuman: false }
-   *  - Registered wallet → score fetched from contract, isHuman = score >= threshold
+   *  - Registered wallet → isHuman decided by the selected humanity policy
+   *  - `effective` scoring → scores aged by the verification type registry
    */
-  async verifyBatch(wallets: string[]): Promise<BatchVerifyResult> {
+  async verifyBatch(
+    wallets: string[],
+    selection: HumanityPolicySelection = {},
+    scoring: ScoringMode = 'raw',
+  ): Promise<BatchVerifyResult> {
     if (!wallets || wallets.length === 0) {
       throw new BadRequestException('wallets array must not be empty.');
     }
@@ -52,6 +61,13 @@ export class BatchVerifyService {
       );
     }
 
+    const policy = await this.humanityPolicyService.resolve(selection);
+    if (!policy) {
+      throw new NotFoundException(
+        `Humanity policy ${selection.policyId || selection.integratorPolicyId} not found.`,
+      );
+    }
+
     const results: WalletResult[] = [];
     let invalidCount = 0;
 
@@ -62,7 +78,7 @@ export class BatchVerifyService {
         continue;
       }
 
-      const result = await this.resolveWallet(wallet);
+      const result = await this.resolveWallet(wallet, policy, scoring);
       results.push(result);
     }
 
@@ -78,7 +94,9 @@ export class BatchVerifyService {
 
     return {
       results,
-      threshold: this.threshold,
+      threshold: policy.minScore,
+      scoring,
+      policy: { id: policy.id, version: policy.version },
       processed: results.length,
       invalid: invalidCount,
     };
@@ -88,28 +106,26 @@ export class BatchVerifyService {
    * Resolve a single (already-validated) wallet address to a WalletResult.
    * Unregistered wallets are handled gracefully rather than surfacing as errors.
    */
-  private async resolveWallet(wallet: string): Promise<WalletResult> {
+  private async resolveWallet(
+    wallet: string,
+    policy: HumanityPolicy,
+    scoring: ScoringMode,
+  ): Promise<WalletResult> {
     try {
-      const score = await this.identityRead.getScore(wallet);
+      const decision = await this.humanityPolicyService.evaluate(wallet, policy, this.identityRead, scoring);
+      if (!decision.registered) {
+        this.logger.debug(`Wallet not registered: ${wallet}`);
+      }
       return {
         wallet,
-        registered: true,
-        score,
-        isHuman: score >= this.threshold,
+        registered: decision.registered,
+        score: decision.score,
+        isHuman: decision.isHuman,
+        unmet: decision.unmet,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
 
-      if (message.includes('User is not registered') || message.includes('NotRegistered')) {
-        this.logger.debug(`Wallet not registered: ${wallet}`);
-        return {
-          wallet,
-          registered: false,
-          score: 0,
-          isHuman: false,
-        };
-      }
-
       // Re-throw unexpected errors so the caller gets a 500 with context.
       this.logger.error(`Unexpected error resolving wallet ${wallet}: ${message}`);
       throw error;
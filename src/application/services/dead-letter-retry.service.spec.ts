@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterRetryService } from './dead-letter-retry.service';
+import { DeadLetterService } from './dead-letter.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { FailedStellarTx } from '../../domain/entities/failed-stellar-tx.entity';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60_000);
+
+const record = (overrides: Partial<FailedStellarTx> = {}): FailedStellarTx => ({
+  id: 'dl-1',
+  wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+  operation: 'upsert_verification',
+  payload: { status: 'APPROVED', sourceAccount: 'GSOURCE' },
+  idempotencyKey: 'key-1',
+  attempts: 5,
+  lastError: 'tx_bad_seq',
+  resolved: false,
+  createdAt: minutesAgo(10),
+  retryCount: 0,
+  nextRetryAt: minutesAgo(10),
+  ...overrides,
+});
+
+describe('DeadLetterRetryService', () => {
+  let service: DeadLetterRetryService;
+  let repository: {
+    backfillNextRetryAt: jest.Mock;
+    findDueForRetry: jest.Mock;
+    scheduleRetry: jest.Mock;
+  };
+  let deadLetterService: { retry: jest.Mock };
+
+  const settings: Record<string, string> = {
+    STELLAR_DLQ_RETRY_BASE_DELAY_MS: '60000',
+    STELLAR_DLQ_MAX_AUTO_RETRIES: '3',
+  };
+
+  beforeEach(async () => {
+    repository = {
+      backfillNextRetryAt: jest.fn().mockResolvedValue(0),
+      findDueForRetry: jest.fn().mockResolvedValue([]),
+      scheduleRetry: jest.fn().mockResolvedValue(undefined),
+    };
+    deadLetterService = { retry: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadLetterRetryService,
+        { provide: FailedStellarTxRepository, useValue: repository },
+        { provide: DeadLetterService, useValue: deadLetterService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DeadLetterRetryService);
+  });
+
+  describe('nextRetryAt', () => {
+    it('backs off exponentially from the last retry', () => {
+      expect(service.nextRetryAt(record())).toEqual(new Date(minutesAgo(10).getTime() + 60_000));
+      expect(service.nextRetryAt(record({ retryCount: 2, retriedAt: minutesAgo(1) }))).toEqual(
+        new Date(minutesAgo(1).getTime() + 4 * 60_000),
+      );
+    });
+
+    it('stops at the retry ceiling and for permanent errors', () => {
+      expect(service.nextRetryAt(record({ retryCount: 3 }))).toBeNull();
+      expect(service.nextRetryAt(record({ lastError: 'Error(Contract, #4)' }))).toBeNull();
+      expect(service.nextRetryAt(record({ resolved: true }))).toBeNull();
+    });
+  });
+
+  describe('sweep', () => {
+    it('retries a due record on its schedule and reschedules it by the backoff', async () => {
+      repository.findDueForRetry.mockResolvedValue([record()]);
+      deadLetterService.retry.mockResolvedValue({ success: false, error: 'tx_bad_seq' });
+
+      const result = await service.sweep(NOW);
+
+      expect(deadLetterService.retry).toHaveBeenCalledWith(
+        'dl-1',
+        { holder: expect.any(String), nextRetryAt: expect.any(Function) },
+        NOW,
+      );
+      const [[, schedule]] = deadLetterService.retry.mock.calls;
+      expect(schedule.nextRetryAt(record({ retryCount: 1, retriedAt: NOW }))).toEqual(
+        new Date(NOW.getTime() + 2 * 60_000),
+      );
+      expect(schedule.nextRetryAt(record({ resolved: true, retryCount: 1 }))).toBeNull();
+      expect(result).toMatchObject({ scanned: 1, retried: 1, succeeded: 0 });
+    });
+
+    it('counts retries that resolve the record', async () => {
+      repository.findDueForRetry.mockResolvedValue([record()]);
+      deadLetterService.retry.mockResolvedValue({ success: true, transactionHash: 'hash' });
+
+      const result = await service.sweep(NOW);
+
+      expect(result.succeeded).toBe(1);
+    });
+
+    it('skips records retried elsewhere meanwhile', async () => {
+      repository.findDueForRetry.mockResolvedValue([record({ id: 'leased' }), record({ id: 'resolved' })]);
+      deadLetterService.retry
+        .mockResolvedValueOnce({ success: false, error: 'RETRY_IN_PROGRESS' })
+        .mockResolvedValueOnce({ success: false, error: 'ALREADY_RESOLVED' });
+
+      const result = await service.sweep(NOW);
+
+      expect(result.retried).toBe(0);
+    });
+
+    it('reschedules records whose backoff has not elapsed', async () => {
+      const retriedAt = minutesAgo(1);
+      repository.findDueForRetry.mockResolvedValue([record({ retryCount: 1, retriedAt })]);
+
+      const result = await service.sweep(NOW);
+
+      expect(repository.scheduleRetry).toHaveBeenCalledWith(
+        'dl-1',
+        new Date(retriedAt.getTime() + 2 * 60_000),
+      );
+      expect(deadLetterService.retry).not.toHaveBeenCalled();
+      expect(result.rescheduled).toBe(1);
+    });
+
+    it('takes permanent failures and exhausted records off the schedule', async () => {
+      repository.findDueForRetry.mockResolvedValue([
+        record({ id: 'permanent', lastError: 'function_trapped' }),
+        record({ id: 'exhausted', retryCount: 3 }),
+      ]);
+
+      const result = await service.sweep(NOW);
+
+      expect(repository.scheduleRetry).toHaveBeenCalledWith('permanent', null);
+      expect(repository.scheduleRetry).toHaveBeenCalledWith('exhausted', null);
+      expect(deadLetterService.retry).not.toHaveBeenCalled();
+      expect(result.exhausted).toBe(2);
+    });
+
+    it('schedules records stored without nextRetryAt before the first sweep only', async () => {
+      await service.sweep(NOW);
+      await service.sweep(NOW);
+
+      expect(repository.backfillNextRetryAt).toHaveBeenCalledTimes(1);
+      expect(repository.backfillNextRetryAt.mock.invocationCallOrder[0]).toBeLessThan(
+        repository.findDueForRetry.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('shares a sweep that is already running', async () => {
+      await Promise.all([service.sweep(NOW), service.sweep(NOW)]);
+
+      expect(repository.findDueForRetry).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { hostname } from 'os';
+import { DeadLetterService } from './dead-letter.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import {
+  DeadLetterSweepResult,
+  FailedStellarTx,
+  isRetriableStellarError,
+} from '../../domain/entities/failed-stellar-tx.entity';
+
+/**
+ * Background worker that retries dead-lettered Stellar transactions whose
+ * last error was transient.
+ *
+ * Every STELLAR_DLQ_RETRY_INTERVAL_MS it picks up records whose nextRetryAt
+ * has passed and retries them through DeadLetterService.retry (and so
+ * through the transaction queue). A record is retried
+ * STELLAR_DLQ_RETRY_BASE_DELAY_MS * 2^retryCount after its last retry (or
+ * after it was created), and left for an operator after
+ * STELLAR_DLQ_MAX_AUTO_RETRIES retries. The per-record retry lease makes it
+ * safe to run on every instance, next to operators retrying by hand. The first sweep schedules records stored before
+ * the worker existed.
+ */
+@Injectable()
+export class DeadLetterRetryService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(DeadLetterRetryService.name);
+  private readonly workerId = `${hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly intervalMs: number;
+  private readonly baseDelayMs: number;
+  private readonly maxRetries: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<DeadLetterSweepResult> | null = null;
+  private backfilled = false;
+
+  constructor(
+    private readonly failedTxRepository: FailedStellarTxRepository,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(this.configService.get<string>('STELLAR_DLQ_RETRY_INTERVAL_MS', '60000'));
+    this.baseDelayMs = Number(this.configService.get<string>('STELLAR_DLQ_RETRY_BASE_DELAY_MS', '60000'));
+    this.maxRetries = Number(this.configService.get<string>('STELLAR_DLQ_MAX_AUTO_RETRIES', '5'));
+    this.batchSize = Number(this.configService.get<string>('STELLAR_DLQ_RETRY_BATCH_SIZE', '10'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      this.logger.log('Dead-letter retry worker disabled (STELLAR_DLQ_RETRY_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => this.logger.error('Dead-letter retry sweep failed', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.sweeping?.catch(() => undefined);
+  }
+
+  /**
+   * Run one sweep. Overlapping calls share the sweep already running.
+   */
+  sweep(now: Date = new Date()): Promise<DeadLetterSweepResult> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep(now).finally(() => {
+        this.sweeping = null;
+      });
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * When the record is next due, or null when it should not be retried
+   * automatically any more.
+   */
+  nextRetryAt(record: FailedStellarTx): Date | null {
+    const retryCount = record.retryCount ?? 0;
+
+    if (
+      record.resolved ||
+      !isRetriableStellarError(record.lastError) ||
+      retryCount >= this.maxRetries
+    ) {
+      return null;
+    }
+
+    const lastTry = record.retriedAt ?? record.createdAt;
+    return new Date(lastTry.getTime() + this.baseDelayMs * Math.pow(2, retryCount));
+  }
+
+  private async runSweep(now: Date): Promise<DeadLetterSweepResult> {
+    const result: DeadLetterSweepResult = {
+      scanned: 0,
+      retried: 0,
+      succeeded: 0,
+      rescheduled: 0,
+      exhausted: 0,
+    };
+
+    if (!this.backfilled) {
+      await this.failedTxRepository.backfillNextRetryAt();
+      this.backfilled = true;
+    }
+
+    const candidates = await this.failedTxRepository.findDueForRetry(now, this.batchSize);
+
+    for (const record of candidates) {
+      result.scanned++;
+      const dueAt = this.nextRetryAt(record);
+
+      if (!dueAt) {
+        await this.failedTxRepository.scheduleRetry(record.id, null);
+        result.exhausted++;
+        this.logger.warn(
+          `Dead-letter id=${record.id} needs an operator (retries=${record.retryCount ?? 0}, lastError=${record.lastError})`,
+        );
+        continue;
+      }
+
+      if (dueAt.getTime() > now.getTime()) {
+        await this.failedTxRepository.scheduleRetry(record.id, dueAt);
+        result.rescheduled++;
+        continue;
+      }
+
+      try {
+        const retry = await this.deadLetterService.retry(
+          record.id,
+          { holder: this.workerId, nextRetryAt: (latest) => this.nextRetryAt(latest) },
+          now,
+        );
+        // Retried elsewhere meanwhile
+        if (retry.error === 'RETRY_IN_PROGRESS' || retry.error === 'ALREADY_RESOLVED') {
+          continue;
+        }
+        result.retried++;
+        if (retry.success) {
+          result.succeeded++;
+        }
+      } catch (error) {
+        result.retried++;
+        this.logger.error(`Automatic retry of dead-letter id=${record.id} failed`, error);
+      }
+    }
+
+    if (result.scanned > 0) {
+      this.logger.log(
+        `Dead-letter sweep: scanned=${result.scanned} retried=${result.retried} succeeded=${result.succeeded} rescheduled=${result.rescheduled} exhausted=${result.exhausted}`,
+      );
+    }
+
+    return result;
+  }
+}
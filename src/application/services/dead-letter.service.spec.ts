@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { DeadLetterService } from './dead-letter.service';
+import { AdminService } from './admin.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { KycStatusRepository } from '../../infrastructure/firebase/kyc-status.repository';
+import { FailedStellarTx } from '../../domain/entities/failed-stellar-tx.entity';
+
+const WALLET = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+const record = (id: string, overrides: Partial<FailedStellarTx> = {}): FailedStellarTx => ({
+  id,
+  wallet: WALLET,
+  operation: 'upsert_verification',
+  payload: { status: 'APPROVED', sourceAccount: 'GSOURCE' },
+  idempotencyKey: `key-${id}`,
+  attempts: 5,
+  lastError: 'tx_bad_seq',
+  resolved: false,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('DeadLetterService', () => {
+  let service: DeadLetterService;
+  let repository: {
+    list: jest.Mock;
+    listErrors: jest.Mock;
+    findById: jest.Mock;
+    markDiscarded: jest.Mock;
+    claimForRetry: jest.Mock;
+    releaseRetryClaim: jest.Mock;
+  };
+  let adminService: { retryFailedStellarTx: jest.Mock };
+  let kycStatusRepository: { release: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      list: jest.fn().mockResolvedValue({ items: [] }),
+      listErrors: jest.fn().mockResolvedValue([]),
+      findById: jest.fn(),
+      markDiscarded: jest.fn().mockResolvedValue(undefined),
+      claimForRetry: jest.fn().mockResolvedValue(true),
+      releaseRetryClaim: jest.fn().mockResolvedValue(undefined),
+    };
+    adminService = { retryFailedStellarTx: jest.fn() };
+    kycStatusRepository = { release: jest.fn().mockResolvedValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadLetterService,
+        { provide: FailedStellarTxRepository, useValue: repository },
+        { provide: AdminService, useValue: adminService },
+        { provide: KycStatusRepository, useValue: kycStatusRepository },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((_key: string, defaultValue?: string) => defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(DeadLetterService);
+  });
+
+  describe('list', () => {
+    it('passes filters, page size and cursor to the repository', async () => {
+      const from = new Date('2025-01-01T00:00:00Z');
+      repository.list.mockResolvedValue({ items: [record('a')], nextCursor: 'a' });
+
+      const result = await service.list({
+        operation: 'register',
+        resolved: false,
+        from,
+        errorContains: 'seq',
+        limit: 10,
+        cursor: 'prev',
+      });
+
+      expect(repository.list).toHaveBeenCalledWith(
+        {
+          operation: 'register',
+          wallet: undefined,
+          resolved: false,
+          from,
+          to: undefined,
+          errorContains: 'seq',
+        },
+        10,
+        'prev',
+      );
+      expect(result).toEqual({ success: true, items: [record('a')], nextCursor: 'a' });
+    });
+
+    it('defaults the page size to 50', async () => {
+      await service.list({});
+
+      expect(repository.list).toHaveBeenCalledWith(expect.any(Object), 50, undefined);
+    });
+  });
+
+  describe('summary', () => {
+    it('counts records by error class', async () => {
+      repository.listErrors.mockResolvedValue([
+        'tx_bad_seq',
+        'Transaction timed out',
+        'Error(Contract, #1)',
+        'HostError: Error(Contract, #4)',
+        'Request failed with status code 503',
+        'Admin keypair not configured (STELLAR_ADMIN_SECRET_KEY)',
+        'something odd',
+      ]);
+
+      const result = await service.summary({ resolved: false });
+
+      expect(result.total).toBe(7);
+      expect(result.byErrorClass).toEqual({
+        bad_sequence: 1,
+        timeout: 1,
+        network: 1,
+        already_registered: 0,
+        contract: 2,
+        configuration: 1,
+        other: 1,
+      });
+    });
+  });
+
+  describe('retry', () => {
+    const NOW = new Date('2025-03-01T12:00:00Z');
+
+    it('retries under the record lease and keeps its schedule', async () => {
+      repository.findById.mockResolvedValue(record('a'));
+      adminService.retryFailedStellarTx.mockResolvedValue({ success: true, transactionHash: 'hash-a' });
+
+      const result = await service.retry('a', undefined, NOW);
+
+      expect(result).toEqual({ success: true, transactionHash: 'hash-a' });
+      expect(repository.claimForRetry).toHaveBeenCalledWith('a', expect.stringMatching(/^operator:/), 300000, NOW, false);
+      const [[, holder]] = repository.claimForRetry.mock.calls;
+      expect(repository.releaseRetryClaim).toHaveBeenCalledWith('a', holder, undefined);
+      expect(repository.claimForRetry.mock.invocationCallOrder[0]).toBeLessThan(
+        adminService.retryFailedStellarTx.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('reports RETRY_IN_PROGRESS without submitting a record leased elsewhere', async () => {
+      repository.findById.mockResolvedValue(record('a'));
+      repository.claimForRetry.mockResolvedValue(false);
+
+      const result = await service.retry('a');
+
+      expect(result.error).toBe('RETRY_IN_PROGRESS');
+      expect(adminService.retryFailedStellarTx).not.toHaveBeenCalled();
+      expect(repository.releaseRetryClaim).not.toHaveBeenCalled();
+    });
+
+    it('retries only due records on a schedule and reschedules them', async () => {
+      const nextRetryAt = new Date('2025-03-01T12:02:00Z');
+      repository.findById.mockResolvedValue(record('a'));
+      adminService.retryFailedStellarTx.mockResolvedValue({ success: false, error: 'tx_bad_seq' });
+
+      await service.retry('a', { holder: 'worker-1', nextRetryAt: () => nextRetryAt }, NOW);
+
+      expect(repository.claimForRetry).toHaveBeenCalledWith('a', 'worker-1', 300000, NOW, true);
+      expect(repository.releaseRetryClaim).toHaveBeenCalledWith('a', 'worker-1', nextRetryAt);
+    });
+
+    it('releases the lease when the retry throws', async () => {
+      repository.findById.mockResolvedValue(record('a'));
+      adminService.retryFailedStellarTx.mockRejectedValue(new Error('firestore down'));
+
+      await expect(service.retry('a')).rejects.toThrow('firestore down');
+      expect(repository.releaseRetryClaim).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns NOT_FOUND and ALREADY_RESOLVED without taking the lease', async () => {
+      repository.findById.mockResolvedValueOnce(null).mockResolvedValueOnce(record('a', { resolved: true }));
+
+      expect((await service.retry('missing')).error).toBe('NOT_FOUND');
+      expect((await service.retry('a')).error).toBe('ALREADY_RESOLVED');
+      expect(repository.claimForRetry).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkRetry', () => {
+    it('retries only unresolved matches and reports each result', async () => {
+      repository.list.mockResolvedValue({ items: [record('a'), record('b')] });
+      repository.findById.mockImplementation(async (id: string) => record(id));
+      adminService.retryFailedStellarTx
+        .mockResolvedValueOnce({ success: true, transactionHash: 'hash-a' })
+        .mockResolvedValueOnce({ success: false, error: 'tx_bad_seq' });
+
+      const result = await service.bulkRetry({ operation: 'upsert_verification', resolved: true });
+
+      expect(repository.list).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'upsert_verification', resolved: false }),
+        25,
+      );
+      expect(adminService.retryFailedStellarTx.mock.calls).toEqual([['a'], ['b']]);
+      expect(repository.claimForRetry.mock.calls.map(([id]) => id)).toEqual(['a', 'b']);
+      expect(result).toMatchObject({
+        attempted: 2,
+        succeeded: 1,
+        failed: 1,
+        results: [
+          { id: 'a', success: true, transactionHash: 'hash-a' },
+          { id: 'b', success: false, error: 'tx_bad_seq' },
+        ],
+      });
+    });
+  });
+
+  describe('discard', () => {
+    it('records who discarded the record and why', async () => {
+      repository.findById
+        .mockResolvedValueOnce(record('a'))
+        .mockResolvedValueOnce(record('a', { resolved: true, discarded: true, discardedBy: 'ops' }));
+
+      const result = await service.discard('a', { reason: 'registered by hand' }, 'ops');
+
+      expect(repository.markDiscarded).toHaveBeenCalledWith('a', 'ops', 'registered by hand');
+      expect(result.success).toBe(true);
+      expect(result.record?.discarded).toBe(true);
+    });
+
+    it('releases the KYC status claim a discarded status write kept', async () => {
+      const decidedAt = '2025-01-01T00:00:00.000Z';
+      repository.findById.mockResolvedValue(
+        record('a', { payload: { status: 'APPROVED', sourceAccount: 'GSOURCE', decidedAt } }),
+      );
+
+      await service.discard('a', { reason: 'decided again by hand' }, 'ops');
+
+      expect(kycStatusRepository.release).toHaveBeenCalledWith(
+        { wallet: WALLET, status: 'APPROVED', decidedAt: new Date(decidedAt) },
+        null,
+      );
+    });
+
+    it('releases nothing for writes without a claim', async () => {
+      repository.findById.mockResolvedValue(record('a'));
+
+      await service.discard('a', { reason: 'registered by hand' }, 'ops');
+
+      expect(kycStatusRepository.release).not.toHaveBeenCalled();
+    });
+
+    it('returns NOT_FOUND for an unknown id', async () => {
+      repository.findById.mockResolvedValue(null);
+
+      const result = await service.discard('missing', { reason: 'x' }, 'ops');
+
+      expect(result.error).toBe('NOT_FOUND');
+      expect(repository.markDiscarded).not.toHaveBeenCalled();
+    });
+
+    it('refuses to discard a resolved record', async () => {
+      repository.findById.mockResolvedValue(record('a', { resolved: true }));
+
+      const result = await service.discard('a', { reason: 'x' }, 'ops');
+
+      expect(result.error).toBe('ALREADY_RESOLVED');
+    });
+  });
+});
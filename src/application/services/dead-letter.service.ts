@@ -0,0 +1,190 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { AdminService } from './admin.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { KycStatusRepository } from '../../infrastructure/firebase/kyc-status.repository';
+import {
+  BulkRetryFailedStellarTxDto,
+  BulkRetryItemResult,
+  BulkRetryStellarTxResponse,
+  classifyStellarError,
+  DeadLetterRetrySchedule,
+  DiscardFailedStellarTxDto,
+  DiscardStellarTxResponse,
+  FailedStellarTxFilter,
+  FailedStellarTxFilterDto,
+  FailedStellarTxSummaryResponse,
+  ListFailedStellarTxQueryDto,
+  ListFailedStellarTxResponse,
+  RetryStellarTxResponse,
+  STELLAR_ERROR_CLASSES,
+  StellarErrorClass,
+} from '../../domain/entities/failed-stellar-tx.entity';
+import { kycStatusClaimOf } from '../../domain/entities/kyc-status.entity';
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_BULK_RETRY_LIMIT = 25;
+
+/**
+ * Operator tooling for the stellar_failed_txs dead-letter queue:
+ * listing, summaries, retries and discard. Every retry, the background
+ * worker's included, goes through retry().
+ */
+@Injectable()
+export class DeadLetterService {
+  private readonly logger = new Logger(DeadLetterService.name);
+  private readonly leaseMs: number;
+
+  constructor(
+    private readonly failedTxRepository: FailedStellarTxRepository,
+    private readonly adminService: AdminService,
+    private readonly kycStatusRepository: KycStatusRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.leaseMs = Number(this.configService.get<string>('STELLAR_DLQ_RETRY_LEASE_MS', '300000'));
+  }
+
+  async list(query: ListFailedStellarTxQueryDto): Promise<ListFailedStellarTxResponse> {
+    const page = await this.failedTxRepository.list(
+      this.toFilter(query),
+      query.limit ?? DEFAULT_PAGE_SIZE,
+      query.cursor,
+    );
+
+    return { success: true, items: page.items, nextCursor: page.nextCursor };
+  }
+
+  async summary(query: FailedStellarTxFilterDto): Promise<FailedStellarTxSummaryResponse> {
+    const errors = await this.failedTxRepository.listErrors(this.toFilter(query));
+
+    const byErrorClass = Object.fromEntries(
+      STELLAR_ERROR_CLASSES.map((errorClass) => [errorClass, 0]),
+    ) as Record<StellarErrorClass, number>;
+    for (const lastError of errors) {
+      byErrorClass[classifyStellarError(lastError)]++;
+    }
+
+    return { success: true, total: errors.length, byErrorClass };
+  }
+
+  /**
+   * Retry one record through AdminService.retryFailedStellarTx under its
+   * retry lease, so operators, bulk retries and the background worker
+   * never submit the same record at once: a record leased by someone else
+   * is RETRY_IN_PROGRESS. Without `schedule` (an operator's retry) the
+   * record need not be due and keeps its schedule.
+   */
+  async retry(
+    id: string,
+    schedule?: DeadLetterRetrySchedule,
+    now: Date = new Date(),
+  ): Promise<RetryStellarTxResponse> {
+    const record = await this.failedTxRepository.findById(id);
+
+    if (!record) {
+      return { success: false, message: 'Dead-letter record not found', error: 'NOT_FOUND' };
+    }
+
+    if (record.resolved || record.resolvedAt) {
+      return { success: false, message: 'Dead-letter record already resolved', error: 'ALREADY_RESOLVED' };
+    }
+
+    const holder = schedule?.holder ?? `operator:${crypto.randomUUID()}`;
+    if (!(await this.failedTxRepository.claimForRetry(id, holder, this.leaseMs, now, !!schedule))) {
+      return { success: false, message: 'Dead-letter record is being retried', error: 'RETRY_IN_PROGRESS' };
+    }
+
+    try {
+      return await this.adminService.retryFailedStellarTx(id);
+    } finally {
+      let nextRetryAt: Date | null | undefined;
+      if (schedule) {
+        const latest = await this.failedTxRepository.findById(id);
+        nextRetryAt = latest ? schedule.nextRetryAt(latest) : null;
+      }
+      await this.failedTxRepository.releaseRetryClaim(id, holder, nextRetryAt);
+    }
+  }
+
+  /**
+   * Retry every unresolved record matching the filter, one after another,
+   * up to `limit`. Retries go through retry() and the Stellar transaction
+   * queue.
+   */
+  async bulkRetry(dto: BulkRetryFailedStellarTxDto): Promise<BulkRetryStellarTxResponse> {
+    const page = await this.failedTxRepository.list(
+      { ...this.toFilter(dto), resolved: false },
+      dto.limit ?? DEFAULT_BULK_RETRY_LIMIT,
+    );
+
+    const results: BulkRetryItemResult[] = [];
+    for (const record of page.items) {
+      const result = await this.retry(record.id);
+      results.push({
+        id: record.id,
+        success: result.success,
+        transactionHash: result.transactionHash,
+        error: result.error,
+      });
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    this.logger.log(`Bulk retry: ${succeeded}/${results.length} dead-letter record(s) resolved`);
+
+    return {
+      success: true,
+      message: `Retried ${results.length} record(s)`,
+      attempted: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  /**
+   * Resolve a record without retrying it, recording who did so and why. A
+   * discarded status write gives up the kyc_status claim it kept, so the
+   * status in force falls back to the one on-chain.
+   */
+  async discard(
+    id: string,
+    dto: DiscardFailedStellarTxDto,
+    discardedBy: string,
+  ): Promise<DiscardStellarTxResponse> {
+    const record = await this.failedTxRepository.findById(id);
+
+    if (!record) {
+      return { success: false, message: 'Dead-letter record not found', error: 'NOT_FOUND' };
+    }
+
+    if (record.resolved || record.resolvedAt) {
+      return { success: false, message: 'Dead-letter record already resolved', error: 'ALREADY_RESOLVED' };
+    }
+
+    await this.failedTxRepository.markDiscarded(id, discardedBy, dto.reason);
+    this.logger.warn(`Dead-letter id=${id} discarded by ${discardedBy}: ${dto.reason}`);
+
+    const claim = kycStatusClaimOf(record.wallet, record.payload);
+    if (claim) {
+      await this.kycStatusRepository.release(claim, null);
+    }
+
+    return {
+      success: true,
+      message: 'Dead-letter record discarded',
+      record: await this.failedTxRepository.findById(id),
+    };
+  }
+
+  private toFilter(dto: FailedStellarTxFilterDto): FailedStellarTxFilter {
+    return {
+      operation: dto.operation,
+      wallet: dto.wallet,
+      resolved: dto.resolved,
+      from: dto.from,
+      to: dto.to,
+      errorContains: dto.errorContains,
+    };
+  }
+}
@@ -1,5 +1,9 @@
 import { Injectable } from '@nestjs/common'
 import { StellarService } from '../../infrastructure/stellar/stellar.service'
+import {
+  IdentityCache,
+  IdentityCacheStats,
+} from '../../infrastructure/cache/identity-cache.service'
 
 export interface HealthStatusResponse {
   status: 'ok' | 'degraded'
@@ -14,7 +18,10 @@ export interface HealthStatusResponse {
 
 @Injectable()
 export class HealthService {
-  constructor(private readonly stellarService: StellarService) {}
+  constructor(
+    private readonly stellarService: StellarService,
+    private readonly identityCache: IdentityCache,
+  ) {}
 
   async getHealth(): Promise<HealthStatusResponse> {
     const stellar = await this.stellarService.checkNetworkReachability()
@@ -26,4 +33,8 @@ export class HealthService {
       stellar,
     }
   }
+
+  getCacheStats(): IdentityCacheStats {
+    return this.identityCache.stats()
+  }
 }
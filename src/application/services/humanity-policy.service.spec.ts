@@ -0,0 +1,290 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HumanityPolicyService } from './humanity-policy.service';
+import { HumanityPolicyRepository } from '../../infrastructure/firebase/humanity-policy.repository';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { HumanityPolicy } from '../../domain/entities/humanity-policy.entity';
+
+const WALLET = 'GWALLETXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+const TRUSTED = 'GTRUSTEDISSUERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+const EXCLUDED = 'GEXCLUDEDISSUERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+
+function policy(overrides: Partial<HumanityPolicy> = {}): HumanityPolicy {
+  return {
+    id: 'strict',
+    version: 1,
+    minScore: 0,
+    requiredVerifications: [],
+    excludedIssuers: [],
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function verification(vtype: any, points: number, timestamp: number, issuer = TRUSTED) {
+  return { vtype, points, timestamp: BigInt(timestamp), issuer };
+}
+
+describe('HumanityPolicyService', () => {
+  let service: HumanityPolicyService;
+  let repository: {
+    saveVersion: jest.Mock;
+    findCurrent: jest.Mock;
+    listCurrent: jest.Mock;
+    listVersions: jest.Mock;
+  };
+  let reader: { getScore: jest.Mock; getVerifications: jest.Mock; validateWalletAddress: jest.Mock };
+  let verificationTypeRegistry: { agingRules: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      saveVersion: jest.fn(async (record) => ({ ...record, version: 2, createdAt: new Date() })),
+      findCurrent: jest.fn().mockResolvedValue(null),
+      listCurrent: jest.fn().mockResolvedValue([]),
+      listVersions: jest.fn().mockResolvedValue([]),
+    };
+    verificationTypeRegistry = { agingRules: jest.fn().mockResolvedValue({}) };
+    reader = {
+      getScore: jest.fn().mockResolvedValue(50),
+      getVerifications: jest.fn().mockResolvedValue([]),
+      validateWalletAddress: jest.fn().mockReturnValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HumanityPolicyService,
+        { provide: HumanityPolicyRepository, useValue: repository },
+        { provide: VerificationTypeRegistryService, useValue: verificationTypeRegistry },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) =>
+              key === 'HUMAN_THRESHOLD' ? '40' : defaultValue,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(HumanityPolicyService);
+  });
+
+  describe('resolve', () => {
+    it('falls back to the built-in default at HUMAN_THRESHOLD', async () => {
+      const resolved = await service.resolve();
+
+      expect(resolved).toEqual(expect.objectContaining({ id: 'default', version: 0, minScore: 40 }));
+    });
+
+    it('lets a stored default override the built-in one', async () => {
+      repository.findCurrent.mockResolvedValue(policy({ id: 'default', version: 4, minScore: 60 }));
+
+      await expect(service.resolve()).resolves.toEqual(expect.objectContaining({ version: 4, minScore: 60 }));
+    });
+
+    it('prefers the explicit policy over the integrator policy', async () => {
+      await service.resolve({ policyId: 'explicit', integratorPolicyId: 'integrator' });
+      await service.resolve({ integratorPolicyId: 'integrator' });
+
+      expect(repository.findCurrent.mock.calls).toEqual([['explicit'], ['integrator']]);
+    });
+
+    it('returns null for an unknown policy', async () => {
+      await expect(service.resolve({ policyId: 'missing' })).resolves.toBeNull();
+    });
+
+    it('caches lookups until a new version is saved', async () => {
+      repository.findCurrent.mockResolvedValue(policy());
+
+      await service.resolve({ policyId: 'strict' });
+      await service.resolve({ policyId: 'strict' });
+      expect(repository.findCurrent).toHaveBeenCalledTimes(1);
+
+      await service.upsert('strict', { minScore: 70 }, 'admin@veridion.id');
+      await expect(service.resolve({ policyId: 'strict' })).resolves.toEqual(
+        expect.objectContaining({ version: 2, minScore: 70 }),
+      );
+      expect(repository.findCurrent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('only reads the score for a score-only policy', async () => {
+      const decision = await service.evaluate(WALLET, policy({ minScore: 50 }), reader);
+
+      expect(decision).toEqual({
+        registered: true,
+        isHuman: true,
+        score: 50,
+        scoring: 'raw',
+        policy: { id: 'strict', version: 1 },
+        unmet: [],
+      });
+      expect(reader.getVerifications).not.toHaveBeenCalled();
+      expect(verificationTypeRegistry.agingRules).not.toHaveBeenCalled();
+    });
+
+    it('reports every unmet requirement', async () => {
+      reader.getScore.mockResolvedValue(10);
+
+      const decision = await service.evaluate(
+        WALLET,
+        policy({ minScore: 35, requiredVerifications: ['Over18'], requiredKycStatus: 'approved' }),
+        reader,
+      );
+
+      expect(decision.isHuman).toBe(false);
+      expect(decision.unmet).toEqual(['minScore', 'verification:Over18', 'kycStatus:approved']);
+    });
+
+    it('matches required verifications by type key, including custom types', async () => {
+      reader.getVerifications.mockResolvedValue([
+        verification({ tag: 'Over18', values: undefined }, 10, 1),
+        verification({ tag: 'Custom', values: ['kyc_sumsub'] }, 20, 2),
+      ]);
+
+      const decision = await service.evaluate(
+        WALLET,
+        policy({ requiredVerifications: ['Over18', 'Custom:kyc_sumsub'] }),
+        reader,
+      );
+
+      expect(decision.isHuman).toBe(true);
+    });
+
+    it('uses the latest KYC status', async () => {
+      reader.getVerifications.mockResolvedValue([
+        verification({ tag: 'Custom', values: ['APPROVED'] }, 0, 5),
+        verification({ tag: 'Custom', values: ['REJECTED'] }, 0, 9),
+      ]);
+
+      const decision = await service.evaluate(WALLET, policy({ requiredKycStatus: 'approved' }), reader);
+
+      expect(decision.unmet).toEqual(['kycStatus:approved']);
+    });
+
+    it('ignores points and verifications from excluded issuers', async () => {
+      reader.getScore.mockResolvedValue(50);
+      reader.getVerifications.mockResolvedValue([
+        verification({ tag: 'Over18', values: undefined }, 30, 1, EXCLUDED),
+        verification({ tag: 'GitHub', values: undefined }, 20, 2),
+      ]);
+
+      const decision = await service.evaluate(
+        WALLET,
+        policy({ minScore: 35, requiredVerifications: ['Over18'], excludedIssuers: [EXCLUDED] }),
+        reader,
+      );
+
+      expect(decision.score).toBe(20);
+      expect(decision.unmet).toEqual(['minScore', 'verification:Over18']);
+    });
+
+    it('treats an unregistered wallet as score 0 and not human', async () => {
+      reader.getScore.mockRejectedValue(new Error('Contract error: User is not registered'));
+
+      const decision = await service.evaluate(WALLET, policy(), reader);
+
+      expect(decision).toEqual(
+        expect.objectContaining({ registered: false, isHuman: false, score: 0, unmet: ['registered'] }),
+      );
+    });
+
+    it('propagates other read errors', async () => {
+      reader.getScore.mockRejectedValue(new Error('RPC timeout'));
+
+      await expect(service.evaluate(WALLET, policy(), reader)).rejects.toThrow('RPC timeout');
+    });
+  });
+
+  describe('effective scoring', () => {
+    const nowSeconds = 1_700_000_000;
+    const day = 86400;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: nowSeconds * 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('scores the aged points of counted verifications instead of the contract score', async () => {
+      verificationTypeRegistry.agingRules.mockResolvedValue({
+        GitHub: { decayHalfLifeSeconds: 10 * day },
+        Twitter: { expirySeconds: 30 * day, decayHalfLifeSeconds: 10 * day },
+      });
+      reader.getScore.mockResolvedValue(75);
+      reader.getVerifications.mockResolvedValue([
+        // two half-lives: 40 -> 10
+        verification({ tag: 'GitHub', values: undefined }, 40, nowSeconds - 20 * day),
+        // past the window despite the decay
+        verification({ tag: 'Twitter', values: undefined }, 10, nowSeconds - 31 * day),
+        // no rule: full points
+        verification({ tag: 'WorldID', values: undefined }, 25, nowSeconds - 400 * day),
+        verification({ tag: 'BrightID', values: undefined }, 30, nowSeconds, EXCLUDED),
+      ]);
+
+      const decision = await service.evaluate(
+        WALLET,
+        policy({ minScore: 35, requiredVerifications: ['Twitter'], excludedIssuers: [EXCLUDED] }),
+        reader,
+        'effective',
+      );
+
+      expect(decision).toEqual(
+        expect.objectContaining({ score: 35, scoring: 'effective', unmet: ['verification:Twitter'] }),
+      );
+    });
+
+    it('rounds partial points down', () => {
+      const decision = service.decide(
+        policy({ minScore: 10 }),
+        10,
+        [verification({ tag: 'GitHub', values: undefined }, 10, nowSeconds - day)],
+        { rules: { GitHub: { decayHalfLifeSeconds: 100 * day } }, now: new Date(nowSeconds * 1000) },
+      );
+
+      expect(decision.score).toBe(9);
+      expect(decision.isHuman).toBe(false);
+    });
+  });
+
+  describe('admin', () => {
+    it('lists the built-in default alongside stored policies', async () => {
+      repository.listCurrent.mockResolvedValue([policy()]);
+
+      const result = await service.list();
+
+      expect(result.policies.map((p) => `${p.id}@${p.version}`)).toEqual(['default@0', 'strict@1']);
+    });
+
+    it('returns NOT_FOUND for an unknown policy', async () => {
+      await expect(service.get('missing')).resolves.toEqual(expect.objectContaining({ error: 'NOT_FOUND' }));
+    });
+
+    it('stores deduplicated requirements with the author', async () => {
+      await service.upsert('strict', {
+        minScore: 35,
+        requiredVerifications: ['Over18', 'Over18'],
+        excludedIssuers: [EXCLUDED, EXCLUDED],
+      }, 'admin@veridion.id');
+
+      expect(repository.saveVersion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'strict',
+          requiredVerifications: ['Over18'],
+          excludedIssuers: [EXCLUDED],
+          createdBy: 'admin@veridion.id',
+        }),
+      );
+    });
+
+    it('rejects invalid policy IDs', async () => {
+      const result = await service.upsert('Not Valid', { minScore: 1 });
+
+      expect(result.error).toBe('INVALID_ID');
+      expect(repository.saveVersion).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Verification } from '../../../packages/stellar-passport/src';
+import { HumanityPolicyRepository } from '../../infrastructure/firebase/humanity-policy.repository';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { IdentityReadPort } from '../../domain/ports/identity-read.port';
+import { verificationTypeKey } from '../../domain/entities/passport-event.entity';
+import { isStatusType } from '../../domain/entities/admin.entity';
+import {
+  DEFAULT_HUMANITY_POLICY_ID,
+  HUMANITY_POLICY_ID_PATTERN,
+  HumanityDecision,
+  HumanityPolicy,
+  HumanityPolicyListResponse,
+  HumanityPolicyResponse,
+  HumanityPolicySelection,
+  KycStatus,
+  UpsertHumanityPolicyDto,
+} from '../../domain/entities/humanity-policy.entity';
+import {
+  ScoringMode,
+  VerificationAgingRules,
+  effectiveScore,
+  isExpired,
+} from '../../domain/entities/effective-score.entity';
+
+interface CachedPolicy {
+  policy: HumanityPolicy | null;
+  expiresAt: number;
+}
+
+/** Aging applied by decide() for effective scoring */
+export interface ScoringAging {
+  rules: VerificationAgingRules;
+  now: Date;
+}
+
+/**
+ * Decides whether a wallet is human. Every humanity check (is-human,
+ * is-human-ns, batch verify) goes through a policy so they cannot disagree.
+ *
+ * Policies are stored versioned in Firestore and picked per request: an
+ * explicit `?policy=` wins, then the policy assigned to the integrator's
+ * API key, then `default`. Until a `default` policy is stored, a built-in
+ * version 0 applies that only requires HUMAN_THRESHOLD points.
+ *
+ * Current versions are cached in memory for HUMANITY_POLICY_CACHE_TTL_MS;
+ * saving a policy refreshes this instance's cache immediately.
+ *
+ * With `effective` scoring the score is recomputed from the verifications,
+ * aged by the expiry and decay of their type in the verification type
+ * registry, and expired verifications no longer satisfy requirements.
+ */
+@Injectable()
+export class HumanityPolicyService {
+  private readonly logger = new Logger(HumanityPolicyService.name);
+  private readonly defaultMinScore: number;
+  private readonly cacheTtlMs: number;
+  private readonly cache = new Map<string, CachedPolicy>();
+
+  constructor(
+    private readonly humanityPolicyRepository: HumanityPolicyRepository,
+    private readonly verificationTypeRegistry: VerificationTypeRegistryService,
+    private readonly configService: ConfigService,
+  ) {
+    this.defaultMinScore = Number(this.configService.get<string>('HUMAN_THRESHOLD', '35'));
+    this.cacheTtlMs = Number(this.configService.get<string>('HUMANITY_POLICY_CACHE_TTL_MS', '60000'));
+  }
+
+  /**
+   * Policy for a request, or null when the selected policy does not exist.
+   */
+  async resolve(selection: HumanityPolicySelection = {}): Promise<HumanityPolicy | null> {
+    const id = selection.policyId || selection.integratorPolicyId || DEFAULT_HUMANITY_POLICY_ID;
+    return this.findCurrent(id);
+  }
+
+  /**
+   * Apply a policy to a wallet. Verifications are only read when the policy
+   * or effective scoring needs them. Unregistered wallets score 0 and are
+   * never human. Other read errors propagate.
+   */
+  async evaluate(
+    wallet: string,
+    policy: HumanityPolicy,
+    reader: IdentityReadPort,
+    scoring: ScoringMode = 'raw',
+  ): Promise<HumanityDecision> {
+    let score: number;
+    let verifications: Verification[] = [];
+    try {
+      score = await reader.getScore(wallet);
+      if (scoring === 'effective' || this.needsVerifications(policy)) {
+        verifications = await reader.getVerifications(wallet);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('User is not registered') || message.includes('NotRegistered')) {
+        return {
+          registered: false,
+          isHuman: false,
+          score: 0,
+          scoring,
+          policy: { id: policy.id, version: policy.version },
+          unmet: ['registered'],
+        };
+      }
+      throw error;
+    }
+
+    const aging = scoring === 'effective' ? await this.scoringAging() : undefined;
+    return this.decide(policy, score, verifications, aging);
+  }
+
+  /**
+   * Aging rules for effective scoring, as of now
+   */
+  async scoringAging(): Promise<ScoringAging> {
+    return { rules: await this.verificationTypeRegistry.agingRules(), now: new Date() };
+  }
+
+  /**
+   * Apply a policy to a registered wallet's contract score and verifications.
+   * `verifications` may be empty when the policy does not need them. With
+   * `aging` the score is the effective score of the counted verifications
+   * instead of the contract score.
+   */
+  decide(
+    policy: HumanityPolicy,
+    contractScore: number,
+    verifications: Verification[],
+    aging?: ScoringAging,
+  ): HumanityDecision {
+    const excluded = new Set(policy.excludedIssuers);
+    let counted = verifications.filter((v) => !excluded.has(v.issuer));
+    let score: number;
+
+    if (aging) {
+      const nowSeconds = aging.now.getTime() / 1000;
+      counted = counted.filter(
+        (v) => !isExpired(nowSeconds - Number(v.timestamp), aging.rules[verificationTypeKey(v.vtype)]),
+      );
+      score = effectiveScore(
+        counted.map((v) => ({
+          type: verificationTypeKey(v.vtype),
+          points: Number(v.points),
+          writtenAt: new Date(Number(v.timestamp) * 1000),
+        })),
+        aging.rules,
+        aging.now,
+      );
+    } else {
+      const excludedPoints = verifications
+        .filter((v) => excluded.has(v.issuer))
+        .reduce((sum, v) => sum + Number(v.points), 0);
+      score = Math.max(0, contractScore - excludedPoints);
+    }
+
+    const unmet: string[] = [];
+    if (score < policy.minScore) {
+      unmet.push('minScore');
+    }
+
+    const present = new Set(counted.map((v) => verificationTypeKey(v.vtype)));
+    for (const key of policy.requiredVerifications) {
+      if (!present.has(key)) {
+        unmet.push(`verification:${key}`);
+      }
+    }
+
+    if (policy.requiredKycStatus && this.kycStatus(counted) !== policy.requiredKycStatus) {
+      unmet.push(`kycStatus:${policy.requiredKycStatus}`);
+    }
+
+    return {
+      registered: true,
+      isHuman: unmet.length === 0,
+      score,
+      scoring: aging ? 'effective' : 'raw',
+      policy: { id: policy.id, version: policy.version },
+      unmet,
+    };
+  }
+
+  async list(): Promise<HumanityPolicyListResponse> {
+    const policies = await this.humanityPolicyRepository.listCurrent();
+    if (!policies.some((policy) => policy.id === DEFAULT_HUMANITY_POLICY_ID)) {
+      policies.unshift(this.builtInDefault());
+    }
+    return { success: true, policies };
+  }
+
+  async get(id: string): Promise<HumanityPolicyResponse> {
+    const [policy, versions] = await Promise.all([
+      this.humanityPolicyRepository.findCurrent(id),
+      this.humanityPolicyRepository.listVersions(id),
+    ]);
+
+    if (!policy) {
+      if (id === DEFAULT_HUMANITY_POLICY_ID) {
+        const builtIn = this.builtInDefault();
+        return { success: true, policy: builtIn, versions: [builtIn] };
+      }
+      return { success: false, message: `Humanity policy ${id} not found`, error: 'NOT_FOUND' };
+    }
+
+    return { success: true, policy, versions };
+  }
+
+  /**
+   * Create a policy, or store the next version of an existing one.
+   */
+  async upsert(
+    id: string,
+    dto: UpsertHumanityPolicyDto,
+    createdBy?: string,
+  ): Promise<HumanityPolicyResponse> {
+    if (!HUMANITY_POLICY_ID_PATTERN.test(id)) {
+      return {
+        success: false,
+        message: 'Policy ID must be lowercase letters, digits and dashes (max 64)',
+        error: 'INVALID_ID',
+      };
+    }
+
+    const policy = await this.humanityPolicyRepository.saveVersion({
+      id,
+      minScore: dto.minScore,
+      requiredVerifications: [...new Set(dto.requiredVerifications ?? [])],
+      requiredKycStatus: dto.requiredKycStatus,
+      excludedIssuers: [...new Set(dto.excludedIssuers ?? [])],
+      description: dto.description,
+      createdBy,
+    });
+
+    this.cache.set(id, { policy, expiresAt: Date.now() + this.cacheTtlMs });
+    this.logger.log(`Humanity policy saved id=${id} version=${policy.version} by=${createdBy}`);
+
+    return { success: true, message: `Humanity policy ${id} saved as version ${policy.version}`, policy };
+  }
+
+  /**
+   * Whether a policy exists (the built-in default always does)
+   */
+  async exists(id: string): Promise<boolean> {
+    return (await this.findCurrent(id)) !== null;
+  }
+
+  private async findCurrent(id: string): Promise<HumanityPolicy | null> {
+    const cached = this.cache.get(id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.policy;
+    }
+
+    let policy = await this.humanityPolicyRepository.findCurrent(id);
+    if (!policy && id === DEFAULT_HUMANITY_POLICY_ID) {
+      policy = this.builtInDefault();
+    }
+
+    this.cache.set(id, { policy, expiresAt: Date.now() + this.cacheTtlMs });
+    return policy;
+  }
+
+  private builtInDefault(): HumanityPolicy {
+    return {
+      id: DEFAULT_HUMANITY_POLICY_ID,
+      version: 0,
+      minScore: this.defaultMinScore,
+      requiredVerifications: [],
+      excludedIssuers: [],
+      description: 'Built-in default: HUMAN_THRESHOLD points',
+      createdAt: new Date(0),
+    };
+  }
+
+  private needsVerifications(policy: HumanityPolicy): boolean {
+    return (
+      policy.requiredVerifications.length > 0 ||
+      policy.excludedIssuers.length > 0 ||
+      !!policy.requiredKycStatus
+    );
+  }
+
+  /**
+   * Latest KYC status written to the wallet by AdminService.updateStatus
+   * (`Custom:APPROVED` and so on), pending when none
+   */
+  private kycStatus(verifications: Verification[]): KycStatus {
+    let latest: { status: string; timestamp: bigint } | null = null;
+    for (const { vtype, timestamp } of verifications) {
+      const symbol = vtype.tag === 'Custom' ? vtype.values[0] : undefined;
+      if (isStatusType(symbol) && (!latest || timestamp > latest.timestamp)) {
+        latest = { status: symbol, timestamp };
+      }
+    }
+
+    return latest ? (latest.status.toLowerCase() as KycStatus) : 'pending';
+  }
+}
@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { KycReviewService } from './kyc-review.service';
+import { AdminService } from './admin.service';
+import { KycReviewCaseRepository } from '../../infrastructure/firebase/kyc-review-case.repository';
+import { KycReviewCase } from '../../domain/entities/kyc-review.entity';
+import { AdminPrincipal } from '../../domain/entities/admin-user.entity';
+
+const WALLET = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+const SOURCE_ACCOUNT = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+const reviewer: AdminPrincipal = { id: 'admin-1', email: 'reviewer@veridion.id', role: 'kyc-reviewer' };
+const otherReviewer: AdminPrincipal = { id: 'admin-2', email: 'other@veridion.id', role: 'kyc-reviewer' };
+
+const reviewCase = (overrides: Partial<KycReviewCase> = {}): KycReviewCase => ({
+  id: 'case-1',
+  wallet: WALLET,
+  reason: 'resubmission',
+  status: 'open',
+  sessionId: 'session-1',
+  openedAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+  comments: [],
+  ...overrides,
+});
+
+describe('KycReviewService', () => {
+  let service: KycReviewService;
+  let repository: {
+    openUnlessUnresolved: jest.Mock;
+    findById: jest.Mock;
+    list: jest.Mock;
+    claim: jest.Mock;
+    addComment: jest.Mock;
+    resolve: jest.Mock;
+  };
+  let adminService: { updateStatus: jest.Mock };
+  let config: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    repository = {
+      openUnlessUnresolved: jest.fn(async (record) => ({ reviewCase: reviewCase(record), created: true })),
+      findById: jest.fn(),
+      list: jest.fn().mockResolvedValue([]),
+      claim: jest.fn(),
+      addComment: jest.fn(),
+      resolve: jest.fn(async (id, resolution) => reviewCase({ id, status: 'resolved', resolution })),
+    };
+    adminService = {
+      updateStatus: jest.fn().mockResolvedValue({ success: true, transactionHash: 'tx-hash' }),
+    };
+    config = { ADMIN_SOURCE_ACCOUNT: SOURCE_ACCOUNT };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KycReviewService,
+        { provide: KycReviewCaseRepository, useValue: repository },
+        { provide: AdminService, useValue: adminService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get(KycReviewService);
+  });
+
+  describe('open', () => {
+    it('opens a case, or returns the unresolved one for the same wallet and reason', async () => {
+      const opened = await service.open({ wallet: WALLET, reason: 'sybil', sessionId: 'session-1' });
+
+      expect(repository.openUnlessUnresolved).toHaveBeenCalledWith({
+        wallet: WALLET,
+        reason: 'sybil',
+        sessionId: 'session-1',
+      });
+      expect(opened).toEqual(expect.objectContaining({ wallet: WALLET, reason: 'sybil', status: 'open' }));
+    });
+
+    it('returns null instead of throwing when the case cannot be stored', async () => {
+      repository.openUnlessUnresolved.mockRejectedValue(new Error('firestore unavailable'));
+
+      await expect(service.open({ wallet: WALLET, reason: 'processing-failure' })).resolves.toBeNull();
+    });
+  });
+
+  describe('list', () => {
+    it('passes the filter and page size to the repository', async () => {
+      await service.list({ status: 'open', reason: 'resubmission', limit: 5 });
+
+      expect(repository.list).toHaveBeenCalledWith({ status: 'open', reason: 'resubmission', wallet: undefined }, 5);
+    });
+  });
+
+  describe('claim', () => {
+    it('claims an open case for the reviewer', async () => {
+      repository.claim.mockResolvedValue(reviewCase({ status: 'claimed', claimedBy: reviewer.email }));
+
+      const result = await service.claim('case-1', reviewer);
+
+      expect(repository.claim).toHaveBeenCalledWith('case-1', reviewer.email);
+      expect(result).toEqual(expect.objectContaining({ success: true }));
+    });
+
+    it('reports a case held by another reviewer', async () => {
+      repository.claim.mockResolvedValue(reviewCase({ status: 'claimed', claimedBy: otherReviewer.email }));
+
+      const result = await service.claim('case-1', reviewer);
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'ALREADY_CLAIMED' }));
+    });
+
+    it('reports resolved and unknown cases', async () => {
+      repository.claim.mockResolvedValueOnce(reviewCase({ status: 'resolved' })).mockResolvedValueOnce(null);
+
+      expect((await service.claim('case-1', reviewer)).error).toBe('ALREADY_RESOLVED');
+      expect((await service.claim('missing', reviewer)).error).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('comment', () => {
+    it('records the comment with its author', async () => {
+      repository.addComment.mockImplementation(async (id, comment) => reviewCase({ id, comments: [comment] }));
+
+      const result = await service.comment('case-1', { body: 'Asked the user for a clearer photo' }, reviewer);
+
+      expect(repository.addComment).toHaveBeenCalledWith('case-1', {
+        author: reviewer.email,
+        body: 'Asked the user for a clearer photo',
+        createdAt: expect.any(Date),
+      });
+      expect(result.case?.comments).toHaveLength(1);
+    });
+  });
+
+  describe('resolve', () => {
+    it('writes the decided status on-chain and records who decided and why', async () => {
+      repository.findById.mockResolvedValue(reviewCase({ status: 'claimed', claimedBy: reviewer.email }));
+
+      const result = await service.resolve('case-1', { status: 'APPROVED', reason: 'Resubmission is valid' }, reviewer);
+
+      expect(adminService.updateStatus).toHaveBeenCalledWith(
+        WALLET,
+        { status: 'APPROVED', sourceAccount: SOURCE_ACCOUNT },
+        { source: 'kyc-review', idempotencyKey: expect.any(String) },
+      );
+      expect(repository.resolve).toHaveBeenCalledWith('case-1', {
+        status: 'APPROVED',
+        decidedBy: reviewer.email,
+        reason: 'Resubmission is valid',
+        decidedAt: expect.any(Date),
+        transactionHash: 'tx-hash',
+      });
+      expect(result).toEqual(expect.objectContaining({ success: true }));
+      expect(result.case?.status).toBe('resolved');
+    });
+
+    it('resolves an open case without a prior claim', async () => {
+      repository.findById.mockResolvedValue(reviewCase());
+
+      const result = await service.resolve('case-1', { status: 'REJECTED', reason: 'Fraudulent document' }, reviewer);
+
+      expect(result.success).toBe(true);
+    });
+
+    it('refuses cases claimed by another reviewer or already resolved', async () => {
+      repository.findById
+        .mockResolvedValueOnce(reviewCase({ status: 'claimed', claimedBy: otherReviewer.email }))
+        .mockResolvedValueOnce(reviewCase({ status: 'resolved' }));
+
+      expect((await service.resolve('case-1', { status: 'APPROVED', reason: 'ok' }, reviewer)).error).toBe(
+        'ALREADY_CLAIMED',
+      );
+      expect((await service.resolve('case-1', { status: 'APPROVED', reason: 'ok' }, reviewer)).error).toBe(
+        'ALREADY_RESOLVED',
+      );
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('leaves the case unresolved when the status update fails', async () => {
+      repository.findById.mockResolvedValue(reviewCase());
+      adminService.updateStatus.mockResolvedValue({ success: false, error: 'tx_bad_seq' });
+
+      const result = await service.resolve('case-1', { status: 'APPROVED', reason: 'ok' }, reviewer);
+
+      expect(result.error).toBe('STATUS_UPDATE_FAILED');
+      expect(repository.resolve).not.toHaveBeenCalled();
+    });
+
+    it('reports NOT_CONFIGURED without an admin source account', async () => {
+      config.ADMIN_SOURCE_ACCOUNT = undefined;
+      repository.findById.mockResolvedValue(reviewCase());
+
+      const result = await service.resolve('case-1', { status: 'APPROVED', reason: 'ok' }, reviewer);
+
+      expect(result.error).toBe('NOT_CONFIGURED');
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+});
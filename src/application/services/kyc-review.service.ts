@@ -0,0 +1,176 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { AdminService } from './admin.service';
+import { KycReviewCaseRepository } from '../../infrastructure/firebase/kyc-review-case.repository';
+import { AdminPrincipal } from '../../domain/entities/admin-user.entity';
+import {
+  CommentKycReviewCaseDto,
+  KycReviewCase,
+  KycReviewCaseListResponse,
+  KycReviewCaseQueryDto,
+  KycReviewCaseResponse,
+  OpenKycReviewCase,
+  ResolveKycReviewCaseDto,
+} from '../../domain/entities/kyc-review.entity';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * Manual review of KYC decisions the webhook could not settle on its own:
+ * resubmission requests, approvals held as possible sybils, and webhooks
+ * that failed to apply. A reviewer claims a case, comments on it and
+ * resolves it with a status, which is written on-chain with
+ * AdminService.updateStatus.
+ */
+@Injectable()
+export class KycReviewService {
+  private readonly logger = new Logger(KycReviewService.name);
+
+  constructor(
+    private readonly reviewCaseRepository: KycReviewCaseRepository,
+    private readonly adminService: AdminService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Open a case, or return the wallet's unresolved case for the same
+   * reason. Never throws: a case that cannot be stored is logged and null
+   * returned, so the caller's own processing is unaffected.
+   */
+  async open(record: OpenKycReviewCase): Promise<KycReviewCase | null> {
+    try {
+      const { reviewCase } = await this.reviewCaseRepository.openUnlessUnresolved(record);
+      return reviewCase;
+    } catch (error) {
+      this.logger.error(`Failed to open ${record.reason} review case for wallet: ${record.wallet}`, error);
+      return null;
+    }
+  }
+
+  async list(query: KycReviewCaseQueryDto): Promise<KycReviewCaseListResponse> {
+    const cases = await this.reviewCaseRepository.list(
+      { status: query.status, reason: query.reason, wallet: query.wallet },
+      query.limit ?? DEFAULT_PAGE_SIZE,
+    );
+    return { success: true, cases };
+  }
+
+  async get(id: string): Promise<KycReviewCaseResponse> {
+    const reviewCase = await this.reviewCaseRepository.findById(id);
+    if (!reviewCase) {
+      return this.notFound();
+    }
+    return { success: true, case: reviewCase };
+  }
+
+  /**
+   * Take an open case. Claiming a case you already hold is a no-op.
+   */
+  async claim(id: string, reviewer: AdminPrincipal): Promise<KycReviewCaseResponse> {
+    const reviewCase = await this.reviewCaseRepository.claim(id, reviewer.email);
+
+    if (!reviewCase) {
+      return this.notFound();
+    }
+
+    if (reviewCase.status === 'resolved') {
+      return { success: false, message: 'Review case already resolved', error: 'ALREADY_RESOLVED', case: reviewCase };
+    }
+
+    if (reviewCase.claimedBy !== reviewer.email) {
+      return {
+        success: false,
+        message: `Review case already claimed by ${reviewCase.claimedBy}`,
+        error: 'ALREADY_CLAIMED',
+        case: reviewCase,
+      };
+    }
+
+    this.logger.log(`KYC review case ${id} claimed by ${reviewer.email}`);
+    return { success: true, message: 'Review case claimed', case: reviewCase };
+  }
+
+  async comment(id: string, dto: CommentKycReviewCaseDto, author: AdminPrincipal): Promise<KycReviewCaseResponse> {
+    const reviewCase = await this.reviewCaseRepository.addComment(id, {
+      author: author.email,
+      body: dto.body,
+      createdAt: new Date(),
+    });
+
+    if (!reviewCase) {
+      return this.notFound();
+    }
+    return { success: true, message: 'Comment added', case: reviewCase };
+  }
+
+  /**
+   * Apply the reviewer's decision on-chain and close the case with who
+   * decided and why. A case claimed by another reviewer cannot be
+   * resolved; an open case is resolved directly. When the status update
+   * fails the case stays as it was.
+   */
+  async resolve(id: string, dto: ResolveKycReviewCaseDto, reviewer: AdminPrincipal): Promise<KycReviewCaseResponse> {
+    const reviewCase = await this.reviewCaseRepository.findById(id);
+
+    if (!reviewCase) {
+      return this.notFound();
+    }
+
+    if (reviewCase.status === 'resolved') {
+      return { success: false, message: 'Review case already resolved', error: 'ALREADY_RESOLVED', case: reviewCase };
+    }
+
+    if (reviewCase.status === 'claimed' && reviewCase.claimedBy !== reviewer.email) {
+      return {
+        success: false,
+        message: `Review case is claimed by ${reviewCase.claimedBy}`,
+        error: 'ALREADY_CLAIMED',
+        case: reviewCase,
+      };
+    }
+
+    const sourceAccount = this.configService.get<string>('ADMIN_SOURCE_ACCOUNT');
+    if (!sourceAccount) {
+      this.logger.error(`Admin source account not configured; cannot resolve review case ${id}`);
+      return { success: false, message: 'Admin source account not configured', error: 'NOT_CONFIGURED' };
+    }
+
+    const update = await this.adminService.updateStatus(
+      reviewCase.wallet,
+      { status: dto.status, sourceAccount },
+      {
+        source: 'kyc-review',
+        idempotencyKey: crypto
+          .createHash('sha256')
+          .update(`${reviewCase.wallet}:upsert_verification:kyc-review:${id}`)
+          .digest('hex'),
+      },
+    );
+
+    if (!update.success) {
+      this.logger.error(`Status update for review case ${id} failed: ${update.error}`);
+      return {
+        success: false,
+        message: `Status update failed: ${update.error}`,
+        error: 'STATUS_UPDATE_FAILED',
+        case: reviewCase,
+      };
+    }
+
+    const resolved = await this.reviewCaseRepository.resolve(id, {
+      status: dto.status,
+      decidedBy: reviewer.email,
+      reason: dto.reason,
+      decidedAt: new Date(),
+      transactionHash: update.transactionHash,
+    });
+
+    this.logger.log(`KYC review case ${id} resolved ${dto.status} for wallet: ${reviewCase.wallet} by ${reviewer.email}`);
+    return { success: true, message: `Review case resolved: ${dto.status}`, case: resolved ?? undefined };
+  }
+
+  private notFound(): KycReviewCaseResponse {
+    return { success: false, message: 'Review case not found', error: 'NOT_FOUND' };
+  }
+}
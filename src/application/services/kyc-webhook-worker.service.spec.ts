@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { KycWebhookWorkerService } from './kyc-webhook-worker.service';
+import { KycService } from './kyc.service';
+import { KycWebhookRepository } from '../../infrastructure/firebase/kyc-webhook.repository';
+import { KycWebhookRecord, QueuedKycDecision } from '../../domain/entities/kyc.entity';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+const record = (overrides: Partial<KycWebhookRecord> = {}): KycWebhookRecord => ({
+  key: 'key-1',
+  provider: 'veriff',
+  webhookId: 'webhook-id',
+  sessionToken: 'session-token',
+  payloadHash: 'hash',
+  decision: 'approved',
+  timestamp: NOW,
+  state: 'queued',
+  deliveries: 1,
+  attempts: 0,
+  nextAttemptAt: NOW,
+  receivedAt: NOW,
+  ...overrides,
+});
+
+const decision: QueuedKycDecision = {
+  provider: 'veriff',
+  webhookId: 'webhook-id',
+  sessionToken: 'session-token',
+  sessionId: 'verification-id',
+  providerStatus: 'approved',
+  status: 'APPROVED',
+  resubmission: false,
+  decidedAt: NOW,
+  adult: true,
+};
+
+describe('KycWebhookWorkerService', () => {
+  let service: KycWebhookWorkerService;
+  let repository: {
+    findDue: jest.Mock;
+    claim: jest.Mock;
+    complete: jest.Mock;
+  };
+  let kycService: { applyDecision: jest.Mock };
+
+  const settings: Record<string, string> = {
+    KYC_WEBHOOK_RETRY_BASE_DELAY_MS: '30000',
+    KYC_WEBHOOK_MAX_ATTEMPTS: '3',
+    KYC_WEBHOOK_PROCESSING_LEASE_MS: '300000',
+  };
+
+  beforeEach(async () => {
+    repository = {
+      findDue: jest.fn().mockResolvedValue([]),
+      claim: jest.fn(async (key, holder) => ({
+        record: record({ key, state: 'processing', attempts: 1, claimedBy: holder, startedAt: NOW }),
+        decision,
+      })),
+      complete: jest.fn().mockResolvedValue(undefined),
+    };
+    kycService = { applyDecision: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KycWebhookWorkerService,
+        { provide: KycWebhookRepository, useValue: repository },
+        { provide: KycService, useValue: kycService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(KycWebhookWorkerService);
+  });
+
+  describe('nextAttemptAt', () => {
+    it('backs off exponentially after each failed attempt', () => {
+      expect(service.nextAttemptAt(1, NOW)).toEqual(new Date(NOW.getTime() + 30_000));
+      expect(service.nextAttemptAt(2, NOW)).toEqual(new Date(NOW.getTime() + 60_000));
+    });
+
+    it('gives up after the last attempt', () => {
+      expect(service.nextAttemptAt(3, NOW)).toBeNull();
+    });
+  });
+
+  describe('sweep', () => {
+    it('applies a due webhook under a lease and stores the result', async () => {
+      const result = { success: true, message: 'Webhook processed successfully. Status: APPROVED', wallet };
+      repository.findDue.mockResolvedValue([record()]);
+      kycService.applyDecision.mockResolvedValue(result);
+
+      const sweep = await service.sweep(NOW);
+
+      expect(repository.findDue).toHaveBeenCalledWith(NOW, 300000, 10);
+      expect(repository.claim).toHaveBeenCalledWith('key-1', expect.any(String), 300000, NOW);
+      expect(kycService.applyDecision).toHaveBeenCalledWith(decision);
+      expect(repository.complete).toHaveBeenCalledWith(
+        'key-1',
+        repository.claim.mock.calls[0][1],
+        { wallet, result },
+        null,
+      );
+      expect(sweep).toEqual({ scanned: 1, attempted: 1, processed: 1, rescheduled: 0, failed: 0 });
+    });
+
+    it('queues a failed attempt again with backoff', async () => {
+      repository.findDue.mockResolvedValue([record()]);
+      kycService.applyDecision.mockResolvedValue({ success: false, error: 'tx_bad_seq', wallet });
+
+      const sweep = await service.sweep(NOW);
+
+      expect(repository.complete).toHaveBeenCalledWith(
+        'key-1',
+        expect.any(String),
+        expect.objectContaining({ result: expect.objectContaining({ error: 'tx_bad_seq' }) }),
+        new Date(NOW.getTime() + 30_000),
+      );
+      expect(sweep.rescheduled).toBe(1);
+    });
+
+    it('marks the webhook failed after its last attempt', async () => {
+      repository.findDue.mockResolvedValue([record({ attempts: 2 })]);
+      repository.claim.mockResolvedValue({ record: record({ state: 'processing', attempts: 3 }), decision });
+      kycService.applyDecision.mockRejectedValue(new Error('queue unavailable'));
+
+      const sweep = await service.sweep(NOW);
+
+      expect(repository.complete).toHaveBeenCalledWith(
+        'key-1',
+        expect.any(String),
+        expect.objectContaining({ result: expect.objectContaining({ success: false, error: 'queue unavailable' }) }),
+        null,
+      );
+      expect(sweep.failed).toBe(1);
+    });
+
+    it('skips webhooks another worker claimed', async () => {
+      repository.findDue.mockResolvedValue([record()]);
+      repository.claim.mockResolvedValue(null);
+
+      const sweep = await service.sweep(NOW);
+
+      expect(kycService.applyDecision).not.toHaveBeenCalled();
+      expect(repository.complete).not.toHaveBeenCalled();
+      expect(sweep).toEqual({ scanned: 1, attempted: 0, processed: 0, rescheduled: 0, failed: 0 });
+    });
+
+    it('shares a sweep already running', async () => {
+      let release: (records: KycWebhookRecord[]) => void = () => undefined;
+      repository.findDue.mockReturnValue(new Promise((resolve) => (release = resolve)));
+
+      const first = service.sweep(NOW);
+      const second = service.sweep(NOW);
+      release([]);
+
+      expect(await first).toBe(await second);
+      expect(repository.findDue).toHaveBeenCalledTimes(1);
+    });
+
+    it('sweeps once more when woken during a sweep', async () => {
+      let release: (records: KycWebhookRecord[]) => void = () => undefined;
+      repository.findDue.mockReturnValueOnce(new Promise((resolve) => (release = resolve)));
+
+      const running = service.sweep(NOW);
+      service.wake();
+      service.wake();
+      release([]);
+      await running;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(repository.findDue).toHaveBeenCalledTimes(2);
+    });
+
+    it('is not woken while disabled', async () => {
+      settings.KYC_WEBHOOK_WORKER_INTERVAL_MS = '0';
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          KycWebhookWorkerService,
+          { provide: KycWebhookRepository, useValue: repository },
+          { provide: KycService, useValue: kycService },
+          {
+            provide: ConfigService,
+            useValue: {
+              get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+            },
+          },
+        ],
+      }).compile();
+      delete settings.KYC_WEBHOOK_WORKER_INTERVAL_MS;
+
+      module.get(KycWebhookWorkerService).wake();
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(repository.findDue).not.toHaveBeenCalled();
+    });
+  });
+});
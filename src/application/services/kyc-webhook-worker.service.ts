@@ -0,0 +1,188 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { hostname } from 'os';
+import { KycService } from './kyc.service';
+import { KycWebhookRepository } from '../../infrastructure/firebase/kyc-webhook.repository';
+import {
+  ClaimedKycWebhook,
+  KycWebhookResponse,
+  KycWebhookSweepResult,
+} from '../../domain/entities/kyc.entity';
+
+/**
+ * Background worker that applies the KYC provider webhooks accepted into
+ * the inbox.
+ *
+ * Every KYC_WEBHOOK_WORKER_INTERVAL_MS, and right after a webhook is
+ * queued, it claims due webhooks and applies their decisions through
+ * KycService.applyDecision. A failed attempt is queued again
+ * KYC_WEBHOOK_RETRY_BASE_DELAY_MS * 2^(attempts - 1) later, and marked
+ * failed after KYC_WEBHOOK_MAX_ATTEMPTS attempts. A webhook left
+ * processing for KYC_WEBHOOK_PROCESSING_LEASE_MS, by a worker that died,
+ * is picked up again. The per-webhook lease makes it safe to run on every
+ * instance.
+ */
+@Injectable()
+export class KycWebhookWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(KycWebhookWorkerService.name);
+  private readonly workerId = `${hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly intervalMs: number;
+  private readonly baseDelayMs: number;
+  private readonly maxAttempts: number;
+  private readonly batchSize: number;
+  private readonly leaseMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping: Promise<KycWebhookSweepResult> | null = null;
+  private sweepAgain = false;
+
+  constructor(
+    private readonly webhookRepository: KycWebhookRepository,
+    private readonly kycService: KycService,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(this.configService.get<string>('KYC_WEBHOOK_WORKER_INTERVAL_MS', '5000'));
+    this.baseDelayMs = Number(this.configService.get<string>('KYC_WEBHOOK_RETRY_BASE_DELAY_MS', '30000'));
+    this.maxAttempts = Number(this.configService.get<string>('KYC_WEBHOOK_MAX_ATTEMPTS', '5'));
+    this.batchSize = Number(this.configService.get<string>('KYC_WEBHOOK_WORKER_BATCH_SIZE', '10'));
+    this.leaseMs = Number(this.configService.get<string>('KYC_WEBHOOK_PROCESSING_LEASE_MS', '300000'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      this.logger.log('KYC webhook worker disabled (KYC_WEBHOOK_WORKER_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => this.wake(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.sweepAgain = false;
+    await this.sweeping?.catch(() => undefined);
+  }
+
+  /**
+   * Start a sweep without waiting for it, e.g. once a webhook is queued. A
+   * call during a sweep runs one more sweep after it, so the webhook is not
+   * left for the next interval. Does nothing while the worker is disabled.
+   */
+  wake(): void {
+    if (!(this.intervalMs > 0)) {
+      return;
+    }
+
+    if (this.sweeping) {
+      this.sweepAgain = true;
+      return;
+    }
+
+    this.sweep().catch((error) => this.logger.error('KYC webhook sweep failed', error));
+  }
+
+  /**
+   * Run one sweep. Overlapping calls share the sweep already running.
+   */
+  sweep(now: Date = new Date()): Promise<KycWebhookSweepResult> {
+    if (!this.sweeping) {
+      this.sweeping = this.runSweep(now).finally(() => {
+        this.sweeping = null;
+        if (this.sweepAgain) {
+          this.sweepAgain = false;
+          this.wake();
+        }
+      });
+    }
+    return this.sweeping;
+  }
+
+  /**
+   * When a webhook that failed its `attempts`-th attempt is next due, or
+   * null when it has no attempts left.
+   */
+  nextAttemptAt(attempts: number, now: Date): Date | null {
+    if (attempts >= this.maxAttempts) {
+      return null;
+    }
+    return new Date(now.getTime() + this.baseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)));
+  }
+
+  private async runSweep(now: Date): Promise<KycWebhookSweepResult> {
+    const result: KycWebhookSweepResult = {
+      scanned: 0,
+      attempted: 0,
+      processed: 0,
+      rescheduled: 0,
+      failed: 0,
+    };
+
+    const due = await this.webhookRepository.findDue(now, this.leaseMs, this.batchSize);
+
+    for (const record of due) {
+      result.scanned++;
+
+      const claimed = await this.webhookRepository.claim(record.key, this.workerId, this.leaseMs, now);
+      if (!claimed) {
+        continue;
+      }
+
+      result.attempted++;
+      const outcome = await this.apply(claimed);
+      const retryAt = outcome.success ? null : this.nextAttemptAt(claimed.record.attempts, now);
+
+      if (outcome.success) {
+        result.processed++;
+      } else if (retryAt) {
+        result.rescheduled++;
+      } else {
+        result.failed++;
+        this.logger.warn(
+          `KYC webhook key=${record.key} failed after ${claimed.record.attempts} attempts: ${outcome.error}`,
+        );
+      }
+
+      try {
+        await this.webhookRepository.complete(
+          record.key,
+          this.workerId,
+          { wallet: outcome.wallet, result: outcome },
+          retryAt,
+        );
+      } catch (error) {
+        this.logger.error(`KYC webhook key=${record.key} applied but its outcome was not stored`, error);
+      }
+    }
+
+    if (result.scanned > 0) {
+      this.logger.log(
+        `KYC webhook sweep: scanned=${result.scanned} attempted=${result.attempted} processed=${result.processed} rescheduled=${result.rescheduled} failed=${result.failed}`,
+      );
+    }
+
+    return result;
+  }
+
+  private async apply(claimed: ClaimedKycWebhook): Promise<KycWebhookResponse> {
+    try {
+      return await this.kycService.applyDecision(claimed.decision);
+    } catch (error) {
+      this.logger.error(`Failed to apply KYC webhook key=${claimed.record.key}`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        message: `Failed to process webhook: ${message}`,
+        error: message,
+      };
+    }
+  }
+}
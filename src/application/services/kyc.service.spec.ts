@@ -0,0 +1,1176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { KycService } from './kyc.service';
+import { AdminService } from './admin.service';
+import { KycSessionRepository } from '../../infrastructure/firebase/kyc-session.repository';
+import { KycFingerprintRepository } from '../../infrastructure/firebase/kyc-fingerprint.repository';
+import { KycReviewService } from './kyc-review.service';
+import { KycWebhookRepository } from '../../infrastructure/firebase/kyc-webhook.repository';
+import { signVeriffPayload } from '../../infrastructure/veriff/veriff.client';
+import { VeriffKycAdapter } from '../../infrastructure/veriff/veriff-kyc.adapter';
+import { SumsubKycAdapter } from '../../infrastructure/sumsub/sumsub-kyc.adapter';
+import { KYC_PROVIDERS, KycProviderPort } from '../../domain/ports/kyc-provider.port';
+import { VeriffWebhookDto } from '../../domain/entities/veriff.entity';
+import {
+  KycProviderName,
+  KycWebhookRequest,
+  KycWebhookResponse,
+  QueuedKycDecision,
+  isAdult,
+} from '../../domain/entities/kyc.entity';
+import { kycDocumentFingerprint } from '../../domain/entities/kyc-fingerprint.entity';
+
+const kycProviders = [
+  VeriffKycAdapter,
+  SumsubKycAdapter,
+  {
+    provide: KYC_PROVIDERS,
+    useFactory: (...providers: KycProviderPort[]) => providers,
+    inject: [VeriffKycAdapter, SumsubKycAdapter],
+  },
+];
+
+const notRegistered = {
+  success: false,
+  error: 'VERIFICATION_NOT_ALLOWED',
+  message: 'Verification type Custom:kyc_veriff is not registered or disabled',
+};
+
+describe('KycService', () => {
+  let service: KycService;
+  let adminService: AdminService;
+  let configService: ConfigService;
+  let veriffAdapter: VeriffKycAdapter;
+
+  const mockAdminService = {
+    updateStatus: jest.fn(),
+    issueVerification: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockSessionRepository = {
+    create: jest.fn(async (session) => session),
+    findBySessionId: jest.fn(),
+    markOver18Issued: jest.fn(),
+  };
+
+  const mockFingerprintRepository = {
+    link: jest.fn(async (record) => ({ ...record, duplicates: [] })),
+    listCollisions: jest.fn(),
+  };
+
+  const mockReviewService = {
+    open: jest.fn(async (record) => ({ id: `case-${record.reason}`, ...record })),
+  };
+
+  const mockWebhookRepository = {
+    enqueue: jest.fn(async (delivery, _decision?: QueuedKycDecision) => ({
+      record: { ...delivery, state: 'queued', deliveries: 1 },
+      queued: true,
+    })),
+    listByWallet: jest.fn(),
+    backlog: jest.fn(),
+    listFailed: jest.fn(),
+  };
+
+  /**
+   * Accept a webhook into the inbox and apply the decision it queued, as
+   * KycWebhookWorkerService does.
+   */
+  const deliver = async (
+    kyc: KycService,
+    provider: KycProviderName,
+    payload: object,
+    request: KycWebhookRequest = { headers: {} },
+  ): Promise<KycWebhookResponse> => {
+    const accepted = await kyc.processWebhook(provider, payload, request);
+    if (!accepted.queued) {
+      return accepted;
+    }
+    const [, queued] = mockWebhookRepository.enqueue.mock.calls[mockWebhookRepository.enqueue.mock.calls.length - 1];
+    return kyc.applyDecision(queued as QueuedKycDecision);
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KycService,
+        {
+          provide: AdminService,
+          useValue: mockAdminService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: KycSessionRepository,
+          useValue: mockSessionRepository,
+        },
+        {
+          provide: KycFingerprintRepository,
+          useValue: mockFingerprintRepository,
+        },
+        {
+          provide: KycReviewService,
+          useValue: mockReviewService,
+        },
+        {
+          provide: KycWebhookRepository,
+          useValue: mockWebhookRepository,
+        },
+        ...kycProviders,
+      ],
+    }).compile();
+
+    service = module.get<KycService>(KycService);
+    adminService = module.get<AdminService>(AdminService);
+    configService = module.get<ConfigService>(ConfigService);
+    veriffAdapter = module.get(VeriffKycAdapter);
+    mockAdminService.issueVerification.mockResolvedValue(notRegistered);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applying decisions', () => {
+    const mockWebhookData: VeriffWebhookDto = {
+      id: 'test-id',
+      status: 'APPROVED',
+      code: 'APPROVED',
+      reason: 'Document verified',
+      reasonCode: 'DOCUMENT_VERIFIED',
+      sessionToken: 'test-session-token',
+      verification: {
+        id: 'verification-id',
+        url: 'https://veriff.com/verification/123',
+        vendorData: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+        status: 'APPROVED',
+        code: 'APPROVED',
+        reason: 'Document verified',
+        reasonCode: 'DOCUMENT_VERIFIED',
+        person: {
+          firstName: 'John',
+          lastName: 'Doe',
+        },
+        document: {
+          type: 'PASSPORT',
+          number: 'A1234567',
+          validFrom: '2020-01-01',
+          validUntil: '2030-01-01',
+        },
+        additionalVerification: {
+          status: 'APPROVED',
+          reason: 'All checks passed',
+        },
+      },
+      vendorData: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+      timestamp: new Date().toISOString(),
+    };
+
+    it('applies the decision to the session wallet', async () => {
+      const signature = 'sha256=valid-signature';
+      const adminSourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+      mockConfigService.get.mockImplementation((key: string) => {
+        if (key === 'VERIFF_WEBHOOK_SECRET') return 'test-secret';
+        if (key === 'ADMIN_SOURCE_ACCOUNT') return adminSourceAccount;
+        return undefined;
+      });
+
+      mockAdminService.updateStatus.mockResolvedValue({
+        success: true,
+        message: 'Status updated successfully',
+      });
+
+      // Mock the signature verification to return true
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890' });
+
+      const result = await deliver(service, 'veriff', mockWebhookData);
+
+      expect(result.success).toBe(true);
+      expect(result.status).toBe('APPROVED');
+      expect(result.wallet).toBe('GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890');
+      expect(adminService.updateStatus).toHaveBeenCalledWith(
+        'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+        {
+          status: 'APPROVED',
+          sourceAccount: adminSourceAccount,
+        },
+        {
+          sessionToken: 'test-session-token',
+          source: 'veriff',
+          decidedAt: new Date(mockWebhookData.timestamp),
+          automated: true,
+        },
+      );
+    });
+
+    it('should handle invalid signature', async () => {
+      const signature = 'sha256=invalid-signature';
+
+      mockConfigService.get.mockReturnValue('test-secret');
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(false);
+
+      const result = await service.processWebhook('veriff', mockWebhookData, {
+        headers: { 'x-hmac-signature': signature },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unauthorized');
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('should handle missing admin source account', async () => {
+      const signature = 'sha256=valid-signature';
+
+      mockConfigService.get.mockImplementation((key: string) => {
+        if (key === 'VERIFF_WEBHOOK_SECRET') return 'test-secret';
+        if (key === 'ADMIN_SOURCE_ACCOUNT') return undefined;
+        return undefined;
+      });
+
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890' });
+
+      const result = await deliver(service, 'veriff', mockWebhookData);
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('admin source account not configured');
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('rejects decisions for sessions this backend did not create', async () => {
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue(null);
+
+      const result = await deliver(service, 'veriff', mockWebhookData);
+
+      expect(mockSessionRepository.findBySessionId).toHaveBeenCalledWith('verification-id');
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Unknown session');
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('uses the stored session wallet over a different vendorData wallet', async () => {
+      const sessionWallet = 'GSESSION567890ABCDEF1234567890ABCDEF1234567890ABCDEF123456789';
+
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'ADMIN_SOURCE_ACCOUNT' ? 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP' : undefined,
+      );
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({
+        sessionId: 'verification-id',
+        wallet: sessionWallet,
+      });
+
+      const result = await deliver(service, 'veriff', mockWebhookData);
+
+      expect(result.wallet).toBe(sessionWallet);
+      expect(adminService.updateStatus).toHaveBeenCalledWith(
+        sessionWallet,
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('rejects decisions for a session of another provider', async () => {
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({
+        sessionId: 'verification-id',
+        provider: 'sumsub',
+        wallet: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+      });
+
+      const result = await deliver(service, 'veriff', mockWebhookData);
+
+      expect(result.error).toBe('Unknown session');
+      expect(adminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('rejects payloads the provider cannot read before queueing them', async () => {
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+
+      const result = await service.processWebhook('veriff', { id: 'webhook-id' }, { headers: {} });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'INVALID_PAYLOAD' }));
+      expect(mockWebhookRepository.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('manual review cases', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+    const decision = (status: string) =>
+      ({
+        id: 'webhook-id',
+        status,
+        code: status,
+        reason: 'Document photo is blurred',
+        sessionToken: 'session-token',
+        verification: { id: 'verification-id', person: { firstName: 'John', lastName: 'Doe' } },
+        vendorData: wallet,
+        timestamp: new Date().toISOString(),
+      }) as VeriffWebhookDto;
+
+    beforeEach(() => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'ADMIN_SOURCE_ACCOUNT' ? 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP' : undefined,
+      );
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet });
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+    });
+
+    it('opens a resubmission case when Veriff asks the user to resubmit', async () => {
+      const result = await deliver(service, 'veriff', decision('resubmission_requested'));
+
+      expect(mockReviewService.open).toHaveBeenCalledWith({
+        wallet,
+        reason: 'resubmission',
+        sessionId: 'verification-id',
+        sessionToken: 'session-token',
+        detail: 'Document photo is blurred',
+      });
+      expect(result).toEqual(expect.objectContaining({ status: 'PENDING', reviewCaseId: 'case-resubmission' }));
+    });
+
+    it('opens no case for plain approvals and declines', async () => {
+      await deliver(service, 'veriff', decision('approved'));
+      await deliver(service, 'veriff', decision('declined'));
+
+      expect(mockReviewService.open).not.toHaveBeenCalled();
+    });
+
+    it('opens a processing-failure case when the status update fails', async () => {
+      mockAdminService.updateStatus.mockResolvedValue({ success: false, error: 'tx_bad_seq' });
+
+      const result = await deliver(service, 'veriff', decision('declined'));
+
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet, reason: 'processing-failure', detail: 'Status REJECTED not applied: tx_bad_seq' }),
+      );
+      expect(result).toEqual(expect.objectContaining({ success: false, reviewCaseId: 'case-processing-failure' }));
+    });
+
+    it('opens a processing-failure case when processing throws after the session is known', async () => {
+      mockAdminService.updateStatus.mockRejectedValue(new Error('queue unavailable'));
+
+      const result = await deliver(service, 'veriff', decision('approved'));
+
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'processing-failure', detail: 'Webhook processing failed: queue unavailable' }),
+      );
+      expect(result.reviewCaseId).toBe('case-processing-failure');
+    });
+
+    it('opens a transition-rejected case when a decline would undo an approval', async () => {
+      mockAdminService.updateStatus.mockResolvedValue({
+        success: false,
+        error: 'TRANSITION_NOT_ALLOWED',
+        message: 'Status transition rejected: APPROVED -> REJECTED requires manual review',
+        currentStatus: 'APPROVED',
+      });
+
+      const result = await deliver(service, 'veriff', decision('declined'));
+
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({
+          wallet,
+          reason: 'transition-rejected',
+          detail: 'Status transition rejected: APPROVED -> REJECTED requires manual review',
+        }),
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, status: 'APPROVED', transitionRejected: true }),
+      );
+    });
+
+    it('acknowledges stale decisions without opening a case', async () => {
+      mockAdminService.updateStatus.mockResolvedValue({
+        success: false,
+        error: 'STALE_DECISION',
+        message: 'Status transition rejected: stale',
+        currentStatus: 'REJECTED',
+      });
+
+      const result = await deliver(service, 'veriff', decision('approved'));
+
+      expect(mockReviewService.open).not.toHaveBeenCalled();
+      expect(mockAdminService.issueVerification).not.toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, status: 'REJECTED', transitionRejected: true }),
+      );
+    });
+  });
+
+  describe('webhook inbox', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const rawBody = Buffer.from('{"id":"webhook-id","status":"declined"}');
+    let stored: Map<string, any>;
+
+    const decision = (overrides: Partial<VeriffWebhookDto> = {}) =>
+      ({
+        id: 'webhook-id',
+        status: 'declined',
+        code: 'declined',
+        sessionToken: 'session-token',
+        verification: { id: 'verification-id', person: { firstName: 'John', lastName: 'Doe' } },
+        vendorData: wallet,
+        timestamp: new Date().toISOString(),
+        ...overrides,
+      }) as VeriffWebhookDto;
+
+    beforeEach(() => {
+      stored = new Map();
+      mockWebhookRepository.enqueue.mockImplementation(async (delivery) => {
+        const existing = stored.get(delivery.key);
+        if (existing) {
+          existing.deliveries++;
+          if (existing.payloadHash === delivery.payloadHash && existing.state === 'failed') {
+            existing.state = 'queued';
+            return { record: { ...existing }, queued: true };
+          }
+          return { record: { ...existing }, queued: false };
+        }
+        const created = { ...delivery, state: 'queued', deliveries: 1, attempts: 0 };
+        stored.set(delivery.key, created);
+        return { record: { ...created }, queued: true };
+      });
+
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      mockWebhookRepository.enqueue.mockImplementation(async (delivery) => ({
+        record: { ...delivery, state: 'queued', deliveries: 1 },
+        queued: true,
+      }));
+    });
+
+    const settle = (state: string, result: object) =>
+      Object.assign([...stored.values()][0], { state, result });
+
+    it('queues the webhook by id and session token with a hash of the raw body, without applying it', async () => {
+      const webhook = decision();
+
+      const result = await service.processWebhook('veriff', webhook, { rawBody, headers: {} });
+
+      expect(mockWebhookRepository.enqueue).toHaveBeenCalledWith(
+        {
+          key: crypto.createHash('sha256').update('webhook-id:session-token').digest('hex'),
+          provider: 'veriff',
+          webhookId: 'webhook-id',
+          sessionToken: 'session-token',
+          sessionId: 'verification-id',
+          payloadHash: crypto.createHash('sha256').update(rawBody).digest('hex'),
+          decision: 'declined',
+          timestamp: expect.any(Date),
+        },
+        expect.objectContaining({ webhookId: 'webhook-id', sessionId: 'verification-id', status: 'REJECTED' }),
+      );
+      expect(result).toEqual({ success: true, message: 'Webhook queued for processing', queued: true });
+      expect(mockSessionRepository.findBySessionId).not.toHaveBeenCalled();
+      expect(mockAdminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('returns the original result for an exact redelivery of a processed webhook', async () => {
+      await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+      const original = { success: true, message: 'Webhook processed successfully. Status: REJECTED', wallet };
+      settle('processed', original);
+
+      const second = await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+
+      expect(second).toEqual({ ...original, duplicate: true });
+      expect([...stored.values()][0].deliveries).toBe(2);
+    });
+
+    it('does not queue a redelivery of a webhook still waiting in the inbox', async () => {
+      await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+      const second = await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+
+      expect(second).toEqual(expect.objectContaining({ success: true, queued: true, duplicate: true }));
+      expect(stored.size).toBe(1);
+    });
+
+    it('rejects a redelivery whose payload differs', async () => {
+      await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+      const result = await service.processWebhook('veriff', decision({ status: 'approved' }), {
+        rawBody: Buffer.from('{"id":"webhook-id","status":"approved"}'),
+        headers: {},
+      });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'PAYLOAD_MISMATCH' }));
+    });
+
+    it('queues a webhook that failed for good again on redelivery', async () => {
+      await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+      settle('failed', { success: false, error: 'tx_bad_seq' });
+
+      const second = await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+
+      expect(second).toEqual(expect.objectContaining({ success: true, queued: true }));
+      expect(second.duplicate).toBeUndefined();
+      expect([...stored.values()][0].state).toBe('queued');
+    });
+
+    it('reports the inbox as unavailable when the webhook cannot be stored', async () => {
+      mockWebhookRepository.enqueue.mockRejectedValueOnce(new Error('deadline exceeded'));
+
+      const result = await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'INBOX_UNAVAILABLE' }));
+    });
+
+    it('rejects webhooks timestamped outside the window before queueing them', async () => {
+      const stale = new Date(Date.now() - 2 * 3600 * 1000).toISOString();
+      const future = new Date(Date.now() + 2 * 3600 * 1000).toISOString();
+
+      for (const timestamp of [stale, future, 'not-a-date']) {
+        const result = await service.processWebhook('veriff', decision({ timestamp }), { rawBody, headers: {} });
+        expect(result).toEqual(expect.objectContaining({ success: false, error: 'STALE_WEBHOOK' }));
+      }
+      expect(mockWebhookRepository.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('does not queue webhooks with an invalid signature', async () => {
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(false);
+
+      await service.processWebhook('veriff', decision(), { rawBody, headers: {} });
+
+      expect(mockWebhookRepository.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('reports the backlog and the webhooks given up on', async () => {
+      const backlog = { queued: 3, processing: 1, failed: 1, oldestQueuedAt: new Date('2025-03-01T12:00:00Z') };
+      mockWebhookRepository.backlog.mockResolvedValue(backlog);
+      mockWebhookRepository.listFailed.mockResolvedValue([{ key: 'key-1', state: 'failed' }]);
+
+      const result = await service.webhookInbox();
+
+      expect(mockWebhookRepository.listFailed).toHaveBeenCalledWith(20);
+      expect(result).toEqual({ success: true, backlog, failures: [{ key: 'key-1', state: 'failed' }] });
+    });
+  });
+
+  describe('Over18 from the date of birth', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+    const decision = (status: string, dateOfBirth?: string) =>
+      ({
+        id: 'webhook-id',
+        status,
+        code: status,
+        sessionToken: 'session-token',
+        verification: {
+          id: 'verification-id',
+          person: { firstName: 'John', lastName: 'Doe', dateOfBirth },
+        },
+        vendorData: wallet,
+        timestamp: new Date().toISOString(),
+      }) as VeriffWebhookDto;
+
+    beforeEach(() => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'ADMIN_SOURCE_ACCOUNT' ? sourceAccount : undefined,
+      );
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet });
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+      mockAdminService.issueVerification.mockImplementation(async (_wallet, request) =>
+        request.type === 'Over18' ? { success: true, points: 10, transactionHash: 'over18-hash' } : notRegistered,
+      );
+    });
+
+    const over18Calls = () =>
+      mockAdminService.issueVerification.mock.calls.filter(([, request]) => request.type === 'Over18');
+
+    it('issues Over18 for an approved adult and records it on the session', async () => {
+      const result = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+
+      expect(result.over18Issued).toBe(true);
+      expect(mockAdminService.issueVerification).toHaveBeenCalledWith(wallet, {
+        type: 'Over18',
+        sourceAccount,
+        idempotencyKey: crypto
+          .createHash('sha256')
+          .update(`${wallet}:upsert_verification:Over18:verification-id`)
+          .digest('hex'),
+      });
+      expect(mockSessionRepository.markOver18Issued).toHaveBeenCalledWith(
+        'verification-id',
+        expect.any(Date),
+        'over18-hash',
+      );
+      expect(JSON.stringify(mockSessionRepository.markOver18Issued.mock.calls)).not.toContain('1990');
+    });
+
+    it('does not issue Over18 for minors, declined sessions or a missing date of birth', async () => {
+      const minor = new Date();
+      minor.setUTCFullYear(minor.getUTCFullYear() - 17);
+
+      await deliver(service, 'veriff', decision('approved', minor.toISOString().slice(0, 10)));
+      await deliver(service, 'veriff', decision('declined', '1990-05-17'));
+      const missing = await deliver(service, 'veriff', decision('approved'));
+
+      expect(missing.over18Issued).toBe(false);
+      expect(over18Calls()).toHaveLength(0);
+    });
+
+    it('issues Over18 once per session', async () => {
+      mockSessionRepository.findBySessionId.mockResolvedValue({
+        sessionId: 'verification-id',
+        wallet,
+        over18IssuedAt: new Date(),
+      });
+
+      const result = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+
+      expect(result.success).toBe(true);
+      expect(result.over18Issued).toBe(false);
+      expect(over18Calls()).toHaveLength(0);
+    });
+
+    it('leaves the session unmarked when the write fails or is already queued', async () => {
+      const over18Results = [{ success: false, error: 'network error' }, { success: true, skipped: true }];
+      mockAdminService.issueVerification.mockImplementation(async (_wallet, request) =>
+        request.type === 'Over18' ? over18Results.shift() : notRegistered,
+      );
+
+      const failed = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+      const skipped = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+
+      expect(failed.success).toBe(true);
+      expect(failed.over18Issued).toBe(false);
+      expect(skipped.over18Issued).toBe(false);
+      expect(mockSessionRepository.markOver18Issued).not.toHaveBeenCalled();
+    });
+
+    it('does not issue Over18 when the approval itself is not written', async () => {
+      mockAdminService.updateStatus.mockResolvedValue({ success: false, error: 'NETWORK_ERROR' });
+
+      const result = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+
+      expect(result.success).toBe(false);
+      expect(result.over18Issued).toBeUndefined();
+      expect(over18Calls()).toHaveLength(0);
+    });
+
+    it('issues no attestations while the same approval is still queued or dead-lettered', async () => {
+      mockAdminService.updateStatus.mockResolvedValue({
+        success: true,
+        skipped: true,
+        message: 'Duplicate submission skipped (unresolved dead-letter exists)',
+      });
+
+      const result = await deliver(service, 'veriff', decision('approved', '1990-05-17'));
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, status: 'APPROVED', over18Issued: false, providerVerificationIssued: false }),
+      );
+      expect(mockAdminService.issueVerification).not.toHaveBeenCalled();
+      expect(mockSessionRepository.markOver18Issued).not.toHaveBeenCalled();
+    });
+
+    it('computes adulthood from the calendar date', () => {
+      const now = new Date('2025-06-01T12:00:00Z');
+
+      expect(isAdult('2007-06-01', now)).toBe(true);
+      expect(isAdult('2007-06-02', now)).toBe(false);
+      expect(isAdult('2007-02-29', now)).toBe(false);
+      expect(isAdult('2008-02-29', new Date('2026-02-28T23:59:59Z'))).toBe(false);
+      expect(isAdult('2008-02-29', new Date('2026-03-01T00:00:00Z'))).toBe(true);
+    });
+  });
+
+  describe('duplicate documents', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const firstWallet = 'GFIRST67890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890AB';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+    const document = { type: 'PASSPORT', number: 'AB 123-456', validFrom: '2020-01-01', validUntil: '2030-01-01', country: 'ee' };
+    let veriff: KycService;
+
+    const decision = (status = 'approved') =>
+      ({
+        id: 'webhook-id',
+        status,
+        code: status,
+        sessionToken: 'session-token',
+        verification: { id: 'verification-id', person: { firstName: 'John', lastName: 'Doe' }, document },
+        vendorData: wallet,
+        timestamp: new Date().toISOString(),
+      }) as VeriffWebhookDto;
+
+    beforeEach(async () => {
+      const settings: Record<string, string> = {
+        ADMIN_SOURCE_ACCOUNT: sourceAccount,
+        KYC_FINGERPRINT_SECRET: 'fingerprint-secret',
+      };
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          KycService,
+          { provide: AdminService, useValue: mockAdminService },
+          { provide: ConfigService, useValue: { get: jest.fn((key: string) => settings[key]) } },
+          { provide: KycSessionRepository, useValue: mockSessionRepository },
+          { provide: KycFingerprintRepository, useValue: mockFingerprintRepository },
+          { provide: KycReviewService, useValue: mockReviewService },
+          { provide: KycWebhookRepository, useValue: mockWebhookRepository },
+          ...kycProviders,
+        ],
+      }).compile();
+
+      veriff = module.get(KycService);
+      jest.spyOn(module.get(VeriffKycAdapter), 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet });
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+      mockFingerprintRepository.link.mockImplementation(async (record) => ({ ...record, duplicates: [] }));
+    });
+
+    it('links a keyed fingerprint of the approved document, never the number itself', async () => {
+      const result = await deliver(veriff, 'veriff', decision());
+
+      expect(result).toEqual(expect.objectContaining({ status: 'APPROVED', flagged: false }));
+      expect(mockFingerprintRepository.link).toHaveBeenCalledWith({
+        fingerprint: kycDocumentFingerprint('fingerprint-secret', document),
+        wallet,
+        sessionId: 'verification-id',
+        documentType: 'PASSPORT',
+        country: 'ee',
+      });
+      expect(JSON.stringify(mockFingerprintRepository.link.mock.calls)).not.toMatch(/AB ?123-?456/);
+    });
+
+    it('queues the adult flag and the document fingerprint, never the date of birth or number', async () => {
+      const webhook = decision();
+      webhook.verification.person.dateOfBirth = '1990-05-17';
+
+      await veriff.processWebhook('veriff', webhook, { rawBody: Buffer.from(JSON.stringify(webhook)), headers: {} });
+
+      const queued = mockWebhookRepository.enqueue.mock.calls[0][1] as QueuedKycDecision;
+      expect(queued).toEqual(
+        expect.objectContaining({
+          status: 'APPROVED',
+          adult: true,
+          document: { fingerprint: kycDocumentFingerprint('fingerprint-secret', document), type: 'PASSPORT', country: 'ee' },
+        }),
+      );
+      expect(JSON.stringify(queued)).not.toMatch(/1990|AB ?123-?456|John/);
+
+      await veriff.applyDecision(queued);
+
+      expect(mockFingerprintRepository.link).toHaveBeenCalledWith(
+        expect.objectContaining({ fingerprint: queued.document?.fingerprint, wallet }),
+      );
+    });
+
+    it('holds an approval at PENDING when the document already verified another wallet', async () => {
+      mockFingerprintRepository.link.mockImplementation(async (record) => ({ ...record, wallet: firstWallet }));
+
+      const result = await deliver(veriff, 'veriff', decision());
+
+      expect(result).toEqual(expect.objectContaining({ success: true, status: 'PENDING', flagged: true }));
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet, reason: 'sybil', detail: `Document already verified wallet ${firstWallet}` }),
+      );
+      expect(mockAdminService.updateStatus).toHaveBeenCalledWith(
+        wallet,
+        { status: 'PENDING', sourceAccount },
+        expect.anything(),
+      );
+    });
+
+    it('does not fingerprint declined documents', async () => {
+      await deliver(veriff, 'veriff', decision('declined'));
+
+      expect(mockFingerprintRepository.link).not.toHaveBeenCalled();
+    });
+
+    it('ignores formatting differences in the document', () => {
+      expect(kycDocumentFingerprint('s', { type: 'passport', number: 'AB123456', country: 'EE' })).toBe(
+        kycDocumentFingerprint('s', { type: 'PASSPORT', number: 'ab 123-456', country: 'ee' }),
+      );
+      expect(kycDocumentFingerprint('s', { type: 'PASSPORT', number: 'AB123456', country: 'EE' })).not.toBe(
+        kycDocumentFingerprint('other', { type: 'PASSPORT', number: 'AB123456', country: 'EE' }),
+      );
+    });
+  });
+
+  describe('provider verification', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+    const decision = (status: string) =>
+      ({
+        id: 'webhook-id',
+        status,
+        code: status,
+        sessionToken: 'session-token',
+        verification: { id: 'verification-id', person: { firstName: 'John', lastName: 'Doe' } },
+        vendorData: wallet,
+        timestamp: new Date().toISOString(),
+      }) as VeriffWebhookDto;
+
+    beforeEach(() => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'ADMIN_SOURCE_ACCOUNT' ? sourceAccount : undefined,
+      );
+      jest.spyOn(veriffAdapter, 'verifyWebhook').mockReturnValue(true);
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'verification-id', wallet });
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+    });
+
+    it('records the approving provider on-chain once the status is applied', async () => {
+      mockAdminService.issueVerification.mockResolvedValue({ success: true, points: 20, transactionHash: 'kyc-hash' });
+
+      const result = await deliver(service, 'veriff', decision('approved'));
+
+      expect(result.providerVerificationIssued).toBe(true);
+      expect(mockAdminService.issueVerification).toHaveBeenCalledWith(wallet, {
+        type: 'Custom:kyc_veriff',
+        sourceAccount,
+        idempotencyKey: crypto
+          .createHash('sha256')
+          .update(`${wallet}:upsert_verification:Custom:kyc_veriff:verification-id`)
+          .digest('hex'),
+      });
+    });
+
+    it('applies the approval without it while the type is not registered', async () => {
+      const result = await deliver(service, 'veriff', decision('approved'));
+
+      expect(result).toEqual(
+        expect.objectContaining({ success: true, status: 'APPROVED', providerVerificationIssued: false }),
+      );
+      expect(mockReviewService.open).not.toHaveBeenCalled();
+    });
+
+    it('is not written for declines or failed status updates', async () => {
+      await deliver(service, 'veriff', decision('declined'));
+      mockAdminService.updateStatus.mockResolvedValue({ success: false, error: 'tx_bad_seq' });
+      await deliver(service, 'veriff', decision('approved'));
+
+      expect(mockAdminService.issueVerification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sumsub decisions', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const sourceAccount = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+    const idDoc = { type: 'PASSPORT', number: 'AB123', country: 'EST' };
+    let kyc: KycService;
+    let fetchApprovalDetails: jest.SpyInstance;
+
+    const event = (overrides: Record<string, unknown> = {}) => ({
+      type: 'applicantReviewed',
+      applicantId: 'applicant-id',
+      externalUserId: wallet,
+      correlationId: 'correlation-id',
+      createdAtMs: new Date().toISOString().replace('T', ' ').replace('Z', ''),
+      reviewResult: { reviewAnswer: 'GREEN' },
+      ...overrides,
+    });
+
+    const signed = (payload: object) => {
+      const rawBody = Buffer.from(JSON.stringify(payload));
+      return {
+        rawBody,
+        headers: {
+          'x-payload-digest': crypto.createHmac('sha256', 'sumsub-secret').update(rawBody).digest('hex'),
+          'x-payload-digest-alg': 'HMAC_SHA256_HEX',
+        },
+      };
+    };
+
+    const deliverSigned = (payload: object) => deliver(kyc, 'sumsub', payload, signed(payload));
+
+    beforeEach(async () => {
+      const settings: Record<string, string> = {
+        ADMIN_SOURCE_ACCOUNT: sourceAccount,
+        SUMSUB_WEBHOOK_SECRET: 'sumsub-secret',
+        KYC_FINGERPRINT_SECRET: 'fingerprint-secret',
+      };
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          KycService,
+          { provide: AdminService, useValue: mockAdminService },
+          { provide: ConfigService, useValue: { get: jest.fn((key: string) => settings[key]) } },
+          { provide: KycSessionRepository, useValue: mockSessionRepository },
+          { provide: KycFingerprintRepository, useValue: mockFingerprintRepository },
+          { provide: KycReviewService, useValue: mockReviewService },
+          { provide: KycWebhookRepository, useValue: mockWebhookRepository },
+          ...kycProviders,
+        ],
+      }).compile();
+
+      kyc = module.get(KycService);
+      fetchApprovalDetails = jest
+        .spyOn(module.get(SumsubKycAdapter), 'fetchApprovalDetails')
+        .mockResolvedValue({ dateOfBirth: '1990-05-17', document: idDoc });
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'applicant-id', provider: 'sumsub', wallet });
+      mockAdminService.updateStatus.mockResolvedValue({ success: true });
+      mockFingerprintRepository.link.mockImplementation(async (record) => ({ ...record, duplicates: [] }));
+    });
+
+    it('queues a signed review by correlation id and applicant', async () => {
+      const payload = event();
+
+      const result = await kyc.processWebhook('sumsub', payload, signed(payload));
+
+      expect(result.queued).toBe(true);
+      expect(mockWebhookRepository.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: crypto.createHash('sha256').update('correlation-id:applicant-id').digest('hex'),
+          provider: 'sumsub',
+          sessionId: 'applicant-id',
+          decision: 'GREEN',
+        }),
+        expect.objectContaining({ provider: 'sumsub', sessionId: 'applicant-id', status: 'APPROVED' }),
+      );
+    });
+
+    it('rejects an unsigned review and acknowledges events without a decision', async () => {
+      const pending = event({ type: 'applicantPending', reviewResult: undefined });
+
+      const unsigned = await kyc.processWebhook('sumsub', event(), { rawBody: Buffer.from('{}'), headers: {} });
+      const ignored = await kyc.processWebhook('sumsub', pending, signed(pending));
+
+      expect(unsigned.error).toBe('Unauthorized');
+      expect(ignored).toEqual(expect.objectContaining({ success: true, ignored: true }));
+      expect(mockWebhookRepository.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('applies the decision to the applicant wallet with Sumsub as the source', async () => {
+      mockAdminService.issueVerification.mockResolvedValue({ success: true, transactionHash: 'kyc-hash' });
+      fetchApprovalDetails.mockResolvedValue({});
+
+      const result = await deliverSigned(event());
+
+      expect(result).toEqual(expect.objectContaining({ success: true, status: 'APPROVED', over18Issued: false }));
+      expect(mockAdminService.updateStatus).toHaveBeenCalledWith(
+        wallet,
+        { status: 'APPROVED', sourceAccount },
+        expect.objectContaining({ sessionToken: 'applicant-id', source: 'sumsub', automated: true }),
+      );
+      expect(mockAdminService.issueVerification).toHaveBeenCalledTimes(1);
+      expect(mockAdminService.issueVerification).toHaveBeenCalledWith(
+        wallet,
+        expect.objectContaining({ type: 'Custom:kyc_sumsub' }),
+      );
+    });
+
+    it('checks the applicant document and date of birth before approving', async () => {
+      mockAdminService.issueVerification.mockImplementation(async (_wallet, request) =>
+        request.type === 'Over18' ? { success: true, points: 10, transactionHash: 'over18-hash' } : notRegistered,
+      );
+
+      const result = await deliverSigned(event());
+
+      expect(fetchApprovalDetails).toHaveBeenCalledWith('applicant-id');
+      expect(mockFingerprintRepository.link).toHaveBeenCalledWith(
+        expect.objectContaining({ fingerprint: kycDocumentFingerprint('fingerprint-secret', idDoc), wallet }),
+      );
+      expect(result).toEqual(expect.objectContaining({ success: true, status: 'APPROVED', over18Issued: true }));
+    });
+
+    it('holds an approval of a document another wallet used', async () => {
+      mockFingerprintRepository.link.mockImplementation(async (record) => ({
+        ...record,
+        wallet: 'GFIRST67890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890AB',
+        duplicates: [wallet],
+      }));
+
+      const result = await deliverSigned(event());
+
+      expect(result.status).toBe('PENDING');
+      expect(mockAdminService.updateStatus).toHaveBeenCalledWith(
+        wallet,
+        { status: 'PENDING', sourceAccount },
+        expect.objectContaining({ source: 'sumsub' }),
+      );
+    });
+
+    it('does not approve when the applicant cannot be read, so the webhook is retried', async () => {
+      fetchApprovalDetails.mockRejectedValue(new Error('Sumsub API error (503)'));
+
+      const result = await deliverSigned(event());
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'PROVIDER_ERROR', status: 'APPROVED' }));
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet, reason: 'processing-failure' }),
+      );
+      expect(mockAdminService.updateStatus).not.toHaveBeenCalled();
+    });
+
+    it('does not read the applicant for declines', async () => {
+      await deliverSigned(event({ reviewResult: { reviewAnswer: 'RED', reviewRejectType: 'FINAL' } }));
+
+      expect(fetchApprovalDetails).not.toHaveBeenCalled();
+    });
+
+    it('opens a resubmission case when Sumsub lets the applicant retry', async () => {
+      const result = await deliverSigned(
+        event({ reviewResult: { reviewAnswer: 'RED', reviewRejectType: 'RETRY', moderationComment: 'Blurred photo' } }),
+      );
+
+      expect(result.status).toBe('PENDING');
+      expect(mockReviewService.open).toHaveBeenCalledWith(
+        expect.objectContaining({ wallet, reason: 'resubmission', detail: 'Blurred photo' }),
+      );
+    });
+
+    it('does not apply a Sumsub decision to a Veriff session', async () => {
+      mockSessionRepository.findBySessionId.mockResolvedValue({ sessionId: 'applicant-id', wallet });
+
+      const result = await deliverSigned(event());
+
+      expect(result.error).toBe('Unknown session');
+      expect(mockAdminService.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSession', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF12345678';
+    let server: http.Server;
+    let received: Array<{ url: string; headers: http.IncomingHttpHeaders; body: string }>;
+    let reply: { status: number; body: unknown };
+    let baseUrl: string;
+
+    const buildService = async (settings: Record<string, string>) => {
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          KycService,
+          { provide: AdminService, useValue: mockAdminService },
+          { provide: ConfigService, useValue: { get: jest.fn((key: string) => settings[key]) } },
+          { provide: KycSessionRepository, useValue: mockSessionRepository },
+          { provide: KycFingerprintRepository, useValue: mockFingerprintRepository },
+          { provide: KycReviewService, useValue: mockReviewService },
+          { provide: KycWebhookRepository, useValue: mockWebhookRepository },
+          ...kycProviders,
+        ],
+      }).compile();
+
+      return module.get(KycService);
+    };
+
+    // Local stand-in for the Veriff Station API
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ url: req.url, headers: req.headers, body });
+          res.statusCode = reply.status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(reply.body));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = [];
+      reply = {
+        status: 201,
+        body: {
+          status: 'success',
+          verification: {
+            id: 'session-123',
+            url: 'https://alchemy.veriff.com/v/session-123',
+            vendorData: wallet,
+            sessionToken: 'token-123',
+          },
+        },
+      };
+    });
+
+    it('creates a signed session request and stores the session wallet', async () => {
+      const veriff = await buildService({
+        VERIFF_BASE_URL: baseUrl,
+        VERIFF_API_KEY: 'api-key',
+        VERIFF_WEBHOOK_SECRET: 'shared-secret',
+        VERIFF_CALLBACK_URL: 'https://app.example/kyc/done',
+      });
+
+      const result = await veriff.createSession('veriff', { wallet });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: true,
+          sessionId: 'session-123',
+          verificationUrl: 'https://alchemy.veriff.com/v/session-123',
+        }),
+      );
+
+      const [request] = received;
+      expect(request.url).toBe('/v1/sessions');
+      expect(request.headers['x-auth-client']).toBe('api-key');
+      expect(request.headers['x-hmac-signature']).toBe(signVeriffPayload('shared-secret', request.body));
+      expect(JSON.parse(request.body)).toEqual({
+        verification: { callback: 'https://app.example/kyc/done', vendorData: wallet },
+      });
+
+      expect(mockSessionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 'session-123',
+          provider: 'veriff',
+          wallet,
+          url: 'https://alchemy.veriff.com/v/session-123',
+        }),
+      );
+    });
+
+    it('reports PROVIDER_ERROR when Veriff rejects the request', async () => {
+      reply = { status: 401, body: { status: 'fail', message: 'Mandatory X-AUTH-CLIENT header is missing' } };
+      const veriff = await buildService({
+        VERIFF_BASE_URL: baseUrl,
+        VERIFF_API_KEY: 'api-key',
+        VERIFF_WEBHOOK_SECRET: 'shared-secret',
+      });
+
+      const result = await veriff.createSession('veriff', { wallet });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('PROVIDER_ERROR');
+      expect(result.message).toContain('X-AUTH-CLIENT');
+      expect(mockSessionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('reports PROVIDER_ERROR when Veriff answers without the session link', async () => {
+      reply = { status: 201, body: { status: 'success', verification: { id: 'session-123' } } };
+      const veriff = await buildService({
+        VERIFF_BASE_URL: baseUrl,
+        VERIFF_API_KEY: 'api-key',
+        VERIFF_WEBHOOK_SECRET: 'shared-secret',
+      });
+
+      const result = await veriff.createSession('veriff', { wallet });
+
+      expect(result.error).toBe('PROVIDER_ERROR');
+      expect(mockSessionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('reports NOT_CONFIGURED without calling Veriff when credentials are missing', async () => {
+      const veriff = await buildService({ VERIFF_BASE_URL: baseUrl });
+
+      const result = await veriff.createSession('veriff', { wallet });
+
+      expect(result.error).toBe('NOT_CONFIGURED');
+      expect(received).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,670 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminService } from './admin.service';
+import { KycReviewService } from './kyc-review.service';
+import { KycSessionRepository } from '../../infrastructure/firebase/kyc-session.repository';
+import { KycFingerprintRepository } from '../../infrastructure/firebase/kyc-fingerprint.repository';
+import { KycWebhookRepository } from '../../infrastructure/firebase/kyc-webhook.repository';
+import { KYC_PROVIDERS, KycProviderPort } from '../../domain/ports/kyc-provider.port';
+import {
+  FingerprintedKycDocument,
+  KycDecision,
+  KycProviderName,
+  KycWebhookResponse,
+  KycWebhookRequest,
+  CreateKycSessionDto,
+  CreateKycSessionResponse,
+  KycSession,
+  KycWebhookRecord,
+  KycWebhookLogResponse,
+  KycWebhookInboxResponse,
+  QueuedKycDecision,
+  isAdult,
+  kycProviderVerificationType,
+} from '../../domain/entities/kyc.entity';
+import {
+  KycFingerprintCollisionListResponse,
+  kycDocumentFingerprint,
+} from '../../domain/entities/kyc-fingerprint.entity';
+import { OpenKycReviewCase } from '../../domain/entities/kyc-review.entity';
+import * as crypto from 'crypto';
+
+const DEFAULT_COLLISION_LIMIT = 20;
+const DEFAULT_WEBHOOK_LOG_LIMIT = 20;
+const DEFAULT_INBOX_FAILURE_LIMIT = 20;
+
+/**
+ * KYC through the providers behind KycProviderPort (Veriff, Sumsub). The
+ * provider creates the session and authenticates and reads its webhooks;
+ * everything from the inbox to the on-chain status is the same for all of
+ * them.
+ */
+@Injectable()
+export class KycService {
+  private readonly logger = new Logger(KycService.name);
+  private readonly providers: Map<KycProviderName, KycProviderPort>;
+  private readonly fingerprintSecret: string;
+  private readonly webhookMaxAgeMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly adminService: AdminService,
+    private readonly sessionRepository: KycSessionRepository,
+    private readonly fingerprintRepository: KycFingerprintRepository,
+    private readonly reviewService: KycReviewService,
+    private readonly webhookRepository: KycWebhookRepository,
+    @Inject(KYC_PROVIDERS) providers: KycProviderPort[],
+  ) {
+    this.providers = new Map(providers.map((provider) => [provider.name, provider]));
+    this.fingerprintSecret = this.configService.get<string>('KYC_FINGERPRINT_SECRET') || '';
+    this.webhookMaxAgeMs = Number(this.configService.get<string>('KYC_WEBHOOK_MAX_AGE_SECONDS') || '3600') * 1000;
+  }
+
+  /**
+   * Start a verification session with `provider` for a wallet and remember
+   * which wallet it belongs to. The decision webhook for the session is
+   * applied to that wallet, whatever wallet the client later reports.
+   */
+  async createSession(provider: KycProviderName, dto: CreateKycSessionDto): Promise<CreateKycSessionResponse> {
+    const adapter = this.provider(provider);
+
+    if (!adapter.isConfigured()) {
+      this.logger.error(`${adapter.label} credentials not configured; cannot create sessions`);
+      return {
+        success: false,
+        message: `${adapter.label} integration is not configured`,
+        error: 'NOT_CONFIGURED'
+      };
+    }
+
+    try {
+      const session = await adapter.createSession(dto.wallet);
+
+      await this.sessionRepository.create({
+        sessionId: session.id,
+        provider,
+        wallet: dto.wallet,
+        url: session.url,
+        createdAt: new Date(),
+      });
+
+      this.logger.log(`${adapter.label} session created id=${session.id} for wallet: ${dto.wallet}`);
+      return {
+        success: true,
+        message: `${adapter.label} session created`,
+        sessionId: session.id,
+        verificationUrl: session.url
+      };
+    } catch (error) {
+      this.logger.error(`Failed to create ${adapter.label} session for wallet: ${dto.wallet}`, error);
+      return {
+        success: false,
+        message: `Failed to create ${adapter.label} session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: 'PROVIDER_ERROR'
+      };
+    }
+  }
+
+  /**
+   * Accept a provider webhook into the inbox, where KycWebhookWorkerService
+   * applies it; the on-chain status update does not hold up the response.
+   * Authentic webhooks are logged by event id and session token and queued
+   * once: a redelivery gets the original result back, and one reusing the
+   * key with another payload, or decided outside
+   * KYC_WEBHOOK_MAX_AGE_SECONDS, is rejected. Webhooks that failed for
+   * good are queued again on redelivery. Events without a decision are
+   * acknowledged and dropped.
+   */
+  async processWebhook(
+    provider: KycProviderName,
+    payload: unknown,
+    request: KycWebhookRequest
+  ): Promise<KycWebhookResponse> {
+    const adapter = this.provider(provider);
+
+    // Verify the webhook over the exact bytes the provider sent
+    if (!adapter.verifyWebhook(request)) {
+      this.logger.warn(`Invalid ${adapter.label} webhook signature`);
+      return {
+        success: false,
+        message: 'Invalid webhook signature',
+        error: 'Unauthorized'
+      };
+    }
+
+    let decision: KycDecision | null;
+    try {
+      decision = adapter.normalizeDecision(payload);
+    } catch (error) {
+      this.logger.warn(`Unreadable ${adapter.label} webhook: ${error instanceof Error ? error.message : error}`);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unreadable webhook payload',
+        error: 'INVALID_PAYLOAD'
+      };
+    }
+
+    if (!decision) {
+      this.logger.log(`${adapter.label} webhook carries no decision; ignored`);
+      return {
+        success: true,
+        message: 'Webhook carries no decision; ignored',
+        ignored: true
+      };
+    }
+
+    this.logger.log(`Processing ${adapter.label} webhook for session: ${decision.sessionToken}`);
+
+    if (
+      Number.isNaN(decision.decidedAt.getTime()) ||
+      Math.abs(Date.now() - decision.decidedAt.getTime()) > this.webhookMaxAgeMs
+    ) {
+      this.logger.warn(`${adapter.label} webhook for session ${decision.sessionToken} decided outside the accepted window; rejecting`);
+      return {
+        success: false,
+        message: 'Webhook timestamp outside the accepted window',
+        error: 'STALE_WEBHOOK'
+      };
+    }
+
+    const key = crypto.createHash('sha256').update(`${decision.webhookId}:${decision.sessionToken}`).digest('hex');
+    const payloadHash = crypto
+      .createHash('sha256')
+      .update(request.rawBody ?? JSON.stringify(payload))
+      .digest('hex');
+
+    let delivery: { record: KycWebhookRecord; queued: boolean };
+    try {
+      delivery = await this.webhookRepository.enqueue(
+        {
+          key,
+          provider,
+          webhookId: decision.webhookId,
+          sessionToken: decision.sessionToken,
+          sessionId: decision.sessionId,
+          payloadHash,
+          decision: decision.providerStatus,
+          timestamp: decision.decidedAt,
+        },
+        this.queuedDecision(decision),
+      );
+    } catch (error) {
+      this.logger.error(`Failed to queue ${adapter.label} webhook for session: ${decision.sessionToken}`, error);
+      return {
+        success: false,
+        message: `Failed to queue webhook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: 'INBOX_UNAVAILABLE'
+      };
+    }
+
+    if (!delivery.queued) {
+      return this.replayedResult(delivery.record, payloadHash);
+    }
+
+    this.logger.log(`${adapter.label} webhook key=${key} queued for session: ${decision.sessionToken}`);
+    return {
+      success: true,
+      message: 'Webhook queued for processing',
+      queued: true
+    };
+  }
+
+  /**
+   * Webhook log of a wallet, most recent first
+   */
+  async listWebhookLog(wallet: string, limit?: number): Promise<KycWebhookLogResponse> {
+    return {
+      success: true,
+      webhooks: await this.webhookRepository.listByWallet(wallet, limit ?? DEFAULT_WEBHOOK_LOG_LIMIT),
+    };
+  }
+
+  /**
+   * Inbox backlog by state and the webhooks given up on
+   */
+  async webhookInbox(limit?: number): Promise<KycWebhookInboxResponse> {
+    const [backlog, failures] = await Promise.all([
+      this.webhookRepository.backlog(),
+      this.webhookRepository.listFailed(limit ?? DEFAULT_INBOX_FAILURE_LIMIT),
+    ]);
+    return { success: true, backlog, failures };
+  }
+
+  /**
+   * What a delivery that was not queued gets back: the stored result for an
+   * exact duplicate, an error when the payload differs.
+   */
+  private replayedResult(record: KycWebhookRecord, payloadHash: string): KycWebhookResponse {
+    if (record.payloadHash !== payloadHash) {
+      this.logger.warn(`KYC webhook key=${record.key} redelivered with a different payload; rejecting`);
+      return {
+        success: false,
+        message: 'Webhook id and session token already used with a different payload',
+        error: 'PAYLOAD_MISMATCH'
+      };
+    }
+
+    this.logger.log(`Duplicate KYC webhook key=${record.key} (delivery ${record.deliveries}); not reprocessed`);
+
+    if (record.state === 'queued' || record.state === 'processing' || !record.result) {
+      return {
+        success: true,
+        message: 'Webhook is already queued for processing',
+        queued: true,
+        duplicate: true
+      };
+    }
+
+    return { ...record.result, duplicate: true };
+  }
+
+  /**
+   * Apply a decision from the inbox to the session wallet; called by the
+   * inbox worker. Approvals of providers that keep personal data out of
+   * webhooks are completed from the provider first. Resubmission requests,
+   * approvals held as duplicates and failed status updates or provider
+   * reads open a manual review case for the wallet.
+   * Approvals also write the provider's verification (see
+   * kycProviderVerificationType). Never throws.
+   */
+  async applyDecision(decision: QueuedKycDecision): Promise<KycWebhookResponse> {
+    const label = this.provider(decision.provider).label;
+    let session: KycSession | null = null;
+    try {
+      // Resolve the wallet from the session we created, never from what the client reported
+      session = await this.resolveSession(decision);
+      if (!session) {
+        this.logger.warn(`Unknown ${label} session: ${decision.sessionId}`);
+        return {
+          success: false,
+          message: `Unknown ${label} session`,
+          error: 'Unknown session'
+        };
+      }
+      const wallet = session.wallet;
+
+      try {
+        decision = await this.withApprovalDetails(decision);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Failed to read ${label} approval details for session: ${decision.sessionId}`, error);
+        const reviewCaseId = await this.openReviewCase(
+          session,
+          decision,
+          'processing-failure',
+          `Approval details unavailable: ${message}`,
+        );
+        return {
+          success: false,
+          message: `Webhook not applied; approval details unavailable: ${message}`,
+          error: 'PROVIDER_ERROR',
+          status: decision.status,
+          wallet,
+          reviewCaseId
+        };
+      }
+
+      let status = decision.status;
+
+      // One document, one human: hold approvals of a document another wallet used
+      const duplicateOf =
+        status === 'APPROVED' ? await this.duplicateDocumentHolder(session, decision.document) : null;
+      const flagged = duplicateOf !== null;
+      if (flagged) {
+        status = 'PENDING';
+      }
+
+      let reviewCaseId: string | undefined;
+      if (flagged) {
+        reviewCaseId = await this.openReviewCase(
+          session,
+          decision,
+          'sybil',
+          `Document already verified wallet ${duplicateOf}`,
+        );
+      } else if (decision.resubmission) {
+        reviewCaseId = await this.openReviewCase(session, decision, 'resubmission', decision.reason);
+      }
+
+      this.logger.log(`Mapped ${label} decision to status: ${status} for wallet: ${wallet}`);
+
+      // Update user status using admin service
+      const adminSourceAccount = this.configService.get<string>('ADMIN_SOURCE_ACCOUNT');
+
+      if (!adminSourceAccount) {
+        this.logger.warn(`Admin source account not configured. Status update required: ${status} for wallet: ${wallet}`);
+        return {
+          success: true,
+          message: `Webhook processed successfully. Status update required: ${status} (admin source account not configured)`,
+          status: status,
+          wallet: wallet,
+          flagged,
+          reviewCaseId
+        };
+      }
+
+      // Update user status
+      const updateResult = await this.adminService.updateStatus(
+        wallet,
+        {
+          status: status,
+          sourceAccount: adminSourceAccount,
+        },
+        {
+          sessionToken: decision.sessionToken,
+          source: decision.provider,
+          decidedAt: decision.decidedAt,
+          automated: true,
+        },
+      );
+
+      // The state machine refused the decision: stale, or it would undo a settled status
+      if (updateResult.error === 'STALE_DECISION' || updateResult.error === 'TRANSITION_NOT_ALLOWED') {
+        if (updateResult.error === 'TRANSITION_NOT_ALLOWED' && !reviewCaseId) {
+          reviewCaseId = await this.openReviewCase(session, decision, 'transition-rejected', updateResult.message);
+        }
+        return {
+          success: true,
+          message: `Webhook processed; ${updateResult.message}`,
+          status: updateResult.currentStatus,
+          wallet: wallet,
+          flagged,
+          transitionRejected: true,
+          reviewCaseId
+        };
+      }
+
+      if (!updateResult.success) {
+        this.logger.error(`Failed to update status for wallet: ${wallet}, error: ${updateResult.error}`);
+        reviewCaseId =
+          (await this.openReviewCase(
+            session,
+            decision,
+            'processing-failure',
+            `Status ${status} not applied: ${updateResult.error}`,
+          )) ?? reviewCaseId;
+        return {
+          success: false,
+          message: `Webhook processed but status update failed: ${updateResult.error}`,
+          error: updateResult.error,
+          status: status,
+          wallet: wallet,
+          flagged,
+          reviewCaseId
+        };
+      }
+
+      // The same write is still queued or dead-lettered: attestations wait until it is on-chain
+      if (updateResult.skipped) {
+        this.logger.log(`Status ${status} for wallet: ${wallet} already pending: ${updateResult.message}`);
+        return {
+          success: true,
+          message: `Webhook processed; ${updateResult.message}`,
+          status: status,
+          wallet: wallet,
+          over18Issued: false,
+          providerVerificationIssued: false,
+          flagged,
+          reviewCaseId
+        };
+      }
+
+      this.logger.log(`Status updated successfully for wallet: ${wallet}, status: ${status}`);
+
+      const over18Issued =
+        status === 'APPROVED' &&
+        (await this.issueOver18(session, decision.adult, adminSourceAccount));
+      const providerVerificationIssued =
+        status === 'APPROVED' &&
+        (await this.issueProviderVerification(session, decision.provider, adminSourceAccount));
+
+      return {
+        success: true,
+        message: `Webhook processed successfully. Status: ${status}`,
+        status: status,
+        wallet: wallet,
+        over18Issued,
+        providerVerificationIssued,
+        flagged,
+        reviewCaseId
+      };
+
+    } catch (error) {
+      this.logger.error(`Failed to process ${label} webhook for session: ${decision.sessionToken}`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const reviewCaseId = session
+        ? await this.openReviewCase(session, decision, 'processing-failure', `Webhook processing failed: ${message}`)
+        : undefined;
+      return {
+        success: false,
+        message: `Failed to process webhook: ${message}`,
+        error: message,
+        wallet: session?.wallet,
+        reviewCaseId
+      };
+    }
+  }
+
+  /**
+   * Open a manual review case for the session wallet. Returns its ID, or
+   * undefined when the case could not be stored.
+   */
+  private async openReviewCase(
+    session: KycSession,
+    decision: QueuedKycDecision,
+    reason: OpenKycReviewCase['reason'],
+    detail: string | undefined,
+  ): Promise<string | undefined> {
+    const reviewCase = await this.reviewService.open({
+      wallet: session.wallet,
+      reason,
+      sessionId: session.sessionId,
+      sessionToken: decision.sessionToken,
+      detail,
+    });
+    return reviewCase?.id;
+  }
+
+  /**
+   * What the inbox stores of a decision: whether the person is an adult
+   * instead of the date of birth, and the document's fingerprint instead of
+   * its number (none without KYC_FINGERPRINT_SECRET).
+   */
+  private queuedDecision(decision: KycDecision, now: Date = new Date()): QueuedKycDecision {
+    const { dateOfBirth, document, ...rest } = decision;
+    return { ...rest, ...this.reducePersonalData({ dateOfBirth, document }, now) };
+  }
+
+  private reducePersonalData(
+    { dateOfBirth, document }: Pick<KycDecision, 'dateOfBirth' | 'document'>,
+    now: Date,
+  ): Pick<QueuedKycDecision, 'adult' | 'document'> {
+    return {
+      adult: dateOfBirth ? isAdult(dateOfBirth, now) : undefined,
+      document:
+        this.fingerprintSecret && document?.type && document?.number
+          ? {
+              fingerprint: kycDocumentFingerprint(this.fingerprintSecret, document),
+              type: document.type,
+              country: document.country,
+            }
+          : undefined,
+    };
+  }
+
+  /**
+   * An approval completed with the date of birth and document its provider
+   * keeps out of webhooks (KycProviderPort.fetchApprovalDetails), reduced
+   * as in the inbox. Anything else is returned as it is. Throws when the
+   * provider cannot be read.
+   */
+  private async withApprovalDetails(decision: QueuedKycDecision): Promise<QueuedKycDecision> {
+    const adapter = this.provider(decision.provider);
+    if (decision.status !== 'APPROVED' || !adapter.fetchApprovalDetails) {
+      return decision;
+    }
+
+    const details = await adapter.fetchApprovalDetails(decision.sessionId);
+    return { ...decision, ...this.reducePersonalData(details, new Date()) };
+  }
+
+  private provider(name: KycProviderName): KycProviderPort {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`KYC provider ${name} is not registered`);
+    }
+    return provider;
+  }
+
+  /**
+   * Approved KYC document fingerprints linked to more than one wallet, most
+   * recent first.
+   */
+  async listFingerprintCollisions(limit?: number): Promise<KycFingerprintCollisionListResponse> {
+    return {
+      success: true,
+      collisions: await this.fingerprintRepository.listCollisions(limit ?? DEFAULT_COLLISION_LIMIT),
+    };
+  }
+
+  /**
+   * Link the approved document's fingerprint to the session wallet. Returns
+   * the other wallet when the document already belongs to one, and records
+   * the session wallet as a duplicate; null otherwise. Without
+   * KYC_FINGERPRINT_SECRET, or a document in the decision, nothing is
+   * checked.
+   */
+  private async duplicateDocumentHolder(
+    session: KycSession,
+    document: FingerprintedKycDocument | undefined,
+  ): Promise<string | null> {
+    if (!this.fingerprintSecret) {
+      this.logger.warn('KYC_FINGERPRINT_SECRET not configured; skipping duplicate document detection');
+      return null;
+    }
+
+    if (!document) {
+      return null;
+    }
+
+    const stored = await this.fingerprintRepository.link({
+      fingerprint: document.fingerprint,
+      wallet: session.wallet,
+      sessionId: session.sessionId,
+      documentType: document.type,
+      country: document.country,
+    });
+
+    if (stored.wallet === session.wallet) {
+      return null;
+    }
+
+    this.logger.warn(
+      `KYC session ${session.sessionId} approved a document already linked to wallet ${stored.wallet}; holding wallet: ${session.wallet} for review`,
+    );
+    return stored.wallet;
+  }
+
+  /**
+   * Write an Over18 verification, at the registry's canonical points, for an
+   * approved session whose person is 18 or older. Once per session: the
+   * session records the write, and the queue idempotency key covers
+   * decisions replayed while it is in flight or dead-lettered. `adult` is
+   * all the inbox keeps of the date of birth.
+   */
+  private async issueOver18(
+    session: KycSession,
+    adult: boolean | undefined,
+    sourceAccount: string,
+  ): Promise<boolean> {
+    if (session.over18IssuedAt) {
+      this.logger.log(`Over18 already issued for KYC session ${session.sessionId}`);
+      return false;
+    }
+
+    if (!adult) {
+      return false;
+    }
+
+    const result = await this.adminService.issueVerification(session.wallet, {
+      type: 'Over18',
+      sourceAccount,
+      idempotencyKey: crypto
+        .createHash('sha256')
+        .update(`${session.wallet}:upsert_verification:Over18:${session.sessionId}`)
+        .digest('hex'),
+    });
+
+    if (!result.success) {
+      this.logger.error(`Failed to issue Over18 for wallet: ${session.wallet}, error: ${result.error}`);
+      return false;
+    }
+
+    if (result.skipped) {
+      return false;
+    }
+
+    // The verification is on-chain either way; a replay would only refresh it
+    try {
+      await this.sessionRepository.markOver18Issued(session.sessionId, new Date(), result.transactionHash);
+    } catch (error) {
+      this.logger.error(`Over18 issued but not recorded for KYC session ${session.sessionId}`, error);
+    }
+    this.logger.log(`Over18 issued for wallet: ${session.wallet} from KYC session ${session.sessionId}`);
+    return true;
+  }
+
+  /**
+   * Record on-chain which provider approved the wallet, as the
+   * `Custom:kyc_<provider>` verification at the registry's canonical
+   * points. Left out, without failing the decision, while the type is not
+   * registered.
+   */
+  private async issueProviderVerification(
+    session: KycSession,
+    provider: KycProviderName,
+    sourceAccount: string,
+  ): Promise<boolean> {
+    const type = kycProviderVerificationType(provider);
+    const result = await this.adminService.issueVerification(session.wallet, {
+      type,
+      sourceAccount,
+      idempotencyKey: crypto
+        .createHash('sha256')
+        .update(`${session.wallet}:upsert_verification:${type}:${session.sessionId}`)
+        .digest('hex'),
+    });
+
+    if (result.error === 'VERIFICATION_NOT_ALLOWED') {
+      this.logger.log(`${type} not written for wallet: ${session.wallet}: ${result.message}`);
+      return false;
+    }
+
+    if (!result.success) {
+      this.logger.error(`Failed to issue ${type} for wallet: ${session.wallet}, error: ${result.error}`);
+      return false;
+    }
+
+    return !result.skipped;
+  }
+
+  /**
+   * The session this decision is for, with the wallet stored when it was
+   * created. Only sessions of the deciding provider match. The reported
+   * wallet is client-controlled, so a mismatch is only logged.
+   */
+  private async resolveSession(decision: QueuedKycDecision): Promise<KycSession | null> {
+    const session = await this.sessionRepository.findBySessionId(decision.sessionId);
+    if (!session || (session.provider ?? 'veriff') !== decision.provider) {
+      return null;
+    }
+
+    if (decision.reportedWallet && decision.reportedWallet !== session.wallet) {
+      this.logger.warn(
+        `Reported wallet ${decision.reportedWallet} does not match session ${decision.sessionId} wallet ${session.wallet}; using the session wallet`,
+      );
+    }
+
+    return session;
+  }
+}
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { PassportIndexerService } from './passport-indexer.service';
+import { PassportEventRepository } from '../../infrastructure/firebase/passport-event.repository';
+import { IdentityCache } from '../../infrastructure/cache/identity-cache.service';
+import { PASSPORT_EVENT_SOURCE } from '../../domain/ports/passport-event-source.port';
+import {
+  PassportEventRecord,
+  PassportIndexerCursor,
+} from '../../domain/entities/passport-event.entity';
+import {
+  RECORDED_PASSPORT_EVENT_XDR,
+  RECORDED_WALLET,
+  StubPassportEventSource,
+  recordedEvent,
+} from '../../test-utils/stub-passport-event-source';
+
+describe('PassportIndexerService', () => {
+  let service: PassportIndexerService;
+  let source: StubPassportEventSource;
+  let stored: { cursor: PassportIndexerCursor | null; events: PassportEventRecord[] };
+  let repository: { getCursor: jest.Mock; applyPage: jest.Mock; findWallet: jest.Mock; listEvents: jest.Mock };
+  let identityCache: { invalidate: jest.Mock };
+
+  const settings: Record<string, string> = {
+    PASSPORT_INDEXER_PAGE_SIZE: '2',
+    PASSPORT_INDEXER_MAX_PAGES_PER_RUN: '10',
+  };
+
+  const build = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PassportIndexerService,
+        { provide: PASSPORT_EVENT_SOURCE, useValue: source },
+        { provide: PassportEventRepository, useValue: repository },
+        { provide: IdentityCache, useValue: identityCache },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PassportIndexerService);
+  };
+
+  beforeEach(async () => {
+    source = new StubPassportEventSource([
+      recordedEvent(RECORDED_PASSPORT_EVENT_XDR.userRegistered, 500),
+      recordedEvent(RECORDED_PASSPORT_EVENT_XDR.customApproved, 501),
+      recordedEvent(RECORDED_PASSPORT_EVENT_XDR.over18, 502),
+    ]);
+    stored = { cursor: null, events: [] };
+    repository = {
+      getCursor: jest.fn(async () => stored.cursor),
+      applyPage: jest.fn(async (events: PassportEventRecord[], cursor: string, lastLedger: number) => {
+        stored.events.push(...events);
+        stored.cursor = { cursor, lastLedger, updatedAt: new Date() };
+      }),
+      findWallet: jest.fn(),
+      listEvents: jest.fn().mockResolvedValue([]),
+    };
+    identityCache = { invalidate: jest.fn() };
+    settings.PASSPORT_INDEXER_START_LEDGER = '500';
+
+    await build();
+  });
+
+  it('pages through all events from the start ledger and stores the cursor', async () => {
+    const result = await service.sync();
+
+    expect(result).toEqual(
+      expect.objectContaining({ indexed: 3, skipped: 0, pages: 2, lastLedger: 502 }),
+    );
+    expect(source.requests[0]).toEqual({ startLedger: 500, limit: 2 });
+    expect(source.requests[1]).toEqual({ cursor: source.events[1].id, limit: 2 });
+    expect(stored.events.map((event) => event.type)).toEqual([
+      'UserRegistered',
+      'VerificationUpserted',
+      'VerificationUpserted',
+    ]);
+    expect(stored.events[2]).toEqual(
+      expect.objectContaining({ wallet: RECORDED_WALLET, score: 45, previousScore: 25 }),
+    );
+    expect(stored.cursor).toEqual(
+      expect.objectContaining({ cursor: source.events[2].id, lastLedger: 502 }),
+    );
+    expect(identityCache.invalidate).toHaveBeenCalledWith(RECORDED_WALLET);
+  });
+
+  it('resumes from the stored cursor', async () => {
+    await service.sync();
+    source.events.push(
+      recordedEvent(RECORDED_PASSPORT_EVENT_XDR.customApproved, 600),
+    );
+
+    const result = await service.sync();
+
+    expect(result.indexed).toBe(1);
+    expect(source.requests[source.requests.length - 1]).toEqual({
+      cursor: source.events[2].id,
+      limit: 2,
+    });
+    expect(stored.events).toHaveLength(4);
+  });
+
+  it('starts at the latest ledger when no start ledger is configured', async () => {
+    settings.PASSPORT_INDEXER_START_LEDGER = '0';
+    source.latestLedger = 502;
+    await build();
+
+    const result = await service.sync();
+
+    expect(source.requests[0]).toEqual({ startLedger: 502, limit: 2 });
+    expect(result.indexed).toBe(1);
+  });
+
+  it('skips undecodable events without stalling', async () => {
+    source.events.splice(1, 0, { ...recordedEvent(RECORDED_PASSPORT_EVENT_XDR.over18, 500, 1), value: 'AAAA' });
+
+    const result = await service.sync();
+
+    expect(result).toEqual(expect.objectContaining({ indexed: 3, skipped: 1, lastLedger: 502 }));
+    expect(stored.events).toHaveLength(3);
+  });
+
+  it('advances the cursor over empty ranges', async () => {
+    source.events = [];
+
+    const result = await service.sync();
+
+    expect(result.indexed).toBe(0);
+    expect(repository.applyPage).toHaveBeenCalledWith([], expect.any(String), 500);
+  });
+
+  it('shares one run between overlapping calls', async () => {
+    const [first, second] = await Promise.all([service.sync(), service.sync()]);
+
+    expect(first).toBe(second);
+    expect(stored.events).toHaveLength(3);
+  });
+
+  it('returns NOT_FOUND for wallets without indexed events', async () => {
+    repository.findWallet.mockResolvedValue(null);
+
+    const result = await service.getWallet(RECORDED_WALLET);
+
+    expect(result.error).toBe('NOT_FOUND');
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PASSPORT_EVENT_SOURCE,
+  PassportEventSource,
+} from '../../domain/ports/passport-event-source.port';
+import { PassportEventRepository } from '../../infrastructure/firebase/passport-event.repository';
+import { decodePassportEvent } from '../../infrastructure/stellar/passport-event.decoder';
+import { IdentityCache } from '../../infrastructure/cache/identity-cache.service';
+import {
+  IndexedWalletResponse,
+  PassportEventRecord,
+  PassportIndexerRunResult,
+  PassportIndexerStatusResponse,
+} from '../../domain/entities/passport-event.entity';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+/**
+ * Indexes Passport contract events (UserRegistered, VerificationUpserted)
+ * into a per-wallet history in Firestore, so score and verification
+ * queries can be answered without simulating, including changes made
+ * outside this backend.
+ *
+ * Every PASSPORT_INDEXER_INTERVAL_MS (0 disables) it pages through the RPC
+ * `getEvents` API from the stored cursor. Without a cursor it starts at
+ * PASSPORT_INDEXER_START_LEDGER, or at the latest ledger when unset. The
+ * RPC only retains recent ledgers, so a gap longer than its retention
+ * window loses events.
+ */
+@Injectable()
+export class PassportIndexerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(PassportIndexerService.name);
+  private readonly intervalMs: number;
+  private readonly pageSize: number;
+  private readonly maxPagesPerRun: number;
+  private readonly startLedger: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<PassportIndexerRunResult> | null = null;
+  private lastRun: PassportIndexerRunResult | undefined;
+
+  constructor(
+    @Inject(PASSPORT_EVENT_SOURCE)
+    private readonly eventSource: PassportEventSource,
+    private readonly eventRepository: PassportEventRepository,
+    private readonly identityCache: IdentityCache,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(this.configService.get<string>('PASSPORT_INDEXER_INTERVAL_MS', '30000'));
+    this.pageSize = Number(this.configService.get<string>('PASSPORT_INDEXER_PAGE_SIZE', '100'));
+    this.maxPagesPerRun = Number(this.configService.get<string>('PASSPORT_INDEXER_MAX_PAGES_PER_RUN', '20'));
+    this.startLedger = Number(this.configService.get<string>('PASSPORT_INDEXER_START_LEDGER', '0'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      this.logger.log('Passport event indexer disabled (PASSPORT_INDEXER_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sync().catch((error) => this.logger.error('Passport event indexing failed', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Index new events until caught up (or PASSPORT_INDEXER_MAX_PAGES_PER_RUN
+   * pages). Overlapping calls share the same run.
+   */
+  sync(): Promise<PassportIndexerRunResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async status(): Promise<PassportIndexerStatusResponse> {
+    return {
+      success: true,
+      cursor: await this.eventRepository.getCursor(),
+      lastRun: this.lastRun,
+    };
+  }
+
+  async getWallet(wallet: string, limit?: number): Promise<IndexedWalletResponse> {
+    const indexed = await this.eventRepository.findWallet(wallet);
+
+    if (!indexed) {
+      return { success: false, message: 'No indexed events for wallet', error: 'NOT_FOUND' };
+    }
+
+    return {
+      success: true,
+      wallet: indexed,
+      events: await this.eventRepository.listEvents(wallet, limit ?? DEFAULT_HISTORY_LIMIT),
+    };
+  }
+
+  private async run(): Promise<PassportIndexerRunResult> {
+    const stored = await this.eventRepository.getCursor();
+    const result: PassportIndexerRunResult = {
+      pages: 0,
+      indexed: 0,
+      skipped: 0,
+      cursor: stored?.cursor,
+      lastLedger: stored?.lastLedger,
+    };
+
+    let startLedger: number | undefined;
+    if (!result.cursor) {
+      startLedger = this.startLedger > 0 ? this.startLedger : await this.eventSource.getLatestLedger();
+      this.logger.log(`No indexer cursor stored; starting at ledger ${startLedger}`);
+    }
+
+    while (result.pages < this.maxPagesPerRun) {
+      const page = await this.eventSource.getEvents(
+        result.cursor
+          ? { cursor: result.cursor, limit: this.pageSize }
+          : { startLedger, limit: this.pageSize },
+      );
+      result.pages += 1;
+
+      const records: PassportEventRecord[] = [];
+      for (const raw of page.events) {
+        try {
+          const record = decodePassportEvent(raw);
+          if (record) {
+            records.push(record);
+          } else {
+            result.skipped += 1;
+          }
+        } catch (error) {
+          // A malformed event must not stall the indexer behind it
+          result.skipped += 1;
+          this.logger.warn(
+            `Skipping undecodable Passport event id=${raw.id}: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      }
+
+      if (!page.cursor) {
+        break;
+      }
+
+      const lastLedger = page.events.length
+        ? page.events[page.events.length - 1].ledger
+        : (result.lastLedger ?? startLedger);
+      await this.eventRepository.applyPage(records, page.cursor, lastLedger);
+
+      for (const wallet of new Set(records.map((record) => record.wallet))) {
+        this.identityCache.invalidate(wallet);
+      }
+
+      result.indexed += records.length;
+      result.cursor = page.cursor;
+      result.lastLedger = lastLedger;
+
+      if (page.events.length < this.pageSize) {
+        break;
+      }
+    }
+
+    if (result.indexed > 0 || result.skipped > 0) {
+      this.logger.log(
+        `Passport indexer: indexed=${result.indexed} skipped=${result.skipped} pages=${result.pages} lastLedger=${result.lastLedger}`,
+      );
+    }
+
+    this.lastRun = result;
+    return result;
+  }
+}
@@ -1,25 +1,58 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { PlatformService } from './platform.service';
+import { ConfigService } from '@nestjs/config';
 import { StellarService } from '../../infrastructure/stellar/stellar.service'
+import { HumanityPolicyService } from './humanity-policy.service';
+import { HumanityPolicyRepository } from '../../infrastructure/firebase/humanity-policy.repository';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import {
+  BUILT_IN_VERIFICATION_TYPES,
+  BUILT_IN_VERIFICATION_TYPE_DEFAULTS,
+} from '../../domain/entities/verification-type.entity';
 
 describe('PlatformService', () => {
   let service: PlatformService;
   let stellarService: jest.Mocked<StellarService>;
+  let policyRepository: { findCurrent: jest.Mock };
+  let verificationTypeRegistry: { agingRules: jest.Mock; list: jest.Mock };
+
+  const defaultPolicy = { id: 'default', version: 0 };
 
   beforeEach(async () => {
     const mockStellarService = {
       validateWalletAddress: jest.fn(),
       getScore: jest.fn(),
       getVerifications: jest.fn(),
+      getUserRecord: jest.fn(),
+    };
+
+    policyRepository = { findCurrent: jest.fn().mockResolvedValue(null) };
+    verificationTypeRegistry = {
+      agingRules: jest.fn().mockResolvedValue({}),
+      list: jest.fn().mockResolvedValue({
+        success: true,
+        types: BUILT_IN_VERIFICATION_TYPES.map((key) => ({
+          key,
+          ...BUILT_IN_VERIFICATION_TYPE_DEFAULTS[key],
+          enabled: true,
+        })),
+      }),
     };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         PlatformService,
+        HumanityPolicyService,
         {
           provide: StellarService,
           useValue: mockStellarService,
         },
+        { provide: HumanityPolicyRepository, useValue: policyRepository },
+        { provide: VerificationTypeRegistryService, useValue: verificationTypeRegistry },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => defaultValue) },
+        },
       ],
     }).compile();
 
@@ -189,6 +222,9 @@ describe('PlatformService', () => {
       expect(result).toEqual({
         isHuman: true,
         score: score,
+        scoring: 'raw',
+        policy: defaultPolicy,
+        unmet: [],
         success: true,
         message: `Human verification completed. Score: ${score}, Threshold: 35, Result: Human`,
       });
@@ -206,6 +242,9 @@ describe('PlatformService', () => {
       expect(result).toEqual({
         isHuman: false,
         score: score,
+        scoring: 'raw',
+        policy: defaultPolicy,
+        unmet: ['minScore'],
         success: true,
         message: `Human verification completed. Score: ${score}, Threshold: 35, Result: Not Human`,
       });
@@ -223,6 +262,9 @@ describe('PlatformService', () => {
       expect(result).toEqual({
         isHuman: true,
         score: score,
+        scoring: 'raw',
+        policy: defaultPolicy,
+        unmet: [],
         success: true,
         message: `Human verification completed. Score: ${score}, Threshold: 35, Result: Human`,
       });
@@ -286,6 +328,7 @@ describe('PlatformService', () => {
       expect(stellarService.getScore).toHaveBeenCalledWith(wallet);
       expect(result).toEqual({
         isHuman: true,
+        policy: defaultPolicy,
         success: true,
         message: 'Human verification completed. Threshold: 35, Result: Human',
       });
@@ -302,6 +345,7 @@ describe('PlatformService', () => {
 
       expect(result).toEqual({
         isHuman: false,
+        policy: defaultPolicy,
         success: true,
         message: 'Human verification completed. Threshold: 35, Result: Not Human',
       });
@@ -337,11 +381,301 @@ describe('PlatformService', () => {
     });
   });
 
-  describe('HUMAN_THRESHOLD', () => {
-    it('should have correct human threshold value', () => {
-      // Access the private property through the service instance
-      const threshold = (service as any).HUMAN_THRESHOLD;
-      expect(threshold).toBe(35);
+  describe('humanity policies', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+    beforeEach(() => {
+      stellarService.validateWalletAddress.mockReturnValue(true);
+    });
+
+    it('applies the built-in default policy of 35 points when none is stored', async () => {
+      stellarService.getScore.mockResolvedValue(34);
+
+      const result = await service.isHuman(wallet);
+
+      expect(policyRepository.findCurrent).toHaveBeenCalledWith('default');
+      expect(result).toEqual(
+        expect.objectContaining({ isHuman: false, policy: defaultPolicy, unmet: ['minScore'] }),
+      );
+    });
+
+    it('prefers ?policy= over the integrator policy and reports its version', async () => {
+      policyRepository.findCurrent.mockImplementation(async (id: string) => ({
+        id,
+        version: 3,
+        minScore: 10,
+        requiredVerifications: ['Over18'],
+        excludedIssuers: [],
+        createdAt: new Date(),
+      }));
+      stellarService.getScore.mockResolvedValue(50);
+      stellarService.getVerifications.mockResolvedValue([]);
+
+      const result = await service.isHuman(wallet, { policyId: 'strict', integratorPolicyId: 'lenient' });
+
+      expect(policyRepository.findCurrent).toHaveBeenCalledWith('strict');
+      expect(result).toEqual(
+        expect.objectContaining({
+          isHuman: false,
+          score: 50,
+          policy: { id: 'strict', version: 3 },
+          unmet: ['verification:Over18'],
+        }),
+      );
+    });
+
+    it('returns POLICY_NOT_FOUND without reading the wallet for an unknown policy', async () => {
+      const result = await service.isHumanNS(wallet, { policyId: 'missing' });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'POLICY_NOT_FOUND' }));
+      expect(stellarService.getScore).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getScoreBreakdown', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const issuer = 'GISSUERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+    const excludedIssuer = 'GEXCLUDEDXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+    const nowSeconds = 1_700_000_000;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: nowSeconds * 1000 });
+      stellarService.validateWalletAddress.mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('explains each verification, the gap and the missing types', async () => {
+      stellarService.getUserRecord.mockResolvedValue({
+        name: '',
+        surnames: '',
+        wallet,
+        score: 30,
+        ver_count: 3,
+      });
+      stellarService.getVerifications.mockResolvedValue([
+        { vtype: { tag: 'Over18', values: undefined }, points: 20, timestamp: BigInt(nowSeconds - 60), issuer },
+        { vtype: { tag: 'Twitter', values: undefined }, points: 10, timestamp: BigInt(nowSeconds - 3600), issuer },
+        { vtype: { tag: 'Custom', values: ['status_approved'] }, points: 0, timestamp: BigInt(nowSeconds), issuer },
+      ] as any);
+
+      const result = await service.getScoreBreakdown(wallet);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: true,
+          registered: true,
+          onChainScore: 30,
+          verificationCount: 3,
+          countedScore: 30,
+          threshold: 35,
+          pointsToThreshold: 5,
+          isHuman: false,
+          policy: defaultPolicy,
+          unmet: ['minScore'],
+        }),
+      );
+      expect(result.verifications[0]).toEqual({
+        type: 'Over18',
+        issuer,
+        points: 20,
+        timestamp: new Date((nowSeconds - 60) * 1000).toISOString(),
+        ageSeconds: 60,
+        counted: true,
+      });
+      expect(result.verifications[2]).toEqual(
+        expect.objectContaining({ type: 'Custom:status_approved', counted: false, reason: 'no_points' }),
+      );
+      expect(result.pointsByType).toEqual([
+        { type: 'Over18', points: 20, count: 1 },
+        { type: 'Twitter', points: 10, count: 1 },
+        { type: 'Custom:status_approved', points: 0, count: 1 },
+      ]);
+      expect(result.suggestions).toEqual([
+        { type: 'GitHub', requiredByPolicy: false, points: 10, closesGap: true },
+        { type: 'BrightID', requiredByPolicy: false, points: 20, closesGap: true },
+        { type: 'WorldID', requiredByPolicy: false, points: 25, closesGap: true },
+      ]);
+    });
+
+    it('does not count excluded issuers and suggests required types first', async () => {
+      policyRepository.findCurrent.mockResolvedValue({
+        id: 'strict',
+        version: 2,
+        minScore: 35,
+        requiredVerifications: ['Over18', 'Custom:kyc_sumsub'],
+        excludedIssuers: [excludedIssuer],
+        createdAt: new Date(),
+      });
+      stellarService.getUserRecord.mockResolvedValue({ name: '', surnames: '', wallet, score: 50, ver_count: 2 });
+      stellarService.getVerifications.mockResolvedValue([
+        { vtype: { tag: 'Over18', values: undefined }, points: 20, timestamp: BigInt(nowSeconds), issuer: excludedIssuer },
+        { vtype: { tag: 'GitHub', values: undefined }, points: 30, timestamp: BigInt(nowSeconds), issuer },
+      ] as any);
+
+      const result = await service.getScoreBreakdown(wallet, { policyId: 'strict' });
+
+      expect(result.countedScore).toBe(30);
+      expect(result.pointsToThreshold).toBe(5);
+      expect(result.verifications[0]).toEqual(
+        expect.objectContaining({ counted: false, reason: 'excluded_issuer' }),
+      );
+      expect(result.suggestions.slice(0, 3)).toEqual([
+        { type: 'Over18', requiredByPolicy: true, points: 10, closesGap: true },
+        { type: 'Custom:kyc_sumsub', requiredByPolicy: true, points: 0, closesGap: false },
+        { type: 'Twitter', requiredByPolicy: false, points: 10, closesGap: true },
+      ]);
+    });
+
+    it('suggests nothing once the wallet is human', async () => {
+      stellarService.getUserRecord.mockResolvedValue({ name: '', surnames: '', wallet, score: 40, ver_count: 1 });
+      stellarService.getVerifications.mockResolvedValue([
+        { vtype: { tag: 'WorldID', values: undefined }, points: 40, timestamp: BigInt(nowSeconds), issuer },
+      ] as any);
+
+      const result = await service.getScoreBreakdown(wallet);
+
+      expect(result.isHuman).toBe(true);
+      expect(result.pointsToThreshold).toBe(0);
+      expect(result.suggestions).toEqual([]);
+    });
+
+    it('reports an unregistered wallet without reading verifications', async () => {
+      stellarService.getUserRecord.mockResolvedValue(null);
+
+      const result = await service.getScoreBreakdown(wallet);
+
+      expect(result).toEqual(
+        expect.objectContaining({ registered: false, countedScore: 0, pointsToThreshold: 35, unmet: ['registered'] }),
+      );
+      expect(result.suggestions).toHaveLength(5);
+      expect(stellarService.getVerifications).not.toHaveBeenCalled();
+    });
+
+    it('ranks suggestions by whether their registry points close the gap', async () => {
+      verificationTypeRegistry.list.mockResolvedValue({
+        success: true,
+        types: [
+          { key: 'Over18', canonicalPoints: 10, enabled: true },
+          { key: 'Twitter', canonicalPoints: 0, enabled: true },
+          { key: 'GitHub', canonicalPoints: 15, enabled: true },
+          { key: 'BrightID', canonicalPoints: 30, enabled: false },
+          { key: 'WorldID', canonicalPoints: 25, enabled: true },
+        ],
+      });
+      stellarService.getUserRecord.mockResolvedValue({ name: '', surnames: '', wallet, score: 20, ver_count: 1 });
+      stellarService.getVerifications.mockResolvedValue([
+        { vtype: { tag: 'Custom', values: ['kyc_veriff'] }, points: 20, timestamp: BigInt(nowSeconds), issuer },
+      ] as any);
+
+      const result = await service.getScoreBreakdown(wallet);
+
+      expect(result.pointsToThreshold).toBe(15);
+      expect(result.suggestions).toEqual([
+        { type: 'GitHub', requiredByPolicy: false, points: 15, closesGap: true },
+        { type: 'WorldID', requiredByPolicy: false, points: 25, closesGap: true },
+        { type: 'Over18', requiredByPolicy: false, points: 10, closesGap: false },
+      ]);
+    });
+
+    it('returns an error for an invalid wallet address', async () => {
+      stellarService.validateWalletAddress.mockReturnValue(false);
+
+      const result = await service.getScoreBreakdown('invalid');
+
+      expect(result).toEqual({ success: false, message: 'Invalid wallet address format' });
+      expect(stellarService.getUserRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('effective scoring', () => {
+    const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+    const issuer = 'GISSUERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+    const nowSeconds = 1_700_000_000;
+    const day = 86400;
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: nowSeconds * 1000 });
+      stellarService.validateWalletAddress.mockReturnValue(true);
+      verificationTypeRegistry.agingRules.mockResolvedValue({
+        Over18: { expirySeconds: 365 * day },
+        GitHub: { decayHalfLifeSeconds: 30 * day },
+      });
+      stellarService.getScore.mockResolvedValue(50);
+      stellarService.getVerifications.mockResolvedValue([
+        // expired a day ago
+        { vtype: { tag: 'Over18', values: undefined }, points: 20, timestamp: BigInt(nowSeconds - 366 * day), issuer },
+        // one half-life old: 20 -> 10
+        { vtype: { tag: 'GitHub', values: undefined }, points: 20, timestamp: BigInt(nowSeconds - 30 * day), issuer },
+        // never ages
+        { vtype: { tag: 'Twitter', values: undefined }, points: 10, timestamp: BigInt(nowSeconds - 900 * day), issuer },
+      ] as any);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('ages the score read only when asked to', async () => {
+      await expect(service.getScore(wallet)).resolves.toEqual(
+        expect.objectContaining({ score: 50 }),
+      );
+      expect(stellarService.getVerifications).not.toHaveBeenCalled();
+
+      await expect(service.getScore(wallet, 'effective')).resolves.toEqual({
+        score: 20,
+        rawScore: 50,
+        scoring: 'effective',
+        success: true,
+        message: 'Score retrieved successfully',
+      });
+    });
+
+    it('decides humanity on the effective score and ignores expired required types', async () => {
+      policyRepository.findCurrent.mockResolvedValue({
+        id: 'strict',
+        version: 1,
+        minScore: 35,
+        requiredVerifications: ['Over18'],
+        excludedIssuers: [],
+        createdAt: new Date(),
+      });
+
+      const raw = await service.isHuman(wallet, { policyId: 'strict' });
+      const effective = await service.isHuman(wallet, { policyId: 'strict' }, 'effective');
+
+      expect(raw).toEqual(expect.objectContaining({ isHuman: true, score: 50, scoring: 'raw' }));
+      expect(effective).toEqual(
+        expect.objectContaining({
+          isHuman: false,
+          score: 20,
+          scoring: 'effective',
+          unmet: ['minScore', 'verification:Over18'],
+        }),
+      );
+    });
+
+    it('shows the points each verification is still worth in the breakdown', async () => {
+      stellarService.getUserRecord.mockResolvedValue({ name: '', surnames: '', wallet, score: 50, ver_count: 3 });
+
+      const result = await service.getScoreBreakdown(wallet, {}, 'effective');
+
+      expect(result).toEqual(
+        expect.objectContaining({ onChainScore: 50, countedScore: 20, scoring: 'effective', pointsToThreshold: 15 }),
+      );
+      expect(result.verifications.map((v) => [v.type, v.effectivePoints, v.counted, v.reason])).toEqual([
+        ['Over18', 0, false, 'expired'],
+        ['GitHub', 10, true, undefined],
+        ['Twitter', 10, true, undefined],
+      ]);
+      expect(result.pointsByType).toEqual([
+        { type: 'Over18', points: 0, count: 1 },
+        { type: 'GitHub', points: 10, count: 1 },
+        { type: 'Twitter', points: 10, count: 1 },
+      ]);
+      expect(result.suggestions.map((suggestion) => suggestion.type)).toContain('Over18');
     });
   });
 });
@@ -5,6 +5,26 @@ import {
   StatusUpdateResponse,
   StatusResponse,
 } from '../../infrastructure/stellar/stellar.service'
+import { HumanityPolicyService } from './humanity-policy.service'
+import { VerificationTypeRegistryService } from './verification-type-registry.service'
+import {
+  HumanityPolicyRef,
+  HumanityPolicySelection,
+} from '../../domain/entities/humanity-policy.entity'
+import {
+  ScoreBreakdownResponse,
+  ScoreBreakdownSuggestion,
+  ScoreBreakdownTypeTotal,
+  ScoreBreakdownVerification,
+} from '../../domain/entities/score-breakdown.entity'
+import { verificationTypeKey } from '../../domain/entities/passport-event.entity'
+import { BUILT_IN_VERIFICATION_TYPES } from '../../domain/entities/verification-type.entity'
+import {
+  ScoringMode,
+  agedPoints,
+  effectiveScore,
+  isExpired,
+} from '../../domain/entities/effective-score.entity'
 
 export interface VerificationView {
   type: string
@@ -12,19 +32,46 @@ export interface VerificationView {
   timestamp: string
 }
 
+export interface ScoreResponse {
+  score?: number
+  /** Contract score, when `score` is the effective score */
+  rawScore?: number
+  scoring?: ScoringMode
+  success: boolean
+  message: string
+}
+
+export interface IsHumanResponse {
+  isHuman?: boolean
+  score?: number
+  scoring?: ScoringMode
+  /** Humanity policy version that decided the result */
+  policy?: HumanityPolicyRef
+  /** Policy requirements the wallet does not meet */
+  unmet?: string[]
+  success: boolean
+  message: string
+  error?: string
+}
+
+export type IsHumanNSResponse = Omit<IsHumanResponse, 'score' | 'scoring' | 'unmet'>
+
 @Injectable()
 export class PlatformService {
   private readonly logger = new Logger(PlatformService.name);
-  private readonly HUMAN_THRESHOLD = 35; // Threshold score to determine if user is human
-  // TODO: This should be configurable by the user
 
-  constructor(private readonly stellarService: StellarService) {}
+  constructor(
+    private readonly stellarService: StellarService,
+    private readonly humanityPolicyService: HumanityPolicyService,
+    private readonly verificationTypeRegistry: VerificationTypeRegistryService,
+  ) {}
 
   /**
    * Get user score from the smart contract
    * The contract returns a u32 value directly
+   * With effective scoring the verifications are aged by the expiry and decay of their type
    */
-  async getScore(wallet: string): Promise<{ score?: number; success: boolean; message: string }> {
+  async getScore(wallet: string, scoring: ScoringMode = 'raw'): Promise<ScoreResponse> {
     try {
       this.logger.log(`Getting score for wallet: ${wallet}`);
 
@@ -44,6 +91,29 @@ export class PlatformService {
         throw new Error(`Invalid score type: expected number, got ${typeof score}`);
       }
 
+      if (scoring === 'effective') {
+        const { rules, now } = await this.humanityPolicyService.scoringAging();
+        const verifications = await this.stellarService.getVerifications(wallet);
+        const effective = effectiveScore(
+          verifications.map(verification => ({
+            type: verificationTypeKey(verification.vtype),
+            points: Number(verification.points),
+            writtenAt: new Date(Number(verification.timestamp) * 1000)
+          })),
+          rules,
+          now
+        );
+
+        this.logger.log(`Effective score retrieved successfully for wallet: ${wallet}, score: ${effective}, raw: ${score}`);
+        return {
+          score: effective,
+          rawScore: score,
+          scoring,
+          success: true,
+          message: 'Score retrieved successfully'
+        };
+      }
+
       this.logger.log(`Score retrieved successfully for wallet: ${wallet}, score: ${score}`);
       return {
         score,
@@ -61,6 +131,7 @@ export class PlatformService {
         return {
           success: true,
           score: 0,
+          ...(scoring === 'effective' ? { rawScore: 0, scoring } : {}),
           message: 'User is not registered. Score is 0.'
         };
       }
@@ -127,11 +198,16 @@ export class PlatformService {
   }
 
   /**
-   * Check if a user is human based on their score
-   * Uses the score from the smart contract and compares it against the human threshold
-   * The contract returns an unsigned 32-bit integer (u32)
+   * Check if a user is human under a humanity policy
+   * The policy is the one named by policyId, else the integrator's, else the default
+   * (see HumanityPolicyService); the response names the policy version used
+   * With effective scoring the policy is applied to the aged score
    */
-  async isHuman(wallet: string): Promise<{ isHuman?: boolean; score?: number; success: boolean; message: string }> {
+  async isHuman(
+    wallet: string,
+    selection: HumanityPolicySelection = {},
+    scoring: ScoringMode = 'raw'
+  ): Promise<IsHumanResponse> {
     try {
       this.logger.log(`Checking if wallet is human: ${wallet}`);
 
@@ -143,24 +219,38 @@ export class PlatformService {
         };
       }
 
-      // Get the user's score from the Stellar smart contract
-      const score = await this.stellarService.getScore(wallet);
+      const policy = await this.humanityPolicyService.resolve(selection);
+      if (!policy) {
+        return this.policyNotFound(selection);
+      }
 
-      // Ensure score is a number
-      if (typeof score !== 'number') {
-        throw new Error(`Invalid score type: expected number, got ${typeof score}`);
+      // Score (and verifications, when the policy or scoring needs them) from the Stellar smart contract
+      const decision = await this.humanityPolicyService.evaluate(wallet, policy, this.stellarService, scoring);
+
+      if (!decision.registered) {
+        return {
+          isHuman: false,
+          score: 0,
+          scoring: decision.scoring,
+          policy: decision.policy,
+          unmet: decision.unmet,
+          success: true,
+          message: 'User is not registered. Score is 0, not human.'
+        };
       }
 
-      // Determine if the user is human based on the threshold
-      const isHuman = score >= this.HUMAN_THRESHOLD;
+      const { isHuman, score } = decision;
 
-      this.logger.log(`Human check completed for wallet: ${wallet}, score: ${score}, isHuman: ${isHuman}, threshold: ${this.HUMAN_THRESHOLD}`);
+      this.logger.log(`Human check completed for wallet: ${wallet}, score: ${score}, isHuman: ${isHuman}, policy: ${policy.id} v${policy.version}`);
       
       return {
         isHuman,
         score,
+        scoring: decision.scoring,
+        policy: decision.policy,
+        unmet: decision.unmet,
         success: true,
-        message: `Human verification completed. Score: ${score}, Threshold: ${this.HUMAN_THRESHOLD}, Result: ${isHuman ? 'Human' : 'Not Human'}`
+        message: `Human verification completed. Score: ${score}, Threshold: ${policy.minScore}, Result: ${isHuman ? 'Human' : 'Not Human'}`
       };
 
     } catch (error) {
@@ -168,16 +258,6 @@ export class PlatformService {
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      // Handle specific contract errors more gracefully
-      if (errorMessage.includes('User is not registered')) {
-        return {
-          isHuman: false,
-          score: 0,
-          success: true,
-          message: 'User is not registered. Score is 0, not human.'
-        };
-      }
-      
       return {
         success: false,
         message: `Failed to verify if human: ${errorMessage}`
@@ -185,7 +265,11 @@ export class PlatformService {
     }
   }
 
-  async isHumanNS(wallet: string): Promise<{ isHuman?: boolean; success: boolean; message: string }> {
+  async isHumanNS(
+    wallet: string,
+    selection: HumanityPolicySelection = {},
+    scoring: ScoringMode = 'raw'
+  ): Promise<IsHumanNSResponse> {
     try {
       this.logger.log(`Checking if wallet is human (no score): ${wallet}`);
 
@@ -197,18 +281,31 @@ export class PlatformService {
         };
       }
 
-      // Get the user's score from the Stellar smart contract
-      const score = await this.stellarService.getScore(wallet);
+      const policy = await this.humanityPolicyService.resolve(selection);
+      if (!policy) {
+        return this.policyNotFound(selection);
+      }
 
-      // Determine if the user is human based on the threshold
-      const isHuman = score >= this.HUMAN_THRESHOLD;
+      const decision = await this.humanityPolicyService.evaluate(wallet, policy, this.stellarService, scoring);
 
-      this.logger.log(`Human check completed for wallet (no score): ${wallet}, isHuman: ${isHuman}, threshold: ${this.HUMAN_THRESHOLD}`);
+      if (!decision.registered) {
+        return {
+          isHuman: false,
+          policy: decision.policy,
+          success: true,
+          message: 'User is not registered. Not human.'
+        };
+      }
+
+      const { isHuman } = decision;
+
+      this.logger.log(`Human check completed for wallet (no score): ${wallet}, isHuman: ${isHuman}, policy: ${policy.id} v${policy.version}`);
       
       return {
         isHuman,
+        policy: decision.policy,
         success: true,
-        message: `Human verification completed. Threshold: ${this.HUMAN_THRESHOLD}, Result: ${isHuman ? 'Human' : 'Not Human'}`
+        message: `Human verification completed. Threshold: ${policy.minScore}, Result: ${isHuman ? 'Human' : 'Not Human'}`
       };
 
     } catch (error) {
@@ -216,22 +313,188 @@ export class PlatformService {
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      // Handle specific contract errors more gracefully
-      if (errorMessage.includes('User is not registered')) {
+      return {
+        success: false,
+        message: `Failed to verify if human: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * Explain a wallet's score under a humanity policy: the on-chain User record,
+   * every verification with its issuer and age, which ones count toward the
+   * threshold, the remaining gap and the missing types that could close it
+   * With effective scoring each verification also shows the points it is still worth
+   */
+  async getScoreBreakdown(
+    wallet: string,
+    selection: HumanityPolicySelection = {},
+    scoring: ScoringMode = 'raw'
+  ): Promise<ScoreBreakdownResponse> {
+    try {
+      this.logger.log(`Getting score breakdown for wallet: ${wallet}`);
+
+      // Validate wallet address format
+      if (!this.stellarService.validateWalletAddress(wallet)) {
+        return {
+          success: false,
+          message: 'Invalid wallet address format'
+        };
+      }
+
+      const policy = await this.humanityPolicyService.resolve(selection);
+      if (!policy) {
+        return this.policyNotFound(selection);
+      }
+
+      const user = await this.stellarService.getUserRecord(wallet);
+
+      if (!user) {
         return {
+          wallet,
+          registered: false,
+          onChainScore: 0,
+          verificationCount: 0,
+          countedScore: 0,
+          scoring,
+          threshold: policy.minScore,
+          pointsToThreshold: policy.minScore,
           isHuman: false,
+          policy: { id: policy.id, version: policy.version },
+          unmet: ['registered'],
+          verifications: [],
+          pointsByType: [],
+          suggestions: await this.suggestVerificationTypes(new Set(), policy.requiredVerifications, policy.minScore),
           success: true,
-          message: 'User is not registered. Not human.'
+          message: 'User is not registered. Score is 0, not human.'
         };
       }
-      
+
+      const stellarVerifications = await this.stellarService.getVerifications(wallet);
+      const onChainScore = Number(user.score);
+      const aging = scoring === 'effective' ? await this.humanityPolicyService.scoringAging() : undefined;
+      const decision = this.humanityPolicyService.decide(policy, onChainScore, stellarVerifications, aging);
+
+      const excluded = new Set(policy.excludedIssuers);
+      const nowSeconds = Math.floor((aging?.now ?? new Date()).getTime() / 1000);
+      const verifications: ScoreBreakdownVerification[] = stellarVerifications.map(verification => {
+        const type = verificationTypeKey(verification.vtype);
+        const points = Number(verification.points);
+        const timestamp = Number(verification.timestamp);
+        const ageSeconds = Math.max(0, nowSeconds - timestamp);
+        const reason = excluded.has(verification.issuer)
+          ? 'excluded_issuer'
+          : aging && isExpired(ageSeconds, aging.rules[type])
+            ? 'expired'
+            : points <= 0 ? 'no_points' : undefined;
+        return {
+          type,
+          issuer: verification.issuer,
+          points,
+          ...(aging ? { effectivePoints: this.roundPoints(agedPoints(points, ageSeconds, aging.rules[type])) } : {}),
+          timestamp: new Date(timestamp * 1000).toISOString(),
+          ageSeconds,
+          counted: !reason,
+          ...(reason ? { reason } : {})
+        };
+      });
+
+      const totals = new Map<string, ScoreBreakdownTypeTotal>();
+      for (const verification of verifications) {
+        const total = totals.get(verification.type) ?? { type: verification.type, points: 0, count: 0 };
+        if (verification.counted) {
+          total.points = this.roundPoints(total.points + (verification.effectivePoints ?? verification.points));
+        }
+        total.count += 1;
+        totals.set(verification.type, total);
+      }
+
+      const held = new Set(
+        verifications.filter(v => v.reason !== 'excluded_issuer' && v.reason !== 'expired').map(v => v.type)
+      );
+      const pointsToThreshold = Math.max(0, policy.minScore - decision.score);
+
+      this.logger.log(`Score breakdown completed for wallet: ${wallet}, score: ${decision.score}, gap: ${pointsToThreshold}`);
+      return {
+        wallet,
+        registered: true,
+        onChainScore,
+        verificationCount: Number(user.ver_count),
+        countedScore: decision.score,
+        scoring: decision.scoring,
+        threshold: policy.minScore,
+        pointsToThreshold,
+        isHuman: decision.isHuman,
+        policy: decision.policy,
+        unmet: decision.unmet,
+        verifications,
+        pointsByType: [...totals.values()],
+        suggestions: decision.isHuman
+          ? []
+          : await this.suggestVerificationTypes(held, policy.requiredVerifications, pointsToThreshold),
+        success: true,
+        message: 'Score breakdown retrieved successfully'
+      };
+
+    } catch (error) {
+      this.logger.error(`Failed to get score breakdown for wallet: ${wallet}`, error);
       return {
         success: false,
-        message: `Failed to verify if human: ${errorMessage}`
+        message: `Failed to get score breakdown: ${error instanceof Error ? error.message : 'Unknown error'}`
       };
     }
   }
 
+  /**
+   * Missing types the policy requires first, then (while points are still
+   * needed) the enabled built-in types the wallet does not hold that carry
+   * points: those whose canonical points alone close the gap, smallest first,
+   * then the rest, largest first
+   */
+  private async suggestVerificationTypes(
+    held: Set<string>,
+    required: string[],
+    pointsToThreshold: number,
+  ): Promise<ScoreBreakdownSuggestion[]> {
+    const { types } = await this.verificationTypeRegistry.list();
+    const entries = new Map(types.map(entry => [entry.key, entry]));
+    const suggest = (type: string, requiredByPolicy: boolean): ScoreBreakdownSuggestion => {
+      const points = entries.get(type)?.canonicalPoints ?? 0;
+      return { type, requiredByPolicy, points, closesGap: points >= pointsToThreshold };
+    };
+
+    const suggestions = required
+      .filter(type => !held.has(type))
+      .map(type => suggest(type, true));
+
+    if (pointsToThreshold > 0) {
+      const optional = BUILT_IN_VERIFICATION_TYPES
+        .filter(type => !held.has(type) && !required.includes(type) && entries.get(type)?.enabled)
+        .map(type => suggest(type, false))
+        .filter(suggestion => suggestion.points > 0)
+        .sort((a, b) =>
+          a.closesGap !== b.closesGap
+            ? Number(b.closesGap) - Number(a.closesGap)
+            : a.closesGap ? a.points - b.points : b.points - a.points
+        );
+      suggestions.push(...optional);
+    }
+
+    return suggestions;
+  }
+
+  private roundPoints(points: number): number {
+    return Math.round(points * 100) / 100
+  }
+
+  private policyNotFound(selection: HumanityPolicySelection): IsHumanResponse {
+    return {
+      success: false,
+      message: `Humanity policy ${selection.policyId || selection.integratorPolicyId} not found`,
+      error: 'POLICY_NOT_FOUND'
+    };
+  }
+
   /**
    * Convert VerificationType to string for backward compatibility
    */
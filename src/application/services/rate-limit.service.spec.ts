@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RateLimitService } from './rate-limit.service';
+import { InMemoryRateLimitStore } from '../../infrastructure/rate-limit/in-memory-rate-limit.store';
+import { RATE_LIMIT_STORE } from '../../domain/ports/rate-limit-store.port';
+import { RateLimitIdentity } from '../../domain/entities/rate-limit.entity';
+
+describe('RateLimitService', () => {
+  let service: RateLimitService;
+
+  const settings: Record<string, string> = {
+    RATE_LIMIT_BURST: '3',
+    RATE_LIMIT_REFILL_PER_SECOND: '1',
+    RATE_LIMIT_MONTHLY_QUOTA: '10',
+    RATE_LIMIT_ANON_BURST: '2',
+    RATE_LIMIT_ANON_REFILL_PER_SECOND: '0.5',
+    RATE_LIMIT_ANON_MONTHLY_QUOTA: '5',
+  };
+
+  const keyIdentity: RateLimitIdentity = { kind: 'api-key', key: 'key-1' };
+  const ipIdentity: RateLimitIdentity = { kind: 'ip', key: '10.0.0.1' };
+  const t0 = new Date('2025-03-15T12:00:00Z');
+  const at = (ms: number) => new Date(t0.getTime() + ms);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RATE_LIMIT_STORE, useClass: InMemoryRateLimitStore },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => settings[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RateLimitService);
+  });
+
+  it('allows a burst up to capacity, then denies with reason rate', async () => {
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push(await service.consume(keyIdentity, 1, t0));
+    }
+
+    expect(decisions.slice(0, 3).every((d) => d.allowed)).toBe(true);
+    expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3]).toMatchObject({
+      allowed: false,
+      reason: 'rate',
+      retryAfterSeconds: 1,
+    });
+    expect(decisions[3].quotaLimit).toBeUndefined();
+  });
+
+  it('refills tokens over time', async () => {
+    for (let i = 0; i < 3; i++) {
+      await service.consume(keyIdentity, 1, t0);
+    }
+
+    const later = await service.consume(keyIdentity, 1, at(1000));
+
+    expect(later.allowed).toBe(true);
+    expect(later.remaining).toBe(0);
+  });
+
+  it('uses the anonymous policy for IP identities and keeps them separate', async () => {
+    await service.consume(ipIdentity, 1, t0);
+    await service.consume(ipIdentity, 1, t0);
+    const denied = await service.consume(ipIdentity, 1, t0);
+    const otherIp = await service.consume({ kind: 'ip', key: '10.0.0.2' }, 1, t0);
+
+    expect(denied.allowed).toBe(false);
+    expect(denied.limit).toBe(2);
+    expect(otherIp.allowed).toBe(true);
+  });
+
+  it('charges the quota by cost and denies once the month is used up', async () => {
+    const first = await service.consume(keyIdentity, 8, t0);
+    const second = await service.consume(keyIdentity, 3, at(1000));
+
+    expect(first).toMatchObject({ allowed: true, quotaLimit: 10, quotaRemaining: 2 });
+    expect(second).toMatchObject({ allowed: false, reason: 'quota', quotaRemaining: 2 });
+    expect(second.quotaResetAt).toBe(Date.UTC(2025, 3, 1) / 1000);
+    expect(second.retryAfterSeconds).toBe((Date.UTC(2025, 3, 1) - at(1000).getTime()) / 1000);
+  });
+
+  it('starts a fresh quota in the next month', async () => {
+    await service.consume(keyIdentity, 10, t0);
+
+    const nextMonth = await service.consume(
+      keyIdentity,
+      1,
+      new Date('2025-04-01T00:00:05Z'),
+    );
+
+    expect(nextMonth).toMatchObject({ allowed: true, quotaRemaining: 9 });
+  });
+
+  it('falls back to defaults for missing or invalid settings', async () => {
+    const module = await Test.createTestingModule({
+      providers: [
+        RateLimitService,
+        { provide: RATE_LIMIT_STORE, useClass: InMemoryRateLimitStore },
+        { provide: ConfigService, useValue: { get: jest.fn(() => 'abc') } },
+      ],
+    }).compile();
+
+    const policy = module.get(RateLimitService).policyFor(keyIdentity);
+
+    expect(policy).toEqual({ burst: 60, refillPerSecond: 1, monthlyQuota: 100000 });
+  });
+});
@@ -0,0 +1,116 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  RATE_LIMIT_STORE,
+  RateLimitStore,
+} from '../../domain/ports/rate-limit-store.port';
+import {
+  RateLimitDecision,
+  RateLimitIdentity,
+  RateLimitPolicy,
+} from '../../domain/entities/rate-limit.entity';
+
+@Injectable()
+export class RateLimitService {
+  private readonly logger = new Logger(RateLimitService.name);
+
+  private readonly apiKeyPolicy: RateLimitPolicy;
+  private readonly anonymousPolicy: RateLimitPolicy;
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE)
+    private readonly store: RateLimitStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.apiKeyPolicy = {
+      burst: this.numberSetting('RATE_LIMIT_BURST', 60),
+      refillPerSecond: this.numberSetting('RATE_LIMIT_REFILL_PER_SECOND', 1),
+      monthlyQuota: this.numberSetting('RATE_LIMIT_MONTHLY_QUOTA', 100000),
+    };
+    this.anonymousPolicy = {
+      burst: this.numberSetting('RATE_LIMIT_ANON_BURST', 10),
+      refillPerSecond: this.numberSetting('RATE_LIMIT_ANON_REFILL_PER_SECOND', 0.2),
+      monthlyQuota: this.numberSetting('RATE_LIMIT_ANON_MONTHLY_QUOTA', 1000),
+    };
+  }
+
+  policyFor(identity: RateLimitIdentity): RateLimitPolicy {
+    return identity.kind === 'api-key' ? this.apiKeyPolicy : this.anonymousPolicy;
+  }
+
+  /**
+   * Count one request against the identity's token bucket and `quotaCost`
+   * units against its monthly quota.
+   */
+  async consume(
+    identity: RateLimitIdentity,
+    quotaCost = 1,
+    now: Date = new Date(),
+  ): Promise<RateLimitDecision> {
+    const policy = this.policyFor(identity);
+    const storeKey = `${identity.kind}:${identity.key}`;
+
+    const bucket = await this.store.takeTokens(
+      storeKey,
+      1,
+      { capacity: policy.burst, refillPerSecond: policy.refillPerSecond },
+      now.getTime(),
+    );
+
+    const resetSeconds = Math.ceil(bucket.resetMs / 1000);
+    const decision: RateLimitDecision = {
+      allowed: bucket.allowed,
+      limit: policy.burst,
+      remaining: bucket.remaining,
+      resetSeconds,
+    };
+
+    if (!bucket.allowed) {
+      this.logger.warn(`Rate limit exceeded for ${storeKey}`);
+      return {
+        ...decision,
+        reason: 'rate',
+        retryAfterSeconds: Math.max(1, Math.ceil(1 / policy.refillPerSecond)),
+      };
+    }
+
+    const quotaResetAt = this.startOfNextMonth(now);
+    const quota = await this.store.addUsage(
+      storeKey,
+      this.period(now),
+      quotaCost,
+      policy.monthlyQuota,
+    );
+
+    decision.quotaLimit = policy.monthlyQuota;
+    decision.quotaRemaining = Math.max(0, policy.monthlyQuota - quota.used);
+    decision.quotaResetAt = Math.floor(quotaResetAt.getTime() / 1000);
+
+    if (!quota.allowed) {
+      this.logger.warn(
+        `Monthly quota exceeded for ${storeKey}: used=${quota.used}, requested=${quotaCost}, limit=${policy.monthlyQuota}`,
+      );
+      return {
+        ...decision,
+        allowed: false,
+        reason: 'quota',
+        retryAfterSeconds: Math.ceil((quotaResetAt.getTime() - now.getTime()) / 1000),
+      };
+    }
+
+    return decision;
+  }
+
+  private period(now: Date): string {
+    return `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+
+  private startOfNextMonth(now: Date): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  }
+
+  private numberSetting(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
+}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ScoreDecayService } from './score-decay.service';
+import { HumanityPolicyService } from './humanity-policy.service';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { PassportEventRepository } from '../../infrastructure/firebase/passport-event.repository';
+import { ScoreDecayReportRepository } from '../../infrastructure/firebase/score-decay-report.repository';
+import { IndexedWallet } from '../../domain/entities/passport-event.entity';
+
+const DAY_MS = 86400 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+function indexedWallet(
+  wallet: string,
+  verifications: [type: string, points: number, ageDays: number][],
+  registered = true,
+): IndexedWallet {
+  return {
+    wallet,
+    registered,
+    score: verifications.reduce((sum, [, points]) => sum + points, 0),
+    verifications: Object.fromEntries(
+      verifications.map(([type, points, ageDays]) => [
+        type,
+        {
+          vtype: { tag: type as 'GitHub', values: undefined },
+          points,
+          ledger: 1,
+          updatedAt: new Date(NOW.getTime() - ageDays * DAY_MS),
+        },
+      ]),
+    ),
+    lastLedger: 1,
+    updatedAt: NOW,
+  };
+}
+
+describe('ScoreDecayService', () => {
+  let service: ScoreDecayService;
+  let humanityPolicyService: { resolve: jest.Mock };
+  let verificationTypeRegistry: { agingRules: jest.Mock };
+  let eventRepository: { listWallets: jest.Mock };
+  let reportRepository: { save: jest.Mock; listRecent: jest.Mock };
+  let config: Record<string, string>;
+
+  async function build(): Promise<void> {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScoreDecayService,
+        { provide: HumanityPolicyService, useValue: humanityPolicyService },
+        { provide: VerificationTypeRegistryService, useValue: verificationTypeRegistry },
+        { provide: PassportEventRepository, useValue: eventRepository },
+        { provide: ScoreDecayReportRepository, useValue: reportRepository },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => config[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScoreDecayService);
+  }
+
+  beforeEach(async () => {
+    config = { SCORE_DECAY_PERIOD_MS: String(DAY_MS) };
+    humanityPolicyService = {
+      resolve: jest.fn().mockResolvedValue({ id: 'default', version: 0, minScore: 35 }),
+    };
+    verificationTypeRegistry = {
+      agingRules: jest.fn().mockResolvedValue({ Over18: { expirySeconds: 365 * 86400 } }),
+    };
+    eventRepository = {
+      listWallets: jest.fn().mockResolvedValue([
+        // Over18 expired half a day before NOW: 40 -> 20
+        indexedWallet('GFELL', [['Over18', 20, 365.5], ['GitHub', 20, 10]]),
+        // already below at the start of the period
+        indexedWallet('GWASBELOW', [['Over18', 20, 370], ['GitHub', 20, 10]]),
+        // still above
+        indexedWallet('GSTILLABOVE', [['Over18', 20, 365.5], ['WorldID', 40, 10]]),
+        indexedWallet('GUNREGISTERED', [], false),
+      ]),
+    };
+    reportRepository = {
+      save: jest.fn(async (report) => report),
+      listRecent: jest.fn().mockResolvedValue([]),
+    };
+
+    await build();
+  });
+
+  it('reports wallets whose effective score crossed below the threshold during the period', async () => {
+    const result = await service.runNow({ createdBy: 'operator@veridion.id' }, NOW);
+
+    expect(result.success).toBe(true);
+    expect(result.report).toEqual(
+      expect.objectContaining({
+        policy: { id: 'default', version: 0 },
+        threshold: 35,
+        periodStart: new Date(NOW.getTime() - DAY_MS),
+        periodEnd: NOW,
+        scanned: 4,
+        truncated: false,
+        createdBy: 'operator@veridion.id',
+        wallets: [{ wallet: 'GFELL', rawScore: 40, previousScore: 40, effectiveScore: 20 }],
+      }),
+    );
+    expect(reportRepository.save).toHaveBeenCalledWith(result.report);
+  });
+
+  it('does not count verifications written during the period at its start', async () => {
+    eventRepository.listWallets.mockResolvedValue([
+      // 30 at the start (GitHub did not exist yet), 10 at the end
+      indexedWallet('GNEW', [['Over18', 30, 365.5], ['GitHub', 10, 0.25]]),
+    ]);
+
+    const result = await service.runNow({}, NOW);
+
+    expect(result.report.wallets).toEqual([]);
+  });
+
+  it('pages through indexed wallets', async () => {
+    config.SCORE_DECAY_PAGE_SIZE = '2';
+    await build();
+    const wallets = [
+      indexedWallet('GA', [['GitHub', 10, 1]]),
+      indexedWallet('GB', [['GitHub', 10, 1]]),
+      indexedWallet('GC', [['GitHub', 10, 1]]),
+    ];
+    eventRepository.listWallets.mockImplementation(async (limit: number, after?: string) => {
+      const start = after ? wallets.findIndex((w) => w.wallet === after) + 1 : 0;
+      return wallets.slice(start, start + limit);
+    });
+
+    const result = await service.runNow({}, NOW);
+
+    expect(result.report.scanned).toBe(3);
+    expect(eventRepository.listWallets.mock.calls).toEqual([[2, undefined], [2, 'GB']]);
+  });
+
+  it('keeps at most SCORE_DECAY_MAX_WALLETS_PER_REPORT wallets', async () => {
+    config.SCORE_DECAY_MAX_WALLETS_PER_REPORT = '1';
+    await build();
+    eventRepository.listWallets.mockResolvedValue([
+      indexedWallet('GFELL1', [['Over18', 40, 365.5]]),
+      indexedWallet('GFELL2', [['Over18', 40, 365.5]]),
+    ]);
+
+    const result = await service.runNow({}, NOW);
+
+    expect(result.report.wallets.map((w) => w.wallet)).toEqual(['GFELL1']);
+    expect(result.report.truncated).toBe(true);
+  });
+
+  it('skips the scan when no verification type ages', async () => {
+    verificationTypeRegistry.agingRules.mockResolvedValue({});
+
+    const result = await service.runNow({}, NOW);
+
+    expect(result.report).toEqual(expect.objectContaining({ scanned: 0, wallets: [] }));
+    expect(eventRepository.listWallets).not.toHaveBeenCalled();
+  });
+
+  it('returns POLICY_NOT_FOUND for an unknown policy', async () => {
+    humanityPolicyService.resolve.mockResolvedValue(null);
+
+    const result = await service.runNow({ policyId: 'missing' }, NOW);
+
+    expect(result.error).toBe('POLICY_NOT_FOUND');
+    expect(reportRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('keys scheduled reports by their aligned period', async () => {
+    const first = await service.runScheduled(new Date('2025-06-01T12:00:00Z'));
+    const second = await service.runScheduled(new Date('2025-06-01T18:30:00Z'));
+
+    expect(first.report.id).toBe('scheduled-2025-06-01T00:00:00.000Z');
+    expect(second.report.id).toBe(first.report.id);
+    expect(first.report.periodStart).toEqual(new Date('2025-05-31T00:00:00Z'));
+    expect(humanityPolicyService.resolve).toHaveBeenCalledWith({ policyId: undefined });
+  });
+});
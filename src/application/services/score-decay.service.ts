@@ -0,0 +1,237 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { HumanityPolicyService } from './humanity-policy.service';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { PassportEventRepository } from '../../infrastructure/firebase/passport-event.repository';
+import { ScoreDecayReportRepository } from '../../infrastructure/firebase/score-decay-report.repository';
+import { IndexedWallet } from '../../domain/entities/passport-event.entity';
+import {
+  VerificationAgingRules,
+  effectiveScore,
+} from '../../domain/entities/effective-score.entity';
+import {
+  DecayedWallet,
+  ScoreDecayReportListResponse,
+  ScoreDecayReportResponse,
+} from '../../domain/entities/score-decay.entity';
+
+const DEFAULT_REPORT_LIMIT = 10;
+
+/**
+ * Background job that lists the wallets whose effective score fell below
+ * the threshold of a humanity policy during the last period.
+ *
+ * Every SCORE_DECAY_INTERVAL_MS (0 disables) it scans the wallets indexed
+ * by the passport indexer, computes each effective score at the start and
+ * at the end of the last SCORE_DECAY_PERIOD_MS with the aging rules of the
+ * verification type registry, and stores a report of the wallets that
+ * crossed below the `default` policy's minScore. Scheduled reports are
+ * keyed by period, so running it on every instance is harmless.
+ *
+ * Only the indexed score and verifications are used: the index does not
+ * record issuers, so a policy's excluded issuers and required
+ * verifications are not applied here.
+ */
+@Injectable()
+export class ScoreDecayService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ScoreDecayService.name);
+  private readonly intervalMs: number;
+  private readonly periodMs: number;
+  private readonly pageSize: number;
+  private readonly maxWalletsPerReport: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ScoreDecayReportResponse> | null = null;
+
+  constructor(
+    private readonly humanityPolicyService: HumanityPolicyService,
+    private readonly verificationTypeRegistry: VerificationTypeRegistryService,
+    private readonly eventRepository: PassportEventRepository,
+    private readonly reportRepository: ScoreDecayReportRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(this.configService.get<string>('SCORE_DECAY_INTERVAL_MS', '86400000'));
+    this.periodMs = Number(this.configService.get<string>('SCORE_DECAY_PERIOD_MS', '86400000'));
+    this.pageSize = Number(this.configService.get<string>('SCORE_DECAY_PAGE_SIZE', '200'));
+    this.maxWalletsPerReport = Number(this.configService.get<string>('SCORE_DECAY_MAX_WALLETS_PER_REPORT', '1000'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      this.logger.log('Score decay job disabled (SCORE_DECAY_INTERVAL_MS=0)');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runScheduled().catch((error) => this.logger.error('Score decay job failed', error));
+    }, this.intervalMs);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * Report on the last full period, aligned to SCORE_DECAY_PERIOD_MS.
+   * Overlapping calls share the run already in progress.
+   */
+  runScheduled(now: Date = new Date()): Promise<ScoreDecayReportResponse> {
+    if (!this.running) {
+      const periodEnd = new Date(Math.floor(now.getTime() / this.periodMs) * this.periodMs);
+      this.running = this.run({
+        id: `scheduled-${periodEnd.toISOString()}`,
+        periodStart: new Date(periodEnd.getTime() - this.periodMs),
+        periodEnd,
+      }).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Report on the period of `periodSeconds` (default SCORE_DECAY_PERIOD_MS)
+   * ending now, under `policyId` (default `default`).
+   */
+  async runNow(
+    options: { policyId?: string; periodSeconds?: number; createdBy?: string } = {},
+    now: Date = new Date(),
+  ): Promise<ScoreDecayReportResponse> {
+    const periodMs = options.periodSeconds ? options.periodSeconds * 1000 : this.periodMs;
+    return this.run({
+      id: `manual-${now.getTime()}-${crypto.randomBytes(4).toString('hex')}`,
+      policyId: options.policyId,
+      periodStart: new Date(now.getTime() - periodMs),
+      periodEnd: now,
+      createdBy: options.createdBy,
+    });
+  }
+
+  async list(limit?: number): Promise<ScoreDecayReportListResponse> {
+    return {
+      success: true,
+      reports: await this.reportRepository.listRecent(limit ?? DEFAULT_REPORT_LIMIT),
+    };
+  }
+
+  private async run(params: {
+    id: string;
+    policyId?: string;
+    periodStart: Date;
+    periodEnd: Date;
+    createdBy?: string;
+  }): Promise<ScoreDecayReportResponse> {
+    const policy = await this.humanityPolicyService.resolve({ policyId: params.policyId });
+    if (!policy) {
+      return {
+        success: false,
+        message: `Humanity policy ${params.policyId} not found`,
+        error: 'POLICY_NOT_FOUND',
+      };
+    }
+
+    const rules = await this.verificationTypeRegistry.agingRules();
+    const wallets: DecayedWallet[] = [];
+    let scanned = 0;
+    let truncated = false;
+
+    // Without aging rules no effective score can change
+    if (Object.keys(rules).length > 0) {
+      let after: string | undefined;
+      for (;;) {
+        const page = await this.eventRepository.listWallets(this.pageSize, after);
+
+        for (const indexed of page) {
+          scanned++;
+          const decayed = this.fellBelow(indexed, rules, policy.minScore, params.periodStart, params.periodEnd);
+          if (!decayed) {
+            continue;
+          }
+          if (wallets.length < this.maxWalletsPerReport) {
+            wallets.push(decayed);
+          } else {
+            truncated = true;
+          }
+        }
+
+        if (page.length < this.pageSize) {
+          break;
+        }
+        after = page[page.length - 1].wallet;
+      }
+    }
+
+    const report = await this.reportRepository.save({
+      id: params.id,
+      policy: { id: policy.id, version: policy.version },
+      threshold: policy.minScore,
+      periodStart: params.periodStart,
+      periodEnd: params.periodEnd,
+      scanned,
+      wallets,
+      truncated,
+      createdAt: new Date(),
+      createdBy: params.createdBy,
+    });
+
+    this.logger.log(
+      `Score decay report id=${report.id}: scanned=${scanned} fellBelow=${wallets.length}${truncated ? '+' : ''} policy=${policy.id} v${policy.version}`,
+    );
+
+    return { success: true, message: 'Score decay report created', report };
+  }
+
+  /**
+   * The wallet, when its effective score was at or above `threshold` at
+   * the start of the period and below it at the end
+   */
+  private fellBelow(
+    indexed: IndexedWallet,
+    rules: VerificationAgingRules,
+    threshold: number,
+    periodStart: Date,
+    periodEnd: Date,
+  ): DecayedWallet | null {
+    if (!indexed.registered) {
+      return null;
+    }
+
+    const verifications = Object.entries(indexed.verifications).map(([type, verification]) => ({
+      type,
+      points: Number(verification.points),
+      writtenAt: verification.updatedAt,
+    }));
+
+    const previousScore = effectiveScore(
+      verifications.filter((verification) => verification.writtenAt <= periodStart),
+      rules,
+      periodStart,
+    );
+    const currentScore = effectiveScore(
+      verifications.filter((verification) => verification.writtenAt <= periodEnd),
+      rules,
+      periodEnd,
+    );
+
+    if (previousScore < threshold || currentScore >= threshold) {
+      return null;
+    }
+
+    return {
+      wallet: indexed.wallet,
+      rawScore: indexed.score,
+      previousScore,
+      effectiveScore: currentScore,
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { SocialVerificationService } from './social-verification.service';
+import { AdminService } from './admin.service';
+import { SocialOAuthStateRepository } from '../../infrastructure/firebase/social-oauth-state.repository';
+import { SocialAccountRepository } from '../../infrastructure/firebase/social-account.repository';
+import { pkceChallenge } from '../../infrastructure/social/social-oauth.client';
+import { SocialAccountLink, SocialOAuthState } from '../../domain/entities/social-verification.entity';
+
+const WALLET = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF12345678';
+const OTHER_WALLET = 'GOTHER4567890ABCDEF1234567890ABCDEF1234567890ABCDEF12345678';
+const SOURCE = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQ';
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+describe('SocialVerificationService', () => {
+  let service: SocialVerificationService;
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Array<{ method: string; url: string; headers: http.IncomingHttpHeaders; body: string }>;
+  let replies: Record<string, { status: number; body: unknown }>;
+  let states: Map<string, SocialOAuthState>;
+  let links: Map<string, SocialAccountLink>;
+  let adminService: { issueVerification: jest.Mock };
+  let settings: Record<string, string>;
+
+  const stateRepository = {
+    create: jest.fn(async (record: SocialOAuthState) => {
+      states.set(record.state, record);
+      return record;
+    }),
+    consume: jest.fn(async (state: string) => {
+      const record = states.get(state) ?? null;
+      states.delete(state);
+      return record;
+    }),
+  };
+
+  const accountRepository = {
+    claim: jest.fn(async (link: SocialAccountLink) => {
+      const key = `${link.provider}:${link.accountId}`;
+      if (!links.has(key)) {
+        links.set(key, link);
+      }
+      return links.get(key);
+    }),
+  };
+
+  const build = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SocialVerificationService,
+        { provide: AdminService, useValue: adminService },
+        { provide: SocialOAuthStateRepository, useValue: stateRepository },
+        { provide: SocialAccountRepository, useValue: accountRepository },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(SocialVerificationService);
+  };
+
+  /** Start a flow and return the state the provider would echo back */
+  const started = async (provider: 'github' | 'twitter', wallet = WALLET) => {
+    const result = await service.start(provider, wallet, NOW);
+    return new URL(result.authorizationUrl).searchParams.get('state');
+  };
+
+  // Local stand-in for the GitHub and Twitter OAuth and API endpoints
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+        const reply = replies[`${req.method} ${req.url.split('?')[0]}`] ?? { status: 404, body: { message: 'Not Found' } };
+        res.statusCode = reply.status;
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    received = [];
+    states = new Map();
+    links = new Map();
+    replies = {
+      'POST /github/token': { status: 200, body: { access_token: 'gh-token', token_type: 'bearer' } },
+      'GET /github/api/user': {
+        status: 200,
+        body: { id: 583231, login: 'octocat', created_at: '2011-01-25T18:44:36Z', followers: 20, public_repos: 8 },
+      },
+      'POST /twitter/token': { status: 200, body: { access_token: 'tw-token', token_type: 'bearer' } },
+      'GET /twitter/api/2/users/me': {
+        status: 200,
+        body: {
+          data: {
+            id: '2244994945',
+            username: 'TwitterDev',
+            created_at: '2013-12-14T04:35:55.000Z',
+            public_metrics: { followers_count: 500, tweet_count: 3000 },
+          },
+        },
+      },
+    };
+    settings = {
+      ADMIN_SOURCE_ACCOUNT: SOURCE,
+      GITHUB_OAUTH_CLIENT_ID: 'gh-client',
+      GITHUB_OAUTH_CLIENT_SECRET: 'gh-secret',
+      GITHUB_OAUTH_REDIRECT_URI: 'https://api.example/verify/github/callback',
+      GITHUB_OAUTH_AUTHORIZE_URL: `${baseUrl}/github/authorize`,
+      GITHUB_OAUTH_TOKEN_URL: `${baseUrl}/github/token`,
+      GITHUB_API_URL: `${baseUrl}/github/api`,
+      TWITTER_OAUTH_CLIENT_ID: 'tw-client',
+      TWITTER_OAUTH_CLIENT_SECRET: 'tw-secret',
+      TWITTER_OAUTH_REDIRECT_URI: 'https://api.example/verify/twitter/callback',
+      TWITTER_OAUTH_AUTHORIZE_URL: `${baseUrl}/twitter/authorize`,
+      TWITTER_OAUTH_TOKEN_URL: `${baseUrl}/twitter/token`,
+      TWITTER_API_URL: `${baseUrl}/twitter/api`,
+    };
+    adminService = {
+      issueVerification: jest.fn().mockResolvedValue({
+        success: true,
+        message: 'Verification GitHub written on-chain',
+        points: 10,
+        transactionHash: 'tx-hash-1',
+      }),
+    };
+
+    await build();
+  });
+
+  describe('start', () => {
+    it('stores the wallet and a PKCE verifier and returns the provider authorize URL', async () => {
+      const result = await service.start('github', WALLET, NOW);
+
+      expect(result.success).toBe(true);
+      const url = new URL(result.authorizationUrl);
+      const [stored] = states.values();
+      expect(`${url.origin}${url.pathname}`).toBe(`${baseUrl}/github/authorize`);
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        response_type: 'code',
+        client_id: 'gh-client',
+        redirect_uri: 'https://api.example/verify/github/callback',
+        scope: 'read:user',
+        state: stored.state,
+        code_challenge: pkceChallenge(stored.codeVerifier),
+        code_challenge_method: 'S256',
+      });
+      expect(stored).toEqual(
+        expect.objectContaining({ provider: 'github', wallet: WALLET, expiresAt: new Date(NOW.getTime() + 600000) }),
+      );
+    });
+
+    it('reports NOT_CONFIGURED without a client registration or admin source account', async () => {
+      delete settings.TWITTER_OAUTH_CLIENT_SECRET;
+      delete settings.ADMIN_SOURCE_ACCOUNT;
+      await build();
+
+      expect((await service.start('twitter', WALLET, NOW)).error).toBe('NOT_CONFIGURED');
+      expect((await service.start('github', WALLET, NOW)).error).toBe('NOT_CONFIGURED');
+      expect(states.size).toBe(0);
+    });
+  });
+
+  describe('callback', () => {
+    it('verifies a qualifying GitHub account for the wallet that started the flow', async () => {
+      const state = await started('github');
+
+      const result = await service.callback('github', { state, code: 'gh-code' }, NOW);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          success: true,
+          provider: 'github',
+          wallet: WALLET,
+          username: 'octocat',
+          points: 10,
+          transactionHash: 'tx-hash-1',
+        }),
+      );
+
+      const [token, user] = received;
+      const form = new URLSearchParams(token.body);
+      expect(token.url).toBe('/github/token');
+      expect(form.get('code')).toBe('gh-code');
+      expect(form.get('client_secret')).toBe('gh-secret');
+      expect(form.get('code_verifier')).toBe(stateRepository.create.mock.calls[0][0].codeVerifier);
+      expect(user.headers.authorization).toBe('Bearer gh-token');
+
+      expect(links.get('github:583231')).toEqual(expect.objectContaining({ wallet: WALLET, username: 'octocat' }));
+      expect(adminService.issueVerification).toHaveBeenCalledWith(WALLET, {
+        type: 'GitHub',
+        sourceAccount: SOURCE,
+        idempotencyKey: expect.any(String),
+      });
+    });
+
+    it('authenticates the Twitter token request with HTTP Basic and writes a Twitter verification', async () => {
+      const state = await started('twitter');
+
+      const result = await service.callback('twitter', { state, code: 'tw-code' }, NOW);
+
+      expect(result.success).toBe(true);
+      expect(received[0].headers.authorization).toBe(
+        `Basic ${Buffer.from('tw-client:tw-secret').toString('base64')}`,
+      );
+      expect(new URLSearchParams(received[0].body).get('client_secret')).toBeNull();
+      expect(received[1].url).toBe('/twitter/api/2/users/me?user.fields=created_at,public_metrics');
+      expect(adminService.issueVerification).toHaveBeenCalledWith(WALLET, expect.objectContaining({ type: 'Twitter' }));
+    });
+
+    it('refuses an account that already verified another wallet', async () => {
+      await service.callback('github', { state: await started('github', OTHER_WALLET), code: 'c1' }, NOW);
+      adminService.issueVerification.mockClear();
+
+      const result = await service.callback('github', { state: await started('github'), code: 'c2' }, NOW);
+
+      expect(result.error).toBe('ACCOUNT_ALREADY_LINKED');
+      expect(adminService.issueVerification).not.toHaveBeenCalled();
+    });
+
+    it('lets the linked wallet verify again with the same idempotency key', async () => {
+      await service.callback('github', { state: await started('github'), code: 'c1' }, NOW);
+      await service.callback('github', { state: await started('github'), code: 'c2' }, NOW);
+
+      const [[, first], [, second]] = adminService.issueVerification.mock.calls;
+      expect(second.idempotencyKey).toBe(first.idempotencyKey);
+    });
+
+    it('rejects accounts below the age and activity criteria', async () => {
+      replies['GET /github/api/user'] = {
+        status: 200,
+        body: { id: 1, login: 'fresh', created_at: '2025-05-01T00:00:00Z', followers: 0, public_repos: 0 },
+      };
+      const state = await started('github');
+
+      const result = await service.callback('github', { state, code: 'gh-code' }, NOW);
+
+      expect(result.error).toBe('CRITERIA_NOT_MET');
+      expect(result.unmetCriteria).toEqual([
+        'account must be at least 180 days old',
+        'account needs at least 1 public repositories',
+      ]);
+      expect(links.size).toBe(0);
+      expect(adminService.issueVerification).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown, reused, expired or cross-provider state', async () => {
+      const state = await started('github');
+      await service.callback('github', { state, code: 'gh-code' }, NOW);
+      const expired = await started('github');
+      const github = await started('github');
+
+      expect((await service.callback('github', { state: 'nope', code: 'x' }, NOW)).error).toBe('INVALID_STATE');
+      expect((await service.callback('github', { state, code: 'x' }, NOW)).error).toBe('INVALID_STATE');
+      expect(
+        (await service.callback('github', { state: expired, code: 'x' }, new Date(NOW.getTime() + 600000))).error,
+      ).toBe('INVALID_STATE');
+      expect((await service.callback('twitter', { state: github, code: 'x' }, NOW)).error).toBe('INVALID_STATE');
+    });
+
+    it('reports AUTHORIZATION_DENIED when the user declined', async () => {
+      const state = await started('github');
+
+      const result = await service.callback(
+        'github',
+        { state, error: 'access_denied', error_description: 'The user has denied your application access.' },
+        NOW,
+      );
+
+      expect(result.error).toBe('AUTHORIZATION_DENIED');
+      expect(received).toHaveLength(0);
+    });
+
+    it('reports PROVIDER_ERROR when the code exchange fails', async () => {
+      replies['POST /github/token'] = {
+        status: 200,
+        body: { error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' },
+      };
+      const state = await started('github');
+
+      const result = await service.callback('github', { state, code: 'stale' }, NOW);
+
+      expect(result.error).toBe('PROVIDER_ERROR');
+      expect(result.message).toContain('The code passed is incorrect or expired.');
+      expect(adminService.issueVerification).not.toHaveBeenCalled();
+    });
+
+    it('reports SUBMISSION_FAILED when the queued write fails', async () => {
+      adminService.issueVerification.mockResolvedValue({
+        success: false,
+        message: 'Failed to submit verification: network error',
+        error: 'network error',
+      });
+
+      const result = await service.callback('github', { state: await started('github'), code: 'c' }, NOW);
+
+      expect(result.error).toBe('SUBMISSION_FAILED');
+    });
+  });
+});
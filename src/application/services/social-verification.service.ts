@@ -0,0 +1,276 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { AdminService } from './admin.service';
+import { SocialOAuthStateRepository } from '../../infrastructure/firebase/social-oauth-state.repository';
+import { SocialAccountRepository } from '../../infrastructure/firebase/social-account.repository';
+import {
+  GitHubOAuthClient,
+  SocialOAuthClient,
+  TwitterOAuthClient,
+} from '../../infrastructure/social/social-oauth.client';
+import {
+  SOCIAL_VERIFICATION_TYPES,
+  SocialAccount,
+  SocialAccountCriteria,
+  SocialOAuthConfig,
+  SocialProvider,
+  SocialVerificationCallbackQueryDto,
+  SocialVerificationResponse,
+  StartSocialVerificationResponse,
+  unmetCriteria,
+} from '../../domain/entities/social-verification.entity';
+
+/**
+ * GitHub and Twitter verification through the OAuth 2.0 authorization-code
+ * flow (with PKCE). `start` remembers which wallet asked and returns the
+ * provider's authorize URL; the provider redirects to `callback`, which
+ * reads the account, checks its age and activity against the
+ * <PROVIDER>_MIN_* criteria, links it to the wallet (one wallet per
+ * account) and writes the GitHub or Twitter verification through the
+ * admin queue.
+ *
+ * Provider endpoints come from <PROVIDER>_OAUTH_AUTHORIZE_URL,
+ * <PROVIDER>_OAUTH_TOKEN_URL and <PROVIDER>_API_URL, so they can point at
+ * a local stand-in.
+ */
+@Injectable()
+export class SocialVerificationService {
+  private readonly logger = new Logger(SocialVerificationService.name);
+  private readonly clients: Record<SocialProvider, SocialOAuthClient>;
+  private readonly criteria: Record<SocialProvider, SocialAccountCriteria>;
+  private readonly stateTtlMs: number;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly adminService: AdminService,
+    private readonly stateRepository: SocialOAuthStateRepository,
+    private readonly accountRepository: SocialAccountRepository,
+  ) {
+    const timeoutMs = Number(this.configService.get<string>('SOCIAL_OAUTH_TIMEOUT_MS', '10000'));
+    this.stateTtlMs = Number(this.configService.get<string>('SOCIAL_OAUTH_STATE_TTL_MS', '600000'));
+
+    this.clients = {
+      github: new GitHubOAuthClient(
+        this.oauthConfig('GITHUB', {
+          authorizeUrl: 'https://github.com/login/oauth/authorize',
+          tokenUrl: 'https://github.com/login/oauth/access_token',
+          apiUrl: 'https://api.github.com',
+        }),
+        timeoutMs,
+      ),
+      twitter: new TwitterOAuthClient(
+        this.oauthConfig('TWITTER', {
+          authorizeUrl: 'https://twitter.com/i/oauth2/authorize',
+          tokenUrl: 'https://api.twitter.com/2/oauth2/token',
+          apiUrl: 'https://api.twitter.com',
+        }),
+        timeoutMs,
+      ),
+    };
+
+    this.criteria = {
+      github: {
+        minAccountAgeDays: Number(this.configService.get<string>('GITHUB_MIN_ACCOUNT_AGE_DAYS', '180')),
+        minFollowers: Number(this.configService.get<string>('GITHUB_MIN_FOLLOWERS', '0')),
+        minPosts: Number(this.configService.get<string>('GITHUB_MIN_PUBLIC_REPOS', '1')),
+      },
+      twitter: {
+        minAccountAgeDays: Number(this.configService.get<string>('TWITTER_MIN_ACCOUNT_AGE_DAYS', '180')),
+        minFollowers: Number(this.configService.get<string>('TWITTER_MIN_FOLLOWERS', '0')),
+        minPosts: Number(this.configService.get<string>('TWITTER_MIN_TWEETS', '10')),
+      },
+    };
+  }
+
+  /**
+   * Begin verifying `wallet` with `provider`. The caller sends the user to
+   * the returned authorization URL.
+   */
+  async start(
+    provider: SocialProvider,
+    wallet: string,
+    now: Date = new Date(),
+  ): Promise<StartSocialVerificationResponse> {
+    const client = this.clients[provider];
+
+    if (!client.isConfigured() || !this.adminSourceAccount()) {
+      this.logger.error(`${provider} OAuth client or admin source account not configured; cannot verify`);
+      return {
+        success: false,
+        message: `${SOCIAL_VERIFICATION_TYPES[provider]} verification is not configured`,
+        error: 'NOT_CONFIGURED',
+      };
+    }
+
+    const state = crypto.randomBytes(24).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + this.stateTtlMs);
+
+    await this.stateRepository.create({
+      state,
+      provider,
+      wallet,
+      codeVerifier,
+      createdAt: now,
+      expiresAt,
+    });
+
+    this.logger.log(`${provider} verification started for wallet: ${wallet}`);
+    return {
+      success: true,
+      message: `Continue at ${SOCIAL_VERIFICATION_TYPES[provider]}`,
+      authorizationUrl: client.authorizationUrl(state, codeVerifier),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Complete the authorization the provider redirected back with and, when
+   * the account qualifies and is not linked to another wallet, write its
+   * verification on-chain.
+   */
+  async callback(
+    provider: SocialProvider,
+    query: SocialVerificationCallbackQueryDto,
+    now: Date = new Date(),
+  ): Promise<SocialVerificationResponse> {
+    const pending = await this.stateRepository.consume(query.state);
+
+    if (!pending || pending.provider !== provider || pending.expiresAt.getTime() <= now.getTime()) {
+      return {
+        success: false,
+        message: 'Unknown or expired authorization; start the verification again',
+        error: 'INVALID_STATE',
+      };
+    }
+
+    const wallet = pending.wallet;
+
+    if (query.error || !query.code) {
+      this.logger.warn(`${provider} authorization for wallet: ${wallet} not granted: ${query.error}`);
+      return {
+        success: false,
+        message: `Authorization not granted${query.error ? `: ${query.error_description ?? query.error}` : ''}`,
+        error: 'AUTHORIZATION_DENIED',
+        provider,
+        wallet,
+      };
+    }
+
+    const client = this.clients[provider];
+    const sourceAccount = this.adminSourceAccount();
+    if (!client.isConfigured() || !sourceAccount) {
+      return {
+        success: false,
+        message: `${SOCIAL_VERIFICATION_TYPES[provider]} verification is not configured`,
+        error: 'NOT_CONFIGURED',
+      };
+    }
+
+    let account: SocialAccount;
+    try {
+      const accessToken = await client.exchangeCode(query.code, pending.codeVerifier);
+      account = await client.fetchAccount(accessToken);
+    } catch (error) {
+      this.logger.error(`${provider} account lookup failed for wallet: ${wallet}`, error);
+      return {
+        success: false,
+        message: `Failed to read the ${SOCIAL_VERIFICATION_TYPES[provider]} account: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error: 'PROVIDER_ERROR',
+        provider,
+        wallet,
+      };
+    }
+
+    const unmet = unmetCriteria(account, this.criteria[provider], now);
+    if (unmet.length > 0) {
+      this.logger.log(`${provider} account ${account.username} does not qualify wallet: ${wallet}: ${unmet.join('; ')}`);
+      return {
+        success: false,
+        message: `${SOCIAL_VERIFICATION_TYPES[provider]} account does not qualify: ${unmet.join('; ')}`,
+        error: 'CRITERIA_NOT_MET',
+        provider,
+        wallet,
+        username: account.username,
+        unmetCriteria: unmet,
+      };
+    }
+
+    const link = await this.accountRepository.claim({
+      provider,
+      accountId: account.accountId,
+      username: account.username,
+      wallet,
+      linkedAt: now,
+    });
+
+    if (link.wallet !== wallet) {
+      this.logger.warn(
+        `${provider} account ${account.accountId} already verified wallet ${link.wallet}; refused for wallet: ${wallet}`,
+      );
+      return {
+        success: false,
+        message: `This ${SOCIAL_VERIFICATION_TYPES[provider]} account already verified another wallet`,
+        error: 'ACCOUNT_ALREADY_LINKED',
+        provider,
+        wallet,
+        username: account.username,
+      };
+    }
+
+    // Keyed on the account, so a repeated callback for it cannot queue twice
+    const idempotencyKey = crypto
+      .createHash('sha256')
+      .update(`${wallet}:upsert_verification:${provider}:${account.accountId}`)
+      .digest('hex');
+
+    const result = await this.adminService.issueVerification(wallet, {
+      type: SOCIAL_VERIFICATION_TYPES[provider],
+      sourceAccount,
+      idempotencyKey,
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.message,
+        error: result.error === 'VERIFICATION_NOT_ALLOWED' ? result.error : 'SUBMISSION_FAILED',
+        provider,
+        wallet,
+        username: account.username,
+      };
+    }
+
+    this.logger.log(`${provider} account ${account.username} verified wallet: ${wallet}`);
+    return {
+      success: true,
+      message: result.skipped
+        ? result.message
+        : `${SOCIAL_VERIFICATION_TYPES[provider]} verification written on-chain`,
+      provider,
+      wallet,
+      username: account.username,
+      points: result.points,
+      transactionHash: result.transactionHash,
+    };
+  }
+
+  private oauthConfig(
+    prefix: string,
+    defaults: Pick<SocialOAuthConfig, 'authorizeUrl' | 'tokenUrl' | 'apiUrl'>,
+  ): SocialOAuthConfig {
+    return {
+      clientId: this.configService.get<string>(`${prefix}_OAUTH_CLIENT_ID`) || '',
+      clientSecret: this.configService.get<string>(`${prefix}_OAUTH_CLIENT_SECRET`) || '',
+      redirectUri: this.configService.get<string>(`${prefix}_OAUTH_REDIRECT_URI`) || '',
+      authorizeUrl: this.configService.get<string>(`${prefix}_OAUTH_AUTHORIZE_URL`) || defaults.authorizeUrl,
+      tokenUrl: this.configService.get<string>(`${prefix}_OAUTH_TOKEN_URL`) || defaults.tokenUrl,
+      apiUrl: this.configService.get<string>(`${prefix}_API_URL`) || defaults.apiUrl,
+    };
+  }
+
+  private adminSourceAccount(): string | undefined {
+    return this.configService.get<string>('ADMIN_SOURCE_ACCOUNT') || undefined;
+  }
+}
@@ -2,23 +2,34 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { Keypair } from '@stellar/stellar-sdk';
 import { StellarService } from '../../infrastructure/stellar/stellar.service'
+import { IdentityCache } from '../../infrastructure/cache/identity-cache.service';
 import { StellarTransactionQueue } from './stellar-transaction-queue.service';
 import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { KycStatusRepository } from '../../infrastructure/firebase/kyc-status.repository';
+import { WebhookService } from './webhook.service';
 import { AdminService } from './admin.service';
 import { PlatformService } from './platform.service';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
 import { UserService } from './user.service';
+import { HumanityPolicyService } from './humanity-policy.service';
+import { HumanityPolicyRepository } from '../../infrastructure/firebase/humanity-policy.repository';
+import { STELLAR_TX_JOB_STORE } from '../../domain/ports/stellar-tx-job-store.port';
+import { InMemoryStellarTxJobStore } from '../../test-utils/in-memory-stellar-tx-job-store';
 import * as crypto from 'crypto';
 
 describe('StellarService submitVerificationWithRetry', () => {
   let service: StellarService;
   let adminKeypair: Keypair;
+  let identityCache: { invalidate: jest.Mock };
 
   beforeEach(async () => {
     adminKeypair = Keypair.random();
+    identityCache = { invalidate: jest.fn() };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         StellarService,
+        { provide: IdentityCache, useValue: identityCache },
         {
           provide: ConfigService,
           useValue: {
@@ -59,6 +70,9 @@ describe('StellarService submitVerificationWithRetry', () => {
     expect(result.transactionHash).toBe('hash-retry-success');
     expect(result.attempts).toBe(2);
     expect(buildSpy).toHaveBeenCalledTimes(2);
+    expect(identityCache.invalidate).toHaveBeenCalledWith(
+      'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890',
+    );
   });
 
   it('returns failure after max retries exhausted', async () => {
@@ -80,6 +94,7 @@ describe('StellarService submitVerificationWithRetry', () => {
     expect(result.success).toBe(false);
     expect(result.attempts).toBe(5);
     expect(result.lastError).toContain('tx_bad_seq');
+    expect(identityCache.invalidate).not.toHaveBeenCalled();
   });
 
   it('does not retry permanent errors', async () => {
@@ -109,8 +124,11 @@ describe('AdminService idempotency and queue routing', () => {
   let stellarService: {
     validateWalletAddress: jest.Mock;
     submitVerificationWithRetry: jest.Mock;
+    getVerifications: jest.Mock;
   };
   let stellarQueue: StellarTransactionQueue;
+  let humanityPolicyService: HumanityPolicyService;
+  let jobStore: InMemoryStellarTxJobStore;
   let failedTxRepository: {
     findUnresolvedByIdempotencyKey: jest.Mock;
     create: jest.Mock;
@@ -130,31 +148,55 @@ describe('AdminService idempotency and queue routing', () => {
         transactionHash: 'hash-123',
         attempts: 1,
       }),
+      getVerifications: jest.fn().mockResolvedValue([]),
     };
 
     failedTxRepository = {
       findUnresolvedByIdempotencyKey: jest.fn().mockResolvedValue(null),
-      create: jest.fn(),
+      create: jest.fn(async (record) => ({ id: 'dl-1', ...record })),
       findById: jest.fn(),
       markRetried: jest.fn(),
       markResolved: jest.fn(),
     };
 
+    jobStore = new InMemoryStellarTxJobStore();
+
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AdminService,
+        HumanityPolicyService,
         StellarTransactionQueue,
+        { provide: HumanityPolicyRepository, useValue: {} },
+        { provide: STELLAR_TX_JOB_STORE, useValue: jobStore },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, defaultValue?: string) => defaultValue) } },
         { provide: StellarService, useValue: stellarService },
         { provide: PlatformService, useValue: { isHuman: jest.fn() } },
         { provide: UserService, useValue: { create: jest.fn() } },
         { provide: FailedStellarTxRepository, useValue: failedTxRepository },
+        { provide: WebhookService, useValue: { publish: jest.fn() } },
+        { provide: VerificationTypeRegistryService, useValue: { authorize: jest.fn() } },
+        {
+          provide: KycStatusRepository,
+          useValue: {
+            find: jest.fn().mockResolvedValue(null),
+            claim: jest.fn().mockResolvedValue({ claimed: true, previous: null }),
+            confirm: jest.fn().mockResolvedValue(true),
+            release: jest.fn(),
+            recordRejection: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get(AdminService);
+    humanityPolicyService = module.get(HumanityPolicyService);
     stellarQueue = module.get(StellarTransactionQueue);
   });
 
+  afterEach(async () => {
+    await stellarQueue.onModuleDestroy();
+  });
+
   it('skips duplicate idempotency key already in queue', async () => {
     const sessionToken = 'session-1';
     const idempotencyKey = crypto
@@ -162,7 +204,21 @@ describe('AdminService idempotency and queue routing', () => {
       .update(`${wallet}:upsert_verification:${sessionToken}`)
       .digest('hex');
 
-    stellarQueue.trackInFlightKey(idempotencyKey);
+    await jobStore.create({
+      operation: 'upsert_verification',
+      wallet,
+      payload: {
+        sourceAccount,
+        issuer: 'admin',
+        points: 0,
+        vtype: { tag: 'Custom', values: ['APPROVED'] },
+      },
+      idempotencyKey,
+      state: 'queued',
+      attempts: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
 
     const result = await service.updateStatus(
       wallet,
@@ -207,6 +263,7 @@ describe('AdminService idempotency and queue routing', () => {
     );
 
     expect(result.success).toBe(false);
+    expect([...jobStore.jobs.values()][0].state).toBe('dead-lettered');
     expect(failedTxRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         wallet,
@@ -216,4 +273,29 @@ describe('AdminService idempotency and queue routing', () => {
       }),
     );
   });
+
+  it('writes a status that humanity policies requiring that KYC status accept', async () => {
+    const policy = {
+      id: 'kyc',
+      version: 1,
+      minScore: 0,
+      requiredVerifications: [],
+      excludedIssuers: [],
+      requiredKycStatus: 'approved' as const,
+      createdAt: new Date(),
+    };
+
+    await service.updateStatus(wallet, { status: 'APPROVED', sourceAccount }, { sessionToken: 'session-4' });
+    const approved = stellarService.submitVerificationWithRetry.mock.calls[0][0].verification;
+    expect(humanityPolicyService.decide(policy, 0, [approved]).isHuman).toBe(true);
+
+    await service.updateStatus(wallet, { status: 'REJECTED', sourceAccount }, { sessionToken: 'session-5' });
+    const rejected = {
+      ...stellarService.submitVerificationWithRetry.mock.calls[1][0].verification,
+      timestamp: approved.timestamp + BigInt(1),
+    };
+    expect(humanityPolicyService.decide(policy, 0, [approved, rejected])).toEqual(
+      expect.objectContaining({ isHuman: false, unmet: ['kycStatus:approved'] }),
+    );
+  });
 });
@@ -1,77 +1,269 @@
+import { ConfigService } from '@nestjs/config';
 import { StellarTransactionQueue } from './stellar-transaction-queue.service';
+import { StellarService } from '../../infrastructure/stellar/stellar.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import { InMemoryStellarTxJobStore } from '../../test-utils/in-memory-stellar-tx-job-store';
+import { StellarTxJobRequest } from '../../domain/entities/stellar-tx-job.entity';
+
+const WALLET = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+const SOURCE = 'GXYZ9876543210ZYXWVUTSRQPONMLKJIHGFEDCBA9876543210ZYXWVUTSRQP';
+
+const statusJob = (status: string, idempotencyKey?: string): StellarTxJobRequest => ({
+  operation: 'upsert_verification',
+  wallet: WALLET,
+  payload: {
+    sourceAccount: SOURCE,
+    issuer: 'admin',
+    points: 0,
+    vtype: { tag: 'Custom', values: [status] },
+    status,
+  },
+  idempotencyKey,
+});
+
+const flush = async () => {
+  for (let i = 0; i < 50; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
 
 describe('StellarTransactionQueue', () => {
   let queue: StellarTransactionQueue;
+  let store: InMemoryStellarTxJobStore;
+  let stellarService: {
+    submitVerificationWithRetry: jest.Mock;
+    submitRegisterWithRetry: jest.Mock;
+  };
+  let failedTxRepository: { create: jest.Mock };
+
+  const createQueue = () =>
+    new StellarTransactionQueue(
+      store,
+      stellarService as unknown as StellarService,
+      failedTxRepository as unknown as FailedStellarTxRepository,
+      {
+        get: jest.fn((key: string, defaultValue?: string) =>
+          key === 'STELLAR_QUEUE_POLL_INTERVAL_MS' ? '5' : defaultValue,
+        ),
+      } as unknown as ConfigService,
+    );
 
   beforeEach(() => {
-    queue = new StellarTransactionQueue();
+    store = new InMemoryStellarTxJobStore();
+    stellarService = {
+      submitVerificationWithRetry: jest.fn().mockResolvedValue({
+        success: true,
+        transactionHash: 'hash-1',
+        attempts: 1,
+      }),
+      submitRegisterWithRetry: jest.fn(),
+    };
+    failedTxRepository = {
+      create: jest.fn(async (record) => ({ id: 'dl-1', ...record })),
+    };
+    queue = createQueue();
   });
 
-  it('serializes 10 concurrent enqueues in order', async () => {
-    const order: number[] = [];
+  afterEach(async () => {
+    await queue.onModuleDestroy();
+  });
 
-    const jobs = Array.from({ length: 10 }, (_, i) =>
-      queue.enqueue(async () => {
-        order.push(i);
-        return i;
-      }),
+  it('runs 10 concurrent enqueues one at a time, in order', async () => {
+    const order: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    stellarService.submitVerificationWithRetry.mockImplementation(async ({ verification }) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      order.push(verification.vtype.values[0]);
+      running--;
+      return { success: true, transactionHash: `hash-${verification.vtype.values[0]}`, attempts: 1 };
+    });
+
+    const statuses = Array.from({ length: 10 }, (_, i) => `S${i}`);
+    const outcomes = await Promise.all(statuses.map((status) => queue.enqueue(statusJob(status))));
+
+    expect(order).toEqual(statuses);
+    expect(maxRunning).toBe(1);
+    expect(outcomes.map((outcome) => outcome.transactionHash)).toEqual(
+      statuses.map((status) => `hash-${status}`),
     );
+  });
 
-    const results = await Promise.all(jobs);
+  it('persists the job and records the terminal state', async () => {
+    const outcome = await queue.enqueue(statusJob('APPROVED', 'key-1'));
 
-    expect(results).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
-    expect(order).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(outcome).toMatchObject({ state: 'succeeded', success: true, transactionHash: 'hash-1' });
+    expect(store.jobs.get(outcome.jobId)).toMatchObject({
+      state: 'succeeded',
+      attempts: 1,
+      transactionHash: 'hash-1',
+      idempotencyKey: 'key-1',
+      finishedAt: expect.any(Date),
+    });
   });
 
-  it('does not block subsequent jobs when one fails', async () => {
-    const results: string[] = [];
+  it('does not block subsequent jobs when one throws', async () => {
+    stellarService.submitVerificationWithRetry
+      .mockRejectedValueOnce(new Error('rpc exploded'))
+      .mockResolvedValueOnce({ success: true, transactionHash: 'hash-2', attempts: 1 });
 
-    await expect(
-      queue.enqueue(async () => {
-        results.push('fail');
-        throw new Error('job failed');
-      }),
-    ).rejects.toThrow('job failed');
+    const [first, second] = await Promise.all([
+      queue.enqueue(statusJob('APPROVED')),
+      queue.enqueue(statusJob('REJECTED')),
+    ]);
 
-    await queue.enqueue(async () => {
-      results.push('ok');
-      return 'ok';
+    expect(first).toMatchObject({ state: 'failed', success: false, lastError: 'rpc exploded' });
+    expect(second).toMatchObject({ state: 'succeeded', transactionHash: 'hash-2' });
+  });
+
+  it('dead-letters failed jobs that carry an idempotency key', async () => {
+    stellarService.submitVerificationWithRetry.mockResolvedValue({
+      success: false,
+      attempts: 5,
+      lastError: 'tx_bad_seq',
     });
 
-    expect(results).toEqual(['fail', 'ok']);
+    const outcome = await queue.enqueue(statusJob('APPROVED', 'key-1'));
+
+    expect(failedTxRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        wallet: WALLET,
+        operation: 'upsert_verification',
+        payload: expect.objectContaining({ status: 'APPROVED', sourceAccount: SOURCE }),
+        idempotencyKey: 'key-1',
+        attempts: 5,
+        lastError: 'tx_bad_seq',
+        resolved: false,
+      }),
+    );
+    expect(outcome).toMatchObject({ state: 'dead-lettered', deadLetterId: 'dl-1' });
+    expect(store.jobs.get(outcome.jobId)?.state).toBe('dead-lettered');
   });
 
-  it('awaits in-flight chain on onModuleDestroy', async () => {
-    let completed = false;
+  it('does not dead-letter already-registered wallets or keyless jobs', async () => {
+    stellarService.submitRegisterWithRetry.mockResolvedValue({
+      success: false,
+      alreadyRegistered: true,
+      attempts: 1,
+      lastError: 'AlreadyRegistered',
+    });
+    stellarService.submitVerificationWithRetry.mockResolvedValue({
+      success: false,
+      attempts: 5,
+      lastError: 'tx_bad_seq',
+    });
+
+    const register = await queue.enqueue({
+      operation: 'register',
+      wallet: WALLET,
+      payload: { name: 'John', surnames: 'Doe', sourceAccount: SOURCE },
+      idempotencyKey: 'register-key',
+    });
+    const keyless = await queue.enqueue(statusJob('APPROVED'));
 
-    const job = queue.enqueue(async () => {
-      await new Promise((resolve) => setTimeout(resolve, 50));
-      completed = true;
+    expect(stellarService.submitRegisterWithRetry).toHaveBeenCalledWith({
+      wallet: WALLET,
+      name: 'John',
+      surnames: 'Doe',
+      sourceAccount: SOURCE,
     });
+    expect(register).toMatchObject({ state: 'failed', alreadyRegistered: true });
+    expect(keyless.state).toBe('failed');
+    expect(failedTxRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('reports in-flight idempotency keys from the store', async () => {
+    let release!: () => void;
+    stellarService.submitVerificationWithRetry.mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ success: true, transactionHash: 'hash-1', attempts: 1 });
+        }),
+    );
 
-    const destroyPromise = queue.onModuleDestroy();
+    await expect(queue.hasInFlightKey('key-1')).resolves.toBe(false);
+
+    const job = queue.enqueue(statusJob('APPROVED', 'key-1'));
+    await flush();
+
+    await expect(queue.hasInFlightKey('key-1')).resolves.toBe(true);
+    // A second instance sharing the store sees the same key
+    await expect(createQueue().hasInFlightKey('key-1')).resolves.toBe(true);
+
+    release();
     await job;
-    await destroyPromise;
+    await expect(queue.hasInFlightKey('key-1')).resolves.toBe(false);
+  });
+
+  it('resumes queued and interrupted jobs on boot', async () => {
+    const now = new Date();
+    const interrupted = await store.create({
+      ...statusJob('APPROVED'),
+      state: 'running',
+      workerId: 'crashed-worker',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    const queued = await store.create({
+      ...statusJob('REJECTED'),
+      state: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    queue.onApplicationBootstrap();
+    await flush();
 
-    expect(completed).toBe(true);
+    expect(stellarService.submitVerificationWithRetry).toHaveBeenCalledTimes(2);
+    expect(store.jobs.get(interrupted.id)?.state).toBe('succeeded');
+    expect(store.jobs.get(queued.id)?.state).toBe('succeeded');
   });
 
-  it('tracks and releases in-flight idempotency keys', async () => {
-    const key = 'test-key';
+  it('leaves jobs to the lease holder and settles once it finishes them', async () => {
+    await store.acquireLease('stellar-admin-account', 'other-worker', 60000);
 
-    expect(queue.hasInFlightKey(key)).toBe(false);
+    const pending = queue.enqueue(statusJob('APPROVED'));
+    await flush();
 
-    const job = queue.enqueue(
-      async () => {
-        expect(queue.hasInFlightKey(key)).toBe(true);
-        await new Promise((resolve) => setTimeout(resolve, 20));
-        return 'done';
-      },
-      key,
+    const [job] = store.jobs.values();
+    expect(job.state).toBe('queued');
+    expect(stellarService.submitVerificationWithRetry).not.toHaveBeenCalled();
+
+    await store.update(job.id, { state: 'succeeded', attempts: 1, transactionHash: 'remote-hash' });
+
+    await expect(pending).resolves.toMatchObject({
+      jobId: job.id,
+      state: 'succeeded',
+      success: true,
+      transactionHash: 'remote-hash',
+    });
+  });
+
+  it('finishes the running job on shutdown and leaves the rest queued', async () => {
+    let release!: () => void;
+    stellarService.submitVerificationWithRetry.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ success: true, transactionHash: 'hash-1', attempts: 1 });
+        }),
     );
 
-    expect(queue.hasInFlightKey(key)).toBe(true);
-    await job;
-    expect(queue.hasInFlightKey(key)).toBe(false);
+    const first = queue.enqueue(statusJob('APPROVED'));
+    const second = queue.enqueue(statusJob('REJECTED'));
+    await flush();
+
+    const destroyed = queue.onModuleDestroy();
+    release();
+    await destroyed;
+
+    await expect(first).resolves.toMatchObject({ state: 'succeeded' });
+    await expect(second).rejects.toThrow('will resume on the next start');
+    expect([...store.jobs.values()].map((job) => job.state)).toEqual(['succeeded', 'queued']);
+    expect(store.leases.size).toBe(0);
   });
 });
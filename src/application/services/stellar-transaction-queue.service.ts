@@ -1,46 +1,327 @@
-import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { hostname } from 'os';
+import { StellarService } from '../../infrastructure/stellar/stellar.service';
+import { FailedStellarTxRepository } from '../../infrastructure/firebase/failed-stellar-tx.repository';
+import {
+  STELLAR_TX_JOB_STORE,
+  StellarTxJobStore,
+} from '../../domain/ports/stellar-tx-job-store.port';
+import {
+  ACTIVE_STELLAR_TX_JOB_STATES,
+  StellarTxJob,
+  StellarTxJobOutcome,
+  StellarTxJobRequest,
+  StellarTxJobState,
+} from '../../domain/entities/stellar-tx-job.entity';
+import { SubmitVerificationResult } from '../../domain/entities/failed-stellar-tx.entity';
 
+/** Lease guarding the admin account; whoever holds it is the only submitter. */
+const ADMIN_ACCOUNT_LEASE = 'stellar-admin-account';
+
+interface Waiter {
+  resolve: (outcome: StellarTxJobOutcome) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Durable, serial queue for admin-signed Stellar transactions.
+ *
+ * Jobs are persisted in the job store before they run, so a crash or
+ * redeploy does not lose them: the next worker to take the admin-account
+ * lease requeues anything left running and drains the queue. Jobs run one
+ * at a time, and only on the instance holding the lease, which keeps the
+ * admin account's sequence numbers from colliding across instances.
+ *
+ * enqueue() resolves once the job finishes, whichever instance ran it.
+ */
 @Injectable()
-export class StellarTransactionQueue implements OnModuleDestroy {
-  private queue: Promise<void> = Promise.resolve();
-  private readonly inFlightKeys = new Set<string>();
+export class StellarTransactionQueue implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(StellarTransactionQueue.name);
+  private readonly workerId = `${hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+  private readonly leaseMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly waiters = new Map<string, Waiter>();
+  private draining: Promise<void> | null = null;
+  private drainRequested = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private leaseLost = false;
+  private stopping = false;
 
-  hasInFlightKey(key: string): boolean {
-    return this.inFlightKeys.has(key);
+  constructor(
+    @Inject(STELLAR_TX_JOB_STORE)
+    private readonly jobStore: StellarTxJobStore,
+    private readonly stellarService: StellarService,
+    private readonly failedTxRepository: FailedStellarTxRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.leaseMs = Number(this.configService.get<string>('STELLAR_QUEUE_LEASE_MS', '30000'));
+    this.pollIntervalMs = Number(
+      this.configService.get<string>('STELLAR_QUEUE_POLL_INTERVAL_MS', '2000'),
+    );
   }
 
-  trackInFlightKey(key: string): void {
-    this.inFlightKeys.add(key);
+  /** Resume jobs left behind by a previous process. */
+  onApplicationBootstrap(): void {
+    this.kick();
   }
 
-  untrackInFlightKey(key: string): void {
-    this.inFlightKeys.delete(key);
+  async onModuleDestroy(): Promise<void> {
+    this.stopping = true;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    await this.draining;
+
+    for (const [jobId, waiter] of this.waiters) {
+      waiter.reject(
+        new Error(`Stellar job ${jobId} is still queued; it will resume on the next start`),
+      );
+    }
+    this.waiters.clear();
+  }
+
+  /** True while a queued or running job carries this idempotency key. */
+  async hasInFlightKey(key: string): Promise<boolean> {
+    return (await this.jobStore.findActiveByIdempotencyKey(key)) !== null;
   }
 
-  enqueue<T>(job: () => Promise<T>, idempotencyKey?: string): Promise<T> {
-    if (idempotencyKey) {
-      this.inFlightKeys.add(idempotencyKey);
+  /**
+   * Persist a job and wait for it to finish. Jobs that fail with an
+   * idempotency key are dead-lettered (see FailedStellarTxRepository).
+   */
+  async enqueue(request: StellarTxJobRequest): Promise<StellarTxJobOutcome> {
+    const now = new Date();
+    const job = await this.jobStore.create({
+      ...request,
+      state: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const outcome = new Promise<StellarTxJobOutcome>((resolve, reject) => {
+      this.waiters.set(job.id, { resolve, reject });
+    });
+
+    this.kick();
+    return outcome;
+  }
+
+  private kick(): void {
+    if (this.stopping) {
+      return;
+    }
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
     }
 
-    const result = this.queue.then(async () => {
-      try {
-        return await job();
-      } finally {
-        if (idempotencyKey) {
-          this.inFlightKeys.delete(idempotencyKey);
+    this.drainRequested = false;
+    this.draining = this.drain()
+      .catch((error) => this.logger.error('Stellar queue drain failed', error))
+      .finally(() => {
+        this.draining = null;
+        if (this.drainRequested) {
+          this.kick();
+        } else {
+          this.schedulePoll();
         }
+      });
+  }
+
+  /**
+   * Take the admin-account lease and run queued jobs until none are left.
+   * Without the lease another instance is draining, so there is nothing to do.
+   */
+  private async drain(): Promise<void> {
+    if (!(await this.jobStore.acquireLease(ADMIN_ACCOUNT_LEASE, this.workerId, this.leaseMs))) {
+      this.logger.debug('Admin account lease held by another worker');
+      return;
+    }
+
+    this.leaseLost = false;
+    const heartbeat = setInterval(() => this.renewLease(), Math.max(this.leaseMs / 3, 1));
+    heartbeat.unref();
+
+    try {
+      const requeued = await this.jobStore.requeueRunning();
+      if (requeued > 0) {
+        this.logger.warn(`Requeued ${requeued} interrupted Stellar job(s)`);
       }
-    });
 
-    this.queue = result.then(
-      () => {},
-      () => {},
-    );
+      while (!this.stopping && !this.leaseLost) {
+        const job = await this.jobStore.claimNextQueued(this.workerId);
+        if (!job) {
+          break;
+        }
+        await this.run(job);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      await this.jobStore
+        .releaseLease(ADMIN_ACCOUNT_LEASE, this.workerId)
+        .catch((error) => this.logger.error('Failed to release admin account lease', error));
+    }
+  }
 
-    return result;
+  private renewLease(): void {
+    this.jobStore
+      .acquireLease(ADMIN_ACCOUNT_LEASE, this.workerId, this.leaseMs)
+      .then((renewed) => {
+        if (!renewed) {
+          this.leaseLost = true;
+          this.logger.error('Lost admin account lease; stopping after the current job');
+        }
+      })
+      .catch((error) => this.logger.error('Failed to renew admin account lease', error));
   }
 
-  async onModuleDestroy(): Promise<void> {
-    await this.queue;
+  private async run(job: StellarTxJob): Promise<void> {
+    let result: SubmitVerificationResult;
+    try {
+      result = await this.execute(job);
+    } catch (error) {
+      result = {
+        success: false,
+        attempts: 0,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    let state: StellarTxJobState = result.success ? 'succeeded' : 'failed';
+    let deadLetterId: string | undefined;
+
+    if (!result.success && !result.alreadyRegistered && job.idempotencyKey) {
+      try {
+        const record = await this.failedTxRepository.create({
+          wallet: job.wallet,
+          operation: job.operation,
+          payload: { ...job.payload },
+          idempotencyKey: job.idempotencyKey,
+          attempts: result.attempts,
+          lastError: result.lastError ?? 'Unknown error',
+          resolved: false,
+          createdAt: new Date(),
+        });
+        state = 'dead-lettered';
+        deadLetterId = record.id;
+      } catch (error) {
+        this.logger.error(`Failed to dead-letter Stellar job id=${job.id}`, error);
+      }
+    }
+
+    const outcome: StellarTxJobOutcome = {
+      jobId: job.id,
+      state,
+      success: result.success,
+      attempts: result.attempts,
+      transactionHash: result.transactionHash,
+      lastError: result.lastError,
+      alreadyRegistered: result.alreadyRegistered,
+      deadLetterId,
+    };
+
+    const finishedAt = new Date();
+    try {
+      await this.jobStore.update(job.id, {
+        state,
+        attempts: outcome.attempts,
+        transactionHash: outcome.transactionHash,
+        lastError: outcome.lastError,
+        alreadyRegistered: outcome.alreadyRegistered,
+        deadLetterId,
+        finishedAt,
+        updatedAt: finishedAt,
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record result of Stellar job id=${job.id}`, error);
+    }
+
+    this.settle(job.id, outcome);
+  }
+
+  private execute(job: StellarTxJob): Promise<SubmitVerificationResult> {
+    switch (job.operation) {
+      case 'register':
+        return this.stellarService.submitRegisterWithRetry({
+          wallet: job.wallet,
+          name: job.payload.name,
+          surnames: job.payload.surnames,
+          sourceAccount: job.payload.sourceAccount,
+        });
+      case 'upsert_verification':
+        return this.stellarService.submitVerificationWithRetry({
+          wallet: job.wallet,
+          verification: {
+            issuer: job.payload.issuer,
+            points: job.payload.points,
+            timestamp: BigInt(Date.now()),
+            vtype: job.payload.vtype,
+          },
+          sourceAccount: job.payload.sourceAccount,
+        });
+      default:
+        return Promise.resolve({
+          success: false,
+          attempts: 0,
+          lastError: `Unknown operation: ${(job as StellarTxJob).operation}`,
+        });
+    }
+  }
+
+  private settle(jobId: string, outcome: StellarTxJobOutcome): void {
+    const waiter = this.waiters.get(jobId);
+    if (waiter) {
+      this.waiters.delete(jobId);
+      waiter.resolve(outcome);
+    }
+  }
+
+  /**
+   * While callers are still waiting on jobs another instance runs, check on
+   * them periodically and try to take the lease again.
+   */
+  private schedulePoll(): void {
+    if (this.stopping || this.pollTimer || this.waiters.size === 0) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.settleRemoteJobs()
+        .catch((error) => this.logger.error('Failed to poll Stellar jobs', error))
+        .finally(() => this.kick());
+    }, this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  private async settleRemoteJobs(): Promise<void> {
+    for (const jobId of [...this.waiters.keys()]) {
+      const job = await this.jobStore.findById(jobId);
+      if (!job || ACTIVE_STELLAR_TX_JOB_STATES.includes(job.state)) {
+        continue;
+      }
+
+      this.settle(jobId, {
+        jobId,
+        state: job.state,
+        success: job.state === 'succeeded',
+        attempts: job.attempts,
+        transactionHash: job.transactionHash,
+        lastError: job.lastError,
+        alreadyRegistered: job.alreadyRegistered,
+        deadLetterId: job.deadLetterId,
+      });
+    }
   }
 }
@@ -0,0 +1,117 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { VeriffSimulatorService } from './veriff-simulator.service';
+import { KycService } from './kyc.service';
+import { KycSessionRepository } from '../../infrastructure/firebase/kyc-session.repository';
+import { VeriffKycAdapter } from '../../infrastructure/veriff/veriff-kyc.adapter';
+import { KycWebhookRequest } from '../../domain/entities/kyc.entity';
+import { VeriffWebhookDto } from '../../domain/entities/veriff.entity';
+
+const NOW = new Date('2025-03-01T12:00:00Z');
+const wallet = 'GABCDEFGHIJKLMNOPQRSTUVWXYZ234567ABCDEFGHIJKLMNOPQRSTUVW';
+
+describe('VeriffSimulatorService', () => {
+  let service: VeriffSimulatorService;
+  let settings: Record<string, string>;
+  let kycService: { processWebhook: jest.Mock };
+  let sessionRepository: { create: jest.Mock };
+
+  beforeEach(async () => {
+    settings = {
+      VERIFF_SIMULATOR_ENABLED: 'true',
+      VERIFF_WEBHOOK_SECRET: 'shared-secret',
+      VERIFF_API_KEY: 'api-key',
+    };
+    kycService = { processWebhook: jest.fn().mockResolvedValue({ success: true, queued: true }) };
+    sessionRepository = { create: jest.fn(async (session) => session) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VeriffSimulatorService,
+        { provide: KycService, useValue: kycService },
+        { provide: KycSessionRepository, useValue: sessionRepository },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => settings[key]) } },
+      ],
+    }).compile();
+
+    service = module.get(VeriffSimulatorService);
+  });
+
+  const processed = (): { webhook: VeriffWebhookDto; request: KycWebhookRequest } => {
+    const [provider, webhook, request] = kycService.processWebhook.mock.calls[0];
+    expect(provider).toBe('veriff');
+    return { webhook, request };
+  };
+
+  it('stores a session for the wallet and processes a webhook the Veriff adapter accepts', async () => {
+    const result = await service.simulate({ wallet, scenario: 'approved' }, NOW);
+
+    const { webhook, request } = processed();
+    expect(sessionRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: result.sessionId, provider: 'veriff', wallet, createdAt: NOW }),
+    );
+    expect(webhook.verification.id).toBe(result.sessionId);
+    expect(request.rawBody.toString()).toBe(JSON.stringify(webhook));
+    expect(new VeriffKycAdapter({ get: (key: string) => settings[key] } as ConfigService).verifyWebhook(request)).toBe(true);
+    expect(result).toEqual(expect.objectContaining({ success: true, queued: true, webhook }));
+  });
+
+  it('builds a webhook that passes the webhook route validation', async () => {
+    await service.simulate({ wallet, scenario: 'declined', documentNumber: 'X1234567' }, NOW);
+
+    const { webhook } = processed();
+    expect(await validate(plainToInstance(VeriffWebhookDto, webhook))).toEqual([]);
+    expect(webhook.verification.document.number).toBe('X1234567');
+  });
+
+  it.each([
+    ['approved', 'APPROVED', false],
+    ['declined', 'REJECTED', false],
+    ['resubmission', 'PENDING', true],
+    ['expired_document', 'REJECTED', false],
+  ] as const)('maps the %s scenario to %s', async (scenario, status, resubmission) => {
+    await service.simulate({ wallet, scenario }, NOW);
+
+    const decision = new VeriffKycAdapter({ get: () => undefined } as unknown as ConfigService).normalizeDecision(
+      processed().webhook,
+    );
+    expect(decision).toEqual(
+      expect.objectContaining({ status, resubmission, reportedWallet: wallet, decidedAt: NOW }),
+    );
+  });
+
+  it('sends an expired document only in the expired_document scenario', () => {
+    const expired = service.buildWebhook({ wallet, scenario: 'expired_document' }, 'session-id', NOW);
+    const approved = service.buildWebhook({ wallet, scenario: 'approved', dateOfBirth: '2012-01-01' }, 'session-id', NOW);
+
+    expect(new Date(expired.verification.document.validUntil) < NOW).toBe(true);
+    expect(new Date(approved.verification.document.validUntil) > NOW).toBe(true);
+    expect(approved.verification.person.dateOfBirth).toBe('2012-01-01');
+  });
+
+  it('is disabled unless enabled, and always in production', async () => {
+    delete settings.VERIFF_SIMULATOR_ENABLED;
+    expect(await service.simulate({ wallet, scenario: 'approved' }, NOW)).toEqual(
+      expect.objectContaining({ success: false, error: 'DISABLED' }),
+    );
+
+    settings.VERIFF_SIMULATOR_ENABLED = 'true';
+    settings.NODE_ENV = 'production';
+    expect(await service.simulate({ wallet, scenario: 'approved' }, NOW)).toEqual(
+      expect.objectContaining({ success: false, error: 'DISABLED' }),
+    );
+    expect(sessionRepository.create).not.toHaveBeenCalled();
+    expect(kycService.processWebhook).not.toHaveBeenCalled();
+  });
+
+  it('needs the webhook secret to sign', async () => {
+    delete settings.VERIFF_WEBHOOK_SECRET;
+
+    expect(await service.simulate({ wallet, scenario: 'approved' }, NOW)).toEqual(
+      expect.objectContaining({ success: false, error: 'NOT_CONFIGURED' }),
+    );
+    expect(kycService.processWebhook).not.toHaveBeenCalled();
+  });
+});
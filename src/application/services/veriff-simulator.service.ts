@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { KycService } from './kyc.service';
+import { KycSessionRepository } from '../../infrastructure/firebase/kyc-session.repository';
+import { signVeriffPayload } from '../../infrastructure/veriff/veriff.client';
+import {
+  SimulateVeriffWebhookDto,
+  SimulateVeriffWebhookResponse,
+  VeriffSimulationScenario,
+  VeriffWebhookDto,
+} from '../../domain/entities/veriff.entity';
+
+const DEFAULT_DATE_OF_BIRTH = '1990-05-17';
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+interface ScenarioDecision {
+  status: string;
+  code: string;
+  reason: string;
+  reasonCode: string;
+  documentExpired: boolean;
+}
+
+const SCENARIOS: Record<VeriffSimulationScenario, ScenarioDecision> = {
+  approved: { status: 'approved', code: '9001', reason: 'Verification approved', reasonCode: '0', documentExpired: false },
+  declined: { status: 'declined', code: '9102', reason: 'Suspected document tampering', reasonCode: '102', documentExpired: false },
+  resubmission: { status: 'resubmission_requested', code: '9103', reason: 'Poor image quality', reasonCode: '204', documentExpired: false },
+  expired_document: { status: 'declined', code: '9102', reason: 'Document expired', reasonCode: '105', documentExpired: true },
+};
+
+/**
+ * Sandbox stand-in for Veriff, so QA and integrators can run the whole KYC
+ * flow on testnet without a real verification. It stores a session for the
+ * wallet, builds the decision webhook Veriff would send for the scenario,
+ * signs it with VERIFF_WEBHOOK_SECRET and hands it to
+ * KycService.processWebhook exactly as the webhook route does: signature,
+ * mapping, inbox and on-chain status all run for real.
+ *
+ * Only enabled with VERIFF_SIMULATOR_ENABLED=true outside production.
+ */
+@Injectable()
+export class VeriffSimulatorService {
+  private readonly logger = new Logger(VeriffSimulatorService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly kycService: KycService,
+    private readonly sessionRepository: KycSessionRepository,
+  ) {}
+
+  isEnabled(): boolean {
+    return (
+      this.configService.get<string>('VERIFF_SIMULATOR_ENABLED') === 'true' &&
+      this.configService.get<string>('NODE_ENV') !== 'production'
+    );
+  }
+
+  async simulate(dto: SimulateVeriffWebhookDto, now = new Date()): Promise<SimulateVeriffWebhookResponse> {
+    if (!this.isEnabled()) {
+      return { success: false, message: 'Veriff simulator is disabled', error: 'DISABLED' };
+    }
+
+    const secret = this.configService.get<string>('VERIFF_WEBHOOK_SECRET');
+    if (!secret) {
+      return {
+        success: false,
+        message: 'VERIFF_WEBHOOK_SECRET is required to sign simulated webhooks',
+        error: 'NOT_CONFIGURED'
+      };
+    }
+
+    const sessionId = crypto.randomUUID();
+    await this.sessionRepository.create({
+      sessionId,
+      provider: 'veriff',
+      wallet: dto.wallet,
+      url: `veriff-simulator:${sessionId}`,
+      createdAt: now,
+    });
+
+    const webhook = this.buildWebhook(dto, sessionId, now);
+    const body = JSON.stringify(webhook);
+    const headers: Record<string, string> = { 'x-hmac-signature': signVeriffPayload(secret, body) };
+    const apiKey = this.configService.get<string>('VERIFF_API_KEY');
+    if (apiKey) {
+      headers['x-auth-client'] = apiKey;
+    }
+
+    this.logger.log(`Simulating Veriff ${dto.scenario} decision for wallet: ${dto.wallet}, session: ${sessionId}`);
+
+    const result = await this.kycService.processWebhook('veriff', webhook, {
+      rawBody: Buffer.from(body),
+      headers,
+    });
+
+    return { ...result, sessionId, webhook };
+  }
+
+  /**
+   * The decision webhook Veriff sends for `scenario`. The expired document
+   * scenario is a decline of a document whose validity ended a year ago.
+   */
+  buildWebhook(dto: SimulateVeriffWebhookDto, sessionId: string, now: Date): VeriffWebhookDto {
+    const decision = SCENARIOS[dto.scenario];
+    const validUntil = new Date(now.getTime() + (decision.documentExpired ? -1 : 5) * YEAR_MS);
+    const validFrom = new Date(validUntil.getTime() - 10 * YEAR_MS);
+
+    return {
+      id: crypto.randomUUID(),
+      status: decision.status,
+      code: decision.code,
+      reason: decision.reason,
+      reasonCode: decision.reasonCode,
+      sessionToken: crypto.randomUUID(),
+      verification: {
+        id: sessionId,
+        url: `veriff-simulator:${sessionId}`,
+        vendorData: dto.wallet,
+        status: decision.status,
+        code: decision.code,
+        reason: decision.reason,
+        reasonCode: decision.reasonCode,
+        person: {
+          firstName: 'Sandbox',
+          lastName: 'Tester',
+          dateOfBirth: dto.dateOfBirth ?? DEFAULT_DATE_OF_BIRTH,
+        },
+        document: {
+          type: 'PASSPORT',
+          number: dto.documentNumber ?? `SIM${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+          validFrom: validFrom.toISOString().slice(0, 10),
+          validUntil: validUntil.toISOString().slice(0, 10),
+          country: 'EE',
+        },
+        additionalVerification: {
+          status: decision.status,
+          reason: decision.reason,
+        },
+      },
+      vendorData: dto.wallet,
+      timestamp: now.toISOString(),
+    };
+  }
+}
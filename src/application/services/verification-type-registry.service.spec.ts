@@ -0,0 +1,189 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { VerificationTypeRegistryService } from './verification-type-registry.service';
+import { VerificationTypeRepository } from '../../infrastructure/firebase/verification-type.repository';
+import { VerificationTypeEntry } from '../../domain/entities/verification-type.entity';
+
+const ISSUER = 'GISSUERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+const OTHER = 'GOTHERXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+
+function entry(overrides: Partial<VerificationTypeEntry> = {}): VerificationTypeEntry {
+  return {
+    key: 'Custom:kyc_sumsub',
+    vtype: { tag: 'Custom', values: ['kyc_sumsub'] },
+    canonicalPoints: 20,
+    maxPoints: 25,
+    issuers: [],
+    enabled: true,
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('VerificationTypeRegistryService', () => {
+  let service: VerificationTypeRegistryService;
+  let repository: { upsert: jest.Mock; findByKey: jest.Mock; findAll: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      upsert: jest.fn(async (stored) => stored),
+      findByKey: jest.fn().mockResolvedValue(null),
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VerificationTypeRegistryService,
+        { provide: VerificationTypeRepository, useValue: repository },
+        { provide: ConfigService, useValue: { get: jest.fn((_key: string, defaultValue?: string) => defaultValue) } },
+      ],
+    }).compile();
+
+    service = module.get(VerificationTypeRegistryService);
+  });
+
+  describe('authorize', () => {
+    it('allows built-in types on their defaults with canonical points', async () => {
+      const result = await service.authorize({ type: 'over18', issuer: ISSUER });
+
+      expect(result).toEqual(
+        expect.objectContaining({ allowed: true, vtype: { tag: 'Over18', values: undefined }, points: 10 }),
+      );
+      expect(repository.findByKey).toHaveBeenCalledWith('Over18');
+    });
+
+    it('rejects custom types that are not registered', async () => {
+      const result = await service.authorize({ type: 'email', issuer: ISSUER });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('allows registered custom types with or without the Custom: prefix', async () => {
+      repository.findByKey.mockResolvedValue(entry());
+
+      await expect(service.authorize({ type: 'Custom:kyc_sumsub', issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: true, points: 20 }),
+      );
+      await expect(service.authorize({ type: 'kyc_sumsub', points: 25, issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: true, points: 25 }),
+      );
+    });
+
+    it('rejects points above the maximum', async () => {
+      repository.findByKey.mockResolvedValue(entry());
+
+      const result = await service.authorize({ type: 'kyc_sumsub', points: 26, issuer: ISSUER });
+
+      expect(result).toEqual({
+        allowed: false,
+        message: 'Points for Custom:kyc_sumsub must be between 0 and 25, got 26',
+      });
+    });
+
+    it('rejects issuers outside the authorized list', async () => {
+      repository.findByKey.mockResolvedValue(entry({ issuers: [ISSUER] }));
+
+      await expect(service.authorize({ type: 'kyc_sumsub', issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: true }),
+      );
+      await expect(service.authorize({ type: 'kyc_sumsub', issuer: OTHER })).resolves.toEqual(
+        expect.objectContaining({ allowed: false }),
+      );
+    });
+
+    it('rejects disabled types, including disabled built-ins', async () => {
+      repository.findByKey.mockResolvedValue(entry({ key: 'GitHub', vtype: { tag: 'GitHub', values: undefined }, enabled: false }));
+
+      const result = await service.authorize({ type: { tag: 'GitHub', values: undefined }, issuer: ISSUER });
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it('never allows reserved KYC status symbols or invalid names', async () => {
+      await expect(service.authorize({ type: 'APPROVED', issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: false }),
+      );
+      await expect(service.authorize({ type: 'Custom:REJECTED', issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: false }),
+      );
+      await expect(service.authorize({ type: 'not a symbol', issuer: ISSUER })).resolves.toEqual(
+        expect.objectContaining({ allowed: false }),
+      );
+      expect(repository.findByKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('admin', () => {
+    it('lists built-in defaults alongside stored types', async () => {
+      repository.findAll.mockResolvedValue([
+        entry(),
+        entry({ key: 'WorldID', vtype: { tag: 'WorldID', values: undefined }, canonicalPoints: 30, maxPoints: 30 }),
+      ]);
+
+      const result = await service.list();
+
+      expect(result.types.map((type) => `${type.key}:${type.canonicalPoints}${type.isDefault ? '*' : ''}`)).toEqual([
+        'BrightID:20*',
+        'Custom:kyc_sumsub:20',
+        'GitHub:10*',
+        'Over18:10*',
+        'Twitter:10*',
+        'WorldID:30',
+      ]);
+    });
+
+    it('returns NOT_FOUND for an unregistered custom type', async () => {
+      await expect(service.get('Custom:email')).resolves.toEqual(expect.objectContaining({ error: 'NOT_FOUND' }));
+    });
+
+    it('stores a custom type under its key with deduplicated issuers', async () => {
+      const result = await service.upsert(
+        'kyc_sumsub',
+        { canonicalPoints: 20, maxPoints: 25, issuers: [ISSUER, ISSUER] },
+        'admin@veridion.id',
+      );
+
+      expect(result.success).toBe(true);
+      expect(repository.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'Custom:kyc_sumsub',
+          issuers: [ISSUER],
+          enabled: true,
+          updatedBy: 'admin@veridion.id',
+        }),
+      );
+    });
+
+    it('caches aging rules until a type is saved', async () => {
+      repository.findAll.mockResolvedValue([entry({ expirySeconds: 3600 })]);
+
+      await expect(service.agingRules()).resolves.toEqual({
+        'Custom:kyc_sumsub': { expirySeconds: 3600, decayHalfLifeSeconds: undefined },
+      });
+      await service.agingRules();
+      expect(repository.findAll).toHaveBeenCalledTimes(1);
+
+      await service.upsert('GitHub', { canonicalPoints: 10, maxPoints: 10, decayHalfLifeSeconds: 600 });
+      repository.findAll.mockResolvedValue([
+        entry({ expirySeconds: 3600 }),
+        entry({ key: 'GitHub', vtype: { tag: 'GitHub', values: undefined }, decayHalfLifeSeconds: 600 }),
+      ]);
+
+      await expect(service.agingRules()).resolves.toEqual(
+        expect.objectContaining({ GitHub: { expirySeconds: undefined, decayHalfLifeSeconds: 600 } }),
+      );
+      expect(repository.findAll).toHaveBeenCalledTimes(2);
+    });
+
+    it.each([
+      ['PENDING', { canonicalPoints: 0, maxPoints: 0 }, 'INVALID_TYPE'],
+      ['bad symbol!', { canonicalPoints: 0, maxPoints: 0 }, 'INVALID_TYPE'],
+      ['Over18', { canonicalPoints: 20, maxPoints: 10 }, 'INVALID_POINTS'],
+    ])('rejects %s with %o', async (type, dto, error) => {
+      const result = await service.upsert(type, dto);
+
+      expect(result.error).toBe(error);
+      expect(repository.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
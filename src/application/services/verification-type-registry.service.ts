@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { VerificationType } from '../../../packages/stellar-passport/src';
+import { VerificationTypeRepository } from '../../infrastructure/firebase/verification-type.repository';
+import { verificationTypeKey } from '../../domain/entities/passport-event.entity';
+import { VerificationAgingRules } from '../../domain/entities/effective-score.entity';
+import {
+  BUILT_IN_VERIFICATION_TYPES,
+  BUILT_IN_VERIFICATION_TYPE_DEFAULTS,
+  BuiltInVerificationType,
+  RESERVED_CUSTOM_SYMBOLS,
+  UpsertVerificationTypeDto,
+  VerificationAuthorization,
+  VerificationTypeEntry,
+  VerificationTypeListResponse,
+  VerificationTypeResponse,
+  parseVerificationType,
+} from '../../domain/entities/verification-type.entity';
+
+/**
+ * Registry of the verification types the backend may write on-chain.
+ *
+ * Built-in types are always present, on BUILT_IN_VERIFICATION_TYPE_DEFAULTS
+ * until an admin stores an entry for them. Custom symbols must be stored
+ * before they can be issued. Every build and submit of a verification is
+ * checked with authorize().
+ *
+ * The expiry and decay of each type drive effective scoring; those rules
+ * are cached for VERIFICATION_TYPE_CACHE_TTL_MS and refreshed on this
+ * instance when a type is saved.
+ */
+@Injectable()
+export class VerificationTypeRegistryService {
+  private readonly logger = new Logger(VerificationTypeRegistryService.name);
+  private readonly cacheTtlMs: number;
+  private agingCache: { rules: VerificationAgingRules; expiresAt: number } | null = null;
+
+  constructor(
+    private readonly verificationTypeRepository: VerificationTypeRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.cacheTtlMs = Number(this.configService.get<string>('VERIFICATION_TYPE_CACHE_TTL_MS', '60000'));
+  }
+
+  async list(): Promise<VerificationTypeListResponse> {
+    const stored = await this.verificationTypeRepository.findAll();
+    const storedKeys = new Set(stored.map((entry) => entry.key));
+    const defaults = BUILT_IN_VERIFICATION_TYPES.filter((type) => !storedKeys.has(type)).map((type) =>
+      this.builtInDefault(type),
+    );
+
+    return {
+      success: true,
+      types: [...defaults, ...stored].sort((a, b) => a.key.localeCompare(b.key)),
+    };
+  }
+
+  async get(type: string): Promise<VerificationTypeResponse> {
+    const vtype = parseVerificationType(type);
+    const entry = vtype ? await this.find(vtype) : null;
+
+    if (!entry) {
+      return { success: false, message: `Verification type ${type} is not registered`, error: 'NOT_FOUND' };
+    }
+
+    return { success: true, type: entry };
+  }
+
+  async upsert(
+    type: string,
+    dto: UpsertVerificationTypeDto,
+    updatedBy?: string,
+  ): Promise<VerificationTypeResponse> {
+    const vtype = parseVerificationType(type);
+
+    if (!vtype) {
+      return {
+        success: false,
+        message: 'Type must be a built-in type or a custom symbol (letters, digits, underscore; max 32)',
+        error: 'INVALID_TYPE',
+      };
+    }
+
+    if (this.isReserved(vtype)) {
+      return {
+        success: false,
+        message: `Custom symbols ${RESERVED_CUSTOM_SYMBOLS.join(', ')} are reserved for KYC status`,
+        error: 'INVALID_TYPE',
+      };
+    }
+
+    if (dto.canonicalPoints > dto.maxPoints) {
+      return { success: false, message: 'canonicalPoints must not exceed maxPoints', error: 'INVALID_POINTS' };
+    }
+
+    const entry = await this.verificationTypeRepository.upsert({
+      key: verificationTypeKey(vtype),
+      vtype,
+      canonicalPoints: dto.canonicalPoints,
+      maxPoints: dto.maxPoints,
+      issuers: [...new Set(dto.issuers ?? [])],
+      expirySeconds: dto.expirySeconds,
+      decayHalfLifeSeconds: dto.decayHalfLifeSeconds,
+      enabled: dto.enabled ?? true,
+      description: dto.description,
+      updatedAt: new Date(),
+      updatedBy,
+    });
+
+    this.agingCache = null;
+    this.logger.log(`Verification type saved key=${entry.key} by=${updatedBy}`);
+    return { success: true, message: `Verification type ${entry.key} saved`, type: entry };
+  }
+
+  /**
+   * Check a verification about to be written. `type` is a caller-supplied
+   * name (see parseVerificationType) or a decoded contract value; `points`
+   * defaults to the canonical points; `issuer` is the account issuing it.
+   */
+  async authorize(params: {
+    type: string | VerificationType;
+    points?: number;
+    issuer: string;
+  }): Promise<VerificationAuthorization> {
+    const vtype = typeof params.type === 'string' ? parseVerificationType(params.type) : params.type;
+    const label = typeof params.type === 'string' ? params.type : verificationTypeKey(params.type);
+
+    if (!vtype || this.isReserved(vtype)) {
+      return { allowed: false, message: `Verification type ${label} is not allowed` };
+    }
+
+    const entry = await this.find(vtype);
+    if (!entry || !entry.enabled) {
+      return { allowed: false, message: `Verification type ${label} is not registered or disabled` };
+    }
+
+    const points = params.points ?? entry.canonicalPoints;
+    if (!Number.isInteger(points) || points < 0 || points > entry.maxPoints) {
+      return {
+        allowed: false,
+        message: `Points for ${entry.key} must be between 0 and ${entry.maxPoints}, got ${points}`,
+      };
+    }
+
+    if (entry.issuers.length > 0 && !entry.issuers.includes(params.issuer)) {
+      return { allowed: false, message: `${params.issuer} is not an authorized issuer of ${entry.key}` };
+    }
+
+    return { allowed: true, entry, vtype, points };
+  }
+
+  /**
+   * Expiry and decay of every type that ages, keyed by verification type
+   * key. Types that never age are left out.
+   */
+  async agingRules(): Promise<VerificationAgingRules> {
+    if (this.agingCache && this.agingCache.expiresAt > Date.now()) {
+      return this.agingCache.rules;
+    }
+
+    const rules: VerificationAgingRules = {};
+    for (const entry of (await this.list()).types) {
+      if (entry.expirySeconds || entry.decayHalfLifeSeconds) {
+        rules[entry.key] = {
+          expirySeconds: entry.expirySeconds,
+          decayHalfLifeSeconds: entry.decayHalfLifeSeconds,
+        };
+      }
+    }
+
+    this.agingCache = { rules, expiresAt: Date.now() + this.cacheTtlMs };
+    return rules;
+  }
+
+  private async find(vtype: VerificationType): Promise<VerificationTypeEntry | null> {
+    const key = verificationTypeKey(vtype);
+    const stored = await this.verificationTypeRepository.findByKey(key);
+
+    if (stored) {
+      return stored;
+    }
+
+    return vtype.tag === 'Custom' ? null : this.builtInDefault(vtype.tag);
+  }
+
+  private builtInDefault(type: BuiltInVerificationType): VerificationTypeEntry {
+    return {
+      key: type,
+      vtype: { tag: type, values: undefined },
+      ...BUILT_IN_VERIFICATION_TYPE_DEFAULTS[type],
+      issuers: [],
+      enabled: true,
+      isDefault: true,
+      updatedAt: new Date(0),
+    };
+  }
+
+  private isReserved(vtype: VerificationType): boolean {
+    return vtype.tag === 'Custom' && RESERVED_CUSTOM_SYMBOLS.includes(vtype.values[0]);
+  }
+}
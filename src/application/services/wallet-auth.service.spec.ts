@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Keypair, Networks, TransactionBuilder, WebAuth } from '@stellar/stellar-sdk';
+import { WalletAuthService, WALLET_TOKEN_AUDIENCE } from './wallet-auth.service';
+import { StellarService } from '../../infrastructure/stellar/stellar.service';
+import { signJwt } from '../../infrastructure/auth/jwt';
+
+describe('WalletAuthService', () => {
+  let service: WalletAuthService;
+  const serverKeypair = Keypair.random();
+  const client = Keypair.random();
+
+  const settings: Record<string, string> = {};
+
+  const build = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletAuthService,
+        {
+          provide: StellarService,
+          useValue: { getNetworkPassphrase: jest.fn().mockReturnValue(Networks.TESTNET) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(WalletAuthService);
+  };
+
+  const sign = (transaction: string, ...signers: Keypair[]) => {
+    const tx = TransactionBuilder.fromXDR(transaction, Networks.TESTNET);
+    signers.forEach((signer) => tx.sign(signer));
+    return tx.toEnvelope().toXDR('base64');
+  };
+
+  beforeEach(async () => {
+    for (const key of Object.keys(settings)) {
+      delete settings[key];
+    }
+    settings.SEP10_SIGNING_SECRET = serverKeypair.secret();
+    settings.SEP10_HOME_DOMAIN = 'veridion.id';
+    settings.WALLET_JWT_SECRET = 'wallet-jwt-secret';
+
+    await build();
+  });
+
+  it('builds a challenge for the account signed by the server key', () => {
+    const result = service.challenge(client.publicKey());
+
+    expect(result).toEqual(
+      expect.objectContaining({ success: true, network_passphrase: Networks.TESTNET }),
+    );
+    const { clientAccountID } = WebAuth.readChallengeTx(
+      result.transaction,
+      serverKeypair.publicKey(),
+      Networks.TESTNET,
+      'veridion.id',
+      'veridion.id',
+    );
+    expect(clientAccountID).toBe(client.publicKey());
+  });
+
+  it('issues a token bound to the account for a challenge it signed', () => {
+    const { transaction } = service.challenge(client.publicKey());
+
+    const result = service.token(sign(transaction, client));
+
+    expect(result).toEqual(expect.objectContaining({ success: true, expiresIn: 86400 }));
+    expect(service.authenticate(result.token)).toEqual({ account: client.publicKey() });
+  });
+
+  it('rejects a challenge signed by another key', () => {
+    const { transaction } = service.challenge(client.publicKey());
+
+    const result = service.token(sign(transaction, Keypair.random()));
+
+    expect(result.error).toBe('INVALID_CHALLENGE');
+  });
+
+  it('rejects an unsigned challenge', () => {
+    const { transaction } = service.challenge(client.publicKey());
+
+    expect(service.token(transaction).error).toBe('INVALID_CHALLENGE');
+  });
+
+  it('rejects a challenge issued by another server', () => {
+    const foreign = WebAuth.buildChallengeTx(
+      Keypair.random(),
+      client.publicKey(),
+      'veridion.id',
+      300,
+      Networks.TESTNET,
+      'veridion.id',
+    );
+
+    expect(service.token(sign(foreign, client)).error).toBe('INVALID_CHALLENGE');
+  });
+
+  it('rejects an expired challenge', () => {
+    // readChallengeTx allows 5 minutes of clock skew past maxTime
+    jest.useFakeTimers({ now: Date.now() - 20 * 60 * 1000 });
+    const { transaction } = service.challenge(client.publicKey());
+    jest.useRealTimers();
+
+    expect(service.token(sign(transaction, client)).error).toBe('INVALID_CHALLENGE');
+  });
+
+  it('does not accept admin tokens or tokens signed with another secret', () => {
+    const adminToken = signJwt({ sub: client.publicKey(), aud: 'veridion-admin' }, 'wallet-jwt-secret', 60);
+    const forged = signJwt({ sub: client.publicKey(), aud: WALLET_TOKEN_AUDIENCE }, 'other-secret', 60);
+
+    expect(service.authenticate(adminToken)).toBeNull();
+    expect(service.authenticate(forged)).toBeNull();
+  });
+
+  it('returns NOT_CONFIGURED without a signing key or JWT secret', async () => {
+    delete settings.SEP10_SIGNING_SECRET;
+    await build();
+
+    expect(service.challenge(client.publicKey()).error).toBe('NOT_CONFIGURED');
+    expect(service.token('AAAA').error).toBe('NOT_CONFIGURED');
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Keypair, TransactionBuilder, WebAuth } from '@stellar/stellar-sdk';
+import { StellarService } from '../../infrastructure/stellar/stellar.service';
+import { signJwt, verifyJwt } from '../../infrastructure/auth/jwt';
+import {
+  WalletChallengeResponse,
+  WalletPrincipal,
+  WalletTokenResponse,
+} from '../../domain/entities/wallet-auth.entity';
+
+export const WALLET_TOKEN_AUDIENCE = 'veridion-wallet';
+
+/**
+ * SEP-10 web authentication: a wallet proves it controls an account by
+ * signing a challenge transaction built and signed by SEP10_SIGNING_SECRET,
+ * and gets a JWT (WALLET_JWT_SECRET) whose subject is that account.
+ *
+ * Only the account's master key is accepted as signer. Accounts that moved
+ * control to other signers (multisig, master weight 0) cannot log in, as
+ * checking their thresholds would need the account loaded from Horizon.
+ */
+@Injectable()
+export class WalletAuthService {
+  private readonly logger = new Logger(WalletAuthService.name);
+  private readonly signingKeypair: Keypair | null;
+  private readonly homeDomain: string;
+  private readonly webAuthDomain: string;
+  private readonly challengeTimeoutSeconds: number;
+  private readonly jwtSecret: string;
+  private readonly tokenTtlSeconds: number;
+
+  constructor(
+    private readonly stellarService: StellarService,
+    private readonly configService: ConfigService,
+  ) {
+    const signingSecret = this.configService.get<string>('SEP10_SIGNING_SECRET') || '';
+    this.signingKeypair = signingSecret ? Keypair.fromSecret(signingSecret) : null;
+    this.homeDomain = this.configService.get<string>('SEP10_HOME_DOMAIN', 'localhost');
+    this.webAuthDomain = this.configService.get<string>('SEP10_WEB_AUTH_DOMAIN') || this.homeDomain;
+    this.challengeTimeoutSeconds = Number(this.configService.get<string>('SEP10_CHALLENGE_TIMEOUT_SECONDS', '300'));
+    this.jwtSecret = this.configService.get<string>('WALLET_JWT_SECRET') || '';
+    this.tokenTtlSeconds = Number(this.configService.get<string>('WALLET_JWT_TTL_SECONDS', '86400'));
+  }
+
+  challenge(account: string): WalletChallengeResponse {
+    if (!this.isConfigured()) {
+      return { success: false, message: 'Wallet authentication is not configured', error: 'NOT_CONFIGURED' };
+    }
+
+    const networkPassphrase = this.stellarService.getNetworkPassphrase();
+    const transaction = WebAuth.buildChallengeTx(
+      this.signingKeypair,
+      account,
+      this.homeDomain,
+      this.challengeTimeoutSeconds,
+      networkPassphrase,
+      this.webAuthDomain,
+    );
+
+    return { success: true, transaction, network_passphrase: networkPassphrase };
+  }
+
+  /**
+   * Exchange a challenge signed by the client for a session token. Fails
+   * with INVALID_CHALLENGE when the challenge was not issued by this server,
+   * has expired, or is not signed by the account's master key.
+   */
+  token(transaction: string): WalletTokenResponse {
+    if (!this.isConfigured()) {
+      return { success: false, message: 'Wallet authentication is not configured', error: 'NOT_CONFIGURED' };
+    }
+
+    const networkPassphrase = this.stellarService.getNetworkPassphrase();
+    const serverAccount = this.signingKeypair.publicKey();
+
+    let account: string;
+    try {
+      ({ clientAccountID: account } = WebAuth.readChallengeTx(
+        transaction,
+        serverAccount,
+        networkPassphrase,
+        this.homeDomain,
+        this.webAuthDomain,
+      ));
+      WebAuth.verifyChallengeTxSigners(
+        transaction,
+        serverAccount,
+        networkPassphrase,
+        [account],
+        this.homeDomain,
+        this.webAuthDomain,
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Rejected SEP-10 challenge: ${reason}`);
+      return { success: false, message: `Invalid challenge: ${reason}`, error: 'INVALID_CHALLENGE' };
+    }
+
+    const challengeHash = TransactionBuilder.fromXDR(transaction, networkPassphrase)
+      .hash()
+      .toString('hex');
+    const token = signJwt(
+      {
+        sub: account,
+        aud: WALLET_TOKEN_AUDIENCE,
+        iss: `https://${this.webAuthDomain}/auth`,
+        jti: challengeHash,
+      },
+      this.jwtSecret,
+      this.tokenTtlSeconds,
+    );
+
+    this.logger.log(`Wallet authenticated account=${account}`);
+    return { success: true, token, expiresIn: this.tokenTtlSeconds };
+  }
+
+  /**
+   * Account behind a wallet session token, or null when the token is
+   * invalid or expired.
+   */
+  authenticate(token: string): WalletPrincipal | null {
+    const claims = verifyJwt(token, this.jwtSecret, WALLET_TOKEN_AUDIENCE);
+    return claims ? { account: claims.sub } : null;
+  }
+
+  private isConfigured(): boolean {
+    return !!this.signingKeypair && !!this.jwtSecret;
+  }
+}
@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../infrastructure/firebase/webhook-delivery.repository';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WebhookSender,
+  signWebhookPayload,
+} from '../../infrastructure/webhooks/webhook-sender';
+import { WebhookDelivery, WebhookEndpoint } from '../../domain/entities/webhook.entity';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookDispatcher', () => {
+  const secret = 'whsec_test';
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  let dispatcher: WebhookDispatcher;
+  let deliveries: Map<string, WebhookDelivery>;
+  let endpoint: WebhookEndpoint;
+
+  const settings: Record<string, string> = {
+    WEBHOOK_MAX_ATTEMPTS: '3',
+    WEBHOOK_BACKOFF_BASE_MS: '1000',
+    WEBHOOK_TIMEOUT_MS: '2000',
+  };
+
+  // Local receiver standing in for an integrator endpoint
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    received = [];
+    responseStatus = 200;
+    endpoint = {
+      id: 'ep-1',
+      ownerKeyId: 'key-1',
+      url: `${baseUrl}/hooks`,
+      events: ['status.changed'],
+      secret,
+      active: true,
+      createdAt: new Date(),
+    };
+    deliveries = new Map([
+      [
+        'del-1',
+        {
+          id: 'del-1',
+          endpointId: 'ep-1',
+          ownerKeyId: 'key-1',
+          event: {
+            id: 'evt_1',
+            type: 'status.changed',
+            createdAt: new Date().toISOString(),
+            data: { wallet: 'GABC', status: 'APPROVED' },
+          },
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: new Date(Date.now() - 1000),
+          createdAt: new Date(),
+        },
+      ],
+    ]);
+
+    const deliveryRepository = {
+      findDue: jest.fn(async (now: Date) =>
+        [...deliveries.values()].filter(
+          (delivery) => delivery.status === 'pending' && delivery.nextAttemptAt <= now,
+        ),
+      ),
+      claim: jest.fn().mockResolvedValue(true),
+      update: jest.fn(async (id: string, update: Partial<WebhookDelivery>) => {
+        Object.assign(deliveries.get(id), update);
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookDispatcher,
+        WebhookSender,
+        { provide: WebhookDeliveryRepository, useValue: deliveryRepository },
+        {
+          provide: WebhookEndpointRepository,
+          useValue: { findById: jest.fn(async () => endpoint) },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: string) => settings[key] ?? defaultValue),
+          },
+        },
+      ],
+    }).compile();
+
+    dispatcher = module.get(WebhookDispatcher);
+  });
+
+  const dispatch = async () => {
+    dispatcher.kick();
+    await dispatcher.idle();
+  };
+
+  it('POSTs the event with a verifiable signature', async () => {
+    await dispatch();
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(deliveries.get('del-1').event);
+    expect(request.headers[WEBHOOK_EVENT_HEADER.toLowerCase()]).toBe('status.changed');
+    expect(request.headers[WEBHOOK_DELIVERY_HEADER.toLowerCase()]).toBe('del-1');
+
+    const signature = request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string;
+    const [, timestamp, v1] = /^t=(\d+),v1=([0-9a-f]+)$/.exec(signature);
+    expect(v1).toBe(signWebhookPayload(secret, Number(timestamp), request.body));
+
+    expect(deliveries.get('del-1')).toEqual(
+      expect.objectContaining({ status: 'succeeded', attempts: 1, responseStatus: 200 }),
+    );
+  });
+
+  it('reschedules a failed attempt with exponential backoff', async () => {
+    responseStatus = 500;
+    const before = Date.now();
+
+    await dispatch();
+
+    const delivery = deliveries.get('del-1');
+    expect(delivery).toEqual(
+      expect.objectContaining({
+        status: 'pending',
+        attempts: 1,
+        responseStatus: 500,
+        lastError: 'HTTP 500',
+      }),
+    );
+    expect(delivery.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 1000);
+
+    // Not due yet, so a second run sends nothing
+    await dispatch();
+    expect(received).toHaveLength(1);
+  });
+
+  it('marks the delivery failed after the last attempt', async () => {
+    responseStatus = 503;
+    Object.assign(deliveries.get('del-1'), { attempts: 2 });
+
+    await dispatch();
+
+    expect(deliveries.get('del-1')).toEqual(
+      expect.objectContaining({ status: 'failed', attempts: 3, lastError: 'HTTP 503' }),
+    );
+  });
+
+  it('fails deliveries to deleted endpoints without sending', async () => {
+    endpoint.active = false;
+
+    await dispatch();
+
+    expect(received).toHaveLength(0);
+    expect(deliveries.get('del-1')).toEqual(
+      expect.objectContaining({ status: 'failed', lastError: 'Endpoint deleted' }),
+    );
+  });
+
+  it('records connection errors as failed attempts', async () => {
+    endpoint.url = 'http://127.0.0.1:1/unreachable';
+
+    await dispatch();
+
+    expect(deliveries.get('del-1')).toEqual(
+      expect.objectContaining({ status: 'pending', attempts: 1, lastError: expect.any(String) }),
+    );
+  });
+
+  describe('nextAttemptAt', () => {
+    it('doubles the delay per attempt and stops at the maximum', () => {
+      const now = new Date('2025-03-01T12:00:00Z');
+
+      expect(dispatcher.nextAttemptAt(1, now)).toEqual(new Date(now.getTime() + 1000));
+      expect(dispatcher.nextAttemptAt(2, now)).toEqual(new Date(now.getTime() + 2000));
+      expect(dispatcher.nextAttemptAt(3, now)).toBeNull();
+    });
+  });
+});
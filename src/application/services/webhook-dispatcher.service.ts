@@ -0,0 +1,162 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../infrastructure/firebase/webhook-delivery.repository';
+import { WebhookSender } from '../../infrastructure/webhooks/webhook-sender';
+import { WebhookDelivery } from '../../domain/entities/webhook.entity';
+
+/**
+ * Sends pending webhook deliveries. Runs right after events are published
+ * (kick) and every WEBHOOK_DISPATCH_INTERVAL_MS for retries. A failed
+ * attempt is retried WEBHOOK_BACKOFF_BASE_MS * 2^(attempts - 1) later,
+ * until WEBHOOK_MAX_ATTEMPTS, after which the delivery is marked failed
+ * and can only be replayed.
+ */
+@Injectable()
+export class WebhookDispatcher implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcher.name);
+  private readonly intervalMs: number;
+  private readonly maxAttempts: number;
+  private readonly backoffBaseMs: number;
+  private readonly batchSize: number;
+  private readonly claimMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private stopping = false;
+
+  constructor(
+    private readonly endpointRepository: WebhookEndpointRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly sender: WebhookSender,
+    private readonly configService: ConfigService,
+  ) {
+    this.intervalMs = Number(this.configService.get<string>('WEBHOOK_DISPATCH_INTERVAL_MS', '15000'));
+    this.maxAttempts = Number(this.configService.get<string>('WEBHOOK_MAX_ATTEMPTS', '8'));
+    this.backoffBaseMs = Number(this.configService.get<string>('WEBHOOK_BACKOFF_BASE_MS', '30000'));
+    this.batchSize = Number(this.configService.get<string>('WEBHOOK_DISPATCH_BATCH_SIZE', '20'));
+    // Long enough to cover one send, including its timeout
+    this.claimMs = 2 * Number(this.configService.get<string>('WEBHOOK_TIMEOUT_MS', '10000'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!(this.intervalMs > 0)) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.kick(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.stopping = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.running;
+  }
+
+  /** Start a dispatch run now, or right after the current one. */
+  kick(): void {
+    if (this.stopping) {
+      return;
+    }
+    if (this.running) {
+      this.rerun = true;
+      return;
+    }
+
+    this.rerun = false;
+    this.running = this.dispatchDue()
+      .catch((error) => this.logger.error('Webhook dispatch failed', error))
+      .finally(() => {
+        this.running = null;
+        if (this.rerun) {
+          this.kick();
+        }
+      });
+  }
+
+  /** Resolves once the current dispatch run (if any) and reruns finish. */
+  async idle(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * When a delivery that has failed `attempts` times should be tried again,
+   * or null when it has run out of attempts.
+   */
+  nextAttemptAt(attempts: number, now: Date): Date | null {
+    if (attempts >= this.maxAttempts) {
+      return null;
+    }
+    return new Date(now.getTime() + this.backoffBaseMs * Math.pow(2, attempts - 1));
+  }
+
+  private async dispatchDue(): Promise<void> {
+    const now = new Date();
+    const due = await this.deliveryRepository.findDue(now, this.batchSize);
+
+    for (const delivery of due) {
+      if (this.stopping) {
+        return;
+      }
+      const claimed = await this.deliveryRepository.claim(
+        delivery.id,
+        now,
+        new Date(now.getTime() + this.claimMs),
+      );
+      if (claimed) {
+        await this.attempt(delivery);
+      }
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const endpoint = await this.endpointRepository.findById(delivery.endpointId);
+
+    if (!endpoint?.active) {
+      await this.deliveryRepository.update(delivery.id, {
+        status: 'failed',
+        attempts,
+        lastError: 'Endpoint deleted',
+      });
+      return;
+    }
+
+    const result = await this.sender.send(endpoint.url, endpoint.secret, delivery.id, delivery.event);
+    const now = new Date();
+
+    if (result.ok) {
+      await this.deliveryRepository.update(delivery.id, {
+        status: 'succeeded',
+        attempts,
+        responseStatus: result.status,
+        deliveredAt: now,
+      });
+      return;
+    }
+
+    const nextAttemptAt = this.nextAttemptAt(attempts, now);
+    this.logger.warn(
+      `Webhook delivery id=${delivery.id} attempt ${attempts} failed: ${result.error}${nextAttemptAt ? '' : ' (giving up)'}`,
+    );
+
+    await this.deliveryRepository.update(delivery.id, {
+      status: nextAttemptAt ? 'pending' : 'failed',
+      attempts,
+      responseStatus: result.status,
+      lastError: result.error,
+      ...(nextAttemptAt ? { nextAttemptAt } : {}),
+    });
+  }
+}
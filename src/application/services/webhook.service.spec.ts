@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { promises as dns } from 'dns';
+import { WebhookService } from './webhook.service';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../infrastructure/firebase/webhook-delivery.repository';
+import { WebhookDelivery, WebhookEndpoint } from '../../domain/entities/webhook.entity';
+
+const endpoint = (overrides: Partial<WebhookEndpoint> = {}): WebhookEndpoint => ({
+  id: 'ep-1',
+  ownerKeyId: 'key-1',
+  url: 'https://integrator.example/hooks',
+  events: ['identity.registered'],
+  secret: 'whsec_abc',
+  active: true,
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const delivery = (overrides: Partial<WebhookDelivery> = {}): WebhookDelivery => ({
+  id: 'del-1',
+  endpointId: 'ep-1',
+  ownerKeyId: 'key-1',
+  event: {
+    id: 'evt_1',
+    type: 'identity.registered',
+    createdAt: new Date().toISOString(),
+    data: { wallet: 'GABC' },
+  },
+  status: 'failed',
+  attempts: 8,
+  nextAttemptAt: new Date(),
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+  let endpointRepository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    findActiveByOwner: jest.Mock;
+    findActiveByEvent: jest.Mock;
+    deactivate: jest.Mock;
+  };
+  let deliveryRepository: { create: jest.Mock; findById: jest.Mock; listByOwner: jest.Mock };
+  let dispatcher: { kick: jest.Mock };
+
+  beforeEach(async () => {
+    endpointRepository = {
+      create: jest.fn(async (record) => ({ id: 'ep-1', ...record })),
+      findById: jest.fn(),
+      findActiveByOwner: jest.fn().mockResolvedValue([]),
+      findActiveByEvent: jest.fn().mockResolvedValue([]),
+      deactivate: jest.fn().mockResolvedValue(undefined),
+    };
+    deliveryRepository = {
+      create: jest.fn(async (record) => ({ id: 'del-2', ...record })),
+      findById: jest.fn(),
+      listByOwner: jest.fn().mockResolvedValue([]),
+    };
+    dispatcher = { kick: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        { provide: WebhookEndpointRepository, useValue: endpointRepository },
+        { provide: WebhookDeliveryRepository, useValue: deliveryRepository },
+        { provide: WebhookDispatcher, useValue: dispatcher },
+      ],
+    }).compile();
+
+    service = module.get(WebhookService);
+  });
+
+  describe('createEndpoint', () => {
+    let lookup: jest.SpyInstance;
+
+    beforeEach(() => {
+      lookup = jest.spyOn(dns, 'lookup').mockResolvedValue([{ address: '93.184.215.14', family: 4 }] as never);
+    });
+
+    afterEach(() => {
+      lookup.mockRestore();
+    });
+
+    it('returns the secret once and keeps it out of the endpoint view', async () => {
+      const result = await service.createEndpoint('key-1', {
+        url: 'https://integrator.example/hooks',
+        events: ['identity.registered', 'identity.registered', 'status.changed'],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(result.endpoint).not.toHaveProperty('secret');
+      expect(endpointRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ownerKeyId: 'key-1',
+          events: ['identity.registered', 'status.changed'],
+          secret: result.secret,
+          active: true,
+        }),
+      );
+    });
+
+    it.each([
+      ['http://integrator.example/hooks', 'https'],
+      ['https://127.0.0.1/hooks', 'private or loopback'],
+      ['https://[::1]/hooks', 'private or loopback'],
+      ['https://localhost/hooks', 'private or loopback'],
+    ])('refuses %s', async (url, reason) => {
+      const result = await service.createEndpoint('key-1', { url, events: ['status.changed'] });
+
+      expect(result).toEqual(expect.objectContaining({ success: false, error: 'INVALID_URL' }));
+      expect(result.message).toContain(reason);
+      expect(endpointRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a host that resolves to a private address', async () => {
+      lookup.mockResolvedValue([
+        { address: '93.184.215.14', family: 4 },
+        { address: '10.0.0.5', family: 4 },
+      ]);
+
+      const result = await service.createEndpoint('key-1', {
+        url: 'https://integrator.example/hooks',
+        events: ['status.changed'],
+      });
+
+      expect(result.error).toBe('INVALID_URL');
+      expect(endpointRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteEndpoint', () => {
+    it('deactivates an endpoint of the caller', async () => {
+      endpointRepository.findById.mockResolvedValue(endpoint());
+
+      const result = await service.deleteEndpoint('key-1', 'ep-1');
+
+      expect(result.success).toBe(true);
+      expect(endpointRepository.deactivate).toHaveBeenCalledWith('ep-1');
+    });
+
+    it('returns NOT_FOUND for another integrator\'s endpoint', async () => {
+      endpointRepository.findById.mockResolvedValue(endpoint({ ownerKeyId: 'key-2' }));
+
+      const result = await service.deleteEndpoint('key-1', 'ep-1');
+
+      expect(result.error).toBe('NOT_FOUND');
+      expect(endpointRepository.deactivate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publish', () => {
+    it('records one pending delivery per subscribed endpoint and wakes the dispatcher', async () => {
+      endpointRepository.findActiveByEvent.mockResolvedValue([
+        endpoint(),
+        endpoint({ id: 'ep-2', ownerKeyId: 'key-2' }),
+      ]);
+
+      await service.publish('identity.registered', { wallet: 'GABC' });
+
+      expect(endpointRepository.findActiveByEvent).toHaveBeenCalledWith('identity.registered');
+      expect(deliveryRepository.create).toHaveBeenCalledTimes(2);
+      const [[first], [second]] = deliveryRepository.create.mock.calls;
+      expect(first).toEqual(
+        expect.objectContaining({
+          endpointId: 'ep-1',
+          ownerKeyId: 'key-1',
+          status: 'pending',
+          attempts: 0,
+          event: expect.objectContaining({
+            id: expect.stringMatching(/^evt_/),
+            type: 'identity.registered',
+            data: { wallet: 'GABC' },
+          }),
+        }),
+      );
+      // Every endpoint receives the same event id
+      expect(second.event.id).toBe(first.event.id);
+      expect(dispatcher.kick).toHaveBeenCalledTimes(1);
+    });
+
+    it('does nothing when no endpoint is subscribed', async () => {
+      await service.publish('status.changed', { wallet: 'GABC' });
+
+      expect(deliveryRepository.create).not.toHaveBeenCalled();
+      expect(dispatcher.kick).not.toHaveBeenCalled();
+    });
+
+    it('never throws', async () => {
+      endpointRepository.findActiveByEvent.mockRejectedValue(new Error('Firestore unavailable'));
+
+      await expect(service.publish('status.changed', {})).resolves.toBeUndefined();
+    });
+  });
+
+  describe('replayDelivery', () => {
+    it('queues the same event as a new delivery', async () => {
+      const original = delivery();
+      deliveryRepository.findById.mockResolvedValue(original);
+      endpointRepository.findById.mockResolvedValue(endpoint());
+
+      const result = await service.replayDelivery('key-1', 'del-1');
+
+      expect(result.success).toBe(true);
+      expect(deliveryRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpointId: 'ep-1',
+          event: original.event,
+          status: 'pending',
+          attempts: 0,
+          replayOf: 'del-1',
+        }),
+      );
+      expect(dispatcher.kick).toHaveBeenCalled();
+    });
+
+    it('returns NOT_FOUND for another integrator\'s delivery', async () => {
+      deliveryRepository.findById.mockResolvedValue(delivery({ ownerKeyId: 'key-2' }));
+
+      const result = await service.replayDelivery('key-1', 'del-1');
+
+      expect(result.error).toBe('NOT_FOUND');
+      expect(deliveryRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses to replay to a deleted endpoint', async () => {
+      deliveryRepository.findById.mockResolvedValue(delivery());
+      endpointRepository.findById.mockResolvedValue(endpoint({ active: false }));
+
+      const result = await service.replayDelivery('key-1', 'del-1');
+
+      expect(result.error).toBe('ENDPOINT_INACTIVE');
+      expect(deliveryRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { WebhookEndpointRepository } from '../../infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../../infrastructure/firebase/webhook-delivery.repository';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { webhookUrlProblem } from '../../infrastructure/webhooks/webhook-url';
+import {
+  CreateWebhookEndpointDto,
+  ListWebhookDeliveriesQueryDto,
+  WebhookDelivery,
+  WebhookDeliveryResponse,
+  WebhookEndpoint,
+  WebhookEndpointResponse,
+  WebhookEndpointView,
+  WebhookEvent,
+  WebhookEventType,
+} from '../../domain/entities/webhook.entity';
+
+const DEFAULT_DELIVERY_PAGE_SIZE = 50;
+
+/**
+ * Outbound webhooks: integrators manage their endpoints and delivery log
+ * here, and the rest of the backend publishes identity events through
+ * publish(). Sending happens in WebhookDispatcher.
+ */
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly endpointRepository: WebhookEndpointRepository,
+    private readonly deliveryRepository: WebhookDeliveryRepository,
+    private readonly dispatcher: WebhookDispatcher,
+  ) {}
+
+  async createEndpoint(
+    ownerKeyId: string,
+    dto: CreateWebhookEndpointDto,
+  ): Promise<WebhookEndpointResponse> {
+    const problem = await webhookUrlProblem(dto.url);
+    if (problem) {
+      return { success: false, message: problem, error: 'INVALID_URL' };
+    }
+
+    const secret = `whsec_${crypto.randomBytes(32).toString('hex')}`;
+
+    const endpoint = await this.endpointRepository.create({
+      ownerKeyId,
+      url: dto.url,
+      events: [...new Set(dto.events)],
+      secret,
+      description: dto.description,
+      active: true,
+      createdAt: new Date(),
+    });
+
+    return {
+      success: true,
+      message: 'Webhook endpoint created. Store the secret now; it will not be shown again.',
+      secret,
+      endpoint: this.toView(endpoint),
+    };
+  }
+
+  async listEndpoints(ownerKeyId: string): Promise<WebhookEndpointView[]> {
+    const endpoints = await this.endpointRepository.findActiveByOwner(ownerKeyId);
+    return endpoints.map((endpoint) => this.toView(endpoint));
+  }
+
+  async deleteEndpoint(ownerKeyId: string, id: string): Promise<WebhookEndpointResponse> {
+    const endpoint = await this.endpointRepository.findById(id);
+
+    if (!endpoint || endpoint.ownerKeyId !== ownerKeyId || !endpoint.active) {
+      return { success: false, message: 'Webhook endpoint not found', error: 'NOT_FOUND' };
+    }
+
+    await this.endpointRepository.deactivate(id);
+    return { success: true, message: 'Webhook endpoint deleted', endpoint: this.toView(endpoint) };
+  }
+
+  async listDeliveries(
+    ownerKeyId: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDelivery[]> {
+    return this.deliveryRepository.listByOwner(
+      ownerKeyId,
+      { endpointId: query.endpointId, status: query.status },
+      query.limit ?? DEFAULT_DELIVERY_PAGE_SIZE,
+    );
+  }
+
+  /**
+   * Send a logged delivery's event again, as a new delivery, to the same
+   * endpoint. The event id is unchanged so receivers can deduplicate.
+   */
+  async replayDelivery(ownerKeyId: string, id: string): Promise<WebhookDeliveryResponse> {
+    const original = await this.deliveryRepository.findById(id);
+
+    if (!original || original.ownerKeyId !== ownerKeyId) {
+      return { success: false, message: 'Webhook delivery not found', error: 'NOT_FOUND' };
+    }
+
+    const endpoint = await this.endpointRepository.findById(original.endpointId);
+    if (!endpoint?.active) {
+      return { success: false, message: 'Webhook endpoint was deleted', error: 'ENDPOINT_INACTIVE' };
+    }
+
+    const now = new Date();
+    const delivery = await this.deliveryRepository.create({
+      endpointId: original.endpointId,
+      ownerKeyId,
+      event: original.event,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      replayOf: original.id,
+      createdAt: now,
+    });
+    this.dispatcher.kick();
+
+    return { success: true, message: 'Delivery replay queued', delivery };
+  }
+
+  /**
+   * Record a delivery for every active endpoint subscribed to `type` and
+   * wake the dispatcher. Never throws: a webhook problem must not fail the
+   * operation that produced the event.
+   */
+  async publish(type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+    try {
+      const endpoints = await this.endpointRepository.findActiveByEvent(type);
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const now = new Date();
+      const event: WebhookEvent = {
+        id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+        type,
+        createdAt: now.toISOString(),
+        data,
+      };
+
+      for (const endpoint of endpoints) {
+        await this.deliveryRepository.create({
+          endpointId: endpoint.id,
+          ownerKeyId: endpoint.ownerKeyId,
+          event,
+          status: 'pending',
+          attempts: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+        });
+      }
+
+      this.logger.log(`Webhook event ${type} id=${event.id} queued for ${endpoints.length} endpoint(s)`);
+      this.dispatcher.kick();
+    } catch (error) {
+      this.logger.error(`Failed to publish webhook event ${type}`, error);
+    }
+  }
+
+  private toView(endpoint: WebhookEndpoint): WebhookEndpointView {
+    const { secret: _secret, ...view } = endpoint;
+    return view;
+  }
+}
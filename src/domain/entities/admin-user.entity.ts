@@ -0,0 +1,98 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsIn,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+
+export const ADMIN_ROLES = [
+  'superadmin',
+  'operator',
+  'kyc-reviewer',
+  'read-only',
+] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * A person allowed into the /admin routes. Only a scrypt hash of the
+ * password is stored.
+ */
+export interface AdminUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  role: AdminRole;
+  disabled: boolean;
+  createdAt: Date;
+  createdBy?: string;
+  lastLoginAt?: Date;
+  disabledAt?: Date;
+}
+
+export type AdminUserView = Omit<AdminUser, 'passwordHash'>;
+
+/**
+ * The authenticated admin behind a request, attached by AdminAuthGuard as
+ * `request.admin`. The role is read from the stored user, not the token,
+ * so demotions and disables apply to tokens already issued.
+ */
+export interface AdminPrincipal {
+  id: string;
+  email: string;
+  role: AdminRole;
+}
+
+export class AdminLoginDto {
+  @ApiProperty({ example: 'ops@veridion.id' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  password: string;
+}
+
+export class CreateAdminUserDto {
+  @ApiProperty({ example: 'reviewer@veridion.id' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: 'At least 12 characters' })
+  @IsString()
+  @MinLength(12)
+  @MaxLength(200)
+  password: string;
+
+  @ApiProperty({ enum: ADMIN_ROLES })
+  @IsIn(ADMIN_ROLES)
+  role: AdminRole;
+}
+
+export interface AdminLoginResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  accessToken?: string;
+  tokenType?: 'Bearer';
+  /** Seconds until the token expires */
+  expiresIn?: number;
+  admin?: AdminUserView;
+}
+
+export interface AdminUserResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  admin?: AdminUserView;
+}
+
+export interface AdminUserListResponse {
+  success: boolean;
+  admins: AdminUserView[];
+}
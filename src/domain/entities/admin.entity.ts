@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, Length, IsNumber, Min } from 'class-validator';
+import { IsString, IsNotEmpty, Length, IsNumber, IsOptional, Min } from 'class-validator';
 
 // Build phase DTOs
 export class BuildRegisterTransactionDto {
@@ -60,13 +60,16 @@ export class BuildCreateVerificationTransactionDto {
   @Length(56, 56, { message: 'Wallet address must be exactly 56 characters' })
   wallet: string;
 
+  /** Registered verification type, e.g. `Over18` or `Custom:kyc_sumsub` */
   @IsString()
   @IsNotEmpty()
   verificationType: string;
 
+  /** Defaults to the type's canonical points */
+  @IsOptional()
   @IsNumber()
   @Min(0, { message: 'Points must be a non-negative number' })
-  points: number;
+  points?: number;
 
   @IsString()
   @IsNotEmpty()
@@ -98,7 +101,17 @@ export interface ApiKeyResponse {
 }
 
 // Status DTOs
-export type StatusType = 'APPROVED' | 'PENDING' | 'REJECTED';
+/**
+ * KYC statuses, written on-chain by AdminService.updateStatus as a Custom
+ * verification whose symbol is the status itself (`Custom:APPROVED`).
+ */
+export const STATUS_TYPES = ['APPROVED', 'PENDING', 'REJECTED'] as const;
+
+export type StatusType = (typeof STATUS_TYPES)[number];
+
+export function isStatusType(value: string | undefined): value is StatusType {
+  return (STATUS_TYPES as readonly string[]).includes(value ?? '');
+}
 
 export interface GetStatusResponse {
   success: boolean;
@@ -133,9 +146,34 @@ export interface UpdateStatusResponse {
   transactionHash?: string;
   skipped?: boolean;
   error?: string;
+  /** Status in force when the transition was rejected */
+  currentStatus?: StatusType;
 }
 
 export interface UpdateStatusOptions {
   sessionToken?: string;
   idempotencyKey?: string;
-}
\ No newline at end of file
+  /** Reported as `source` in the status.changed webhook event. Defaults to 'admin'. */
+  source?: string;
+  /** When the decision was made, e.g. the provider's webhook timestamp. Defaults to now. */
+  decidedAt?: Date;
+  /** Set for provider decisions; they cannot undo a settled status (see KYC_STATUS_TRANSITIONS) */
+  automated?: boolean;
+}
+export interface IssueVerificationRequest {
+  /** Verification type as accepted by the registry: `GitHub`, `Custom:kyc_sumsub` */
+  type: string;
+  /** Defaults to the registry's canonical points for the type */
+  points?: number;
+  sourceAccount: string;
+  idempotencyKey?: string;
+}
+
+export interface IssueVerificationResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  points?: number;
+  transactionHash?: string;
+  skipped?: boolean;
+}
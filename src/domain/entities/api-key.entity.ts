@@ -1,4 +1,16 @@
-import { IsString, IsNotEmpty, Length } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  Length,
+  IsArray,
+  ArrayNotEmpty,
+  IsIn,
+  IsOptional,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HUMANITY_POLICY_ID_PATTERN } from './humanity-policy.entity';
 
 export class ApiKeyRequestDto {
   @IsString()
@@ -15,3 +27,79 @@ export interface ApiKeyResponse {
   score?: number;
   error?: string;
 }
+
+// Integrator API keys
+
+export const API_KEY_SCOPES = [
+  'verify:batch',
+  'webhooks:manage',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * An integrator API key as stored in Firestore. Only the SHA-256 hash of the
+ * key is persisted; the plaintext is returned once, at creation or rotation.
+ */
+export interface IntegratorApiKey {
+  id: string;
+  name: string;
+  keyHash: string;
+  /** First characters of the plaintext key, so operators can tell keys apart. */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  revoked: boolean;
+  /** Humanity policy applied to the key's requests unless `?policy=` is given */
+  policyId?: string;
+  createdAt: Date;
+  lastUsedAt?: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+}
+
+/** Public view of a key: everything except the hash. */
+export type IntegratorApiKeyView = Omit<IntegratorApiKey, 'keyHash'>;
+
+export class CreateIntegratorApiKeyDto {
+  @ApiProperty({ description: 'Integrator name the key is issued to', maxLength: 128 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  name: string;
+
+  @ApiProperty({
+    description: 'Scopes granted to the key',
+    enum: API_KEY_SCOPES,
+    isArray: true,
+    example: ['verify:batch'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(API_KEY_SCOPES, { each: true })
+  scopes: ApiKeyScope[];
+}
+
+export class AssignApiKeyPolicyDto {
+  @ApiPropertyOptional({
+    description: 'Humanity policy ID; omit or null to fall back to the default policy',
+    example: 'kyc-approved',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(HUMANITY_POLICY_ID_PATTERN, { message: 'policyId must be a policy ID' })
+  policyId?: string | null;
+}
+
+export interface IntegratorApiKeyResponse {
+  success: boolean;
+  message?: string;
+  /** Plaintext key. Only present on create and rotate. */
+  apiKey?: string;
+  key?: IntegratorApiKeyView;
+  error?: string;
+}
+
+export interface IntegratorApiKeyListResponse {
+  success: boolean;
+  keys: IntegratorApiKeyView[];
+}
@@ -1,3 +1,6 @@
+import { HumanityPolicyRef } from './humanity-policy.entity';
+import { ScoringMode } from './effective-score.entity';
+
 /**
  * Per-wallet result returned in a batch verification response.
  */
@@ -6,10 +9,12 @@ export interface WalletResult {
   wallet: string;
   /** Whether the wallet is registered in the Veridion smart contract. */
   registered: boolean;
-  /** The wallet's identity score (0 if not registered). */
+  /** The wallet's identity score (0 if not registered; aged under effective scoring). */
   score: number;
-  /** Whether the wallet's score meets the configured human threshold. */
+  /** Whether the wallet satisfies the humanity policy. */
   isHuman: boolean;
+  /** Policy requirements the wallet does not meet (empty when human). */
+  unmet: string[];
 }
 
 /**
@@ -18,8 +23,12 @@ export interface WalletResult {
 export interface BatchVerifyResult {
   /** Per-wallet verification results (only valid addresses are included). */
   results: WalletResult[];
-  /** The score threshold used to determine isHuman. */
+  /** Minimum score of the humanity policy used to determine isHuman. */
   threshold: number;
+  /** Whether scores are contract scores or effective (aged) scores. */
+  scoring: ScoringMode;
+  /** The humanity policy version that decided isHuman. */
+  policy: HumanityPolicyRef;
   /** Number of wallets that were successfully processed. */
   processed: number;
   /** Number of wallet addresses that were skipped due to invalid format. */
@@ -0,0 +1,74 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+/**
+ * `raw` uses the contract score as is; `effective` ages every verification
+ * by the validity window and decay of its type in the registry.
+ */
+export const SCORING_MODES = ['raw', 'effective'] as const;
+
+export type ScoringMode = (typeof SCORING_MODES)[number];
+
+/** How a verification type ages; neither set means it never does. */
+export interface VerificationAging {
+  /** Age after which the verification is worth nothing */
+  expirySeconds?: number;
+  /** Age after which the verification is worth half its points */
+  decayHalfLifeSeconds?: number;
+}
+
+/** Aging per verification type key (see verificationTypeKey) */
+export type VerificationAgingRules = Record<string, VerificationAging>;
+
+export function isExpired(ageSeconds: number, aging: VerificationAging | undefined): boolean {
+  return !!aging?.expirySeconds && ageSeconds >= aging.expirySeconds;
+}
+
+/**
+ * Points a verification is still worth at `ageSeconds`: nothing once
+ * expired, otherwise halved every decayHalfLifeSeconds.
+ */
+export function agedPoints(points: number, ageSeconds: number, aging: VerificationAging | undefined): number {
+  if (isExpired(ageSeconds, aging)) {
+    return 0;
+  }
+
+  if (aging?.decayHalfLifeSeconds) {
+    return points * Math.pow(0.5, Math.max(0, ageSeconds) / aging.decayHalfLifeSeconds);
+  }
+
+  return points;
+}
+
+/**
+ * Effective score of a set of verifications: their aged points summed and
+ * rounded down, so a decayed score never reaches a threshold early.
+ */
+export function effectiveScore(
+  verifications: { type: string; points: number; writtenAt: Date }[],
+  rules: VerificationAgingRules,
+  now: Date,
+): number {
+  const total = verifications.reduce(
+    (sum, verification) =>
+      sum +
+      agedPoints(
+        verification.points,
+        (now.getTime() - verification.writtenAt.getTime()) / 1000,
+        rules[verification.type],
+      ),
+    0,
+  );
+  return Math.floor(total + 1e-9);
+}
+
+export class ScoringQueryDto {
+  @ApiPropertyOptional({
+    enum: SCORING_MODES,
+    default: 'raw',
+    description: 'effective ages verifications by the expiry and decay of their type',
+  })
+  @IsOptional()
+  @IsIn(SCORING_MODES)
+  scoring?: ScoringMode;
+}
@@ -1,3 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
 export interface FailedStellarTx {
   id: string;
   wallet: string;
@@ -10,6 +25,31 @@ export interface FailedStellarTx {
   createdAt: Date;
   retriedAt?: Date;
   resolvedAt?: Date;
+  /** Set when an operator gave up on the record instead of retrying it. */
+  discarded?: boolean;
+  discardedAt?: Date;
+  discardedBy?: string;
+  discardReason?: string;
+  /** Retries made so far, manual or automatic. */
+  retryCount?: number;
+  /**
+   * When the retry worker should look at the record next; null once it
+   * will not be retried automatically.
+   */
+  nextRetryAt?: Date | null;
+  /** Worker holding the record while retrying it, until retryLeaseUntil. */
+  retryLeaseHolder?: string | null;
+  retryLeaseUntil?: Date | null;
+}
+
+/**
+ * How the background worker retries a record through
+ * DeadLetterService.retry: as `holder`, only once due, rescheduled at
+ * nextRetryAt of the record as the retry left it.
+ */
+export interface DeadLetterRetrySchedule {
+  holder: string;
+  nextRetryAt(record: FailedStellarTx): Date | null;
 }
 
 export interface RetryStellarTxResponse {
@@ -28,3 +68,219 @@ export interface SubmitVerificationResult {
   message?: string;
   alreadyRegistered?: boolean;
 }
+
+/**
+ * True for transient sequence, timeout and RPC/network errors that are worth
+ * submitting again. Shared by StellarService's in-call retry loop and the
+ * dead-letter retry worker.
+ */
+export function isRetriableStellarError(errorMessage: string | undefined): boolean {
+  const lower = (errorMessage ?? '').toLowerCase();
+  return (
+    lower.includes('tx_bad_seq') ||
+    lower.includes('bad sequence') ||
+    lower.includes('sequence number') ||
+    lower.includes('timeout') ||
+    lower.includes('timed out') ||
+    lower.includes('econnreset') ||
+    lower.includes('econnrefused') ||
+    lower.includes('network') ||
+    lower.includes('503') ||
+    lower.includes('502') ||
+    lower.includes('504')
+  );
+}
+
+/**
+ * Coarse buckets for `lastError`, used to summarise the dead-letter queue.
+ */
+export const STELLAR_ERROR_CLASSES = [
+  'bad_sequence',
+  'timeout',
+  'network',
+  'already_registered',
+  'contract',
+  'configuration',
+  'other',
+] as const;
+
+export type StellarErrorClass = (typeof STELLAR_ERROR_CLASSES)[number];
+
+export function classifyStellarError(lastError: string | undefined): StellarErrorClass {
+  const lower = (lastError ?? '').toLowerCase();
+
+  if (
+    lower.includes('tx_bad_seq') ||
+    lower.includes('bad sequence') ||
+    lower.includes('sequence number')
+  ) {
+    return 'bad_sequence';
+  }
+  if (lower.includes('timeout') || lower.includes('timed out')) {
+    return 'timeout';
+  }
+  if (
+    lower.includes('econnreset') ||
+    lower.includes('econnrefused') ||
+    lower.includes('network') ||
+    /\b50[234]\b/.test(lower)
+  ) {
+    return 'network';
+  }
+  if (lower.includes('alreadyregistered') || lower.includes('already registered')) {
+    return 'already_registered';
+  }
+  if (
+    lower.includes('error(contract') ||
+    lower.includes('function_trapped') ||
+    lower.includes('hosterror')
+  ) {
+    return 'contract';
+  }
+  if (lower.includes('not configured') || lower.includes('does not match')) {
+    return 'configuration';
+  }
+  return 'other';
+}
+
+export interface FailedStellarTxFilter {
+  operation?: string;
+  wallet?: string;
+  resolved?: boolean;
+  /** Inclusive lower bound on createdAt. */
+  from?: Date;
+  /** Inclusive upper bound on createdAt. */
+  to?: Date;
+  /** Case-insensitive substring of lastError. */
+  errorContains?: string;
+}
+
+export interface FailedStellarTxPage {
+  items: FailedStellarTx[];
+  /** Pass as `cursor` to fetch the next page; absent on the last page. */
+  nextCursor?: string;
+}
+
+const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export class FailedStellarTxFilterDto {
+  @ApiPropertyOptional({ example: 'upsert_verification', enum: ['register', 'upsert_verification'] })
+  @IsOptional()
+  @IsIn(['register', 'upsert_verification'])
+  operation?: string;
+
+  @ApiPropertyOptional({ example: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890' })
+  @IsOptional()
+  @IsString()
+  wallet?: string;
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  resolved?: boolean;
+
+  @ApiPropertyOptional({ example: '2025-01-01T00:00:00.000Z', description: 'createdAt lower bound (inclusive)' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  @ApiPropertyOptional({ example: '2025-01-31T23:59:59.999Z', description: 'createdAt upper bound (inclusive)' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @ApiPropertyOptional({ example: 'tx_bad_seq', description: 'Case-insensitive substring of lastError' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  errorContains?: string;
+}
+
+export class ListFailedStellarTxQueryDto extends FailedStellarTxFilterDto {
+  @ApiPropertyOptional({ example: 50, minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @ApiPropertyOptional({ description: 'nextCursor from the previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class BulkRetryFailedStellarTxDto extends FailedStellarTxFilterDto {
+  @ApiPropertyOptional({
+    example: 25,
+    minimum: 1,
+    maximum: 100,
+    default: 25,
+    description: 'Maximum number of unresolved records to retry',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+/** The operator discarding the record is taken from the admin token */
+export class DiscardFailedStellarTxDto {
+  @ApiProperty({ example: 'Wallet was registered manually', description: 'Why the record is discarded' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export interface ListFailedStellarTxResponse {
+  success: boolean;
+  items: FailedStellarTx[];
+  nextCursor?: string;
+}
+
+export interface FailedStellarTxSummaryResponse {
+  success: boolean;
+  total: number;
+  byErrorClass: Record<StellarErrorClass, number>;
+}
+
+export interface BulkRetryItemResult {
+  id: string;
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface BulkRetryStellarTxResponse {
+  success: boolean;
+  message?: string;
+  attempted: number;
+  succeeded: number;
+  failed: number;
+  results: BulkRetryItemResult[];
+}
+
+export interface DeadLetterSweepResult {
+  /** Due records looked at in this sweep. */
+  scanned: number;
+  retried: number;
+  succeeded: number;
+  /** Not due yet; nextRetryAt moved to the backoff time. */
+  rescheduled: number;
+  /** Not retriable or past the retry ceiling; left for an operator. */
+  exhausted: number;
+}
+
+export interface DiscardStellarTxResponse {
+  success: boolean;
+  message?: string;
+  record?: FailedStellarTx;
+  error?: string;
+}
@@ -0,0 +1,126 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ScoringMode, ScoringQueryDto } from './effective-score.entity';
+
+export const DEFAULT_HUMANITY_POLICY_ID = 'default';
+
+export const HUMANITY_POLICY_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+/** KYC statuses as written on chain by updateStatus (`Custom:APPROVED` and so on), lowercased */
+export const KYC_STATUSES = ['approved', 'rejected', 'pending'] as const;
+
+export type KycStatus = (typeof KYC_STATUSES)[number];
+
+/**
+ * What a wallet must satisfy to count as human. Stored versioned: every
+ * change writes a new version and old versions stay readable, so a
+ * decision can always be traced to the exact rules that made it.
+ */
+export interface HumanityPolicy {
+  id: string;
+  version: number;
+  /** Minimum score, after discounting points from excluded issuers */
+  minScore: number;
+  /** Verification type keys that must be present, e.g. `Over18` or `Custom:kyc_sumsub` */
+  requiredVerifications: string[];
+  /** KYC status the latest status verification must have, if any */
+  requiredKycStatus?: KycStatus;
+  /** Issuer addresses whose verifications are ignored (points and presence) */
+  excludedIssuers: string[];
+  description?: string;
+  createdAt: Date;
+  createdBy?: string;
+}
+
+/** Identifies the policy (and version) that decided a result. */
+export interface HumanityPolicyRef {
+  id: string;
+  version: number;
+}
+
+export interface HumanityDecision {
+  registered: boolean;
+  isHuman: boolean;
+  /** Score after discounting excluded issuers (and aging, when effective) */
+  score: number;
+  scoring: ScoringMode;
+  policy: HumanityPolicyRef;
+  /** Requirements the wallet does not meet; empty when human */
+  unmet: string[];
+}
+
+/**
+ * How the caller picked a policy. An explicit `?policy=` wins over the
+ * integrator's assigned policy, which wins over `default`.
+ */
+export interface HumanityPolicySelection {
+  policyId?: string;
+  integratorPolicyId?: string;
+}
+
+export class HumanityPolicyQueryDto extends ScoringQueryDto {
+  @ApiPropertyOptional({ description: 'Humanity policy ID (defaults to the integrator policy, then "default")' })
+  @IsOptional()
+  @IsString()
+  @Matches(HUMANITY_POLICY_ID_PATTERN, { message: 'policy must be a policy ID' })
+  policy?: string;
+}
+
+export class UpsertHumanityPolicyDto {
+  @ApiProperty({ example: 35 })
+  @IsInt()
+  @Min(0)
+  @Max(1000000)
+  minScore: number;
+
+  @ApiPropertyOptional({ example: ['Over18'], description: 'Verification type keys that must be present' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  requiredVerifications?: string[];
+
+  @ApiPropertyOptional({ enum: KYC_STATUSES })
+  @IsOptional()
+  @IsIn(KYC_STATUSES)
+  requiredKycStatus?: KycStatus;
+
+  @ApiPropertyOptional({ description: 'Issuer addresses whose verifications are ignored' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @Matches(/^G[A-Z2-7]{55}$/, { each: true, message: 'excludedIssuers must be Stellar public keys' })
+  excludedIssuers?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export interface HumanityPolicyResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  policy?: HumanityPolicy;
+  /** All versions, newest first, when requested */
+  versions?: HumanityPolicy[];
+}
+
+export interface HumanityPolicyListResponse {
+  success: boolean;
+  policies: HumanityPolicy[];
+}
@@ -0,0 +1,63 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import * as crypto from 'crypto';
+
+/**
+ * Keyed hash identifying a KYC document across wallets: HMAC-SHA256, with
+ * KYC_FINGERPRINT_SECRET, of the document type, number and issuing
+ * country, normalised so formatting differences do not matter. Without the
+ * secret a fingerprint cannot be matched back to a document number.
+ */
+export function kycDocumentFingerprint(
+  secret: string,
+  document: { type: string; number: string; country?: string },
+): string {
+  const normalise = (value: string | undefined) => (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+  return crypto
+    .createHmac('sha256', secret)
+    .update([normalise(document.type), normalise(document.number), normalise(document.country)].join('|'))
+    .digest('hex');
+}
+
+/** A wallet approved with a document already linked to another wallet */
+export interface KycFingerprintDuplicate {
+  wallet: string;
+  /** Veriff session of the duplicate approval */
+  sessionId: string;
+  detectedAt: Date;
+}
+
+/**
+ * A KYC document fingerprint and the first wallet approved with it. The
+ * document number itself is never stored.
+ */
+export interface KycFingerprint {
+  fingerprint: string;
+  wallet: string;
+  sessionId: string;
+  documentType: string;
+  country?: string;
+  createdAt: Date;
+  /** Later wallets approved with the same document, held for manual review */
+  duplicates: KycFingerprintDuplicate[];
+  lastDuplicateAt?: Date;
+}
+
+export class KycFingerprintCollisionQueryDto {
+  @ApiPropertyOptional({ description: 'Number of collisions, most recent first (1-100, default 20)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export interface KycFingerprintCollisionListResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  collisions?: KycFingerprint[];
+}
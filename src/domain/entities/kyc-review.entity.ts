@@ -0,0 +1,124 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { StatusType } from './admin.entity';
+
+/**
+ * Why a KYC decision needs a person: Veriff asked the user to resubmit,
+ * the approved document already verified another wallet, the webhook
+ * could not be applied, or it would have undone a settled status, which
+ * only manual review may do.
+ */
+export const KYC_REVIEW_REASONS = ['resubmission', 'sybil', 'processing-failure', 'transition-rejected'] as const;
+
+export type KycReviewReason = (typeof KYC_REVIEW_REASONS)[number];
+
+export const KYC_REVIEW_CASE_STATUSES = ['open', 'claimed', 'resolved'] as const;
+
+export type KycReviewCaseStatus = (typeof KYC_REVIEW_CASE_STATUSES)[number];
+
+/** Statuses a reviewer can decide; PENDING keeps the wallet waiting */
+export const KYC_REVIEW_DECISIONS: StatusType[] = ['APPROVED', 'REJECTED', 'PENDING'];
+
+export interface KycReviewComment {
+  /** Email of the admin who wrote it */
+  author: string;
+  body: string;
+  createdAt: Date;
+}
+
+/** The reviewer's decision, applied on-chain through AdminService.updateStatus */
+export interface KycReviewResolution {
+  status: StatusType;
+  decidedBy: string;
+  reason: string;
+  decidedAt: Date;
+  transactionHash?: string;
+}
+
+/**
+ * A wallet's KYC decision waiting for manual review. At most one case per
+ * wallet and reason is unresolved at a time.
+ */
+export interface KycReviewCase {
+  id: string;
+  wallet: string;
+  reason: KycReviewReason;
+  status: KycReviewCaseStatus;
+  /** Veriff session and webhook that opened the case */
+  sessionId?: string;
+  sessionToken?: string;
+  /** What the webhook reported: Veriff's reason, the other wallet, the error */
+  detail?: string;
+  openedAt: Date;
+  updatedAt: Date;
+  claimedBy?: string;
+  claimedAt?: Date;
+  comments: KycReviewComment[];
+  resolution?: KycReviewResolution;
+}
+
+export type OpenKycReviewCase = Pick<KycReviewCase, 'wallet' | 'reason' | 'sessionId' | 'sessionToken' | 'detail'>;
+
+export interface KycReviewCaseFilter {
+  status?: KycReviewCaseStatus;
+  reason?: KycReviewReason;
+  wallet?: string;
+}
+
+export class KycReviewCaseQueryDto {
+  @ApiPropertyOptional({ enum: KYC_REVIEW_CASE_STATUSES })
+  @IsOptional()
+  @IsIn(KYC_REVIEW_CASE_STATUSES)
+  status?: KycReviewCaseStatus;
+
+  @ApiPropertyOptional({ enum: KYC_REVIEW_REASONS })
+  @IsOptional()
+  @IsIn(KYC_REVIEW_REASONS)
+  reason?: KycReviewReason;
+
+  @ApiPropertyOptional({ example: 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890' })
+  @IsOptional()
+  @IsString()
+  wallet?: string;
+
+  @ApiPropertyOptional({ description: 'Number of cases, most recently opened first (1-100, default 20)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export class CommentKycReviewCaseDto {
+  @ApiProperty({ example: 'Document photo is blurred; asked support to contact the user' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  body: string;
+}
+
+export class ResolveKycReviewCaseDto {
+  @ApiProperty({ enum: KYC_REVIEW_DECISIONS, description: 'KYC status written for the wallet' })
+  @IsIn(KYC_REVIEW_DECISIONS)
+  status: StatusType;
+
+  @ApiProperty({ example: 'Resubmitted passport matches the selfie', description: 'Why the reviewer decided so' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason: string;
+}
+
+export interface KycReviewCaseResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  case?: KycReviewCase;
+}
+
+export interface KycReviewCaseListResponse {
+  success: boolean;
+  cases: KycReviewCase[];
+}
@@ -0,0 +1,133 @@
+import { StatusType, isStatusType } from './admin.entity';
+
+/**
+ * The KYC status last applied to a wallet through AdminService.updateStatus.
+ */
+export interface KycStatusState {
+  wallet: string;
+  status: StatusType;
+  /** When the decision was made: the provider's timestamp, or when an admin decided */
+  decidedAt: Date;
+  /** Reported as `source` in status.changed: `veriff`, `kyc-review`, `admin`, or `chain` when read back from the contract */
+  source: string;
+  /** Whether a person made the decision */
+  manual: boolean;
+  appliedAt: Date;
+  transactionHash?: string;
+}
+
+/** What identifies a claimed status: a later decision replaces it */
+export type KycStatusClaimKey = Pick<KycStatusState, 'wallet' | 'status' | 'decidedAt'>;
+
+/**
+ * The claim a dead-lettered status write holds, from the job payload it
+ * was stored with; null for other writes and for payloads without
+ * decidedAt.
+ */
+export function kycStatusClaimOf(wallet: string, payload: Record<string, unknown>): KycStatusClaimKey | null {
+  const status = typeof payload.status === 'string' ? payload.status : undefined;
+  const decidedAt = typeof payload.decidedAt === 'string' ? new Date(payload.decidedAt) : null;
+  if (!isStatusType(status) || !decidedAt || isNaN(decidedAt.getTime())) {
+    return null;
+  }
+  return { wallet, status, decidedAt };
+}
+
+/** A status decision about to be applied */
+export interface KycStatusDecision {
+  status: StatusType;
+  decidedAt: Date;
+  manual: boolean;
+  source: string;
+}
+
+export type KycTransitionRejectionCode = 'STALE_DECISION' | 'TRANSITION_NOT_ALLOWED';
+
+export type KycTransitionCheck =
+  | { allowed: true }
+  | { allowed: false; code: KycTransitionRejectionCode; reason: string };
+
+/**
+ * Outcome of KycStatusRepository.claim: the decision is now the status in
+ * force (`previous` is what it replaced, null when nothing was stored), or
+ * the state machine refused it against `current`.
+ */
+export type KycStatusClaim =
+  | { claimed: true; previous: KycStatusState | null }
+  | {
+      claimed: false;
+      current: Pick<KycStatusState, 'status' | 'decidedAt'> | null;
+      transition: Extract<KycTransitionCheck, { allowed: false }>;
+    };
+
+/**
+ * A decision the state machine refused, kept for audit.
+ */
+export interface KycStatusRejection {
+  id: string;
+  wallet: string;
+  /** Status the wallet had; absent when it had none */
+  from?: StatusType;
+  to: StatusType;
+  decidedAt: Date;
+  /** decidedAt of the status in force */
+  currentDecidedAt?: Date;
+  source: string;
+  manual: boolean;
+  code: KycTransitionRejectionCode;
+  reason: string;
+  rejectedAt: Date;
+}
+
+/**
+ * Who may move a wallet between statuses. Automated decisions (provider
+ * webhooks) settle a pending wallet and may repeat a settled status, but
+ * never undo it: a late resubmission cannot reopen an approval, and a
+ * rejected wallet is only approved through manual review. Manual decisions
+ * may make any transition.
+ */
+export const KYC_STATUS_TRANSITIONS: Record<StatusType, Record<StatusType, 'automated' | 'manual'>> = {
+  PENDING: { PENDING: 'automated', APPROVED: 'automated', REJECTED: 'automated' },
+  APPROVED: { APPROVED: 'automated', PENDING: 'manual', REJECTED: 'manual' },
+  REJECTED: { REJECTED: 'automated', PENDING: 'manual', APPROVED: 'manual' },
+};
+
+/**
+ * Whether `decision` may replace `current`, the status in force (null when
+ * the wallet has none). Decisions made before the one in force are stale,
+ * whoever made them.
+ */
+export function checkKycTransition(
+  current: Pick<KycStatusState, 'status' | 'decidedAt'> | null,
+  decision: KycStatusDecision,
+): KycTransitionCheck {
+  if (!current) {
+    return { allowed: true };
+  }
+
+  if (decision.decidedAt.getTime() < current.decidedAt.getTime()) {
+    return {
+      allowed: false,
+      code: 'STALE_DECISION',
+      reason: `${decision.status} decided at ${decision.decidedAt.toISOString()} is older than ${current.status} decided at ${current.decidedAt.toISOString()}`,
+    };
+  }
+
+  const requires = KYC_STATUS_TRANSITIONS[current.status][decision.status];
+  if (requires === 'manual' && !decision.manual) {
+    return {
+      allowed: false,
+      code: 'TRANSITION_NOT_ALLOWED',
+      reason: `${current.status} -> ${decision.status} requires manual review`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+export interface KycStatusHistoryResponse {
+  success: boolean;
+  /** Absent when no status was applied through the state machine yet */
+  current?: KycStatusState;
+  rejections: KycStatusRejection[];
+}
@@ -0,0 +1,264 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsInt, Matches, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { StatusType } from './admin.entity';
+
+/** KYC providers behind KycProviderPort, as used in routes and records */
+export type KycProviderName = 'veriff' | 'sumsub';
+
+/**
+ * Verification type written on-chain with each approval, naming the
+ * provider that issued it (`Custom:kyc_veriff`, `Custom:kyc_sumsub`).
+ * Written only once registered in the verification type registry.
+ */
+export function kycProviderVerificationType(provider: KycProviderName): string {
+  return `Custom:kyc_${provider}`;
+}
+
+export interface KycWebhookResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  status?: string;
+  wallet?: string;
+  /** Whether this decision wrote an Over18 verification */
+  over18Issued?: boolean;
+  /** Whether this decision wrote the provider's verification (see kycProviderVerificationType) */
+  providerVerificationIssued?: boolean;
+  /** Approval held at PENDING: the document already verified another wallet */
+  flagged?: boolean;
+  /** Manual review case opened, or already open, for this decision */
+  reviewCaseId?: string;
+  /** A redelivery of a webhook already processed; the original result is returned */
+  duplicate?: boolean;
+  /** The KYC state machine refused the decision; `status` is the status in force */
+  transitionRejected?: boolean;
+  /** Accepted into the inbox; the decision is applied in the background */
+  queued?: boolean;
+  /** A signed event that carries no decision, e.g. Sumsub's applicantPending */
+  ignored?: boolean;
+}
+
+/**
+ * What a webhook request carries for the provider to verify it came from
+ * them: the exact body bytes and the request headers, lower-cased.
+ */
+export interface KycWebhookRequest {
+  rawBody?: Buffer;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/** Identity document of an approved person, as reported by the provider */
+export interface KycDocument {
+  type: string;
+  number: string;
+  /** Issuing country, ISO 3166-1 code as the provider reports it */
+  country?: string;
+}
+
+/**
+ * A provider's decision on a session, normalized by its KycProviderPort
+ * adapter. Personal data is only present when the provider sends it.
+ */
+export interface KycDecision {
+  provider: KycProviderName;
+  /** Id of the webhook event; with `sessionToken`, keys the inbox record */
+  webhookId: string;
+  sessionToken: string;
+  /** Session this backend created, see KycSession.sessionId */
+  sessionId: string;
+  /** Status as the provider reported it, e.g. `approved` or `GREEN` */
+  providerStatus: string;
+  status: StatusType;
+  /** The provider asked the person to try again */
+  resubmission: boolean;
+  reason?: string;
+  /** When the provider decided */
+  decidedAt: Date;
+  /** Wallet the client reported to the provider; never trusted */
+  reportedWallet?: string;
+  /** YYYY-MM-DD; only used to derive Over18, never stored */
+  dateOfBirth?: string;
+  document?: KycDocument;
+}
+
+/** Identity document reduced to what duplicate detection needs */
+export interface FingerprintedKycDocument {
+  /** See kycDocumentFingerprint */
+  fingerprint: string;
+  type: string;
+  country?: string;
+}
+
+/**
+ * A KycDecision as the inbox keeps it until it is applied: the date of
+ * birth reduced to whether the person is an adult, and the document to its
+ * fingerprint. No personal data is stored.
+ */
+export interface QueuedKycDecision extends Omit<KycDecision, 'dateOfBirth' | 'document'> {
+  /** 18 or older when the webhook arrived; absent without a date of birth */
+  adult?: boolean;
+  /** Absent without a document or KYC_FINGERPRINT_SECRET */
+  document?: FingerprintedKycDocument;
+}
+
+/** A verification session created with a provider */
+export interface KycProviderSession {
+  /** Id the provider's decisions refer to */
+  id: string;
+  /** Where the user completes the verification */
+  url: string;
+}
+
+export class CreateKycSessionDto {
+  @IsString()
+  @Matches(/^G[A-Z2-7]{55}$/, { message: 'wallet must be a Stellar public key' })
+  wallet: string;
+}
+
+export interface CreateKycSessionResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  sessionId?: string;
+  /** Where the user completes the verification */
+  verificationUrl?: string;
+}
+
+/**
+ * A KYC session started by this backend and the wallet it verifies.
+ */
+export interface KycSession {
+  sessionId: string;
+  /** Provider that runs the session; sessions stored before Sumsub are Veriff's */
+  provider?: KycProviderName;
+  wallet: string;
+  url: string;
+  createdAt: Date;
+  /** Set once the session's Over18 verification is on-chain */
+  over18IssuedAt?: Date;
+  over18TransactionHash?: string;
+}
+
+/**
+ * Where a webhook is in the inbox: waiting for the worker (again, after a
+ * failed attempt with attempts left), being applied, applied, or given up
+ * on after KYC_WEBHOOK_MAX_ATTEMPTS.
+ */
+export type KycWebhookState = 'queued' | 'processing' | 'processed' | 'failed';
+
+/**
+ * A signed provider webhook this backend accepted, keyed by a hash of its
+ * id and session token. The inbox keeps the decision (QueuedKycDecision,
+ * never the payload) only while the webhook waits to be applied; the
+ * record keeps a hash of the payload and the result, which redeliveries get
+ * back unchanged.
+ */
+export interface KycWebhookRecord {
+  key: string;
+  /** Provider that sent the webhook */
+  provider: KycProviderName;
+  webhookId: string;
+  sessionToken: string;
+  /** SHA-256 of the raw body */
+  payloadHash: string;
+  /** Provider status as reported, e.g. `approved` */
+  decision: string;
+  /** When the provider decided */
+  timestamp: Date;
+  state: KycWebhookState;
+  /** Session the decision is for */
+  sessionId?: string;
+  /** Set once the session is resolved */
+  wallet?: string;
+  result?: KycWebhookResponse;
+  /** Deliveries received, the first included */
+  deliveries: number;
+  /** Processing attempts since the webhook was queued */
+  attempts: number;
+  /** When a queued webhook is due */
+  nextAttemptAt?: Date;
+  /** Error of the last failed attempt */
+  lastError?: string;
+  /** Worker holding the webhook while it is processing */
+  claimedBy?: string;
+  receivedAt: Date;
+  /** When the last attempt started */
+  startedAt?: Date;
+  processedAt?: Date;
+}
+
+/** A webhook claimed by the inbox worker, with the decision to apply */
+export interface ClaimedKycWebhook {
+  record: KycWebhookRecord;
+  decision: QueuedKycDecision;
+}
+
+export interface KycWebhookSweepResult {
+  /** Due webhooks found */
+  scanned: number;
+  /** Claimed and applied, successfully or not */
+  attempted: number;
+  processed: number;
+  /** Failed and queued again */
+  rescheduled: number;
+  /** Failed with no attempts left */
+  failed: number;
+}
+
+export interface KycWebhookInboxBacklog {
+  queued: number;
+  processing: number;
+  failed: number;
+  /** receivedAt of the oldest queued webhook */
+  oldestQueuedAt?: Date;
+}
+
+export class KycWebhookLogQueryDto {
+  @ApiPropertyOptional({ description: 'Number of webhooks, most recent first (1-100, default 20)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
+
+export interface KycWebhookLogResponse {
+  success: boolean;
+  webhooks: KycWebhookRecord[];
+}
+
+export interface KycWebhookInboxResponse {
+  success: boolean;
+  backlog: KycWebhookInboxBacklog;
+  /** Webhooks given up on, most recently failed first */
+  failures: KycWebhookRecord[];
+}
+
+/**
+ * Whether someone born on `dateOfBirth` (YYYY-MM-DD) is 18 or older at
+ * `now`, counting in UTC. False for dates that do not exist.
+ */
+export function isAdult(dateOfBirth: string, now: Date): boolean {
+  const [year, month, day] = dateOfBirth.split('-').map(Number);
+  const born = new Date(Date.UTC(year, month - 1, day));
+
+  if (
+    Number.isNaN(born.getTime()) ||
+    born.getUTCFullYear() !== year ||
+    born.getUTCMonth() !== month - 1 ||
+    born.getUTCDate() !== day
+  ) {
+    return false;
+  }
+
+  // Born on 29 February: adult on 1 March in non-leap years
+  return Date.UTC(year + 18, month - 1, day) <= now.getTime();
+}
+
+/** A header of a webhook request; the first value when repeated */
+export function webhookHeader(request: KycWebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,114 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import type { VerificationType } from '../../../packages/stellar-passport/src';
+
+export const PASSPORT_EVENT_TYPES = ['UserRegistered', 'VerificationUpserted'] as const;
+
+export type PassportEventType = (typeof PASSPORT_EVENT_TYPES)[number];
+
+/**
+ * A Passport contract event as returned by the RPC `getEvents` method,
+ * with topics and value still base64 XDR.
+ */
+export interface RawPassportEvent {
+  id: string;
+  ledger: number;
+  ledgerClosedAt: string;
+  txHash: string;
+  topic: string[];
+  value: string;
+  inSuccessfulContractCall?: boolean;
+}
+
+export interface PassportEventPage {
+  events: RawPassportEvent[];
+  /** Resume point for the next page. */
+  cursor: string;
+  latestLedger: number;
+}
+
+/**
+ * A decoded event, stored under the wallet's history. `id` is the RPC
+ * event id, which is unique and ordered, so re-indexing overwrites.
+ */
+export interface PassportEventRecord {
+  id: string;
+  type: PassportEventType;
+  wallet: string;
+  ledger: number;
+  ledgerClosedAt: Date;
+  txHash: string;
+  /** VerificationUpserted only */
+  vtype?: VerificationType;
+  /** VerificationUpserted only: points of the upserted verification */
+  points?: number;
+  /** VerificationUpserted only: score before the upsert */
+  previousScore?: number;
+  /** VerificationUpserted only: score after the upsert */
+  score?: number;
+}
+
+export interface IndexedVerification {
+  vtype: VerificationType;
+  points: number;
+  ledger: number;
+  updatedAt: Date;
+}
+
+/**
+ * Current on-chain state of a wallet, folded from its indexed events.
+ * Verifications are keyed by verification type (see verificationTypeKey).
+ */
+export interface IndexedWallet {
+  wallet: string;
+  registered: boolean;
+  registeredAt?: Date;
+  score: number;
+  verifications: Record<string, IndexedVerification>;
+  lastLedger: number;
+  updatedAt: Date;
+}
+
+export interface PassportIndexerCursor {
+  cursor?: string;
+  lastLedger?: number;
+  updatedAt: Date;
+}
+
+export interface PassportIndexerRunResult {
+  pages: number;
+  indexed: number;
+  skipped: number;
+  cursor?: string;
+  lastLedger?: number;
+}
+
+/** Stable map key for a verification type, e.g. `Over18` or `Custom:kyc_sumsub`. */
+export function verificationTypeKey(vtype: VerificationType): string {
+  return vtype.tag === 'Custom' ? `Custom:${vtype.values[0]}` : vtype.tag;
+}
+
+export class IndexedWalletQueryDto {
+  @ApiPropertyOptional({ description: 'Maximum number of history events (1-200, default 50)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export interface IndexedWalletResponse {
+  success: boolean;
+  message?: string;
+  wallet?: IndexedWallet;
+  events?: PassportEventRecord[];
+  error?: string;
+}
+
+export interface PassportIndexerStatusResponse {
+  success: boolean;
+  cursor?: PassportIndexerCursor | null;
+  lastRun?: PassportIndexerRunResult;
+}
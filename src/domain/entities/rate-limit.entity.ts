@@ -0,0 +1,33 @@
+/**
+ * Who a request is counted against: the integrator API key when one was
+ * presented, otherwise the client IP.
+ */
+export interface RateLimitIdentity {
+  kind: 'api-key' | 'ip';
+  key: string;
+}
+
+export interface RateLimitPolicy {
+  /** Burst size of the token bucket. */
+  burst: number;
+  /** Tokens added back per second. */
+  refillPerSecond: number;
+  /** Units (requests, or wallets for batch calls) allowed per calendar month. */
+  monthlyQuota: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Which limit denied the request. */
+  reason?: 'rate' | 'quota';
+  limit: number;
+  remaining: number;
+  /** Seconds until the token bucket is full again. */
+  resetSeconds: number;
+  /** Quota fields are absent when the token bucket already denied the call. */
+  quotaLimit?: number;
+  quotaRemaining?: number;
+  /** Epoch seconds at which the monthly quota resets. */
+  quotaResetAt?: number;
+  retryAfterSeconds?: number;
+}
@@ -0,0 +1,71 @@
+import { HumanityPolicyRef } from './humanity-policy.entity';
+import { ScoringMode } from './effective-score.entity';
+
+/**
+ * Why a verification does not count toward the threshold:
+ * its issuer is excluded by the policy, it carries no points
+ * (e.g. KYC status records), or it expired (effective scoring only).
+ */
+export type UncountedReason = 'excluded_issuer' | 'no_points' | 'expired';
+
+export interface ScoreBreakdownVerification {
+  /** Verification type key, e.g. `Over18` or `Custom:kyc_sumsub` */
+  type: string;
+  issuer: string;
+  points: number;
+  /** Points still worth after expiry and decay (effective scoring only) */
+  effectivePoints?: number;
+  /** When the verification was written (ISO 8601) */
+  timestamp: string;
+  ageSeconds: number;
+  /** Whether the points count toward the policy threshold */
+  counted: boolean;
+  reason?: UncountedReason;
+}
+
+export interface ScoreBreakdownTypeTotal {
+  type: string;
+  /** Points that count toward the threshold */
+  points: number;
+  count: number;
+}
+
+/** A verification type the wallet does not hold yet */
+export interface ScoreBreakdownSuggestion {
+  type: string;
+  /** The policy requires this type regardless of score */
+  requiredByPolicy: boolean;
+  /** Canonical points of the type in the verification type registry */
+  points: number;
+  /** Its points alone cover `pointsToThreshold` */
+  closesGap: boolean;
+}
+
+export interface ScoreBreakdown {
+  wallet: string;
+  registered: boolean;
+  /** `score` of the on-chain User record */
+  onChainScore: number;
+  /** `ver_count` of the on-chain User record */
+  verificationCount: number;
+  /** Score the policy counts (on-chain score minus excluded issuers, aged when effective) */
+  countedScore: number;
+  scoring: ScoringMode;
+  /** Minimum score of the policy */
+  threshold: number;
+  /** Points still needed to reach the threshold (0 when reached) */
+  pointsToThreshold: number;
+  isHuman: boolean;
+  policy: HumanityPolicyRef;
+  unmet: string[];
+  verifications: ScoreBreakdownVerification[];
+  pointsByType: ScoreBreakdownTypeTotal[];
+  /** Missing verification types that would close the gap, closest fit first; empty when human */
+  suggestions: ScoreBreakdownSuggestion[];
+}
+
+export interface ScoreBreakdownResponse extends Partial<ScoreBreakdown> {
+  success: boolean;
+  message: string;
+  error?: string;
+}
@@ -0,0 +1,72 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Matches, Max, Min } from 'class-validator';
+import { HUMANITY_POLICY_ID_PATTERN, HumanityPolicyRef } from './humanity-policy.entity';
+
+/** A wallet whose effective score crossed below the threshold during a period */
+export interface DecayedWallet {
+  wallet: string;
+  /** Indexed contract score */
+  rawScore: number;
+  /** Effective score at the start of the period */
+  previousScore: number;
+  /** Effective score at the end of the period */
+  effectiveScore: number;
+}
+
+/**
+ * Wallets whose effective score fell below a policy's minScore during a
+ * period, computed from the passport indexer's wallet snapshots.
+ */
+export interface ScoreDecayReport {
+  id: string;
+  policy: HumanityPolicyRef;
+  threshold: number;
+  periodStart: Date;
+  periodEnd: Date;
+  /** Indexed wallets examined */
+  scanned: number;
+  wallets: DecayedWallet[];
+  /** More wallets fell below than SCORE_DECAY_MAX_WALLETS_PER_REPORT kept */
+  truncated: boolean;
+  createdAt: Date;
+  /** Admin who ran it; absent for the scheduled job */
+  createdBy?: string;
+}
+
+export class RunScoreDecayReportDto {
+  @ApiPropertyOptional({ description: 'Humanity policy whose minScore is the threshold (default "default")' })
+  @IsOptional()
+  @IsString()
+  @Matches(HUMANITY_POLICY_ID_PATTERN, { message: 'policy must be a policy ID' })
+  policy?: string;
+
+  @ApiPropertyOptional({ description: 'Length of the period ending now, in seconds (default SCORE_DECAY_PERIOD_MS)' })
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(31536000)
+  periodSeconds?: number;
+}
+
+export class ScoreDecayReportQueryDto {
+  @ApiPropertyOptional({ description: 'Number of reports, newest first (1-50, default 10)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number;
+}
+
+export interface ScoreDecayReportResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  report?: ScoreDecayReport;
+}
+
+export interface ScoreDecayReportListResponse {
+  success: boolean;
+  reports: ScoreDecayReport[];
+}
@@ -0,0 +1,164 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+/** Social accounts a wallet can verify through OAuth, as named in routes */
+export const SOCIAL_PROVIDERS = ['github', 'twitter'] as const;
+
+export type SocialProvider = (typeof SOCIAL_PROVIDERS)[number];
+
+/** Verification type (see verificationTypeKey) written for each provider */
+export const SOCIAL_VERIFICATION_TYPES: Record<SocialProvider, 'GitHub' | 'Twitter'> = {
+  github: 'GitHub',
+  twitter: 'Twitter',
+};
+
+export function isSocialProvider(value: string): value is SocialProvider {
+  return (SOCIAL_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * OAuth 2.0 client registration and endpoints of a provider. The endpoints
+ * default to the provider's own and can point at a local stand-in.
+ */
+export interface SocialOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  /** Our callback, /verify/<provider>/callback, as registered with the provider */
+  redirectUri: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  apiUrl: string;
+}
+
+/** The provider account behind an access token */
+export interface SocialAccount {
+  provider: SocialProvider;
+  /** Stable provider user id; usernames can change hands */
+  accountId: string;
+  username: string;
+  createdAt: Date;
+  followers: number;
+  /** Public repositories on GitHub, tweets on Twitter */
+  posts: number;
+}
+
+/** What a social account needs before it verifies a wallet */
+export interface SocialAccountCriteria {
+  minAccountAgeDays: number;
+  minFollowers: number;
+  minPosts: number;
+}
+
+/**
+ * Reasons `account` fails `criteria` at `now`, empty when it qualifies.
+ */
+export function unmetCriteria(
+  account: SocialAccount,
+  criteria: SocialAccountCriteria,
+  now: Date,
+): string[] {
+  const reasons: string[] = [];
+  const ageDays = (now.getTime() - account.createdAt.getTime()) / 86400000;
+
+  if (!(ageDays >= criteria.minAccountAgeDays)) {
+    reasons.push(`account must be at least ${criteria.minAccountAgeDays} days old`);
+  }
+  if (account.followers < criteria.minFollowers) {
+    reasons.push(`account needs at least ${criteria.minFollowers} followers`);
+  }
+  if (account.posts < criteria.minPosts) {
+    reasons.push(
+      account.provider === 'github'
+        ? `account needs at least ${criteria.minPosts} public repositories`
+        : `account needs at least ${criteria.minPosts} tweets`,
+    );
+  }
+  return reasons;
+}
+
+/**
+ * A pending authorization, keyed by the `state` sent to the provider. Its
+ * PKCE verifier never leaves the backend.
+ */
+export interface SocialOAuthState {
+  state: string;
+  provider: SocialProvider;
+  wallet: string;
+  codeVerifier: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * The wallet a social account verified. One per provider account, so the
+ * same account cannot verify a second wallet.
+ */
+export interface SocialAccountLink {
+  provider: SocialProvider;
+  accountId: string;
+  username: string;
+  wallet: string;
+  linkedAt: Date;
+}
+
+export class StartSocialVerificationDto {
+  @ApiProperty({ description: 'Wallet to verify; must be the wallet of the session token' })
+  @IsString()
+  @Matches(/^G[A-Z2-7]{55}$/, { message: 'wallet must be a Stellar public key' })
+  wallet: string;
+}
+
+/** Query the provider redirects back with, on success or on denial */
+export class SocialVerificationCallbackQueryDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(256)
+  state: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  code?: string;
+
+  @ApiPropertyOptional({ description: 'Set by the provider when the user denied access' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  error?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  error_description?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  error_uri?: string;
+}
+
+export interface StartSocialVerificationResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  /** Provider page to send the user to */
+  authorizationUrl?: string;
+  expiresAt?: Date;
+}
+
+export interface SocialVerificationResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  provider?: SocialProvider;
+  wallet?: string;
+  username?: string;
+  points?: number;
+  transactionHash?: string;
+  /** Criteria the account failed, with error CRITERIA_NOT_MET */
+  unmetCriteria?: string[];
+}
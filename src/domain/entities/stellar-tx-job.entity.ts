@@ -0,0 +1,101 @@
+import type { VerificationType } from '../../../packages/stellar-passport/src';
+
+/**
+ * Lifecycle of a queued admin-signed Stellar transaction:
+ * queued -> running -> succeeded | failed | dead-lettered.
+ * A job is "failed" when it did not land and needs no retry (e.g. the wallet
+ * is already registered, or the caller passed no idempotency key); it is
+ * "dead-lettered" when a stellar_failed_txs record was written for it.
+ */
+export type StellarTxJobState =
+  | 'queued'
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'dead-lettered';
+
+export const ACTIVE_STELLAR_TX_JOB_STATES: StellarTxJobState[] = ['queued', 'running'];
+
+export type StellarTxOperation = 'register' | 'upsert_verification';
+
+export interface RegisterJobPayload {
+  name: string;
+  surnames: string;
+  sourceAccount: string;
+}
+
+export interface UpsertVerificationJobPayload {
+  sourceAccount: string;
+  vtype: VerificationType;
+  points: number;
+  issuer: string;
+  /** KYC status carried by a Custom status verification. */
+  status?: string;
+  /** Who decided the status, reported in status.changed (see KycStatusState.source). */
+  source?: string;
+  /** When the status was decided (ISO 8601); with `status` it identifies the kyc_status claim. */
+  decidedAt?: string;
+  sessionToken?: string;
+}
+
+export type StellarTxJobRequest =
+  | {
+      operation: 'register';
+      wallet: string;
+      payload: RegisterJobPayload;
+      idempotencyKey?: string;
+    }
+  | {
+      operation: 'upsert_verification';
+      wallet: string;
+      payload: UpsertVerificationJobPayload;
+      idempotencyKey?: string;
+    };
+
+export type StellarTxJob = StellarTxJobRequest & {
+  id: string;
+  state: StellarTxJobState;
+  /** Submit attempts made by the last run (see STELLAR_TX_MAX_RETRIES). */
+  attempts: number;
+  transactionHash?: string;
+  lastError?: string;
+  alreadyRegistered?: boolean;
+  deadLetterId?: string;
+  /** Worker that claimed the job most recently. */
+  workerId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+};
+
+export type StellarTxJobUpdate = Partial<
+  Pick<
+    StellarTxJob,
+    | 'state'
+    | 'attempts'
+    | 'transactionHash'
+    | 'lastError'
+    | 'alreadyRegistered'
+    | 'deadLetterId'
+    | 'workerId'
+    | 'updatedAt'
+    | 'startedAt'
+    | 'finishedAt'
+  >
+>;
+
+/**
+ * What StellarTransactionQueue.enqueue resolves with once the job reaches a
+ * terminal state.
+ */
+export interface StellarTxJobOutcome {
+  jobId: string;
+  state: StellarTxJobState;
+  success: boolean;
+  attempts: number;
+  transactionHash?: string;
+  lastError?: string;
+  alreadyRegistered?: boolean;
+  deadLetterId?: string;
+}
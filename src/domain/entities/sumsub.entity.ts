@@ -0,0 +1,62 @@
+export interface SumsubConfig {
+  /** X-App-Token of the API app token */
+  appToken: string;
+  /** Secret of the app token; signs API requests */
+  secretKey: string;
+  /** Secret key of the webhook; Sumsub signs webhook bodies with it */
+  webhookSecret: string;
+  baseUrl: string;
+  /** Verification level applicants are created at */
+  levelName: string;
+}
+
+/** Sumsub's verdict in a review: GREEN passes, RED fails */
+export type SumsubReviewAnswer = 'GREEN' | 'RED';
+
+/**
+ * Body of a Sumsub webhook, as far as decisions need it. Only
+ * `applicantReviewed` events carry a reviewResult.
+ */
+export interface SumsubWebhookPayload {
+  type: string;
+  applicantId: string;
+  /** The wallet the applicant was created for */
+  externalUserId?: string;
+  /** Unique per event */
+  correlationId: string;
+  levelName?: string;
+  reviewStatus?: string;
+  /** `YYYY-MM-DD HH:mm:ss.SSS`, UTC */
+  createdAtMs?: string;
+  reviewResult?: {
+    reviewAnswer: SumsubReviewAnswer;
+    /** FINAL, or RETRY when the applicant may resubmit */
+    reviewRejectType?: 'FINAL' | 'RETRY';
+    rejectLabels?: string[];
+    moderationComment?: string;
+    clientComment?: string;
+  };
+}
+
+/** An identity document of an applicant, as Sumsub read it */
+export interface SumsubIdDoc {
+  /** e.g. PASSPORT, ID_CARD, DRIVERS */
+  idDocType?: string;
+  /** Issuing country, ISO 3166-1 alpha-3 */
+  country?: string;
+  number?: string;
+}
+
+/**
+ * A Sumsub applicant (GET /resources/applicants/{id}/one), as far as
+ * approvals need it. `info` holds what Sumsub read from the documents.
+ */
+export interface SumsubApplicant {
+  id: string;
+  externalUserId?: string;
+  info?: {
+    /** YYYY-MM-DD */
+    dob?: string;
+    idDocs?: SumsubIdDoc[];
+  };
+}
@@ -1,5 +1,6 @@
-import { IsString, IsNotEmpty, ValidateNested } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsIn, Matches, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
+import { KycWebhookResponse } from './kyc.entity';
 
 export enum VeriffDecision {
   APPROVED = 'APPROVED',
@@ -15,6 +16,11 @@ export class VeriffPersonDto {
   @IsString()
   @IsNotEmpty()
   lastName: string;
+
+  /** YYYY-MM-DD as read from the document; only used to derive Over18, never stored */
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'dateOfBirth must be YYYY-MM-DD' })
+  dateOfBirth?: string;
 }
 
 export class VeriffDocumentDto {
@@ -33,6 +39,11 @@ export class VeriffDocumentDto {
   @IsString()
   @IsNotEmpty()
   validUntil: string;
+
+  /** Issuing country, ISO 3166-1 alpha-2 */
+  @IsOptional()
+  @IsString()
+  country?: string;
 }
 
 export class VeriffAdditionalVerificationDto {
@@ -125,16 +136,40 @@ export class VeriffWebhookDto {
   timestamp: string;
 }
 
-export interface VeriffWebhookResponse {
-  success: boolean;
-  message?: string;
-  error?: string;
-  status?: string;
-  wallet?: string;
-}
-
 export interface VeriffConfig {
   webhookSecret: string;
   baseUrl: string;
   apiKey: string;
 }
+
+/** Decisions the sandbox simulator can send; see VeriffSimulatorService */
+export const VERIFF_SIMULATION_SCENARIOS = ['approved', 'declined', 'resubmission', 'expired_document'] as const;
+
+export type VeriffSimulationScenario = (typeof VERIFF_SIMULATION_SCENARIOS)[number];
+
+export class SimulateVeriffWebhookDto {
+  @IsString()
+  @Matches(/^G[A-Z2-7]{55}$/, { message: 'wallet must be a Stellar public key' })
+  wallet: string;
+
+  @IsIn(VERIFF_SIMULATION_SCENARIOS)
+  scenario: VeriffSimulationScenario;
+
+  /** YYYY-MM-DD; defaults to an adult's date of birth */
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'dateOfBirth must be YYYY-MM-DD' })
+  dateOfBirth?: string;
+
+  /** Defaults to a fresh number; reuse one to exercise duplicate-document detection */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  documentNumber?: string;
+}
+
+export interface SimulateVeriffWebhookResponse extends KycWebhookResponse {
+  /** Session the simulated decision belongs to, stored for the wallet */
+  sessionId?: string;
+  /** The webhook as signed and processed */
+  webhook?: VeriffWebhookDto;
+}
@@ -0,0 +1,151 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { VerificationType } from '../../../packages/stellar-passport/src';
+import { STATUS_TYPES } from './admin.entity';
+
+/** Verification type keys (see verificationTypeKey) built into the contract */
+export const BUILT_IN_VERIFICATION_TYPES = ['Over18', 'Twitter', 'GitHub', 'BrightID', 'WorldID'] as const;
+
+export type BuiltInVerificationType = (typeof BUILT_IN_VERIFICATION_TYPES)[number];
+
+/** Soroban `Symbol` as accepted by the contract for `Custom` types */
+export const CUSTOM_SYMBOL_PATTERN = /^[A-Za-z0-9_]{1,32}$/;
+
+/**
+ * Custom symbols written by the backend itself (KYC status); they cannot
+ * be registered or issued through the registry.
+ */
+export const RESERVED_CUSTOM_SYMBOLS: readonly string[] = STATUS_TYPES;
+
+/**
+ * Points used for a built-in type until an admin stores an entry for it.
+ * Issuers are unrestricted and nothing expires or decays.
+ */
+export const BUILT_IN_VERIFICATION_TYPE_DEFAULTS: Record<
+  BuiltInVerificationType,
+  { canonicalPoints: number; maxPoints: number }
+> = {
+  Over18: { canonicalPoints: 10, maxPoints: 10 },
+  Twitter: { canonicalPoints: 10, maxPoints: 10 },
+  GitHub: { canonicalPoints: 10, maxPoints: 10 },
+  BrightID: { canonicalPoints: 20, maxPoints: 20 },
+  WorldID: { canonicalPoints: 25, maxPoints: 25 },
+};
+
+/**
+ * Parse a verification type as callers name it: a built-in name in any case
+ * (`over18`), or a custom symbol with or without the `Custom:` prefix
+ * (`Custom:kyc_sumsub`, `kyc_sumsub`). Null when it is not a valid type.
+ */
+export function parseVerificationType(input: string): VerificationType | null {
+  const builtIn = BUILT_IN_VERIFICATION_TYPES.find(
+    (type) => type.toLowerCase() === input.toLowerCase(),
+  );
+  if (builtIn) {
+    return { tag: builtIn, values: undefined };
+  }
+
+  const symbol = input.startsWith('Custom:') ? input.slice('Custom:'.length) : input;
+  return CUSTOM_SYMBOL_PATTERN.test(symbol) ? { tag: 'Custom', values: [symbol] } : null;
+}
+
+/**
+ * A verification type the backend may write on-chain, with the points it
+ * is worth and who may issue it. Keyed like verificationTypeKey:
+ * `Over18`, `Custom:kyc_sumsub`.
+ */
+export interface VerificationTypeEntry {
+  key: string;
+  vtype: VerificationType;
+  /** Points written when the caller does not choose */
+  canonicalPoints: number;
+  /** Upper bound for caller-chosen points */
+  maxPoints: number;
+  /** Accounts allowed to issue the type; empty allows any admin source account */
+  issuers: string[];
+  /** How long a verification of this type stays valid, if limited */
+  expirySeconds?: number;
+  /** Age at which a verification of this type counts half its points, if it decays */
+  decayHalfLifeSeconds?: number;
+  enabled: boolean;
+  description?: string;
+  /** True for a built-in type still on its defaults (never stored) */
+  isDefault?: boolean;
+  updatedAt: Date;
+  updatedBy?: string;
+}
+
+export class UpsertVerificationTypeDto {
+  @ApiProperty({ example: 10 })
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  canonicalPoints: number;
+
+  @ApiProperty({ example: 10 })
+  @IsInt()
+  @Min(0)
+  @Max(1000)
+  maxPoints: number;
+
+  @ApiPropertyOptional({ description: 'Stellar accounts allowed to issue the type; empty allows any' })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @Matches(/^G[A-Z2-7]{55}$/, { each: true, message: 'issuers must be Stellar public keys' })
+  issuers?: string[];
+
+  @ApiPropertyOptional({ example: 31536000, description: 'Validity of a verification in seconds' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  expirySeconds?: number;
+
+  @ApiPropertyOptional({ example: 15768000, description: 'Age in seconds at which a verification counts half its points' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  decayHalfLifeSeconds?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+/**
+ * Outcome of checking a verification against the registry. `points` is the
+ * value to write (canonical points when the caller gave none).
+ */
+export type VerificationAuthorization =
+  | { allowed: true; entry: VerificationTypeEntry; vtype: VerificationType; points: number }
+  | { allowed: false; message: string };
+
+export interface VerificationTypeResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  type?: VerificationTypeEntry;
+}
+
+export interface VerificationTypeListResponse {
+  success: boolean;
+  types: VerificationTypeEntry[];
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+
+export class WalletChallengeQueryDto {
+  @ApiProperty({ description: 'Stellar account (G...) proving ownership' })
+  @IsString()
+  @Matches(/^G[A-Z2-7]{55}$/, { message: 'account must be a Stellar public key' })
+  account: string;
+}
+
+/** SEP-10 challenge, field names as in the SEP. */
+export interface WalletChallengeResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  /** Base64 XDR of the challenge transaction, signed by the server key */
+  transaction?: string;
+  network_passphrase?: string;
+}
+
+export class WalletTokenDto {
+  @ApiProperty({ description: 'Base64 XDR of the challenge transaction, signed by the account' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10000)
+  transaction: string;
+}
+
+export interface WalletTokenResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  /** JWT whose `sub` is the authenticated account */
+  token?: string;
+  /** Seconds until the token expires */
+  expiresIn?: number;
+}
+
+/**
+ * The wallet a request is authenticated as, attached by WalletAuthGuard as
+ * `request.wallet`.
+ */
+export interface WalletPrincipal {
+  account: string;
+}
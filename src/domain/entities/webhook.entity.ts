@@ -0,0 +1,153 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const WEBHOOK_EVENT_TYPES = [
+  'identity.registered',
+  'verification.upserted',
+  'status.changed',
+  'human.threshold_crossed',
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Body POSTed to integrator endpoints. `id` is stable across retries and
+ * replays so receivers can deduplicate.
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * An integrator-registered endpoint. The secret signs deliveries, so unlike
+ * API keys it has to be stored as-is; it is only returned at creation.
+ */
+export interface WebhookEndpoint {
+  id: string;
+  /** Integrator API key that registered (and owns) the endpoint. */
+  ownerKeyId: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  description?: string;
+  active: boolean;
+  createdAt: Date;
+  deletedAt?: Date;
+}
+
+export type WebhookEndpointView = Omit<WebhookEndpoint, 'secret'>;
+
+export const WEBHOOK_DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/** One attempt series to deliver one event to one endpoint. */
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  ownerKeyId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When the dispatcher should next try; ignored once not pending. */
+  nextAttemptAt: Date;
+  lastError?: string;
+  responseStatus?: number;
+  /** Delivery this one re-sends, when created by a replay. */
+  replayOf?: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+}
+
+export interface WebhookDeliveryFilter {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+}
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({
+    description: 'https URL on a public address',
+    example: 'https://integrator.example.com/veridion/webhooks',
+  })
+  @IsUrl({ require_tld: false, protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    description: 'Event types to deliver to this endpoint',
+    enum: WEBHOOK_EVENT_TYPES,
+    isArray: true,
+    example: ['status.changed', 'human.threshold_crossed'],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(WEBHOOK_EVENT_TYPES, { each: true })
+  events: WebhookEventType[];
+
+  @ApiPropertyOptional({ example: 'Production KYC listener', maxLength: 256 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  description?: string;
+}
+
+export class ListWebhookDeliveriesQueryDto {
+  @ApiPropertyOptional({ description: 'Only deliveries to this endpoint' })
+  @IsOptional()
+  @IsString()
+  endpointId?: string;
+
+  @ApiPropertyOptional({ enum: WEBHOOK_DELIVERY_STATUSES })
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+
+  @ApiPropertyOptional({ example: 50, minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export interface WebhookEndpointResponse {
+  success: boolean;
+  message?: string;
+  /** Signing secret. Only present on create. */
+  secret?: string;
+  endpoint?: WebhookEndpointView;
+  error?: string;
+}
+
+export interface WebhookEndpointListResponse {
+  success: boolean;
+  endpoints: WebhookEndpointView[];
+}
+
+export interface WebhookDeliveryListResponse {
+  success: boolean;
+  deliveries: WebhookDelivery[];
+}
+
+export interface WebhookDeliveryResponse {
+  success: boolean;
+  message?: string;
+  delivery?: WebhookDelivery;
+  error?: string;
+}
@@ -1,9 +1,11 @@
+import type { Verification } from '../../../packages/stellar-passport/src';
+
 /**
  * Read-only port for identity data access.
  *
- * Intentionally narrower than PassportPort. It exposes only the two
- * operations needed by the batch verification feature and excludes
- * all write/transaction-building methods.
+ * Intentionally narrower than PassportPort. It exposes only the reads
+ * needed to decide humanity (batch verification and humanity policies)
+ * and excludes all write/transaction-building methods.
  */
 export const IDENTITY_READ_PORT = Symbol('IDENTITY_READ_PORT');
 
@@ -15,6 +17,11 @@ export interface IdentityReadPort {
    */
   getScore(wallet: string): Promise<number>;
 
+  /**
+   * Retrieve the verifications recorded for a registered wallet.
+   */
+  getVerifications(wallet: string): Promise<Verification[]>;
+
   /**
    * Returns true when the address is a valid Stellar public key.
    */
@@ -0,0 +1,58 @@
+import {
+  KycDecision,
+  KycProviderName,
+  KycProviderSession,
+  KycWebhookRequest,
+} from '../entities/kyc.entity';
+
+/**
+ * A KYC provider: starts verification sessions, authenticates its
+ * webhooks and turns their payloads into KycDecisions. KycService runs the
+ * rest of the flow (inbox, wallet resolution, status update, Over18) the
+ * same way for every provider.
+ *
+ * KYC_PROVIDERS resolves to every adapter; KycService looks them up by
+ * `name`.
+ */
+export const KYC_PROVIDERS = Symbol('KYC_PROVIDERS');
+
+export interface KycProviderPort {
+  readonly name: KycProviderName;
+  /** Provider name for messages, e.g. `Veriff` */
+  readonly label: string;
+
+  /** Whether the credentials needed to create sessions are set */
+  isConfigured(): boolean;
+
+  /**
+   * Create a verification session for `wallet`. Throws when the provider
+   * rejects the request or is unreachable.
+   */
+  createSession(wallet: string): Promise<KycProviderSession>;
+
+  /**
+   * Whether the webhook request is authentic, checked over the raw body.
+   * Never throws.
+   */
+  verifyWebhook(request: KycWebhookRequest): boolean;
+
+  /**
+   * The decision carried by a verified webhook payload, or null for events
+   * that carry none. Throws KycPayloadError for payloads it cannot read.
+   */
+  normalizeDecision(payload: unknown): KycDecision | null;
+
+  /**
+   * Date of birth and identity document behind an approval of `sessionId`,
+   * for providers that keep them out of their webhooks. Throws when the
+   * provider is unreachable or rejects the request.
+   */
+  fetchApprovalDetails?(sessionId: string): Promise<Pick<KycDecision, 'dateOfBirth' | 'document'>>;
+}
+
+export class KycPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KycPayloadError';
+  }
+}
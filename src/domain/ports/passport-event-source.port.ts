@@ -0,0 +1,22 @@
+import { PassportEventPage } from '../entities/passport-event.entity';
+
+/**
+ * Source of raw Passport contract events (the Soroban RPC in production,
+ * a stub serving recorded XDR in tests).
+ */
+export const PASSPORT_EVENT_SOURCE = Symbol('PASSPORT_EVENT_SOURCE');
+
+export interface PassportEventSource {
+  /** Sequence of the most recent ledger known to the RPC. */
+  getLatestLedger(): Promise<number>;
+
+  /**
+   * One page of contract events. Pass `cursor` to continue after a previous
+   * page, or `startLedger` to begin from a ledger.
+   */
+  getEvents(params: {
+    startLedger?: number;
+    cursor?: string;
+    limit: number;
+  }): Promise<PassportEventPage>;
+}
@@ -0,0 +1,54 @@
+/**
+ * Storage port for rate limit counters.
+ *
+ * Implementations must apply each operation atomically per key so that
+ * concurrent requests cannot overdraw a bucket or a quota. The default
+ * adapter keeps counters in process memory; a shared store (e.g. Redis)
+ * is needed once the API runs on more than one instance.
+ */
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
+
+export interface TokenBucketConfig {
+  /** Maximum number of tokens the bucket holds (burst size). */
+  capacity: number;
+  /** Tokens added back per second. */
+  refillPerSecond: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  /** Whole tokens left after this call. */
+  remaining: number;
+  /** Milliseconds until the bucket is full again. */
+  resetMs: number;
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  /** Usage recorded for the period, including this call when allowed. */
+  used: number;
+}
+
+export interface RateLimitStore {
+  /**
+   * Refill the bucket for `key` up to `now`, then take `cost` tokens if
+   * enough are available. A denied call takes nothing.
+   */
+  takeTokens(
+    key: string,
+    cost: number,
+    config: TokenBucketConfig,
+    now: number,
+  ): Promise<TokenBucketResult>;
+
+  /**
+   * Add `amount` to the usage of `key` in `period`, unless that would
+   * exceed `limit`. A denied call records nothing.
+   */
+  addUsage(
+    key: string,
+    period: string,
+    amount: number,
+    limit: number,
+  ): Promise<QuotaResult>;
+}
@@ -0,0 +1,47 @@
+import {
+  StellarTxJob,
+  StellarTxJobUpdate,
+} from '../entities/stellar-tx-job.entity';
+
+/**
+ * Durable storage port for the admin Stellar transaction queue.
+ *
+ * Jobs and the worker lease live in the same store so that every API
+ * instance sees the same queue, the same in-flight idempotency keys and
+ * the same lease holder. Only the lease holder may claim jobs; that is
+ * what keeps admin-account sequence numbers from colliding.
+ */
+export const STELLAR_TX_JOB_STORE = Symbol('STELLAR_TX_JOB_STORE');
+
+export interface StellarTxJobStore {
+  create(job: Omit<StellarTxJob, 'id'>): Promise<StellarTxJob>;
+
+  findById(id: string): Promise<StellarTxJob | null>;
+
+  /** A queued or running job carrying this idempotency key, if any. */
+  findActiveByIdempotencyKey(idempotencyKey: string): Promise<StellarTxJob | null>;
+
+  /**
+   * Atomically move the oldest queued job to running, owned by `workerId`.
+   * Returns null when nothing is queued.
+   */
+  claimNextQueued(workerId: string): Promise<StellarTxJob | null>;
+
+  update(id: string, update: StellarTxJobUpdate): Promise<void>;
+
+  /**
+   * Put every running job back to queued. Only call while holding the lease:
+   * a running job then belongs to a worker that is gone.
+   * Returns the number of jobs requeued.
+   */
+  requeueRunning(): Promise<number>;
+
+  /**
+   * Take or renew the named lease for `ttlMs`. Fails while another holder
+   * has an unexpired lease.
+   */
+  acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean>;
+
+  /** Give the lease up early. No-op unless `holder` owns it. */
+  releaseLease(name: string, holder: string): Promise<void>;
+}
@@ -0,0 +1,81 @@
+import * as crypto from 'crypto';
+
+/**
+ * Registered claims checked by verifyJwt. Tokens for different audiences
+ * (admin sessions, wallet sessions) share the format, so `aud` is always
+ * set and always checked.
+ */
+export interface JwtClaims {
+  sub: string;
+  aud: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function hmac(secret: string, data: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Sign an HS256 JWT valid for `ttlSeconds` from now.
+ */
+export function signJwt(
+  claims: { sub: string; aud: string } & Record<string, unknown>,
+  secret: string,
+  ttlSeconds: number,
+  now: Date = new Date(),
+): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp: iat + ttlSeconds }));
+  const signature = base64url(hmac(secret, `${HEADER}.${payload}`));
+
+  return `${HEADER}.${payload}.${signature}`;
+}
+
+/**
+ * Claims of an HS256 JWT signed with `secret` for `audience`, or null when
+ * the token is malformed, forged, expired or meant for another audience.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  audience: string,
+  now: Date = new Date(),
+): JwtClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !secret) {
+    return null;
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = hmac(secret, `${header}.${payload}`);
+  const provided = Buffer.from(signature, 'base64url');
+
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+
+    if (alg !== 'HS256' || typeof claims?.sub !== 'string' || claims.aud !== audience) {
+      return null;
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(now.getTime() / 1000)) {
+      return null;
+    }
+
+    return claims as JwtClaims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+import { ConfigService } from '@nestjs/config';
+import { IdentityCache } from './identity-cache.service';
+
+const WALLET = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+describe('IdentityCache', () => {
+  let cache: IdentityCache;
+  let now: number;
+
+  const createCache = (settings: Record<string, string> = {}) =>
+    new IdentityCache({
+      get: jest.fn((key: string) => settings[key]),
+    } as unknown as ConfigService);
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    cache = createCache({
+      IDENTITY_CACHE_TTL_MS: '1000',
+      IDENTITY_CACHE_NEGATIVE_TTL_MS: '200',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves repeated reads from cache until the TTL expires', async () => {
+    const loader = jest.fn().mockResolvedValueOnce(40).mockResolvedValueOnce(50);
+
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(40);
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(40);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    now += 1001;
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(50);
+    expect(loader).toHaveBeenCalledTimes(2);
+
+    expect(cache.stats().score).toEqual({
+      hits: 1,
+      misses: 2,
+      negativeHits: 0,
+      size: 1,
+    });
+  });
+
+  it('coalesces concurrent loads for the same wallet', async () => {
+    let resolve!: (value: number) => void;
+    const loader = jest.fn(() => new Promise<number>((r) => (resolve = r)));
+
+    const first = cache.getScore(WALLET, loader);
+    const second = cache.getScore(WALLET, loader);
+    resolve(42);
+
+    await expect(Promise.all([first, second])).resolves.toEqual([42, 42]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches "not registered" errors for the negative TTL', async () => {
+    const notRegistered = new Error('Contract error: User is not registered. Please register first.');
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(notRegistered)
+      .mockResolvedValueOnce(10);
+
+    await expect(cache.getScore(WALLET, loader)).rejects.toBe(notRegistered);
+    await expect(cache.getScore(WALLET, loader)).rejects.toBe(notRegistered);
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(cache.stats().score.negativeHits).toBe(1);
+
+    now += 201;
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(10);
+  });
+
+  it('does not cache other errors', async () => {
+    const loader = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Failed to get score: network timeout'))
+      .mockResolvedValueOnce(10);
+
+    await expect(cache.getScore(WALLET, loader)).rejects.toThrow('network timeout');
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(10);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidate drops both score and verifications for the wallet', async () => {
+    await cache.getScore(WALLET, async () => 10);
+    await cache.getVerifications(WALLET, async () => []);
+
+    cache.invalidate(WALLET);
+
+    const scoreLoader = jest.fn().mockResolvedValue(20);
+    const verificationsLoader = jest.fn().mockResolvedValue([]);
+    await expect(cache.getScore(WALLET, scoreLoader)).resolves.toBe(20);
+    await cache.getVerifications(WALLET, verificationsLoader);
+    expect(scoreLoader).toHaveBeenCalledTimes(1);
+    expect(verificationsLoader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not store a result that was loading when the wallet was invalidated', async () => {
+    let resolve!: (value: number) => void;
+    const stale = cache.getScore(
+      WALLET,
+      () => new Promise<number>((r) => (resolve = r)),
+    );
+
+    cache.invalidate(WALLET);
+    resolve(10);
+    await stale;
+
+    const loader = jest.fn().mockResolvedValue(20);
+    await expect(cache.getScore(WALLET, loader)).resolves.toBe(20);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache when the TTL is 0', async () => {
+    cache = createCache({ IDENTITY_CACHE_TTL_MS: '0' });
+    const loader = jest.fn().mockResolvedValue(10);
+
+    await cache.getScore(WALLET, loader);
+    await cache.getScore(WALLET, loader);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(cache.stats().ttlMs).toBe(0);
+    expect(cache.stats().negativeTtlMs).toBe(15000);
+  });
+});
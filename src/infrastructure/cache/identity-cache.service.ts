@@ -0,0 +1,173 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Verification } from '../../../packages/stellar-passport/src';
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  /** Hits served from a cached "not registered" error. */
+  negativeHits: number;
+  size: number;
+}
+
+export interface IdentityCacheStats {
+  ttlMs: number;
+  negativeTtlMs: number;
+  score: CacheCounters;
+  verifications: CacheCounters;
+}
+
+interface CacheEntry<T> {
+  value?: T;
+  error?: Error;
+  expiresAt: number;
+}
+
+/**
+ * Per-key TTL cache that coalesces concurrent loads and can cache selected
+ * errors (negative caching) for a shorter period.
+ */
+class TtlCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly pending = new Map<string, Promise<T>>();
+  private hits = 0;
+  private misses = 0;
+  private negativeHits = 0;
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly negativeTtlMs: number,
+    private readonly isNegative: (error: Error) => boolean,
+  ) {}
+
+  async getOrLoad(key: string, loader: () => Promise<T>): Promise<T> {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      this.hits++;
+      if (entry.error) {
+        this.negativeHits++;
+        throw entry.error;
+      }
+      return entry.value as T;
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      this.hits++;
+      return inFlight;
+    }
+
+    this.misses++;
+    const load: Promise<T> = loader().then(
+      (value) => {
+        this.settle(key, load, { value, expiresAt: Date.now() + this.ttlMs });
+        return value;
+      },
+      (error) => {
+        const negative = error instanceof Error && this.isNegative(error);
+        this.settle(
+          key,
+          load,
+          negative ? { error, expiresAt: Date.now() + this.negativeTtlMs } : null,
+        );
+        throw error;
+      },
+    );
+    this.pending.set(key, load);
+    return load;
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+    this.pending.delete(key);
+  }
+
+  counters(): CacheCounters {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      negativeHits: this.negativeHits,
+      size: this.entries.size,
+    };
+  }
+
+  /**
+   * Only keep the result when no invalidation happened while it was loading;
+   * otherwise it may predate the write that triggered the invalidation.
+   */
+  private settle(key: string, load: Promise<T>, entry: CacheEntry<T> | null): void {
+    if (this.pending.get(key) !== load) {
+      return;
+    }
+    this.pending.delete(key);
+    if (entry && (entry.error ? this.negativeTtlMs : this.ttlMs) > 0) {
+      this.entries.set(key, entry);
+    }
+  }
+}
+
+/**
+ * Read-through cache for on-chain identity reads (score and verifications),
+ * keyed by wallet. Entries are dropped explicitly when this backend writes
+ * to the wallet, and otherwise expire after IDENTITY_CACHE_TTL_MS.
+ * Unregistered wallets are cached for IDENTITY_CACHE_NEGATIVE_TTL_MS.
+ */
+@Injectable()
+export class IdentityCache {
+  private readonly logger = new Logger(IdentityCache.name);
+  private readonly ttlMs: number;
+  private readonly negativeTtlMs: number;
+  private readonly scores: TtlCache<number>;
+  private readonly verifications: TtlCache<Verification[]>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.ttlMs = this.msSetting('IDENTITY_CACHE_TTL_MS', 60000);
+    this.negativeTtlMs = this.msSetting('IDENTITY_CACHE_NEGATIVE_TTL_MS', 15000);
+
+    const isNotRegistered = (error: Error) =>
+      error.message.includes('User is not registered') ||
+      error.message.includes('NotRegistered');
+
+    this.scores = new TtlCache(this.ttlMs, this.negativeTtlMs, isNotRegistered);
+    this.verifications = new TtlCache(this.ttlMs, this.negativeTtlMs, isNotRegistered);
+  }
+
+  getScore(wallet: string, loader: () => Promise<number>): Promise<number> {
+    return this.scores.getOrLoad(wallet, loader);
+  }
+
+  getVerifications(
+    wallet: string,
+    loader: () => Promise<Verification[]>,
+  ): Promise<Verification[]> {
+    return this.verifications.getOrLoad(wallet, loader);
+  }
+
+  /**
+   * Drop everything cached for a wallet. Call after any successful write
+   * that changes its on-chain identity.
+   */
+  invalidate(wallet: string): void {
+    this.scores.delete(wallet);
+    this.verifications.delete(wallet);
+    this.logger.debug(`Identity cache invalidated for wallet: ${wallet}`);
+  }
+
+  stats(): IdentityCacheStats {
+    return {
+      ttlMs: this.ttlMs,
+      negativeTtlMs: this.negativeTtlMs,
+      score: this.scores.counters(),
+      verifications: this.verifications.counters(),
+    };
+  }
+
+  private msSetting(key: string, defaultValue: number): number {
+    const raw = this.configService.get<string>(key);
+    const value = Number(raw);
+    return raw !== undefined && raw !== '' && Number.isFinite(value) && value >= 0
+      ? value
+      : defaultValue;
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { AdminUser } from '../../domain/entities/admin-user.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+@Injectable()
+export class AdminUserRepository {
+  private readonly logger = new Logger(AdminUserRepository.name);
+  private readonly collectionName = 'admin_users';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(record: Omit<AdminUser, 'id'>): Promise<AdminUser> {
+    const docRef = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc();
+
+    const data: AdminUser = { id: docRef.id, ...record };
+
+    await docRef.set(withoutUndefined(data));
+    this.logger.log(`Admin user stored email=${record.email} role=${record.role} id=${data.id}`);
+    return data;
+  }
+
+  async findById(id: string): Promise<AdminUser | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findByEmail(email: string): Promise<AdminUser | null> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('email', '==', email)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const doc = snapshot.docs[0];
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findAll(): Promise<AdminUser[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  async update(
+    id: string,
+    update: Partial<Omit<AdminUser, 'id'>>,
+  ): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update(withoutUndefined(update));
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): AdminUser {
+    const record = data ?? {};
+    return {
+      id,
+      email: record.email,
+      passwordHash: record.passwordHash,
+      role: record.role,
+      disabled: record.disabled === true,
+      createdAt: toDate(record.createdAt),
+      createdBy: record.createdBy,
+      lastLoginAt: toOptionalDate(record.lastLoginAt),
+      disabledAt: toOptionalDate(record.disabledAt),
+    };
+  }
+}
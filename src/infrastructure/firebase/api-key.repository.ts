@@ -0,0 +1,93 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { IntegratorApiKey } from '../../domain/entities/api-key.entity';
+import { toDate, toOptionalDate } from './firestore.utils';
+
+@Injectable()
+export class ApiKeyRepository {
+  private readonly logger = new Logger(ApiKeyRepository.name);
+  private readonly collectionName = 'integrator_api_keys';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(record: Omit<IntegratorApiKey, 'id'>): Promise<IntegratorApiKey> {
+    const docRef = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc();
+
+    const data: IntegratorApiKey = { id: docRef.id, ...record };
+
+    await docRef.set(data);
+    this.logger.log(`API key stored for integrator=${record.name} id=${data.id}`);
+    return data;
+  }
+
+  async findById(id: string): Promise<IntegratorApiKey | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findByHash(keyHash: string): Promise<IntegratorApiKey | null> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('keyHash', '==', keyHash)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const doc = snapshot.docs[0];
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findAll(): Promise<IntegratorApiKey[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  async update(
+    id: string,
+    update: Partial<Omit<IntegratorApiKey, 'id'>>,
+  ): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update(update);
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): IntegratorApiKey {
+    const record = data ?? {};
+    return {
+      id,
+      name: record.name,
+      keyHash: record.keyHash,
+      prefix: record.prefix,
+      scopes: record.scopes ?? [],
+      revoked: record.revoked ?? false,
+      policyId: record.policyId ?? undefined,
+      createdAt: toDate(record.createdAt),
+      lastUsedAt: toOptionalDate(record.lastUsedAt),
+      rotatedAt: toOptionalDate(record.rotatedAt),
+      revokedAt: toOptionalDate(record.revokedAt),
+    };
+  }
+}
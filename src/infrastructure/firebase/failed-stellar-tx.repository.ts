@@ -1,7 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { FieldValue } from 'firebase-admin/firestore';
 import { FirebaseService } from './firebase.adapter';
-import { FailedStellarTx } from '../../domain/entities/failed-stellar-tx.entity';
+import {
+  FailedStellarTx,
+  FailedStellarTxFilter,
+  FailedStellarTxPage,
+} from '../../domain/entities/failed-stellar-tx.entity';
+import { toDate, toOptionalDate } from './firestore.utils';
 
+/**
+ * Dead-letter store for admin-signed Stellar transactions.
+ *
+ * Filtered listings order by `createdAt`, so each combination of equality
+ * filters used with it (operation, wallet, resolved) needs a composite
+ * index. `errorContains` cannot be expressed in Firestore and is applied
+ * while paging. The retry worker queries (resolved, nextRetryAt), which
+ * needs one more composite index; records stored before nextRetryAt
+ * existed are given one by backfillNextRetryAt.
+ */
 @Injectable()
 export class FailedStellarTxRepository {
   private readonly logger = new Logger(FailedStellarTxRepository.name);
@@ -18,6 +34,8 @@ export class FailedStellarTxRepository {
     const data: FailedStellarTx = {
       id: docRef.id,
       resolved: false,
+      retryCount: 0,
+      nextRetryAt: record.createdAt,
       ...record,
     };
 
@@ -66,7 +84,151 @@ export class FailedStellarTxRepository {
       .getFirestore()
       .collection(this.collectionName)
       .doc(id)
-      .update({ retriedAt: new Date() });
+      .update({ retriedAt: new Date(), retryCount: FieldValue.increment(1) });
+  }
+
+  async recordRetryError(id: string, lastError: string): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update({ lastError });
+  }
+
+  /**
+   * Unresolved records whose nextRetryAt has passed, earliest first.
+   */
+  async findDueForRetry(now: Date, limit: number): Promise<FailedStellarTx[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('resolved', '==', false)
+      .where('nextRetryAt', '<=', now)
+      .orderBy('nextRetryAt', 'asc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  /**
+   * Give unresolved records stored before the retry worker existed a
+   * nextRetryAt (their createdAt), so findDueForRetry can see them.
+   * Firestore cannot query for a missing field, so this pages through the
+   * unresolved records. Returns how many were updated.
+   */
+  async backfillNextRetryAt(pageSize = 200): Promise<number> {
+    const firestore = this.firebaseService.getFirestore();
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    let updated = 0;
+
+    for (;;) {
+      let query = firestore
+        .collection(this.collectionName)
+        .where('resolved', '==', false)
+        .orderBy('createdAt', 'desc')
+        .limit(pageSize);
+      if (last) {
+        query = query.startAfter(last);
+      }
+
+      const snapshot = await query.get();
+      const missing = snapshot.docs.filter((doc) => doc.data().nextRetryAt === undefined);
+
+      if (missing.length > 0) {
+        const batch = firestore.batch();
+        for (const doc of missing) {
+          batch.update(doc.ref, { nextRetryAt: doc.data().createdAt });
+        }
+        await batch.commit();
+        updated += missing.length;
+      }
+
+      if (snapshot.size < pageSize) {
+        break;
+      }
+      last = snapshot.docs[snapshot.docs.length - 1];
+    }
+
+    if (updated > 0) {
+      this.logger.log(`Backfilled nextRetryAt on ${updated} dead-letter record(s)`);
+    }
+    return updated;
+  }
+
+  async scheduleRetry(id: string, nextRetryAt: Date | null): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update({ nextRetryAt });
+  }
+
+  /**
+   * Take the per-record retry lease. Fails when the record is resolved,
+   * leased by another holder or, with `dueOnly`, not due, so concurrent
+   * retries never submit the same record twice.
+   */
+  async claimForRetry(
+    id: string,
+    holder: string,
+    leaseMs: number,
+    now: Date,
+    dueOnly = true,
+  ): Promise<boolean> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(id);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        return false;
+      }
+
+      const record = this.mapDoc(doc.id, doc.data());
+      const leased =
+        record.retryLeaseHolder &&
+        record.retryLeaseHolder !== holder &&
+        record.retryLeaseUntil &&
+        record.retryLeaseUntil.getTime() > now.getTime();
+      const due = record.nextRetryAt && record.nextRetryAt.getTime() <= now.getTime();
+
+      if (record.resolved || (dueOnly && !due) || leased) {
+        return false;
+      }
+
+      transaction.update(ref, {
+        retryLeaseHolder: holder,
+        retryLeaseUntil: new Date(now.getTime() + leaseMs),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Drop the retry lease and set when the worker should look again
+   * (null: never; undefined: unchanged).
+   */
+  async releaseRetryClaim(
+    id: string,
+    holder: string,
+    nextRetryAt?: Date | null,
+  ): Promise<void> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(id);
+
+    await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || doc.data()?.retryLeaseHolder !== holder) {
+        return;
+      }
+
+      transaction.update(ref, {
+        retryLeaseHolder: null,
+        retryLeaseUntil: null,
+        ...(nextRetryAt !== undefined ? { nextRetryAt } : {}),
+      });
+    });
   }
 
   async markResolved(id: string, transactionHash?: string): Promise<void> {
@@ -85,6 +247,115 @@ export class FailedStellarTxRepository {
       .update(update);
   }
 
+  /**
+   * One page of records matching `filter`, newest first. `cursor` is the id
+   * of the last record on the previous page.
+   */
+  async list(
+    filter: FailedStellarTxFilter,
+    limit: number,
+    cursor?: string,
+  ): Promise<FailedStellarTxPage> {
+    const collection = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName);
+
+    let last: FirebaseFirestore.DocumentSnapshot | undefined;
+    if (cursor) {
+      last = await collection.doc(cursor).get();
+      if (!last.exists) {
+        return { items: [] };
+      }
+    }
+
+    const items: FailedStellarTx[] = [];
+    let more = true;
+
+    while (more && items.length < limit) {
+      let query = this.filteredQuery(filter).limit(limit);
+      if (last) {
+        query = query.startAfter(last);
+      }
+
+      const snapshot = await query.get();
+      more = snapshot.size === limit;
+
+      for (let i = 0; i < snapshot.docs.length && items.length < limit; i++) {
+        const doc = snapshot.docs[i];
+        last = doc;
+        const record = this.mapDoc(doc.id, doc.data());
+        if (this.matchesError(record, filter.errorContains)) {
+          items.push(record);
+        }
+        if (items.length === limit && i < snapshot.docs.length - 1) {
+          more = true;
+        }
+      }
+    }
+
+    return { items, nextCursor: more && last ? last.id : undefined };
+  }
+
+  /**
+   * The `lastError` of every record matching `filter`, for summaries.
+   */
+  async listErrors(filter: FailedStellarTxFilter): Promise<string[]> {
+    const snapshot = await this.filteredQuery(filter).select('lastError').get();
+
+    return snapshot.docs
+      .map((doc) => doc.data().lastError as string)
+      .filter((lastError) =>
+        this.matchesError({ lastError } as FailedStellarTx, filter.errorContains),
+      );
+  }
+
+  async markDiscarded(id: string, discardedBy: string, reason: string): Promise<void> {
+    const now = new Date();
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update({
+        resolved: true,
+        resolvedAt: now,
+        discarded: true,
+        discardedAt: now,
+        discardedBy,
+        discardReason: reason,
+      });
+  }
+
+  private filteredQuery(filter: FailedStellarTxFilter): FirebaseFirestore.Query {
+    let query: FirebaseFirestore.Query = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName);
+
+    if (filter.operation) {
+      query = query.where('operation', '==', filter.operation);
+    }
+    if (filter.wallet) {
+      query = query.where('wallet', '==', filter.wallet);
+    }
+    if (filter.resolved !== undefined) {
+      query = query.where('resolved', '==', filter.resolved);
+    }
+    if (filter.from) {
+      query = query.where('createdAt', '>=', filter.from);
+    }
+    if (filter.to) {
+      query = query.where('createdAt', '<=', filter.to);
+    }
+
+    return query.orderBy('createdAt', 'desc');
+  }
+
+  private matchesError(record: FailedStellarTx, errorContains?: string): boolean {
+    return (
+      !errorContains ||
+      (record.lastError ?? '').toLowerCase().includes(errorContains.toLowerCase())
+    );
+  }
+
   private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): FailedStellarTx {
     const record = data ?? {};
     return {
@@ -96,19 +367,18 @@ export class FailedStellarTxRepository {
       attempts: record.attempts,
       lastError: record.lastError,
       resolved: record.resolved ?? false,
-      createdAt: this.toDate(record.createdAt),
-      retriedAt: record.retriedAt ? this.toDate(record.retriedAt) : undefined,
-      resolvedAt: record.resolvedAt ? this.toDate(record.resolvedAt) : undefined,
+      createdAt: toDate(record.createdAt),
+      retriedAt: toOptionalDate(record.retriedAt),
+      resolvedAt: toOptionalDate(record.resolvedAt),
+      discarded: record.discarded,
+      discardedAt: toOptionalDate(record.discardedAt),
+      discardedBy: record.discardedBy,
+      discardReason: record.discardReason,
+      retryCount: record.retryCount ?? 0,
+      nextRetryAt: record.nextRetryAt ? toDate(record.nextRetryAt) : null,
+      retryLeaseHolder: record.retryLeaseHolder ?? null,
+      retryLeaseUntil: record.retryLeaseUntil ? toDate(record.retryLeaseUntil) : null,
     };
   }
-
-  private toDate(value: unknown): Date {
-    if (value instanceof Date) {
-      return value;
-    }
-    if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
-      return (value as { toDate: () => Date }).toDate();
-    }
-    return new Date(value as string | number);
-  }
 }
+
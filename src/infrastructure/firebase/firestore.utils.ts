@@ -0,0 +1,50 @@
+/**
+ * Normalise a value read from Firestore into a Date. Firestore returns
+ * `Timestamp` instances for stored dates, while tests and in-memory stores
+ * hand back plain `Date` objects, ISO strings or epoch millis.
+ */
+export function toDate(value: unknown): Date {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (
+    value &&
+    typeof value === 'object' &&
+    'toDate' in value &&
+    typeof (value as { toDate: () => Date }).toDate === 'function'
+  ) {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string | number);
+}
+
+/**
+ * Same as toDate, but keeps absent values absent.
+ */
+export function toOptionalDate(value: unknown): Date | undefined {
+  return value ? toDate(value) : undefined;
+}
+
+/**
+ * Copy of `value` without undefined fields, recursing into plain objects and
+ * arrays. Firestore rejects undefined in set/update data.
+ */
+export function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => withoutUndefined(item)) as unknown as T;
+  }
+  if (
+    value &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype
+  ) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = withoutUndefined(item);
+      }
+    }
+    return result as T;
+  }
+  return value;
+}
@@ -0,0 +1,102 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { HumanityPolicy } from '../../domain/entities/humanity-policy.entity';
+import { toDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Humanity policies. `humanity_policies/{id}` holds the current version;
+ * every version is also kept, unchanged, under
+ * `humanity_policies/{id}/versions/{version}`.
+ */
+@Injectable()
+export class HumanityPolicyRepository {
+  private readonly logger = new Logger(HumanityPolicyRepository.name);
+  private readonly collectionName = 'humanity_policies';
+  private readonly versionsCollectionName = 'versions';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Store the next version of a policy (1 for a new policy) and make it
+   * current. Runs in a transaction so concurrent saves cannot share a
+   * version number.
+   */
+  async saveVersion(
+    record: Omit<HumanityPolicy, 'version' | 'createdAt'>,
+    createdAt: Date = new Date(),
+  ): Promise<HumanityPolicy> {
+    const firestore = this.firebaseService.getFirestore();
+    const headRef = firestore.collection(this.collectionName).doc(record.id);
+
+    const saved = await firestore.runTransaction(async (transaction) => {
+      const head = await transaction.get(headRef);
+      const version = head.exists ? Number(head.data()?.version ?? 0) + 1 : 1;
+      const data: HumanityPolicy = { ...record, version, createdAt };
+
+      transaction.set(headRef, withoutUndefined(data));
+      transaction.set(
+        headRef.collection(this.versionsCollectionName).doc(String(version)),
+        withoutUndefined(data),
+      );
+      return data;
+    });
+
+    this.logger.log(`Humanity policy stored id=${saved.id} version=${saved.version}`);
+    return saved;
+  }
+
+  async findCurrent(id: string): Promise<HumanityPolicy | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async listCurrent(): Promise<HumanityPolicy[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  /**
+   * All versions of a policy, newest first
+   */
+  async listVersions(id: string): Promise<HumanityPolicy[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .collection(this.versionsCollectionName)
+      .orderBy('version', 'desc')
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(id, doc.data()));
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): HumanityPolicy {
+    const record = data ?? {};
+    return {
+      id,
+      version: Number(record.version ?? 0),
+      minScore: Number(record.minScore ?? 0),
+      requiredVerifications: Array.isArray(record.requiredVerifications)
+        ? record.requiredVerifications
+        : [],
+      requiredKycStatus: record.requiredKycStatus,
+      excludedIssuers: Array.isArray(record.excludedIssuers) ? record.excludedIssuers : [],
+      description: record.description,
+      createdAt: toDate(record.createdAt),
+      createdBy: record.createdBy,
+    };
+  }
+}
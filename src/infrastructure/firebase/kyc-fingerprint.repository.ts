@@ -0,0 +1,98 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { KycFingerprint } from '../../domain/entities/kyc-fingerprint.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * KYC document fingerprints, keyed by the fingerprint, with the wallet
+ * first approved with the document and any later wallets that reused it.
+ */
+@Injectable()
+export class KycFingerprintRepository {
+  private readonly logger = new Logger(KycFingerprintRepository.name);
+  private readonly collectionName = 'kyc_fingerprints';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Link a fingerprint to `record.wallet`, or, when another wallet already
+   * holds it, record `record.wallet` as a duplicate. Returns the stored
+   * fingerprint; its `wallet` is the one that holds it.
+   */
+  async link(
+    record: Pick<KycFingerprint, 'fingerprint' | 'wallet' | 'sessionId' | 'documentType' | 'country'>,
+    now: Date = new Date(),
+  ): Promise<KycFingerprint> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(record.fingerprint);
+
+    const stored = await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+
+      if (!doc.exists) {
+        const created: KycFingerprint = { ...record, createdAt: now, duplicates: [] };
+        transaction.set(ref, { ...withoutUndefined(created), collision: false });
+        return created;
+      }
+
+      const existing = this.mapDoc(doc.id, doc.data());
+      if (
+        existing.wallet === record.wallet ||
+        existing.duplicates.some((duplicate) => duplicate.wallet === record.wallet)
+      ) {
+        return existing;
+      }
+
+      const updated: KycFingerprint = {
+        ...existing,
+        duplicates: [
+          ...existing.duplicates,
+          { wallet: record.wallet, sessionId: record.sessionId, detectedAt: now },
+        ],
+        lastDuplicateAt: now,
+      };
+      transaction.update(ref, {
+        duplicates: updated.duplicates,
+        lastDuplicateAt: now,
+        collision: true,
+      });
+      return updated;
+    });
+
+    if (stored.wallet !== record.wallet) {
+      this.logger.warn(`KYC fingerprint collision: wallet=${record.wallet} reuses the document of wallet=${stored.wallet}`);
+    }
+    return stored;
+  }
+
+  /** Fingerprints held by more than one wallet, most recent duplicate first */
+  async listCollisions(limit: number): Promise<KycFingerprint[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('collision', '==', true)
+      .orderBy('lastDuplicateAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): KycFingerprint {
+    const record = data ?? {};
+    return {
+      fingerprint: id,
+      wallet: record.wallet,
+      sessionId: record.sessionId,
+      documentType: record.documentType,
+      country: record.country,
+      createdAt: toDate(record.createdAt),
+      duplicates: (record.duplicates ?? []).map((duplicate: FirebaseFirestore.DocumentData) => ({
+        wallet: duplicate.wallet,
+        sessionId: duplicate.sessionId,
+        detectedAt: toDate(duplicate.detectedAt),
+      })),
+      lastDuplicateAt: toOptionalDate(record.lastDuplicateAt),
+    };
+  }
+}
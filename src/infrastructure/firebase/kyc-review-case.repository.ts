@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  KycReviewCase,
+  KycReviewCaseFilter,
+  KycReviewComment,
+  KycReviewResolution,
+  OpenKycReviewCase,
+} from '../../domain/entities/kyc-review.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Manual KYC review cases. `resolved` is stored alongside the status so
+ * unresolved cases of a wallet can be found with equality filters only.
+ */
+@Injectable()
+export class KycReviewCaseRepository {
+  private readonly logger = new Logger(KycReviewCaseRepository.name);
+  private readonly collectionName = 'kyc_review_cases';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Open a case unless the wallet already has an unresolved one for the
+   * same reason, which is returned instead with `created: false`.
+   */
+  async openUnlessUnresolved(
+    record: OpenKycReviewCase,
+    now: Date = new Date(),
+  ): Promise<{ reviewCase: KycReviewCase; created: boolean }> {
+    const firestore = this.firebaseService.getFirestore();
+    const collection = firestore.collection(this.collectionName);
+    const unresolved = collection
+      .where('wallet', '==', record.wallet)
+      .where('reason', '==', record.reason)
+      .where('resolved', '==', false)
+      .limit(1);
+
+    const result = await firestore.runTransaction(async (transaction) => {
+      const existing = await transaction.get(unresolved);
+      if (!existing.empty) {
+        const doc = existing.docs[0];
+        return { reviewCase: this.mapDoc(doc.id, doc.data()), created: false };
+      }
+
+      const ref = collection.doc();
+      const data: Omit<KycReviewCase, 'id'> = {
+        ...record,
+        status: 'open',
+        openedAt: now,
+        updatedAt: now,
+        comments: [],
+      };
+      transaction.set(ref, { ...withoutUndefined(data), resolved: false });
+      return { reviewCase: { id: ref.id, ...data }, created: true };
+    });
+
+    if (result.created) {
+      this.logger.log(
+        `KYC review case opened id=${result.reviewCase.id} wallet=${record.wallet} reason=${record.reason}`,
+      );
+    }
+    return result;
+  }
+
+  async findById(id: string): Promise<KycReviewCase | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  /** Cases matching the filter, most recently opened first */
+  async list(filter: KycReviewCaseFilter, limit: number): Promise<KycReviewCase[]> {
+    let query: FirebaseFirestore.Query = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName);
+
+    if (filter.status) {
+      query = query.where('status', '==', filter.status);
+    }
+    if (filter.reason) {
+      query = query.where('reason', '==', filter.reason);
+    }
+    if (filter.wallet) {
+      query = query.where('wallet', '==', filter.wallet);
+    }
+
+    const snapshot = await query.orderBy('openedAt', 'desc').limit(limit).get();
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  /**
+   * Assign an open case to `reviewer`. Returns the stored case, whoever
+   * holds it, or null when it does not exist; claimed and resolved cases
+   * are left unchanged.
+   */
+  async claim(id: string, reviewer: string, now: Date = new Date()): Promise<KycReviewCase | null> {
+    return this.update(id, (current) =>
+      current.status === 'open'
+        ? { status: 'claimed', claimedBy: reviewer, claimedAt: now, updatedAt: now }
+        : null,
+    );
+  }
+
+  async addComment(id: string, comment: KycReviewComment): Promise<KycReviewCase | null> {
+    return this.update(id, (current) => ({
+      comments: [...current.comments, comment],
+      updatedAt: comment.createdAt,
+    }));
+  }
+
+  /**
+   * Record the reviewer's decision. A case that is already resolved keeps
+   * its first resolution.
+   */
+  async resolve(id: string, resolution: KycReviewResolution): Promise<KycReviewCase | null> {
+    return this.update(id, (current) =>
+      current.status === 'resolved'
+        ? null
+        : { status: 'resolved', resolution, updatedAt: resolution.decidedAt },
+    );
+  }
+
+  /**
+   * Apply the fields `change` returns for the current case in a transaction;
+   * null from `change` leaves the case as it is.
+   */
+  private async update(
+    id: string,
+    change: (current: KycReviewCase) => Partial<KycReviewCase> | null,
+  ): Promise<KycReviewCase | null> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(id);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        return null;
+      }
+
+      const current = this.mapDoc(doc.id, doc.data());
+      const fields = change(current);
+      if (!fields) {
+        return current;
+      }
+
+      const updated: KycReviewCase = { ...current, ...fields };
+      transaction.update(ref, {
+        ...withoutUndefined(fields),
+        resolved: updated.status === 'resolved',
+      });
+      return updated;
+    });
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): KycReviewCase {
+    const record = data ?? {};
+    return {
+      id,
+      wallet: record.wallet,
+      reason: record.reason,
+      status: record.status,
+      sessionId: record.sessionId,
+      sessionToken: record.sessionToken,
+      detail: record.detail,
+      openedAt: toDate(record.openedAt),
+      updatedAt: toDate(record.updatedAt),
+      claimedBy: record.claimedBy,
+      claimedAt: toOptionalDate(record.claimedAt),
+      comments: (record.comments ?? []).map((comment: FirebaseFirestore.DocumentData) => ({
+        author: comment.author,
+        body: comment.body,
+        createdAt: toDate(comment.createdAt),
+      })),
+      resolution: record.resolution
+        ? {
+            status: record.resolution.status,
+            decidedBy: record.resolution.decidedBy,
+            reason: record.resolution.reason,
+            decidedAt: toDate(record.resolution.decidedAt),
+            transactionHash: record.resolution.transactionHash,
+          }
+        : undefined,
+    };
+  }
+}
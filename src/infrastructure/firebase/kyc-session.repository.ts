@@ -0,0 +1,61 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { KycSession } from '../../domain/entities/kyc.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * KYC sessions created by this backend, keyed by the provider's session id
+ * (Veriff session, Sumsub applicant). Decision webhooks resolve the wallet
+ * from here instead of what the client reported to the provider. Sumsub
+ * reuses a wallet's applicant, so a new session for it keeps what the
+ * stored one recorded.
+ */
+@Injectable()
+export class KycSessionRepository {
+  private readonly logger = new Logger(KycSessionRepository.name);
+  private readonly collectionName = 'veriff_sessions';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(session: KycSession): Promise<KycSession> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(session.sessionId)
+      .set(withoutUndefined(session), { merge: true });
+
+    this.logger.log(`KYC session stored id=${session.sessionId} wallet=${session.wallet}`);
+    return session;
+  }
+
+  async findBySessionId(sessionId: string): Promise<KycSession | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(sessionId)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    const data = doc.data();
+    return {
+      sessionId: doc.id,
+      provider: data.provider,
+      wallet: data.wallet,
+      url: data.url,
+      createdAt: toDate(data.createdAt),
+      over18IssuedAt: toOptionalDate(data.over18IssuedAt),
+      over18TransactionHash: data.over18TransactionHash,
+    };
+  }
+
+  async markOver18Issued(sessionId: string, issuedAt: Date, transactionHash?: string): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(sessionId)
+      .update(withoutUndefined({ over18IssuedAt: issuedAt, over18TransactionHash: transactionHash }));
+  }
+}
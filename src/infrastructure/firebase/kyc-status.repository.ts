@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  KycStatusClaim,
+  KycStatusClaimKey,
+  KycStatusRejection,
+  KycStatusState,
+  checkKycTransition,
+} from '../../domain/entities/kyc-status.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * KYC status in force per wallet (`kyc_status/{wallet}`) and the decisions
+ * the state machine refused (`kyc_status_rejections`).
+ */
+@Injectable()
+export class KycStatusRepository {
+  private readonly logger = new Logger(KycStatusRepository.name);
+  private readonly collectionName = 'kyc_status';
+  private readonly rejectionsCollectionName = 'kyc_status_rejections';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async find(wallet: string): Promise<KycStatusState | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(wallet)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapState(doc.data());
+  }
+
+  /**
+   * Check `state` against the status in force with checkKycTransition and,
+   * when allowed, store it in the same transaction, so two decisions for a
+   * wallet cannot both pass against the same status. `fallback` stands in
+   * for the status in force when none is stored (read from the chain).
+   * The claim holds no transaction hash until confirm().
+   */
+  async claim(
+    state: KycStatusState,
+    fallback: Pick<KycStatusState, 'status' | 'decidedAt'> | null,
+  ): Promise<KycStatusClaim> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(state.wallet);
+
+    return firestore.runTransaction(async (transaction): Promise<KycStatusClaim> => {
+      const doc = await transaction.get(ref);
+      const previous = doc.exists ? this.mapState(doc.data()) : null;
+      const current = previous ?? fallback;
+
+      const transition = checkKycTransition(current, state);
+      if (transition.allowed === false) {
+        return { claimed: false, current, transition };
+      }
+
+      transaction.set(ref, withoutUndefined({ ...state, transactionHash: undefined }));
+      return { claimed: true, previous };
+    });
+  }
+
+  /**
+   * Record the transaction that wrote a claimed status on-chain. Returns
+   * false when a later decision replaced the claim in the meantime.
+   */
+  async confirm(state: KycStatusClaimKey, transactionHash: string | undefined): Promise<boolean> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(state.wallet);
+
+    const confirmed = await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || !this.isClaim(this.mapState(doc.data()), state)) {
+        return false;
+      }
+
+      transaction.update(ref, withoutUndefined({ appliedAt: new Date(), transactionHash }));
+      return true;
+    });
+
+    if (!confirmed) {
+      this.logger.warn(`KYC status ${state.status} for wallet=${state.wallet} superseded by a later decision`);
+    }
+    return confirmed;
+  }
+
+  /**
+   * Put back the status a claim replaced after its on-chain write failed.
+   * Leaves a later decision's claim alone.
+   */
+  async release(state: KycStatusClaimKey, previous: KycStatusState | null): Promise<void> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(state.wallet);
+
+    await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || !this.isClaim(this.mapState(doc.data()), state)) {
+        return;
+      }
+
+      if (previous) {
+        transaction.set(ref, withoutUndefined(previous));
+      } else {
+        transaction.delete(ref);
+      }
+    });
+  }
+
+  async recordRejection(rejection: Omit<KycStatusRejection, 'id'>): Promise<KycStatusRejection> {
+    const ref = await this.firebaseService
+      .getFirestore()
+      .collection(this.rejectionsCollectionName)
+      .add(withoutUndefined(rejection));
+
+    return { id: ref.id, ...rejection };
+  }
+
+  /** Refused decisions for a wallet, most recent first */
+  async listRejections(wallet: string, limit: number): Promise<KycStatusRejection[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.rejectionsCollectionName)
+      .where('wallet', '==', wallet)
+      .orderBy('rejectedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        wallet: data.wallet,
+        from: data.from,
+        to: data.to,
+        decidedAt: toDate(data.decidedAt),
+        currentDecidedAt: toOptionalDate(data.currentDecidedAt),
+        source: data.source,
+        manual: !!data.manual,
+        code: data.code,
+        reason: data.reason,
+        rejectedAt: toDate(data.rejectedAt),
+      };
+    });
+  }
+
+  private isClaim(stored: KycStatusState, state: KycStatusClaimKey): boolean {
+    return stored.status === state.status && stored.decidedAt.getTime() === state.decidedAt.getTime();
+  }
+
+  private mapState(data: FirebaseFirestore.DocumentData | undefined): KycStatusState {
+    const record = data ?? {};
+    return {
+      wallet: record.wallet,
+      status: record.status,
+      decidedAt: toDate(record.decidedAt),
+      source: record.source,
+      manual: !!record.manual,
+      appliedAt: toDate(record.appliedAt),
+      transactionHash: record.transactionHash,
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FieldValue } from 'firebase-admin/firestore';
+import { FirebaseService } from './firebase.adapter';
+import {
+  ClaimedKycWebhook,
+  KycWebhookInboxBacklog,
+  KycWebhookRecord,
+  KycWebhookResponse,
+  QueuedKycDecision,
+} from '../../domain/entities/kyc.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+export type EnqueueKycWebhook = Pick<
+  KycWebhookRecord,
+  'key' | 'provider' | 'webhookId' | 'sessionToken' | 'sessionId' | 'payloadHash' | 'decision' | 'timestamp'
+>;
+
+/**
+ * Inbox and processing log of KYC provider webhooks, keyed by
+ * KycWebhookRecord.key. A delivery is queued once, with its decision, and
+ * applied by the inbox worker under a per-webhook lease, which makes replays
+ * and concurrent redeliveries of the same webhook no-ops.
+ */
+@Injectable()
+export class KycWebhookRepository {
+  private readonly logger = new Logger(KycWebhookRepository.name);
+  private readonly collectionName = 'kyc_webhooks';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Record a delivery. `queued` is true when the webhook was put in the
+   * inbox: it is new, or its last attempt failed for good. Otherwise the
+   * stored record is returned as it is, apart from the delivery count; its
+   * payload hash may differ from the delivery's.
+   */
+  async enqueue(
+    delivery: EnqueueKycWebhook,
+    decision: QueuedKycDecision,
+    now: Date = new Date(),
+  ): Promise<{ record: KycWebhookRecord; queued: boolean }> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(delivery.key);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+
+      if (!doc.exists) {
+        const created: KycWebhookRecord = {
+          ...delivery,
+          state: 'queued',
+          deliveries: 1,
+          attempts: 0,
+          nextAttemptAt: now,
+          receivedAt: now,
+        };
+        transaction.set(ref, withoutUndefined({ ...created, queuedDecision: decision }));
+        return { record: created, queued: true };
+      }
+
+      const existing = this.mapDoc(doc.data());
+      const deliveries = existing.deliveries + 1;
+
+      if (existing.payloadHash === delivery.payloadHash && existing.state === 'failed') {
+        const requeued = { state: 'queued' as const, deliveries, attempts: 0, nextAttemptAt: now };
+        transaction.update(ref, {
+          ...requeued,
+          queuedDecision: withoutUndefined(decision),
+        });
+        this.logger.log(`Requeued KYC webhook key=${delivery.key} after it failed`);
+        return { record: { ...existing, ...requeued }, queued: true };
+      }
+
+      transaction.update(ref, { deliveries });
+      return { record: { ...existing, deliveries }, queued: false };
+    });
+  }
+
+  /**
+   * Webhooks the worker should apply: queued ones whose nextAttemptAt has
+   * passed and ones left processing for longer than `leaseMs`, earliest
+   * first.
+   */
+  async findDue(now: Date, leaseMs: number, limit: number): Promise<KycWebhookRecord[]> {
+    const collection = this.firebaseService.getFirestore().collection(this.collectionName);
+
+    const [queued, abandoned] = await Promise.all([
+      collection
+        .where('state', '==', 'queued')
+        .where('nextAttemptAt', '<=', now)
+        .orderBy('nextAttemptAt', 'asc')
+        .limit(limit)
+        .get(),
+      collection
+        .where('state', '==', 'processing')
+        .where('startedAt', '<=', new Date(now.getTime() - leaseMs))
+        .orderBy('startedAt', 'asc')
+        .limit(limit)
+        .get(),
+    ]);
+
+    return [...abandoned.docs, ...queued.docs].slice(0, limit).map((doc) => this.mapDoc(doc.data()));
+  }
+
+  /**
+   * Start an attempt: mark the webhook processing under `holder` and return
+   * it with its decision. Null when it is not due any more or another worker
+   * holds a live lease, so concurrent sweeps never apply it twice.
+   */
+  async claim(key: string, holder: string, leaseMs: number, now: Date): Promise<ClaimedKycWebhook | null> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(key);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+      if (!doc.exists || !data?.queuedDecision) {
+        return null;
+      }
+
+      const record = this.mapDoc(data);
+      const due =
+        (record.state === 'queued' && !!record.nextAttemptAt && record.nextAttemptAt.getTime() <= now.getTime()) ||
+        (record.state === 'processing' &&
+          !!record.startedAt &&
+          now.getTime() - record.startedAt.getTime() >= leaseMs);
+
+      if (!due) {
+        return null;
+      }
+
+      const attempt = { state: 'processing' as const, startedAt: now, attempts: record.attempts + 1, claimedBy: holder };
+      transaction.update(ref, attempt);
+      return {
+        record: { ...record, ...attempt },
+        decision: this.mapDecision(data.queuedDecision),
+      };
+    });
+  }
+
+  /**
+   * Store the outcome of an attempt started with `claim`. A failure is
+   * queued again at `retryAt`, or marked failed when null. The decision is
+   * dropped once the webhook is processed or failed. Ignored when `holder`
+   * lost the lease in the meantime.
+   */
+  async complete(
+    key: string,
+    holder: string,
+    outcome: { wallet?: string; result: KycWebhookResponse },
+    retryAt: Date | null,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(key);
+
+    await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists || doc.data()?.claimedBy !== holder) {
+        this.logger.warn(`KYC webhook key=${key} no longer held by ${holder}; outcome not stored`);
+        return;
+      }
+
+      const recorded = withoutUndefined({
+        wallet: outcome.wallet,
+        result: outcome.result,
+        claimedBy: FieldValue.delete(),
+      });
+
+      if (outcome.result.success) {
+        transaction.update(ref, {
+          ...recorded,
+          state: 'processed',
+          processedAt: now,
+          nextAttemptAt: FieldValue.delete(),
+          lastError: FieldValue.delete(),
+          queuedDecision: FieldValue.delete(),
+        });
+        return;
+      }
+
+      const lastError = outcome.result.error ?? outcome.result.message ?? 'Unknown error';
+      transaction.update(
+        ref,
+        retryAt
+          ? { ...recorded, state: 'queued', nextAttemptAt: retryAt, lastError }
+          : {
+              ...recorded,
+              state: 'failed',
+              processedAt: now,
+              nextAttemptAt: FieldValue.delete(),
+              lastError,
+              queuedDecision: FieldValue.delete(),
+            },
+      );
+    });
+  }
+
+  /** Webhooks applied to a wallet, most recently received first */
+  async listByWallet(wallet: string, limit: number): Promise<KycWebhookRecord[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('wallet', '==', wallet)
+      .orderBy('receivedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.data()));
+  }
+
+  /** How many webhooks wait in each unfinished state, and since when */
+  async backlog(): Promise<KycWebhookInboxBacklog> {
+    const collection = this.firebaseService.getFirestore().collection(this.collectionName);
+    const count = async (state: string) =>
+      (await collection.where('state', '==', state).count().get()).data().count;
+
+    const [queued, processing, failed, oldest] = await Promise.all([
+      count('queued'),
+      count('processing'),
+      count('failed'),
+      collection.where('state', '==', 'queued').orderBy('receivedAt', 'asc').limit(1).get(),
+    ]);
+
+    return {
+      queued,
+      processing,
+      failed,
+      oldestQueuedAt: oldest.empty ? undefined : toDate(oldest.docs[0].data().receivedAt),
+    };
+  }
+
+  /** Webhooks given up on, most recently failed first */
+  async listFailed(limit: number): Promise<KycWebhookRecord[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('state', '==', 'failed')
+      .orderBy('processedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.data()));
+  }
+
+  private mapDecision(data: FirebaseFirestore.DocumentData): QueuedKycDecision {
+    return {
+      provider: data.provider,
+      webhookId: data.webhookId,
+      sessionToken: data.sessionToken,
+      sessionId: data.sessionId,
+      providerStatus: data.providerStatus,
+      status: data.status,
+      resubmission: !!data.resubmission,
+      reason: data.reason,
+      decidedAt: toDate(data.decidedAt),
+      reportedWallet: data.reportedWallet,
+      adult: data.adult,
+      document: data.document,
+    };
+  }
+
+  /** The stored record, without the decision */
+  private mapDoc(data: FirebaseFirestore.DocumentData | undefined): KycWebhookRecord {
+    const record = data ?? {};
+    return {
+      key: record.key,
+      provider: record.provider,
+      webhookId: record.webhookId,
+      sessionToken: record.sessionToken,
+      payloadHash: record.payloadHash,
+      decision: record.decision,
+      timestamp: toDate(record.timestamp),
+      state: record.state,
+      wallet: record.wallet,
+      sessionId: record.sessionId,
+      result: record.result,
+      deliveries: Number(record.deliveries ?? 1),
+      attempts: Number(record.attempts ?? 0),
+      nextAttemptAt: toOptionalDate(record.nextAttemptAt),
+      lastError: record.lastError,
+      claimedBy: record.claimedBy,
+      receivedAt: toDate(record.receivedAt),
+      startedAt: toOptionalDate(record.startedAt),
+      processedAt: toOptionalDate(record.processedAt),
+    };
+  }
+}
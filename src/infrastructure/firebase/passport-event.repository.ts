@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  IndexedWallet,
+  PassportEventRecord,
+  PassportIndexerCursor,
+  verificationTypeKey,
+} from '../../domain/entities/passport-event.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Indexed Passport contract events. Each wallet has a snapshot document in
+ * `passport_wallets` (current score and verifications) and its event history
+ * in the `events` subcollection. The indexer cursor lives in
+ * `indexer_cursors/passport`.
+ */
+@Injectable()
+export class PassportEventRepository {
+  private readonly collectionName = 'passport_wallets';
+  private readonly eventsCollectionName = 'events';
+  private readonly cursorCollectionName = 'indexer_cursors';
+  private readonly cursorDocId = 'passport';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async getCursor(): Promise<PassportIndexerCursor | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.cursorCollectionName)
+      .doc(this.cursorDocId)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    const data = doc.data();
+    return {
+      cursor: data.cursor,
+      lastLedger: data.lastLedger,
+      updatedAt: toDate(data.updatedAt),
+    };
+  }
+
+  /**
+   * Write one page of decoded events and advance the cursor in a single
+   * batch, so a crash never leaves the cursor ahead of the data. Events are
+   * keyed by their RPC id, so re-applying a page is harmless. `events` must
+   * be in ledger order; a page holds at most a few hundred writes.
+   */
+  async applyPage(
+    events: PassportEventRecord[],
+    cursor: string,
+    lastLedger: number,
+  ): Promise<void> {
+    const firestore = this.firebaseService.getFirestore();
+    const batch = firestore.batch();
+    const wallets = firestore.collection(this.collectionName);
+    const now = new Date();
+
+    const snapshots = new Map<string, Record<string, unknown>>();
+
+    for (const event of events) {
+      const walletRef = wallets.doc(event.wallet);
+      batch.set(
+        walletRef.collection(this.eventsCollectionName).doc(event.id),
+        withoutUndefined(event),
+      );
+
+      const snapshot = snapshots.get(event.wallet) ?? { wallet: event.wallet };
+      snapshot.lastLedger = event.ledger;
+      snapshot.updatedAt = now;
+
+      if (event.type === 'UserRegistered') {
+        snapshot.registered = true;
+        snapshot.registeredAt = event.ledgerClosedAt;
+      } else {
+        // Only a registered wallet can receive verifications
+        snapshot.registered = true;
+        snapshot.score = event.score;
+        snapshot.verifications = {
+          ...((snapshot.verifications as Record<string, unknown>) ?? {}),
+          [verificationTypeKey(event.vtype)]: {
+            vtype: event.vtype,
+            points: event.points,
+            ledger: event.ledger,
+            updatedAt: event.ledgerClosedAt,
+          },
+        };
+      }
+
+      snapshots.set(event.wallet, snapshot);
+    }
+
+    // merge keeps verifications indexed in earlier pages
+    for (const [wallet, snapshot] of snapshots) {
+      batch.set(wallets.doc(wallet), withoutUndefined(snapshot), { merge: true });
+    }
+
+    batch.set(
+      firestore.collection(this.cursorCollectionName).doc(this.cursorDocId),
+      { cursor, lastLedger, updatedAt: now },
+    );
+
+    await batch.commit();
+  }
+
+  async findWallet(wallet: string): Promise<IndexedWallet | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(wallet)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapWallet(doc.id, doc.data());
+  }
+
+  /** Indexed wallets in address order, `limit` at a time after `afterWallet`. */
+  async listWallets(limit: number, afterWallet?: string): Promise<IndexedWallet[]> {
+    let query = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .orderBy('wallet', 'asc');
+    if (afterWallet) {
+      query = query.startAfter(afterWallet);
+    }
+
+    const snapshot = await query.limit(limit).get();
+    return snapshot.docs.map((doc) => this.mapWallet(doc.id, doc.data()));
+  }
+
+  /** Event history of a wallet, newest first. */
+  async listEvents(wallet: string, limit: number): Promise<PassportEventRecord[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(wallet)
+      .collection(this.eventsCollectionName)
+      .orderBy('ledger', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        type: data.type,
+        wallet: data.wallet,
+        ledger: data.ledger,
+        ledgerClosedAt: toDate(data.ledgerClosedAt),
+        txHash: data.txHash,
+        vtype: data.vtype,
+        points: data.points,
+        previousScore: data.previousScore,
+        score: data.score,
+      };
+    });
+  }
+
+  private mapWallet(id: string, data: FirebaseFirestore.DocumentData): IndexedWallet {
+    const verifications: IndexedWallet['verifications'] = {};
+    for (const [key, verification] of Object.entries<any>(data.verifications ?? {})) {
+      verifications[key] = {
+        vtype: verification.vtype,
+        points: verification.points ?? 0,
+        ledger: verification.ledger,
+        updatedAt: toDate(verification.updatedAt),
+      };
+    }
+
+    return {
+      wallet: id,
+      registered: data.registered ?? false,
+      registeredAt: toOptionalDate(data.registeredAt),
+      score: data.score ?? 0,
+      verifications,
+      lastLedger: data.lastLedger ?? 0,
+      updatedAt: toDate(data.updatedAt),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { ScoreDecayReport } from '../../domain/entities/score-decay.entity';
+import { toDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Score decay reports, one document per run in `score_decay_reports`.
+ * Scheduled runs use an ID derived from their period, so instances running
+ * the same period overwrite one report instead of adding duplicates.
+ */
+@Injectable()
+export class ScoreDecayReportRepository {
+  private readonly collectionName = 'score_decay_reports';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async save(report: ScoreDecayReport): Promise<ScoreDecayReport> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(report.id)
+      .set(withoutUndefined(report));
+
+    return report;
+  }
+
+  /** Most recent reports first */
+  async listRecent(limit: number): Promise<ScoreDecayReport[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        policy: data.policy,
+        threshold: data.threshold,
+        periodStart: toDate(data.periodStart),
+        periodEnd: toDate(data.periodEnd),
+        scanned: data.scanned ?? 0,
+        wallets: data.wallets ?? [],
+        truncated: data.truncated ?? false,
+        createdAt: toDate(data.createdAt),
+        createdBy: data.createdBy,
+      };
+    });
+  }
+}
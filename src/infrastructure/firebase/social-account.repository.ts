@@ -0,0 +1,62 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { SocialAccountLink, SocialProvider } from '../../domain/entities/social-verification.entity';
+import { toDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Social accounts that verified a wallet, keyed `<provider>:<accountId>`,
+ * so each provider account can be linked to a single wallet.
+ */
+@Injectable()
+export class SocialAccountRepository {
+  private readonly logger = new Logger(SocialAccountRepository.name);
+  private readonly collectionName = 'social_accounts';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  /**
+   * Link a social account to `link.wallet` unless it is already linked.
+   * Returns the link in force: the new one, or the existing one, which may
+   * belong to another wallet. A relink to the same wallet refreshes the
+   * username.
+   */
+  async claim(link: SocialAccountLink): Promise<SocialAccountLink> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(this.docId(link.provider, link.accountId));
+
+    const claimed = await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+
+      if (doc.exists) {
+        const existing = this.mapDoc(doc.data());
+        if (existing.wallet !== link.wallet) {
+          return existing;
+        }
+        transaction.update(ref, { username: link.username });
+        return { ...existing, username: link.username };
+      }
+
+      transaction.set(ref, withoutUndefined(link));
+      return link;
+    });
+
+    if (claimed.wallet === link.wallet) {
+      this.logger.log(`Social account ${link.provider}:${link.accountId} linked to wallet=${link.wallet}`);
+    }
+    return claimed;
+  }
+
+  private docId(provider: SocialProvider, accountId: string): string {
+    return `${provider}:${accountId}`;
+  }
+
+  private mapDoc(data: FirebaseFirestore.DocumentData): SocialAccountLink {
+    return {
+      provider: data.provider,
+      accountId: data.accountId,
+      username: data.username,
+      wallet: data.wallet,
+      linkedAt: toDate(data.linkedAt),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import { SocialOAuthState } from '../../domain/entities/social-verification.entity';
+import { toDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Pending social OAuth authorizations, keyed by their `state`. Each state
+ * is consumed by the first callback that presents it.
+ */
+@Injectable()
+export class SocialOAuthStateRepository {
+  private readonly collectionName = 'social_oauth_states';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(record: SocialOAuthState): Promise<SocialOAuthState> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(record.state)
+      .set(withoutUndefined(record));
+
+    return record;
+  }
+
+  /**
+   * Delete and return a state, or null when it does not exist or another
+   * callback consumed it first. Expiry is left to the caller.
+   */
+  async consume(state: string): Promise<SocialOAuthState | null> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(state);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (!doc.exists) {
+        return null;
+      }
+
+      transaction.delete(ref);
+      const data = doc.data();
+      return {
+        state: doc.id,
+        provider: data.provider,
+        wallet: data.wallet,
+        codeVerifier: data.codeVerifier,
+        createdAt: toDate(data.createdAt),
+        expiresAt: toDate(data.expiresAt),
+      };
+    });
+  }
+}
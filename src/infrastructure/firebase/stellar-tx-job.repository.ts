@@ -0,0 +1,173 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  ACTIVE_STELLAR_TX_JOB_STATES,
+  StellarTxJob,
+  StellarTxJobUpdate,
+} from '../../domain/entities/stellar-tx-job.entity';
+import { StellarTxJobStore } from '../../domain/ports/stellar-tx-job-store.port';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Firestore-backed StellarTxJobStore.
+ *
+ * claimNextQueued queries `state == queued` ordered by `createdAt`, which
+ * needs a composite index on (state, createdAt) in the stellar_tx_jobs
+ * collection. Lease expiry is compared against the local clock, so keep
+ * STELLAR_QUEUE_LEASE_MS well above the expected clock skew between hosts.
+ */
+@Injectable()
+export class StellarTxJobRepository implements StellarTxJobStore {
+  private readonly logger = new Logger(StellarTxJobRepository.name);
+  private readonly collectionName = 'stellar_tx_jobs';
+  private readonly leaseCollectionName = 'stellar_tx_leases';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(job: Omit<StellarTxJob, 'id'>): Promise<StellarTxJob> {
+    const docRef = this.collection().doc();
+    const data = { id: docRef.id, ...job } as StellarTxJob;
+
+    await docRef.set(withoutUndefined(data));
+    this.logger.log(
+      `Stellar job queued id=${data.id} wallet=${job.wallet} operation=${job.operation}`,
+    );
+    return data;
+  }
+
+  async findById(id: string): Promise<StellarTxJob | null> {
+    const doc = await this.collection().doc(id).get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findActiveByIdempotencyKey(
+    idempotencyKey: string,
+  ): Promise<StellarTxJob | null> {
+    const snapshot = await this.collection()
+      .where('idempotencyKey', '==', idempotencyKey)
+      .where('state', 'in', ACTIVE_STELLAR_TX_JOB_STATES)
+      .limit(1)
+      .get();
+
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const doc = snapshot.docs[0];
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async claimNextQueued(workerId: string): Promise<StellarTxJob | null> {
+    const firestore = this.firebaseService.getFirestore();
+    const query = this.collection()
+      .where('state', '==', 'queued')
+      .orderBy('createdAt', 'asc')
+      .limit(1);
+
+    return firestore.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(query);
+      if (snapshot.empty) {
+        return null;
+      }
+
+      const doc = snapshot.docs[0];
+      const now = new Date();
+      const update: StellarTxJobUpdate = {
+        state: 'running',
+        workerId,
+        startedAt: now,
+        updatedAt: now,
+      };
+      transaction.update(doc.ref, update);
+
+      return this.mapDoc(doc.id, { ...doc.data(), ...update });
+    });
+  }
+
+  async update(id: string, update: StellarTxJobUpdate): Promise<void> {
+    await this.collection().doc(id).update(withoutUndefined(update));
+  }
+
+  async requeueRunning(): Promise<number> {
+    const firestore = this.firebaseService.getFirestore();
+    const snapshot = await this.collection().where('state', '==', 'running').get();
+
+    if (snapshot.empty) {
+      return 0;
+    }
+
+    const batch = firestore.batch();
+    const now = new Date();
+    for (const doc of snapshot.docs) {
+      batch.update(doc.ref, { state: 'queued', updatedAt: now });
+    }
+    await batch.commit();
+
+    return snapshot.size;
+  }
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.leaseCollectionName).doc(name);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const lease = doc.data();
+      const now = Date.now();
+
+      if (
+        lease &&
+        lease.holder !== holder &&
+        toDate(lease.expiresAt).getTime() > now
+      ) {
+        return false;
+      }
+
+      transaction.set(ref, { holder, expiresAt: new Date(now + ttlMs) });
+      return true;
+    });
+  }
+
+  async releaseLease(name: string, holder: string): Promise<void> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.leaseCollectionName).doc(name);
+
+    await firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      if (doc.exists && doc.data()?.holder === holder) {
+        transaction.delete(ref);
+      }
+    });
+  }
+
+  private collection(): FirebaseFirestore.CollectionReference {
+    return this.firebaseService.getFirestore().collection(this.collectionName);
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): StellarTxJob {
+    const record = data ?? {};
+    return {
+      id,
+      operation: record.operation,
+      wallet: record.wallet,
+      payload: record.payload ?? {},
+      idempotencyKey: record.idempotencyKey,
+      state: record.state,
+      attempts: record.attempts ?? 0,
+      transactionHash: record.transactionHash,
+      lastError: record.lastError,
+      alreadyRegistered: record.alreadyRegistered,
+      deadLetterId: record.deadLetterId,
+      workerId: record.workerId,
+      createdAt: toDate(record.createdAt),
+      updatedAt: toDate(record.updatedAt),
+      startedAt: toOptionalDate(record.startedAt),
+      finishedAt: toOptionalDate(record.finishedAt),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  VerificationTypeEntry,
+  parseVerificationType,
+} from '../../domain/entities/verification-type.entity';
+import { toDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Verification type registry, one document per type keyed by its
+ * verification type key (`Over18`, `Custom:kyc_sumsub`).
+ */
+@Injectable()
+export class VerificationTypeRepository {
+  private readonly logger = new Logger(VerificationTypeRepository.name);
+  private readonly collectionName = 'verification_types';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async upsert(entry: VerificationTypeEntry): Promise<VerificationTypeEntry> {
+    // vtype is derived from the key on read, isDefault is never stored
+    const data = {
+      key: entry.key,
+      canonicalPoints: entry.canonicalPoints,
+      maxPoints: entry.maxPoints,
+      issuers: entry.issuers,
+      expirySeconds: entry.expirySeconds,
+      decayHalfLifeSeconds: entry.decayHalfLifeSeconds,
+      enabled: entry.enabled,
+      description: entry.description,
+      updatedAt: entry.updatedAt,
+      updatedBy: entry.updatedBy,
+    };
+
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(entry.key)
+      .set(withoutUndefined(data));
+
+    this.logger.log(`Verification type stored key=${entry.key}`);
+    return entry;
+  }
+
+  async findByKey(key: string): Promise<VerificationTypeEntry | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(key)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findAll(): Promise<VerificationTypeEntry[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  private mapDoc(key: string, data: FirebaseFirestore.DocumentData | undefined): VerificationTypeEntry {
+    const record = data ?? {};
+    return {
+      key,
+      vtype: parseVerificationType(key),
+      canonicalPoints: Number(record.canonicalPoints ?? 0),
+      maxPoints: Number(record.maxPoints ?? 0),
+      issuers: Array.isArray(record.issuers) ? record.issuers : [],
+      expirySeconds: record.expirySeconds,
+      decayHalfLifeSeconds: record.decayHalfLifeSeconds,
+      enabled: record.enabled !== false,
+      description: record.description,
+      updatedAt: toDate(record.updatedAt),
+      updatedBy: record.updatedBy,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  WebhookDelivery,
+  WebhookDeliveryFilter,
+} from '../../domain/entities/webhook.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+/**
+ * Delivery log for outbound webhooks. The dispatcher queries
+ * (status, nextAttemptAt) and the listing queries (ownerKeyId, createdAt)
+ * plus optional endpointId/status, which need composite indexes.
+ */
+@Injectable()
+export class WebhookDeliveryRepository {
+  private readonly collectionName = 'webhook_deliveries';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(record: Omit<WebhookDelivery, 'id'>): Promise<WebhookDelivery> {
+    const docRef = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc();
+
+    const data: WebhookDelivery = { id: docRef.id, ...record };
+
+    await docRef.set(withoutUndefined(data));
+    return data;
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async listByOwner(
+    ownerKeyId: string,
+    filter: WebhookDeliveryFilter,
+    limit: number,
+  ): Promise<WebhookDelivery[]> {
+    let query: FirebaseFirestore.Query = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('ownerKeyId', '==', ownerKeyId);
+
+    if (filter.endpointId) {
+      query = query.where('endpointId', '==', filter.endpointId);
+    }
+    if (filter.status) {
+      query = query.where('status', '==', filter.status);
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  /** Pending deliveries whose nextAttemptAt has passed, earliest first. */
+  async findDue(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('status', '==', 'pending')
+      .where('nextAttemptAt', '<=', now)
+      .orderBy('nextAttemptAt', 'asc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  /**
+   * Claim a due delivery by pushing its nextAttemptAt past `leaseUntil`, so
+   * other dispatchers skip it while this one sends. Returns false when the
+   * delivery is no longer pending or someone else claimed it first.
+   */
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const firestore = this.firebaseService.getFirestore();
+    const ref = firestore.collection(this.collectionName).doc(id);
+
+    return firestore.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const data = doc.data();
+
+      if (
+        !data ||
+        data.status !== 'pending' ||
+        toDate(data.nextAttemptAt).getTime() > now.getTime()
+      ) {
+        return false;
+      }
+
+      transaction.update(ref, { nextAttemptAt: leaseUntil });
+      return true;
+    });
+  }
+
+  async update(
+    id: string,
+    update: Partial<
+      Pick<
+        WebhookDelivery,
+        'status' | 'attempts' | 'nextAttemptAt' | 'lastError' | 'responseStatus' | 'deliveredAt'
+      >
+    >,
+  ): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update(withoutUndefined(update));
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): WebhookDelivery {
+    const record = data ?? {};
+    return {
+      id,
+      endpointId: record.endpointId,
+      ownerKeyId: record.ownerKeyId,
+      event: record.event,
+      status: record.status,
+      attempts: record.attempts ?? 0,
+      nextAttemptAt: toDate(record.nextAttemptAt),
+      lastError: record.lastError,
+      responseStatus: record.responseStatus,
+      replayOf: record.replayOf,
+      createdAt: toDate(record.createdAt),
+      deliveredAt: toOptionalDate(record.deliveredAt),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FirebaseService } from './firebase.adapter';
+import {
+  WebhookEndpoint,
+  WebhookEventType,
+} from '../../domain/entities/webhook.entity';
+import { toDate, toOptionalDate, withoutUndefined } from './firestore.utils';
+
+@Injectable()
+export class WebhookEndpointRepository {
+  private readonly logger = new Logger(WebhookEndpointRepository.name);
+  private readonly collectionName = 'webhook_endpoints';
+
+  constructor(private readonly firebaseService: FirebaseService) {}
+
+  async create(record: Omit<WebhookEndpoint, 'id'>): Promise<WebhookEndpoint> {
+    const docRef = this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc();
+
+    const data: WebhookEndpoint = { id: docRef.id, ...record };
+
+    await docRef.set(withoutUndefined(data));
+    this.logger.log(`Webhook endpoint stored id=${data.id} owner=${record.ownerKeyId}`);
+    return data;
+  }
+
+  async findById(id: string): Promise<WebhookEndpoint | null> {
+    const doc = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .get();
+
+    if (!doc.exists) {
+      return null;
+    }
+
+    return this.mapDoc(doc.id, doc.data());
+  }
+
+  async findActiveByOwner(ownerKeyId: string): Promise<WebhookEndpoint[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('ownerKeyId', '==', ownerKeyId)
+      .where('active', '==', true)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  async findActiveByEvent(type: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const snapshot = await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .where('events', 'array-contains', type)
+      .where('active', '==', true)
+      .get();
+
+    return snapshot.docs.map((doc) => this.mapDoc(doc.id, doc.data()));
+  }
+
+  async deactivate(id: string): Promise<void> {
+    await this.firebaseService
+      .getFirestore()
+      .collection(this.collectionName)
+      .doc(id)
+      .update({ active: false, deletedAt: new Date() });
+  }
+
+  /** Deactivate every active endpoint of an API key; returns how many */
+  async deactivateByOwner(ownerKeyId: string): Promise<number> {
+    const firestore = this.firebaseService.getFirestore();
+    const snapshot = await firestore
+      .collection(this.collectionName)
+      .where('ownerKeyId', '==', ownerKeyId)
+      .where('active', '==', true)
+      .get();
+
+    if (snapshot.empty) {
+      return 0;
+    }
+
+    const batch = firestore.batch();
+    const deletedAt = new Date();
+    for (const doc of snapshot.docs) {
+      batch.update(doc.ref, { active: false, deletedAt });
+    }
+    await batch.commit();
+    return snapshot.size;
+  }
+
+  private mapDoc(id: string, data: FirebaseFirestore.DocumentData | undefined): WebhookEndpoint {
+    const record = data ?? {};
+    return {
+      id,
+      ownerKeyId: record.ownerKeyId,
+      url: record.url,
+      events: record.events ?? [],
+      secret: record.secret,
+      description: record.description,
+      active: record.active ?? false,
+      createdAt: toDate(record.createdAt),
+      deletedAt: toOptionalDate(record.deletedAt),
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import {
+  QuotaResult,
+  RateLimitStore,
+  TokenBucketConfig,
+  TokenBucketResult,
+} from '../../domain/ports/rate-limit-store.port';
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  config: TokenBucketConfig;
+}
+
+interface QuotaState {
+  period: string;
+  used: number;
+}
+
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Process-local RateLimitStore. Node runs each call to completion before the
+ * next, so the read-modify-write below is atomic within one instance.
+ */
+@Injectable()
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, BucketState>();
+  private readonly quotas = new Map<string, QuotaState>();
+  private quotaPeriod?: string;
+
+  async takeTokens(
+    key: string,
+    cost: number,
+    config: TokenBucketConfig,
+    now: number,
+  ): Promise<TokenBucketResult> {
+    if (this.buckets.size > PRUNE_THRESHOLD) {
+      this.pruneFullBuckets(now);
+    }
+
+    const state = this.buckets.get(key);
+    const tokens = state
+      ? this.refill(state.tokens, state.updatedAt, config, now)
+      : config.capacity;
+
+    const allowed = tokens >= cost;
+    const remaining = allowed ? tokens - cost : tokens;
+
+    this.buckets.set(key, { tokens: remaining, updatedAt: now, config });
+
+    return {
+      allowed,
+      remaining: Math.floor(remaining),
+      resetMs: this.msUntilFull(remaining, config),
+    };
+  }
+
+  async addUsage(
+    key: string,
+    period: string,
+    amount: number,
+    limit: number,
+  ): Promise<QuotaResult> {
+    if (period !== this.quotaPeriod) {
+      this.pruneQuotas(period);
+      this.quotaPeriod = period;
+    }
+
+    const state = this.quotas.get(key);
+    const used = state && state.period === period ? state.used : 0;
+
+    if (used + amount > limit) {
+      return { allowed: false, used };
+    }
+
+    this.quotas.set(key, { period, used: used + amount });
+    return { allowed: true, used: used + amount };
+  }
+
+  private refill(
+    tokens: number,
+    updatedAt: number,
+    config: TokenBucketConfig,
+    now: number,
+  ): number {
+    const elapsedSeconds = Math.max(0, now - updatedAt) / 1000;
+    return Math.min(
+      config.capacity,
+      tokens + elapsedSeconds * config.refillPerSecond,
+    );
+  }
+
+  private msUntilFull(tokens: number, config: TokenBucketConfig): number {
+    if (config.refillPerSecond <= 0) {
+      return 0;
+    }
+    return Math.ceil(((config.capacity - tokens) / config.refillPerSecond) * 1000);
+  }
+
+  /** A bucket that has refilled completely is the same as no bucket. */
+  private pruneFullBuckets(now: number): void {
+    for (const [key, state] of this.buckets) {
+      if (this.refill(state.tokens, state.updatedAt, state.config, now) >= state.config.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  /** Periods only move forward, so usage of any other period is spent. */
+  private pruneQuotas(period: string): void {
+    for (const [key, state] of this.quotas) {
+      if (state.period !== period) {
+        this.quotas.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import * as crypto from 'crypto';
+import {
+  SocialAccount,
+  SocialOAuthConfig,
+  SocialProvider,
+} from '../../domain/entities/social-verification.entity';
+
+/** Error fields providers put in a failed response's body */
+interface OAuthErrorResponse {
+  error?: string;
+  error_description?: string;
+  message?: string;
+  title?: string;
+}
+
+interface OAuthTokenResponse extends OAuthErrorResponse {
+  access_token?: string;
+}
+
+/** GET /user of the GitHub REST API, as far as it is read */
+interface GitHubUserResponse {
+  id?: number;
+  login?: string;
+  created_at?: string;
+  followers?: number;
+  public_repos?: number;
+}
+
+/** GET /2/users/me of the Twitter API v2, as far as it is read */
+interface TwitterUserResponse {
+  data?: {
+    id?: string;
+    username?: string;
+    created_at?: string;
+    public_metrics?: { followers_count?: number; tweet_count?: number };
+  };
+}
+
+export class SocialOAuthError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'SocialOAuthError';
+  }
+}
+
+/** PKCE S256 challenge of a code verifier (RFC 7636) */
+export function pkceChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Authorization-code client for a social provider: builds the authorize
+ * URL (with PKCE), exchanges the returned code for an access token and
+ * reads the account behind it. Subclasses supply the provider specifics.
+ */
+export abstract class SocialOAuthClient {
+  abstract readonly provider: SocialProvider;
+  protected abstract readonly scope: string;
+
+  constructor(
+    protected readonly config: SocialOAuthConfig,
+    protected readonly timeoutMs = 10000,
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.config.clientId && !!this.config.clientSecret && !!this.config.redirectUri;
+  }
+
+  authorizationUrl(state: string, codeVerifier: string): string {
+    const url = new URL(this.config.authorizeUrl);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.scope);
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', pkceChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+  }
+
+  /**
+   * Exchange an authorization code for an access token. Throws
+   * SocialOAuthError when the provider rejects it or is unreachable.
+   */
+  async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const form = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: this.config.redirectUri,
+      code_verifier: codeVerifier,
+      client_id: this.config.clientId,
+    });
+
+    const payload = await this.request<OAuthTokenResponse>(this.config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        ...this.clientAuthentication(form),
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+    });
+
+    // GitHub reports token errors with HTTP 200
+    if (!payload?.access_token) {
+      const detail = payload?.error_description ?? payload?.error ?? 'no access token';
+      throw new SocialOAuthError(`${this.provider} token exchange failed: ${detail}`);
+    }
+    return payload.access_token;
+  }
+
+  /**
+   * The account the access token belongs to. Throws SocialOAuthError when
+   * the provider rejects the token or returns an unexpected profile.
+   */
+  abstract fetchAccount(accessToken: string): Promise<SocialAccount>;
+
+  /**
+   * Headers authenticating the client on the token request, or fields added
+   * to `form`.
+   */
+  protected abstract clientAuthentication(form: URLSearchParams): Record<string, string>;
+
+  protected apiUrl(path: string): string {
+    return `${this.config.apiUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  /**
+   * The JSON body of a successful response as T, null when it is not JSON.
+   * Throws SocialOAuthError when the provider fails or is unreachable.
+   */
+  protected async request<T>(url: string, init: RequestInit): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: { Accept: 'application/json', 'User-Agent': 'Veridion-Backend/1.0', ...init.headers },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new SocialOAuthError(
+        `${this.provider} unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const payload: unknown = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const error = (payload !== null && typeof payload === 'object' ? payload : {}) as OAuthErrorResponse;
+      const detail =
+        error.error_description ?? error.message ?? error.error ?? error.title ?? `HTTP ${response.status}`;
+      throw new SocialOAuthError(`${this.provider} request failed: ${detail}`, response.status);
+    }
+    return payload as T | null;
+  }
+}
+
+/** GitHub OAuth app; activity is the number of public repositories. */
+export class GitHubOAuthClient extends SocialOAuthClient {
+  readonly provider = 'github' as const;
+  protected readonly scope = 'read:user';
+
+  async fetchAccount(accessToken: string): Promise<SocialAccount> {
+    const user = await this.request<GitHubUserResponse>(this.apiUrl('/user'), {
+      headers: { Authorization: `Bearer ${accessToken}`, Accept: 'application/vnd.github+json' },
+    });
+
+    if (user?.id === undefined || !user?.login || !user?.created_at) {
+      throw new SocialOAuthError('github returned an incomplete user profile');
+    }
+
+    return {
+      provider: this.provider,
+      accountId: String(user.id),
+      username: user.login,
+      createdAt: new Date(user.created_at),
+      followers: Number(user.followers ?? 0),
+      posts: Number(user.public_repos ?? 0),
+    };
+  }
+
+  protected clientAuthentication(form: URLSearchParams): Record<string, string> {
+    form.set('client_secret', this.config.clientSecret);
+    return {};
+  }
+}
+
+/** Twitter (X) API v2 confidential client; activity is the tweet count. */
+export class TwitterOAuthClient extends SocialOAuthClient {
+  readonly provider = 'twitter' as const;
+  protected readonly scope = 'users.read tweet.read';
+
+  async fetchAccount(accessToken: string): Promise<SocialAccount> {
+    const payload = await this.request<TwitterUserResponse>(
+      this.apiUrl('/2/users/me?user.fields=created_at,public_metrics'),
+      { headers: { Authorization: `Bearer ${accessToken}` } },
+    );
+    const user = payload?.data;
+
+    if (!user?.id || !user?.username || !user?.created_at) {
+      throw new SocialOAuthError('twitter returned an incomplete user profile');
+    }
+
+    return {
+      provider: this.provider,
+      accountId: String(user.id),
+      username: user.username,
+      createdAt: new Date(user.created_at),
+      followers: Number(user.public_metrics?.followers_count ?? 0),
+      posts: Number(user.public_metrics?.tweet_count ?? 0),
+    };
+  }
+
+  protected clientAuthentication(): Record<string, string> {
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString('base64');
+    return { Authorization: `Basic ${credentials}` };
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable } from '@nestjs/common';
+import type { Verification } from '../../../packages/stellar-passport/src';
 import { IdentityReadPort } from '../../domain/ports/identity-read.port';
 import { StellarService } from './stellar.service';
 
@@ -14,6 +15,10 @@ export class IdentityReadAdapter implements IdentityReadPort {
     return this.stellarService.getScore(wallet);
   }
 
+  getVerifications(wallet: string): Promise<Verification[]> {
+    return this.stellarService.getVerifications(wallet);
+  }
+
   validateWalletAddress(wallet: string): boolean {
     return this.stellarService.validateWalletAddress(wallet);
   }
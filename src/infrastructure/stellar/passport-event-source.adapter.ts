@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { PassportEventSource } from '../../domain/ports/passport-event-source.port';
+import { PassportEventPage } from '../../domain/entities/passport-event.entity';
+import { StellarService } from './stellar.service';
+
+/**
+ * Thin adapter that satisfies PassportEventSource by delegating to the
+ * existing StellarService (and its RPC client).
+ */
+@Injectable()
+export class PassportEventSourceAdapter implements PassportEventSource {
+  constructor(private readonly stellarService: StellarService) {}
+
+  getLatestLedger(): Promise<number> {
+    return this.stellarService.getLatestLedgerSequence();
+  }
+
+  async getEvents(params: {
+    startLedger?: number;
+    cursor?: string;
+    limit: number;
+  }): Promise<PassportEventPage> {
+    const response = await this.stellarService.getContractEvents(params);
+
+    return {
+      events: (response.events ?? []).map((event) => ({
+        id: event.id,
+        ledger: event.ledger,
+        ledgerClosedAt: event.ledgerClosedAt,
+        txHash: event.txHash,
+        topic: event.topic ?? [],
+        value: event.value,
+        inSuccessfulContractCall: event.inSuccessfulContractCall,
+      })),
+      cursor: response.cursor,
+      latestLedger: response.latestLedger,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { nativeToScVal } from '@stellar/stellar-sdk';
+import { decodePassportEvent } from './passport-event.decoder';
+import {
+  RECORDED_PASSPORT_EVENT_XDR,
+  RECORDED_WALLET,
+  recordedEvent,
+} from '../../test-utils/stub-passport-event-source';
+
+describe('decodePassportEvent', () => {
+  it('decodes UserRegistered', () => {
+    const raw = recordedEvent(RECORDED_PASSPORT_EVENT_XDR.userRegistered, 100);
+
+    expect(decodePassportEvent(raw)).toEqual({
+      id: raw.id,
+      type: 'UserRegistered',
+      wallet: RECORDED_WALLET,
+      ledger: 100,
+      ledgerClosedAt: new Date(raw.ledgerClosedAt),
+      txHash: raw.txHash,
+    });
+  });
+
+  it('decodes VerificationUpserted with a Custom verification type', () => {
+    const record = decodePassportEvent(
+      recordedEvent(RECORDED_PASSPORT_EVENT_XDR.customApproved, 101),
+    );
+
+    expect(record).toEqual(
+      expect.objectContaining({
+        type: 'VerificationUpserted',
+        wallet: RECORDED_WALLET,
+        vtype: { tag: 'Custom', values: ['APPROVED'] },
+        points: 25,
+        previousScore: 0,
+        score: 25,
+      }),
+    );
+  });
+
+  it('decodes VerificationUpserted with a unit verification type', () => {
+    const record = decodePassportEvent(recordedEvent(RECORDED_PASSPORT_EVENT_XDR.over18, 102));
+
+    expect(record).toEqual(
+      expect.objectContaining({
+        vtype: expect.objectContaining({ tag: 'Over18' }),
+        points: 20,
+        previousScore: 25,
+        score: 45,
+      }),
+    );
+  });
+
+  it('ignores events from failed contract calls', () => {
+    const raw = {
+      ...recordedEvent(RECORDED_PASSPORT_EVENT_XDR.userRegistered, 100),
+      inSuccessfulContractCall: false,
+    };
+
+    expect(decodePassportEvent(raw)).toBeNull();
+  });
+
+  it('ignores values that are not Passport events', () => {
+    const raw = {
+      ...recordedEvent(RECORDED_PASSPORT_EVENT_XDR.userRegistered, 100),
+      value: nativeToScVal('hello', { type: 'symbol' }).toXDR('base64'),
+    };
+
+    expect(decodePassportEvent(raw)).toBeNull();
+  });
+
+  it('throws on malformed XDR', () => {
+    const raw = { ...recordedEvent(RECORDED_PASSPORT_EVENT_XDR.userRegistered, 100), value: 'AAAA' };
+
+    expect(() => decodePassportEvent(raw)).toThrow();
+  });
+});
@@ -0,0 +1,83 @@
+import { xdr } from '@stellar/stellar-sdk';
+import {
+  Client as StellarPassportClient,
+  Event as PassportContractEvent,
+  networks,
+} from '../../../packages/stellar-passport/src';
+import {
+  PASSPORT_EVENT_TYPES,
+  PassportEventRecord,
+  RawPassportEvent,
+} from '../../domain/entities/passport-event.entity';
+
+const EVENT_TYPE_DEF = xdr.ScSpecTypeDef.scSpecTypeUdt(
+  new xdr.ScSpecTypeUdt({ name: 'Event' }),
+);
+
+// The bindings only expose the contract spec through a client; building one
+// makes no network calls.
+const contractSpec = new StellarPassportClient({
+  contractId: networks.testnet.contractId,
+  networkPassphrase: networks.testnet.networkPassphrase,
+  rpcUrl: 'http://localhost',
+}).spec;
+
+/**
+ * Decode a raw Passport event using the contract spec. The event value is
+ * the contract's `Event` enum; VerificationUpserted carries
+ * (wallet, vtype, points, previous score, new score).
+ *
+ * Returns null for events that are not Passport business events (or come
+ * from a failed contract call); throws when the XDR is malformed.
+ */
+export function decodePassportEvent(raw: RawPassportEvent): PassportEventRecord | null {
+  if (raw.inSuccessfulContractCall === false) {
+    return null;
+  }
+
+  const value = xdr.ScVal.fromXDR(raw.value, 'base64');
+  if (!isPassportEventValue(value)) {
+    return null;
+  }
+
+  const event = contractSpec.scValToNative<PassportContractEvent>(value, EVENT_TYPE_DEF);
+
+  const base = {
+    id: raw.id,
+    ledger: raw.ledger,
+    ledgerClosedAt: new Date(raw.ledgerClosedAt),
+    txHash: raw.txHash,
+  };
+
+  switch (event?.tag) {
+    case 'UserRegistered':
+      return { ...base, type: 'UserRegistered', wallet: event.values[0] };
+    case 'VerificationUpserted': {
+      const [wallet, vtype, points, previousScore, score] = event.values;
+      return {
+        ...base,
+        type: 'VerificationUpserted',
+        wallet,
+        vtype,
+        points,
+        previousScore,
+        score,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Enum values are encoded as a vec whose first element is the variant symbol. */
+function isPassportEventValue(value: xdr.ScVal): boolean {
+  if (value.switch() !== xdr.ScValType.scvVec()) {
+    return false;
+  }
+
+  const [tag] = value.vec() ?? [];
+  return (
+    tag?.switch() === xdr.ScValType.scvSymbol() &&
+    (PASSPORT_EVENT_TYPES as readonly string[]).includes(tag.sym().toString())
+  );
+}
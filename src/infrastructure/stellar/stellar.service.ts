@@ -12,15 +12,21 @@ import {
   rpc,
   Account,
   contract,
-  authorizeEntry
+  authorizeEntry,
+  scValToNative,
+  xdr
 } from '@stellar/stellar-sdk';
 import {
   Client as StellarPassportClient,
+  User,
   Verification,
   VerificationType,
   networks,
 } from '../../../packages/stellar-passport/src'
-import { SubmitVerificationResult } from '../../domain/entities/failed-stellar-tx.entity'
+import {
+  SubmitVerificationResult,
+  isRetriableStellarError,
+} from '../../domain/entities/failed-stellar-tx.entity'
 import {
   PassportPort,
   PassportRegisterParams,
@@ -28,6 +34,8 @@ import {
   PassportUpdateProfileParams,
   PassportUpsertVerificationParams,
 } from '../../domain/ports/passport.port'
+import { parseVerificationType } from '../../domain/entities/verification-type.entity'
+import { IdentityCache } from '../cache/identity-cache.service'
 
 
 export interface BuildTransactionResponse {
@@ -55,6 +63,15 @@ export interface SubmitTransactionResponse {
 
 export type StatusType = 'approved' | 'rejected' | 'pending';
 
+/** The upsert_verification call carried by a (signed) transaction */
+export interface DecodedUpsertVerification {
+  /** Transaction source account, which issues the verification */
+  sourceAccount: string;
+  wallet: string;
+  vtype: VerificationType;
+  points: number;
+}
+
 export interface StatusUpdateResponse {
   success: boolean;
   message: string;
@@ -89,7 +106,8 @@ export class StellarService implements PassportPort {
   private rpcUrl: string;
 
   constructor(
-    private configService: ConfigService
+    private configService: ConfigService,
+    private readonly identityCache: IdentityCache,
   ) {
     // Initialize Stellar server and configuration
     const network = this.configService.get<string>('STELLAR_NETWORK', 'testnet');
@@ -166,10 +184,18 @@ export class StellarService implements PassportPort {
 
   /**
    * Get user score from the Stellar smart contract
+   * Served from the identity cache when fresh; see IdentityCache
+   */
+  async getScore(wallet: string): Promise<number> {
+    return this.identityCache.getScore(wallet, () => this.fetchScore(wallet));
+  }
+
+  /**
+   * Simulate get_score against the contract (uncached)
    * Uses actual stellar-passport bindings
    * The contract returns a u32 value directly
    */
-  async getScore(wallet: string): Promise<number> {
+  private async fetchScore(wallet: string): Promise<number> {
     try {
       this.logger.log(`Attempting to get score for wallet: ${wallet}`);
 
@@ -213,10 +239,20 @@ export class StellarService implements PassportPort {
 
   /**
    * Get user verifications from the Stellar smart contract
+   * Served from the identity cache when fresh; see IdentityCache
+   */
+  async getVerifications(wallet: string): Promise<Verification[]> {
+    return this.identityCache.getVerifications(wallet, () =>
+      this.fetchVerifications(wallet),
+    );
+  }
+
+  /**
+   * Simulate get_verifications against the contract (uncached)
    * Uses actual stellar-passport bindings
    * The contract returns a Vec<Verification>
    */
-  async getVerifications(wallet: string): Promise<Verification[]> {
+  private async fetchVerifications(wallet: string): Promise<Verification[]> {
     try {
       this.logger.log(`Attempting to get verifications for wallet: ${wallet}`);
 
@@ -540,6 +576,7 @@ export class StellarService implements PassportPort {
       
       // Submit to Soroban RPC instead of Horizon
       const result = await this.rpcServer.sendTransaction(tx);
+      this.invalidateWrittenWallets(result.hash, this.passportWallets(tx));
       
       this.logger.log(`Transaction submitted successfully. Hash: ${result.hash}`);
       return {
@@ -557,6 +594,95 @@ export class StellarService implements PassportPort {
   }
 
 
+  /**
+   * Find the Passport upsert_verification call in a transaction XDR
+   * Returns null when the XDR does not invoke upsert_verification on the configured contract
+   */
+  decodeUpsertVerification(transactionXdr: string): DecodedUpsertVerification | null {
+    const parsed = TransactionBuilder.fromXDR(transactionXdr, this.networkPassphrase);
+    const invocation = this.passportInvocations(parsed).find(
+      ({ functionName }) => functionName === 'upsert_verification',
+    );
+    if (!invocation) {
+      return null;
+    }
+
+    const [wallet, vtype, points] = invocation.args.map((arg) => scValToNative(arg));
+    // Contract enums decode as [tag, ...values]
+    const [tag, symbol] = vtype as [string, string?];
+    return {
+      sourceAccount: invocation.sourceAccount,
+      wallet: String(wallet),
+      vtype: (tag === 'Custom' ? { tag, values: [symbol] } : { tag, values: undefined }) as VerificationType,
+      points: Number(points),
+    };
+  }
+
+  /**
+   * Calls to the configured Passport contract in a transaction, in order
+   */
+  private passportInvocations(
+    parsed: ReturnType<typeof TransactionBuilder.fromXDR>,
+  ): { sourceAccount: string; functionName: string; args: xdr.ScVal[] }[] {
+    const tx = 'innerTransaction' in parsed ? parsed.innerTransaction : parsed;
+    const invocations: { sourceAccount: string; functionName: string; args: xdr.ScVal[] }[] = [];
+
+    for (const operation of tx.operations) {
+      if (operation.type !== 'invokeHostFunction') {
+        continue;
+      }
+      if (operation.func.switch() !== xdr.HostFunctionType.hostFunctionTypeInvokeContract()) {
+        continue;
+      }
+
+      const invocation = operation.func.invokeContract();
+      if (Address.fromScAddress(invocation.contractAddress()).toString() !== this.contractId) {
+        continue;
+      }
+
+      invocations.push({
+        sourceAccount: operation.source ?? tx.source,
+        functionName: invocation.functionName().toString(),
+        args: invocation.args(),
+      });
+    }
+
+    return invocations;
+  }
+
+  /**
+   * Wallets a transaction writes to: the first argument of every Passport
+   * call (register, upsert_verification, update_profile, ...)
+   */
+  private passportWallets(parsed: ReturnType<typeof TransactionBuilder.fromXDR>): string[] {
+    const wallets = new Set<string>();
+    for (const { args } of this.passportInvocations(parsed)) {
+      const wallet = args.length > 0 ? scValToNative(args[0]) : undefined;
+      if (typeof wallet === 'string' && this.validateWalletAddress(wallet)) {
+        wallets.add(wallet);
+      }
+    }
+    return [...wallets];
+  }
+
+  /**
+   * Drop cached reads of `wallets` once the transaction is submitted, and
+   * again once it is confirmed (or polling gives up): a read while it is
+   * still pending would cache the state from before the write.
+   */
+  private invalidateWrittenWallets(transactionHash: string, wallets: string[]): void {
+    if (wallets.length === 0) {
+      return;
+    }
+
+    const invalidate = () => wallets.forEach((wallet) => this.identityCache.invalidate(wallet));
+    invalidate();
+    this.rpcServer
+      .pollTransaction(transactionHash, { attempts: 30 })
+      .catch((error) => this.logger.warn(`Could not confirm transaction ${transactionHash}: ${error}`))
+      .finally(invalidate);
+  }
+
   /**
    * Update user status using upsert_verification
    * Creates a transaction to update the user's status (approved, rejected, pending)
@@ -689,27 +815,20 @@ export class StellarService implements PassportPort {
   }
 
   /**
-   * Convert string verification type to VerificationType enum
+   * Convert a verification type name to VerificationType (see parseVerificationType).
+   * Names that are not a built-in type or a valid custom symbol are rejected.
    */
   private convertToVerificationType(type: string | VerificationType): VerificationType {
     // If it's already a VerificationType, return it
     if (typeof type === 'object' && type !== null && 'tag' in type) {
       return type as VerificationType;
     }
-    
-    // Convert string to VerificationType
-    const typeStr = (type as string).toLowerCase();
-    switch (typeStr) {
-      case 'over18':
-        return { tag: 'Over18', values: undefined };
-      case 'twitter':
-        return { tag: 'Twitter', values: undefined };
-      case 'github':
-        return { tag: 'GitHub', values: undefined };
-      default:
-        // For custom types, wrap in Custom
-        return { tag: 'Custom', values: [typeStr] };
+
+    const verificationType = parseVerificationType(type as string);
+    if (!verificationType) {
+      throw new Error(`Invalid verification type: ${type}`);
     }
+    return verificationType;
   }
 
   /**
@@ -739,6 +858,35 @@ export class StellarService implements PassportPort {
     return ['approved', 'rejected', 'pending'].includes(status);
   }
 
+  /**
+   * Read the on-chain User record (DataKey::User(wallet)) straight from
+   * contract storage; the contract has no getter for it
+   * Returns null when the wallet is not registered
+   */
+  async getUserRecord(wallet: string): Promise<User | null> {
+    const key = xdr.ScVal.scvVec([
+      xdr.ScVal.scvSymbol('User'),
+      new Address(wallet).toScVal(),
+    ]);
+
+    try {
+      const entry = await this.rpcServer.getContractData(this.contractId, key, rpc.Durability.Persistent);
+      return scValToNative(entry.val.contractData().val()) as User;
+    } catch (error) {
+      if ((error as { code?: number })?.code === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Passphrase of the configured network (STELLAR_NETWORK)
+   */
+  getNetworkPassphrase(): string {
+    return this.networkPassphrase;
+  }
+
   /**
    * Validate a Stellar wallet address
    */
@@ -751,6 +899,30 @@ export class StellarService implements PassportPort {
     }
   }
 
+  /**
+   * Get a page of raw (base64 XDR) events emitted by the Passport contract
+   */
+  async getContractEvents(params: {
+    startLedger?: number;
+    cursor?: string;
+    limit: number;
+  }): Promise<rpc.Api.RawGetEventsResponse> {
+    return this.rpcServer._getEvents({
+      filters: [{ type: 'contract', contractIds: [this.contractId] }],
+      // The RPC rejects startLedger together with a cursor
+      ...(params.cursor ? { cursor: params.cursor } : { startLedger: params.startLedger }),
+      limit: params.limit,
+    });
+  }
+
+  /**
+   * Get the sequence of the latest ledger known to the RPC
+   */
+  async getLatestLedgerSequence(): Promise<number> {
+    const latestLedger = await this.rpcServer.getLatestLedger();
+    return latestLedger.sequence;
+  }
+
   /**
    * Get the current sequence number for an account
    */
@@ -1029,6 +1201,7 @@ export class StellarService implements PassportPort {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         const transactionHash = await this.buildSignAndSubmitVerification(params);
+        this.identityCache.invalidate(params.wallet);
         return { success: true, transactionHash, attempts: attempt };
       } catch (error) {
         lastError = error instanceof Error ? error.message : String(error);
@@ -1087,6 +1260,7 @@ export class StellarService implements PassportPort {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
         const transactionHash = await this.buildSignAndSubmitRegister(params);
+        this.identityCache.invalidate(params.wallet);
         return { success: true, transactionHash, attempts: attempt };
       } catch (error) {
         lastError = error instanceof Error ? error.message : String(error);
@@ -1095,6 +1269,8 @@ export class StellarService implements PassportPort {
         );
 
         if (this.isAlreadyRegisteredError(lastError)) {
+          // Any cached "not registered" answer for this wallet is stale
+          this.identityCache.invalidate(params.wallet);
           return { success: false, attempts: attempt, lastError, alreadyRegistered: true };
         }
 
@@ -1199,20 +1375,7 @@ export class StellarService implements PassportPort {
   }
 
   private isRetriableError(errorMessage: string): boolean {
-    const lower = errorMessage.toLowerCase();
-    return (
-      lower.includes('tx_bad_seq') ||
-      lower.includes('bad sequence') ||
-      lower.includes('sequence number') ||
-      lower.includes('timeout') ||
-      lower.includes('timed out') ||
-      lower.includes('econnreset') ||
-      lower.includes('econnrefused') ||
-      lower.includes('network') ||
-      lower.includes('503') ||
-      lower.includes('502') ||
-      lower.includes('504')
-    );
+    return isRetriableStellarError(errorMessage);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,261 @@
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { SumsubKycAdapter } from './sumsub-kyc.adapter';
+import { SumsubApiError, signSumsubRequest } from './sumsub.client';
+import { KycPayloadError } from '../../domain/ports/kyc-provider.port';
+
+const wallet = 'GABC1234567890ABCDEF1234567890ABCDEF1234567890ABCDEF1234567890';
+
+const adapterWith = (settings: Record<string, string>) =>
+  new SumsubKycAdapter({ get: jest.fn((key: string) => settings[key]) } as unknown as ConfigService);
+
+describe('SumsubKycAdapter', () => {
+  describe('verifyWebhook', () => {
+    const rawBody = Buffer.from('{"type":"applicantReviewed","applicantId":"applicant-id"}');
+    const digest = (algorithm: string, secret: string, body: Buffer) =>
+      crypto.createHmac(algorithm, secret).update(body).digest('hex');
+    const sumsub = adapterWith({ SUMSUB_WEBHOOK_SECRET: 'webhook-secret' });
+
+    it('accepts a SHA-256 or SHA-512 digest of the exact raw body', () => {
+      expect(
+        sumsub.verifyWebhook({
+          rawBody,
+          headers: {
+            'x-payload-digest': digest('sha256', 'webhook-secret', rawBody),
+            'x-payload-digest-alg': 'HMAC_SHA256_HEX',
+          },
+        }),
+      ).toBe(true);
+      expect(
+        sumsub.verifyWebhook({
+          rawBody,
+          headers: {
+            'x-payload-digest': digest('sha512', 'webhook-secret', rawBody),
+            'x-payload-digest-alg': 'HMAC_SHA512_HEX',
+          },
+        }),
+      ).toBe(true);
+    });
+
+    it('rejects a digest with another secret, algorithm or body', () => {
+      const reserialised = Buffer.from(JSON.stringify(JSON.parse(rawBody.toString()), null, 2));
+
+      for (const headers of [
+        { 'x-payload-digest': digest('sha256', 'other-secret', rawBody), 'x-payload-digest-alg': 'HMAC_SHA256_HEX' },
+        { 'x-payload-digest': digest('sha256', 'webhook-secret', rawBody), 'x-payload-digest-alg': 'HMAC_SHA512_HEX' },
+        { 'x-payload-digest': digest('sha256', 'webhook-secret', reserialised), 'x-payload-digest-alg': 'HMAC_SHA256_HEX' },
+      ]) {
+        expect(sumsub.verifyWebhook({ rawBody, headers })).toBe(false);
+      }
+    });
+
+    it('refuses SHA-1 digests and requests without the algorithm header', () => {
+      expect(
+        sumsub.verifyWebhook({
+          rawBody,
+          headers: {
+            'x-payload-digest': digest('sha1', 'webhook-secret', rawBody),
+            'x-payload-digest-alg': 'HMAC_SHA1_HEX',
+          },
+        }),
+      ).toBe(false);
+      expect(
+        sumsub.verifyWebhook({ rawBody, headers: { 'x-payload-digest': digest('sha256', 'webhook-secret', rawBody) } }),
+      ).toBe(false);
+    });
+
+    it('rejects everything when no secret is configured', () => {
+      expect(
+        adapterWith({}).verifyWebhook({
+          rawBody,
+          headers: { 'x-payload-digest': digest('sha256', '', rawBody), 'x-payload-digest-alg': 'HMAC_SHA256_HEX' },
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('normalizeDecision', () => {
+    const sumsub = adapterWith({});
+
+    const event = (overrides: Record<string, unknown> = {}) => ({
+      type: 'applicantReviewed',
+      applicantId: 'applicant-id',
+      externalUserId: wallet,
+      correlationId: 'correlation-id',
+      levelName: 'basic-kyc-level',
+      reviewStatus: 'completed',
+      createdAtMs: '2025-03-01 12:00:00.123',
+      reviewResult: { reviewAnswer: 'GREEN' },
+      ...overrides,
+    });
+
+    it('approves GREEN reviews of the applicant', () => {
+      expect(sumsub.normalizeDecision(event())).toEqual({
+        provider: 'sumsub',
+        webhookId: 'correlation-id',
+        sessionToken: 'applicant-id',
+        sessionId: 'applicant-id',
+        providerStatus: 'GREEN',
+        status: 'APPROVED',
+        resubmission: false,
+        reason: undefined,
+        decidedAt: new Date('2025-03-01T12:00:00.123Z'),
+        reportedWallet: wallet,
+      });
+    });
+
+    it('rejects final RED reviews and asks for a resubmission on RETRY', () => {
+      const final = sumsub.normalizeDecision(
+        event({ reviewResult: { reviewAnswer: 'RED', reviewRejectType: 'FINAL', rejectLabels: ['FORGERY', 'SPAM'] } }),
+      );
+      const retry = sumsub.normalizeDecision(
+        event({ reviewResult: { reviewAnswer: 'RED', reviewRejectType: 'RETRY', moderationComment: 'Blurred photo' } }),
+      );
+
+      expect(final).toEqual(expect.objectContaining({ status: 'REJECTED', resubmission: false, reason: 'FORGERY, SPAM' }));
+      expect(retry).toEqual(expect.objectContaining({ status: 'PENDING', resubmission: true, reason: 'Blurred photo' }));
+    });
+
+    it('returns null for events without a decision', () => {
+      expect(sumsub.normalizeDecision(event({ type: 'applicantPending', reviewResult: undefined }))).toBeNull();
+    });
+
+    it('refuses events it cannot read', () => {
+      expect(() => sumsub.normalizeDecision({ type: 'applicantReviewed' })).toThrow(KycPayloadError);
+      expect(() => sumsub.normalizeDecision(event({ reviewResult: { reviewAnswer: 'YELLOW' } }))).toThrow(KycPayloadError);
+      expect(() => sumsub.normalizeDecision(event({ createdAtMs: undefined }))).toThrow(KycPayloadError);
+    });
+  });
+
+  describe('API requests', () => {
+    let server: http.Server;
+    let received: Array<{ method: string; url: string; headers: http.IncomingHttpHeaders; body: string }>;
+    let replies: Record<string, { status: number; body: unknown }>;
+    let baseUrl: string;
+
+    // Local stand-in for the Sumsub API
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ method: req.method, url: req.url, headers: req.headers, body });
+          const reply = replies[`${req.method} ${req.url.split('?')[0]}`] ?? { status: 404, body: {} };
+          res.statusCode = reply.status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(reply.body));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      received = [];
+      replies = {
+        'POST /resources/applicants': { status: 201, body: { id: 'applicant-id', externalUserId: wallet } },
+        'POST /resources/sdkIntegrations/levels/-/websdkLink': {
+          status: 200,
+          body: { url: 'https://in.sumsub.com/websdk/p/abc' },
+        },
+      };
+    });
+
+    const configured = () =>
+      adapterWith({
+        SUMSUB_BASE_URL: baseUrl,
+        SUMSUB_APP_TOKEN: 'app-token',
+        SUMSUB_SECRET_KEY: 'secret-key',
+        SUMSUB_WEBHOOK_SECRET: 'webhook-secret',
+        SUMSUB_LEVEL_NAME: 'basic-kyc-level',
+      });
+
+    it('creates the wallet applicant and a WebSDK link with signed requests', async () => {
+      const session = await configured().createSession(wallet);
+
+      expect(session).toEqual({ id: 'applicant-id', url: 'https://in.sumsub.com/websdk/p/abc' });
+
+      const [applicant, link] = received;
+      expect(applicant.url).toBe('/resources/applicants?levelName=basic-kyc-level');
+      expect(JSON.parse(applicant.body)).toEqual({ externalUserId: wallet });
+      expect(applicant.headers['x-app-token']).toBe('app-token');
+      expect(applicant.headers['x-app-access-sig']).toBe(
+        signSumsubRequest('secret-key', Number(applicant.headers['x-app-access-ts']), 'POST', applicant.url, applicant.body),
+      );
+      expect(JSON.parse(link.body)).toEqual({ levelName: 'basic-kyc-level', userId: wallet, ttlInSecs: 1800 });
+    });
+
+    it('reuses the applicant of a wallet that already has one', async () => {
+      replies['POST /resources/applicants'] = { status: 409, body: { description: 'Applicant already exists' } };
+      replies[`GET /resources/applicants/-;externalUserId=${wallet}/one`] = {
+        status: 200,
+        body: { id: 'existing-applicant-id' },
+      };
+
+      const session = await configured().createSession(wallet);
+
+      expect(session.id).toBe('existing-applicant-id');
+      expect(received.map((request) => request.method)).toEqual(['POST', 'GET', 'POST']);
+    });
+
+    it('throws SumsubApiError when Sumsub rejects the request', async () => {
+      replies['POST /resources/applicants'] = { status: 401, body: { description: 'Invalid signature' } };
+
+      await expect(configured().createSession(wallet)).rejects.toThrow(SumsubApiError);
+      await expect(configured().createSession(wallet)).rejects.toThrow('Invalid signature');
+    });
+
+    it('reads the date of birth and the identity document of an applicant', async () => {
+      replies['GET /resources/applicants/applicant-id/one'] = {
+        status: 200,
+        body: {
+          id: 'applicant-id',
+          info: {
+            dob: '1990-05-17',
+            idDocs: [{ idDocType: 'SELFIE' }, { idDocType: 'PASSPORT', country: 'EST', number: 'AB123' }],
+          },
+        },
+      };
+
+      const details = await configured().fetchApprovalDetails('applicant-id');
+
+      expect(details).toEqual({
+        dateOfBirth: '1990-05-17',
+        document: { type: 'PASSPORT', number: 'AB123', country: 'EST' },
+      });
+      const [request] = received;
+      expect(request.headers['x-app-access-sig']).toBe(
+        signSumsubRequest('secret-key', Number(request.headers['x-app-access-ts']), 'GET', request.url, ''),
+      );
+    });
+
+    it('leaves out a date of birth or document Sumsub has not read', async () => {
+      replies['GET /resources/applicants/applicant-id/one'] = {
+        status: 200,
+        body: { id: 'applicant-id', info: { dob: '17.05.1990', idDocs: [{ idDocType: 'PASSPORT' }] } },
+      };
+
+      expect(await configured().fetchApprovalDetails('applicant-id')).toEqual({
+        dateOfBirth: undefined,
+        document: undefined,
+      });
+    });
+
+    it('throws SumsubApiError when the applicant cannot be read', async () => {
+      replies['GET /resources/applicants/applicant-id/one'] = { status: 503, body: 'unavailable' };
+
+      await expect(configured().fetchApprovalDetails('applicant-id')).rejects.toThrow(SumsubApiError);
+    });
+
+    it('is configured only with the app token, secret key, level and webhook secret', () => {
+      expect(configured().isConfigured()).toBe(true);
+      expect(adapterWith({ SUMSUB_APP_TOKEN: 'app-token', SUMSUB_SECRET_KEY: 'secret-key' }).isConfigured()).toBe(false);
+    });
+  });
+});
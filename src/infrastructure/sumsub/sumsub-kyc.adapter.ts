@@ -0,0 +1,150 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { KycPayloadError, KycProviderPort } from '../../domain/ports/kyc-provider.port';
+import {
+  KycDecision,
+  KycProviderSession,
+  KycWebhookRequest,
+  webhookHeader,
+} from '../../domain/entities/kyc.entity';
+import { SumsubConfig, SumsubWebhookPayload } from '../../domain/entities/sumsub.entity';
+import { SumsubClient } from './sumsub.client';
+
+/** X-Payload-Digest-Alg values accepted, and their HMAC digest */
+const WEBHOOK_DIGESTS: Record<string, string> = {
+  HMAC_SHA256_HEX: 'sha256',
+  HMAC_SHA512_HEX: 'sha512',
+};
+
+/**
+ * Sumsub behind KycProviderPort. Each wallet is one applicant (its
+ * externalUserId), and sessions are WebSDK links for it at
+ * SUMSUB_LEVEL_NAME. Webhooks are signed with the webhook's secret key
+ * (SUMSUB_WEBHOOK_SECRET); only `applicantReviewed` events carry a
+ * decision. Sumsub does not send the date of birth or the document in
+ * webhooks; fetchApprovalDetails reads them from the applicant, so
+ * approvals get the same Over18 and duplicate document checks as Veriff's.
+ */
+@Injectable()
+export class SumsubKycAdapter implements KycProviderPort {
+  readonly name = 'sumsub' as const;
+  readonly label = 'Sumsub';
+  private readonly logger = new Logger(SumsubKycAdapter.name);
+  private readonly config: SumsubConfig;
+  private readonly client: SumsubClient;
+  private readonly linkTtlSeconds: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = {
+      appToken: this.configService.get<string>('SUMSUB_APP_TOKEN') || '',
+      secretKey: this.configService.get<string>('SUMSUB_SECRET_KEY') || '',
+      webhookSecret: this.configService.get<string>('SUMSUB_WEBHOOK_SECRET') || '',
+      baseUrl: this.configService.get<string>('SUMSUB_BASE_URL') || 'https://api.sumsub.com',
+      levelName: this.configService.get<string>('SUMSUB_LEVEL_NAME') || '',
+    };
+    this.client = new SumsubClient(
+      this.config,
+      Number(this.configService.get<string>('SUMSUB_TIMEOUT_MS') || '10000'),
+    );
+    this.linkTtlSeconds = Number(this.configService.get<string>('SUMSUB_LINK_TTL_SECONDS') || '1800');
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured() && !!this.config.webhookSecret;
+  }
+
+  async createSession(wallet: string): Promise<KycProviderSession> {
+    const applicantId = await this.client.findOrCreateApplicant(wallet);
+    const url = await this.client.createWebSdkLink(wallet, this.linkTtlSeconds);
+    return { id: applicantId, url };
+  }
+
+  /**
+   * X-Payload-Digest must be the hex HMAC of the raw body with the webhook
+   * secret, using the digest named in X-Payload-Digest-Alg (SHA-256 or
+   * SHA-512; SHA-1 is refused). Without a secret every request is rejected.
+   */
+  verifyWebhook(request: KycWebhookRequest): boolean {
+    try {
+      if (!this.config.webhookSecret) {
+        this.logger.error('Sumsub webhook secret not configured; rejecting webhook');
+        return false;
+      }
+
+      const digest = webhookHeader(request, 'x-payload-digest');
+      const algorithm = WEBHOOK_DIGESTS[webhookHeader(request, 'x-payload-digest-alg') ?? ''];
+      if (!request.rawBody || !digest || !algorithm) {
+        this.logger.warn('Sumsub webhook without raw body, digest or a supported digest algorithm');
+        return false;
+      }
+
+      const expected = crypto.createHmac(algorithm, this.config.webhookSecret).update(request.rawBody).digest();
+      const provided = Buffer.from(digest.trim(), 'hex');
+
+      return provided.length === expected.length && crypto.timingSafeEqual(expected, provided);
+    } catch (error) {
+      this.logger.error('Failed to verify Sumsub webhook digest', error);
+      return false;
+    }
+  }
+
+  /**
+   * The decision of an `applicantReviewed` event: GREEN approves, RED with
+   * a RETRY reject type asks for a resubmission and any other RED rejects.
+   * Null for other events.
+   */
+  normalizeDecision(payload: unknown): KycDecision | null {
+    const webhook = payload as SumsubWebhookPayload;
+    if (
+      typeof webhook?.type !== 'string' ||
+      typeof webhook.applicantId !== 'string' ||
+      typeof webhook.correlationId !== 'string'
+    ) {
+      throw new KycPayloadError('Sumsub webhook without type, applicantId or correlationId');
+    }
+
+    if (webhook.type !== 'applicantReviewed') {
+      return null;
+    }
+
+    const review = webhook.reviewResult;
+    if ((review?.reviewAnswer !== 'GREEN' && review?.reviewAnswer !== 'RED') || !webhook.createdAtMs) {
+      throw new KycPayloadError('Sumsub applicantReviewed webhook without a review answer or createdAtMs');
+    }
+
+    const resubmission = review.reviewAnswer === 'RED' && review.reviewRejectType === 'RETRY';
+
+    return {
+      provider: this.name,
+      webhookId: webhook.correlationId,
+      sessionToken: webhook.applicantId,
+      sessionId: webhook.applicantId,
+      providerStatus: review.reviewAnswer,
+      status: review.reviewAnswer === 'GREEN' ? 'APPROVED' : resubmission ? 'PENDING' : 'REJECTED',
+      resubmission,
+      reason: review.moderationComment ?? review.rejectLabels?.join(', '),
+      decidedAt: new Date(`${webhook.createdAtMs.replace(' ', 'T')}Z`),
+      reportedWallet: webhook.externalUserId,
+    };
+  }
+
+  /**
+   * The date of birth and the first identity document with a number that
+   * Sumsub read for the applicant. Countries are ISO alpha-3 as Sumsub
+   * reports them.
+   */
+  async fetchApprovalDetails(applicantId: string): Promise<Pick<KycDecision, 'dateOfBirth' | 'document'>> {
+    const applicant = await this.client.getApplicant(applicantId);
+    const dateOfBirth = applicant.info?.dob;
+    const idDoc = applicant.info?.idDocs?.find((doc) => doc.idDocType && doc.number);
+
+    return {
+      dateOfBirth: dateOfBirth && /^\d{4}-\d{2}-\d{2}$/.test(dateOfBirth) ? dateOfBirth : undefined,
+      document:
+        idDoc?.idDocType && idDoc.number
+          ? { type: idDoc.idDocType, number: idDoc.number, country: idDoc.country }
+          : undefined,
+    };
+  }
+}
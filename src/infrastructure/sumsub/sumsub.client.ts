@@ -0,0 +1,148 @@
+import * as crypto from 'crypto';
+import { SumsubApplicant, SumsubConfig } from '../../domain/entities/sumsub.entity';
+
+interface SumsubResponse {
+  status: number;
+  ok: boolean;
+  body: unknown;
+}
+
+export class SumsubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'SumsubApiError';
+  }
+}
+
+/**
+ * Signature of an API request, as expected in `X-App-Access-Sig`: hex
+ * HMAC-SHA256, with the app token's secret, of the timestamp (Unix
+ * seconds), the upper-case method, the path with its query and the body.
+ */
+export function signSumsubRequest(
+  secretKey: string,
+  timestamp: number,
+  method: string,
+  path: string,
+  body = '',
+): string {
+  return crypto
+    .createHmac('sha256', secretKey)
+    .update(`${timestamp}${method.toUpperCase()}${path}${body}`)
+    .digest('hex');
+}
+
+/**
+ * Minimal client for the Sumsub API. Requests are signed with the app
+ * token's secret (SUMSUB_SECRET_KEY) and carry the token in
+ * `X-App-Token`.
+ */
+export class SumsubClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly config: SumsubConfig,
+    private readonly timeoutMs = 10000,
+  ) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.appToken && !!this.config.secretKey && !!this.config.levelName;
+  }
+
+  /**
+   * The applicant for `externalUserId`, created at the configured level
+   * unless it exists already. Throws SumsubApiError when Sumsub rejects
+   * the request or is unreachable.
+   */
+  async findOrCreateApplicant(externalUserId: string): Promise<string> {
+    const created = await this.request(
+      'POST',
+      `/resources/applicants?levelName=${encodeURIComponent(this.config.levelName)}`,
+      { externalUserId },
+    );
+
+    if (created.status !== 409) {
+      return this.expect<SumsubApplicant>(created, 'Sumsub applicant creation failed').id;
+    }
+
+    const existing = await this.request(
+      'GET',
+      `/resources/applicants/-;externalUserId=${encodeURIComponent(externalUserId)}/one`,
+    );
+    return this.expect<SumsubApplicant>(existing, 'Sumsub applicant lookup failed').id;
+  }
+
+  /**
+   * The applicant with what Sumsub read from their documents. Throws
+   * SumsubApiError like findOrCreateApplicant.
+   */
+  async getApplicant(applicantId: string): Promise<SumsubApplicant> {
+    const response = await this.request('GET', `/resources/applicants/${encodeURIComponent(applicantId)}/one`);
+    return this.expect<SumsubApplicant>(response, 'Sumsub applicant lookup failed');
+  }
+
+  /**
+   * A WebSDK link through which the applicant completes the verification.
+   * Throws SumsubApiError like findOrCreateApplicant.
+   */
+  async createWebSdkLink(externalUserId: string, ttlSeconds: number): Promise<string> {
+    const response = await this.request('POST', '/resources/sdkIntegrations/levels/-/websdkLink', {
+      levelName: this.config.levelName,
+      userId: externalUserId,
+      ttlInSecs: ttlSeconds,
+    });
+    return this.expect<{ url: string }>(response, 'Sumsub WebSDK link creation failed', 'url').url;
+  }
+
+  private async request(
+    method: string,
+    path: string,
+    payload?: unknown,
+  ): Promise<SumsubResponse> {
+    const body = payload === undefined ? '' : JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          'X-App-Token': this.config.appToken,
+          'X-App-Access-Ts': String(timestamp),
+          'X-App-Access-Sig': signSumsubRequest(this.config.secretKey, timestamp, method, path, body),
+        },
+        body: body || undefined,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new SumsubApiError(`Sumsub unreachable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return {
+      status: response.status,
+      ok: response.ok,
+      body: await response.json().catch(() => null),
+    };
+  }
+
+  /** The body of a successful response that has `field`, as T */
+  private expect<T>(response: SumsubResponse, failure: string, field = 'id'): T {
+    const body =
+      response.body !== null && typeof response.body === 'object'
+        ? (response.body as Record<string, unknown>)
+        : null;
+
+    if (!response.ok || !body?.[field]) {
+      const detail = typeof body?.description === 'string' ? body.description : `HTTP ${response.status}`;
+      throw new SumsubApiError(`${failure}: ${detail}`, response.status);
+    }
+    return body as T;
+  }
+}
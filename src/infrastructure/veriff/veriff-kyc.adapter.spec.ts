@@ -0,0 +1,141 @@
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { VeriffKycAdapter } from './veriff-kyc.adapter';
+import { KycPayloadError } from '../../domain/ports/kyc-provider.port';
+import { VeriffWebhookDto } from '../../domain/entities/veriff.entity';
+
+const wallet = 'GABCDEFGHIJKLMNOPQRSTUVWXYZ234567ABCDEFGHIJKLMNOPQRSTUVW';
+
+const adapterWith = (settings: Record<string, string>) =>
+  new VeriffKycAdapter({ get: jest.fn((key: string) => settings[key]) } as unknown as ConfigService);
+
+describe('VeriffKycAdapter', () => {
+  describe('verifyWebhook', () => {
+    const rawBody = Buffer.from('{"status":"approved","verification":{"id":"verification-id"}}');
+    const sign = (secret: string, body: Buffer) =>
+      crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+    const configured = { VERIFF_WEBHOOK_SECRET: 'shared-secret', VERIFF_API_KEY: 'api-key' };
+
+    it('accepts the HMAC of the exact raw body', () => {
+      const veriff = adapterWith(configured);
+
+      expect(
+        veriff.verifyWebhook({
+          rawBody,
+          headers: { 'x-hmac-signature': sign('shared-secret', rawBody), 'x-auth-client': 'api-key' },
+        }),
+      ).toBe(true);
+    });
+
+    it('rejects a signature over a re-serialised body', () => {
+      const veriff = adapterWith(configured);
+      const reserialised = Buffer.from(JSON.stringify(JSON.parse(rawBody.toString()), null, 2));
+
+      expect(
+        veriff.verifyWebhook({
+          rawBody,
+          headers: { 'x-hmac-signature': sign('shared-secret', reserialised), 'x-auth-client': 'api-key' },
+        }),
+      ).toBe(false);
+    });
+
+    it('rejects a mismatched X-AUTH-CLIENT', () => {
+      const veriff = adapterWith(configured);
+
+      expect(
+        veriff.verifyWebhook({
+          rawBody,
+          headers: { 'x-hmac-signature': sign('shared-secret', rawBody), 'x-auth-client': 'other-key' },
+        }),
+      ).toBe(false);
+    });
+
+    it('rejects a missing signature or raw body', () => {
+      const veriff = adapterWith(configured);
+
+      expect(veriff.verifyWebhook({ rawBody, headers: { 'x-auth-client': 'api-key' } })).toBe(false);
+      expect(
+        veriff.verifyWebhook({
+          headers: { 'x-hmac-signature': sign('shared-secret', rawBody), 'x-auth-client': 'api-key' },
+        }),
+      ).toBe(false);
+    });
+
+    it('rejects everything when no secret is configured', () => {
+      const veriff = adapterWith({});
+
+      expect(veriff.verifyWebhook({ rawBody, headers: { 'x-hmac-signature': 'anything' } })).toBe(false);
+    });
+
+    it('skips verification without a secret only in explicit dev mode', () => {
+      const dev = adapterWith({ VERIFF_WEBHOOK_DEV_MODE: 'true' });
+      const production = adapterWith({ VERIFF_WEBHOOK_DEV_MODE: 'true', NODE_ENV: 'production' });
+
+      expect(dev.verifyWebhook({ rawBody, headers: {} })).toBe(true);
+      expect(production.verifyWebhook({ rawBody, headers: {} })).toBe(false);
+    });
+  });
+
+  describe('normalizeDecision', () => {
+    const veriff = adapterWith({});
+
+    const webhook = (overrides: Partial<VeriffWebhookDto> = {}) =>
+      ({
+        id: 'webhook-id',
+        status: 'approved',
+        code: '9001',
+        reason: 'Document verified',
+        sessionToken: 'session-token',
+        verification: {
+          id: 'verification-id',
+          person: { firstName: 'John', lastName: 'Doe', dateOfBirth: '1990-05-17' },
+          document: { type: 'PASSPORT', number: 'A1234567', validFrom: '2020-01-01', validUntil: '2030-01-01', country: 'EE' },
+        },
+        vendorData: wallet,
+        timestamp: '2025-03-01T12:00:00.000Z',
+        ...overrides,
+      }) as VeriffWebhookDto;
+
+    it('reads the decision, the session and the person', () => {
+      expect(veriff.normalizeDecision(webhook())).toEqual({
+        provider: 'veriff',
+        webhookId: 'webhook-id',
+        sessionToken: 'session-token',
+        sessionId: 'verification-id',
+        providerStatus: 'approved',
+        status: 'APPROVED',
+        resubmission: false,
+        reason: 'Document verified',
+        decidedAt: new Date('2025-03-01T12:00:00.000Z'),
+        reportedWallet: wallet,
+        dateOfBirth: '1990-05-17',
+        document: { type: 'PASSPORT', number: 'A1234567', country: 'EE' },
+      });
+    });
+
+    it.each([
+      ['APPROVED', 'APPROVED', false],
+      ['declined', 'REJECTED', false],
+      ['REJECTED', 'REJECTED', false],
+      ['resubmission_requested', 'PENDING', true],
+      ['PENDING', 'PENDING', false],
+      ['UNKNOWN', 'PENDING', false],
+    ])('maps Veriff status %s to %s', (veriffStatus, status, resubmission) => {
+      expect(veriff.normalizeDecision(webhook({ status: veriffStatus }))).toEqual(
+        expect.objectContaining({ status, resubmission }),
+      );
+    });
+
+    it('reports the wallet from JSON vendorData and ignores anything else', () => {
+      expect(veriff.normalizeDecision(webhook({ vendorData: JSON.stringify({ wallet }) })).reportedWallet).toBe(wallet);
+      expect(veriff.normalizeDecision(webhook({ vendorData: 'user-42' })).reportedWallet).toBeUndefined();
+    });
+
+    it('refuses payloads without an id, session token or verification id', () => {
+      expect(() => veriff.normalizeDecision({ ...webhook(), verification: undefined })).toThrow(KycPayloadError);
+      expect(() => veriff.normalizeDecision({ ...webhook(), sessionToken: '' })).toThrow(KycPayloadError);
+      expect(() => veriff.normalizeDecision(null)).toThrow(KycPayloadError);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { KycPayloadError, KycProviderPort } from '../../domain/ports/kyc-provider.port';
+import {
+  KycDecision,
+  KycProviderSession,
+  KycWebhookRequest,
+  webhookHeader,
+} from '../../domain/entities/kyc.entity';
+import { VeriffConfig, VeriffDecision, VeriffWebhookDto } from '../../domain/entities/veriff.entity';
+import { StatusType } from '../../domain/entities/admin.entity';
+import { VeriffClient } from './veriff.client';
+
+/**
+ * Veriff behind KycProviderPort. Sessions carry the wallet as vendorData;
+ * webhooks are signed with the integration's shared secret
+ * (VERIFF_WEBHOOK_SECRET) and decided sessions are identified by
+ * `verification.id`.
+ */
+@Injectable()
+export class VeriffKycAdapter implements KycProviderPort {
+  readonly name = 'veriff' as const;
+  readonly label = 'Veriff';
+  private readonly logger = new Logger(VeriffKycAdapter.name);
+  private readonly config: VeriffConfig;
+  private readonly client: VeriffClient;
+
+  constructor(private readonly configService: ConfigService) {
+    this.config = {
+      webhookSecret: this.configService.get<string>('VERIFF_WEBHOOK_SECRET') || '',
+      baseUrl: this.configService.get<string>('VERIFF_BASE_URL') || 'https://stationapi.veriff.com',
+      apiKey: this.configService.get<string>('VERIFF_API_KEY') || '',
+    };
+    this.client = new VeriffClient(
+      this.config,
+      Number(this.configService.get<string>('VERIFF_TIMEOUT_MS') || '10000'),
+    );
+  }
+
+  isConfigured(): boolean {
+    return this.client.isConfigured();
+  }
+
+  createSession(wallet: string): Promise<KycProviderSession> {
+    return this.client.createSession({
+      vendorData: wallet,
+      callback: this.configService.get<string>('VERIFF_CALLBACK_URL') || undefined,
+    });
+  }
+
+  /**
+   * X-AUTH-CLIENT must be our API key and X-HMAC-SIGNATURE the hex
+   * HMAC-SHA256 of the raw body with the shared secret. Without a secret
+   * every request is rejected, unless VERIFF_WEBHOOK_DEV_MODE=true outside
+   * production.
+   */
+  verifyWebhook(request: KycWebhookRequest): boolean {
+    try {
+      if (!this.config.webhookSecret) {
+        if (this.isDevMode()) {
+          this.logger.warn('Veriff webhook secret not configured; skipping signature verification (dev mode)');
+          return true;
+        }
+        this.logger.error('Veriff webhook secret not configured; rejecting webhook');
+        return false;
+      }
+
+      const signature = webhookHeader(request, 'x-hmac-signature');
+      if (!request.rawBody || !signature) {
+        this.logger.warn('Veriff webhook without raw body or signature header');
+        return false;
+      }
+
+      if (this.config.apiKey && webhookHeader(request, 'x-auth-client') !== this.config.apiKey) {
+        this.logger.warn('Veriff webhook X-AUTH-CLIENT does not match the configured API key');
+        return false;
+      }
+
+      const expectedSignature = crypto
+        .createHmac('sha256', this.config.webhookSecret)
+        .update(request.rawBody)
+        .digest();
+
+      const providedSignature = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+
+      return (
+        providedSignature.length === expectedSignature.length &&
+        crypto.timingSafeEqual(expectedSignature, providedSignature)
+      );
+    } catch (error) {
+      this.logger.error('Failed to verify webhook signature', error);
+      return false;
+    }
+  }
+
+  /**
+   * Every Veriff decision webhook carries a decision; the wallet in
+   * vendorData is only reported, see KycDecision.reportedWallet.
+   */
+  normalizeDecision(payload: unknown): KycDecision {
+    const webhook = payload as VeriffWebhookDto;
+    if (!webhook?.id || !webhook.sessionToken || !webhook.status || !webhook.verification?.id) {
+      throw new KycPayloadError('Veriff webhook without id, sessionToken, status or verification id');
+    }
+
+    const document = webhook.verification.document;
+
+    return {
+      provider: this.name,
+      webhookId: webhook.id,
+      sessionToken: webhook.sessionToken,
+      sessionId: webhook.verification.id,
+      providerStatus: webhook.status,
+      status: this.mapStatus(webhook.status),
+      resubmission: webhook.status.toUpperCase() === VeriffDecision.RESUBMISSION_REQUESTED,
+      reason: webhook.reason,
+      decidedAt: new Date(webhook.timestamp),
+      reportedWallet: this.extractWalletFromVendorData(webhook.vendorData) ?? undefined,
+      dateOfBirth: webhook.verification.person?.dateOfBirth,
+      document: document?.type && document?.number
+        ? { type: document.type, number: document.number, country: document.country }
+        : undefined,
+    };
+  }
+
+  private isDevMode(): boolean {
+    return (
+      this.configService.get<string>('VERIFF_WEBHOOK_DEV_MODE') === 'true' &&
+      this.configService.get<string>('NODE_ENV') !== 'production'
+    );
+  }
+
+  /**
+   * Extract wallet address from vendorData
+   * Assumes vendorData contains the wallet address
+   */
+  private extractWalletFromVendorData(vendorData: string | undefined): string | null {
+    if (!vendorData) {
+      return null;
+    }
+
+    try {
+      // Try to parse as JSON first
+      const parsed = JSON.parse(vendorData);
+      if (parsed.wallet) {
+        return parsed.wallet;
+      }
+    } catch {
+      // If not JSON, assume vendorData is the wallet address directly
+      if (/^G[A-Z0-9]{55}$/.test(vendorData)) {
+        return vendorData;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Map Veriff decision to our status system
+   */
+  private mapStatus(veriffStatus: string): StatusType {
+    const status = veriffStatus.toUpperCase();
+
+    switch (status) {
+      case 'APPROVED':
+        return 'APPROVED';
+
+      case 'DECLINED':
+      case 'REJECTED':
+        return 'REJECTED';
+
+      case 'RESUBMISSION_REQUESTED':
+      case 'PENDING':
+        return 'PENDING';
+
+      default:
+        this.logger.warn(`Unknown Veriff status: ${status}, defaulting to PENDING`);
+        return 'PENDING';
+    }
+  }
+}
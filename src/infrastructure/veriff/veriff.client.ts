@@ -0,0 +1,107 @@
+import * as crypto from 'crypto';
+import { VeriffConfig } from '../../domain/entities/veriff.entity';
+
+export interface VeriffCreatedSession {
+  /** Veriff session (verification) id, echoed as `verification.id` in decisions */
+  id: string;
+  url: string;
+  sessionToken?: string;
+}
+
+/** Body of POST /v1/sessions, as far as it is read; failures carry a message */
+interface VeriffSessionResponse {
+  status?: string;
+  message?: string;
+  verification?: {
+    id?: string;
+    url?: string;
+    sessionToken?: string;
+  };
+}
+
+export class VeriffApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'VeriffApiError';
+  }
+}
+
+/**
+ * HMAC-SHA256 of the exact request body with the Veriff shared secret,
+ * hex encoded, as expected in `X-HMAC-SIGNATURE`.
+ */
+export function signVeriffPayload(secret: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/**
+ * Minimal client for the Veriff Station API. Requests carry the API key in
+ * `X-AUTH-CLIENT` and a body signature in `X-HMAC-SIGNATURE`, signed with
+ * the integration's shared secret (the same secret Veriff signs webhooks
+ * with, VERIFF_WEBHOOK_SECRET).
+ */
+export class VeriffClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly config: VeriffConfig,
+    private readonly timeoutMs = 10000,
+  ) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey && !!this.config.webhookSecret;
+  }
+
+  /**
+   * Create a verification session. Throws VeriffApiError when Veriff
+   * rejects the request or is unreachable.
+   */
+  async createSession(params: {
+    vendorData: string;
+    callback?: string;
+  }): Promise<VeriffCreatedSession> {
+    const body = JSON.stringify({
+      verification: {
+        ...(params.callback ? { callback: params.callback } : {}),
+        vendorData: params.vendorData,
+      },
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v1/sessions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-AUTH-CLIENT': this.config.apiKey,
+          'X-HMAC-SIGNATURE': signVeriffPayload(this.config.webhookSecret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new VeriffApiError(
+        `Veriff unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const payload = (await response.json().catch(() => null)) as VeriffSessionResponse | null;
+    const verification = payload?.verification;
+
+    if (!response.ok || payload?.status !== 'success' || !verification?.id || !verification.url) {
+      const detail = payload?.message ?? payload?.status ?? `HTTP ${response.status}`;
+      throw new VeriffApiError(`Veriff session creation failed: ${detail}`, response.status);
+    }
+
+    return {
+      id: verification.id,
+      url: verification.url,
+      sessionToken: verification.sessionToken,
+    };
+  }
+}
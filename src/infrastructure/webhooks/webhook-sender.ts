@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { WebhookEvent } from '../../domain/entities/webhook.entity';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Veridion-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Veridion-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Veridion-Delivery';
+
+export interface WebhookSendResult {
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded. Receivers recompute
+ * it from the raw request body and the `t` value of the signature header,
+ * and should reject timestamps too far from their own clock.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * POSTs signed webhook events to integrator endpoints. The signature header
+ * has the form `t=<unix seconds>,v1=<hex hmac>`.
+ */
+@Injectable()
+export class WebhookSender {
+  private readonly timeoutMs: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.timeoutMs = Number(this.configService.get<string>('WEBHOOK_TIMEOUT_MS', '10000'));
+  }
+
+  async send(
+    url: string,
+    secret: string,
+    deliveryId: string,
+    event: WebhookEvent,
+  ): Promise<WebhookSendResult> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Veridion-Webhooks/1.0',
+          [WEBHOOK_EVENT_HEADER]: event.type,
+          [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+          [WEBHOOK_SIGNATURE_HEADER]: `t=${timestamp},v1=${signWebhookPayload(secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+
+      return response.ok
+        ? { ok: true, status: response.status }
+        : { ok: false, status: response.status, error: `HTTP ${response.status}` };
+    } catch (error) {
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, benchmark, multicast
+// and reserved ranges: nothing an integrator endpoint lives on
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether `address` (IPv4 or IPv6, IPv4-mapped included) is not publicly routable */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Why the dispatcher must not send to `url`, or null when it may: endpoints
+ * are https and resolve only to public addresses, so deliveries cannot be
+ * pointed at the backend's own network.
+ */
+export async function webhookUrlProblem(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'Webhook URL must not point to a private or loopback address';
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      return `Webhook URL host ${host} does not resolve`;
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return 'Webhook URL must not point to a private or loopback address';
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  ServiceUnavailableException,
+  UnauthorizedException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminAuthService } from '../../application/services/admin-auth.service';
+import {
+  AdminLoginDto,
+  AdminLoginResponse,
+  AdminPrincipal,
+  ADMIN_ROLES,
+} from '../../domain/entities/admin-user.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - Auth')
+@Controller('admin/auth')
+export class AdminAuthController {
+  constructor(private readonly adminAuthService: AdminAuthService) {}
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Log in as an admin',
+    description: 'Returns a session token to send as Authorization: Bearer <token> on /admin routes',
+  })
+  @ApiResponse({ status: 200, description: 'Logged in' })
+  @ApiResponse({ status: 401, description: 'Invalid email or password' })
+  @ApiResponse({ status: 503, description: 'ADMIN_JWT_SECRET not configured' })
+  async login(@Body() dto: AdminLoginDto): Promise<AdminLoginResponse> {
+    const result = await this.adminAuthService.login(dto);
+
+    if (result.error === 'NOT_CONFIGURED') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (!result.success) {
+      throw new UnauthorizedException(result.message);
+    }
+
+    return result;
+  }
+
+  @Get('me')
+  @UseGuards(AdminAuthGuard)
+  @RequireAdminRoles(...ADMIN_ROLES)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'The admin behind the session token' })
+  @ApiResponse({ status: 200, description: 'Admin retrieved' })
+  @ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+  me(@Req() request: AdminRequest): { success: boolean; admin: AdminPrincipal } {
+    return { success: true, admin: request.admin };
+  }
+}
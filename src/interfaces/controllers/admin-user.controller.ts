@@ -0,0 +1,94 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminAuthService } from '../../application/services/admin-auth.service';
+import {
+  AdminUserListResponse,
+  AdminUserResponse,
+  CreateAdminUserDto,
+} from '../../domain/entities/admin-user.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+
+/**
+ * Admin account management. Superadmin only: no @RequireAdminRoles.
+ */
+@ApiTags('Admin - Users')
+@Controller('admin/users')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Only superadmins manage admins' })
+export class AdminUserController {
+  constructor(private readonly adminAuthService: AdminAuthService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create an admin with a role' })
+  @ApiResponse({ status: 201, description: 'Admin created' })
+  @ApiResponse({ status: 409, description: 'An admin with this email already exists' })
+  async create(
+    @Req() request: AdminRequest,
+    @Body() dto: CreateAdminUserDto,
+  ): Promise<AdminUserResponse> {
+    const result = await this.adminAuthService.createUser(dto, request.admin.email);
+
+    if (result.error === 'ALREADY_EXISTS') {
+      throw new ConflictException(result.message);
+    }
+
+    return result;
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List admins (without password hashes)' })
+  @ApiResponse({ status: 200, description: 'Admins retrieved' })
+  async list(): Promise<AdminUserListResponse> {
+    return { success: true, admins: await this.adminAuthService.listUsers() };
+  }
+
+  @Post(':id/disable')
+  @ApiOperation({
+    summary: 'Disable an admin',
+    description: 'Tokens already issued to the admin stop working immediately',
+  })
+  @ApiParam({ name: 'id', description: 'Admin ID' })
+  @ApiResponse({ status: 201, description: 'Admin disabled' })
+  @ApiResponse({ status: 400, description: 'Admins cannot disable themselves' })
+  @ApiResponse({ status: 404, description: 'Admin not found' })
+  @ApiResponse({ status: 409, description: 'Admin already disabled' })
+  async disable(
+    @Req() request: AdminRequest,
+    @Param('id') id: string,
+  ): Promise<AdminUserResponse> {
+    const result = await this.adminAuthService.disableUser(id, request.admin);
+
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'SELF_DISABLE') {
+      throw new BadRequestException(result.message);
+    }
+
+    if (result.error === 'ALREADY_DISABLED') {
+      throw new ConflictException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { AdminController } from './admin.controller';
 import { AdminService } from '../../application/services/admin.service';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
 import { 
   BuildRegisterTransactionDto,
   SubmitSignedTransactionDto
@@ -13,6 +15,8 @@ describe('AdminController', () => {
   const mockAdminService = {
     buildRegisterTransaction: jest.fn(),
     submitSignedTransaction: jest.fn(),
+    buildCreateVerificationTransaction: jest.fn(),
+    submitCreateVerificationTransaction: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -24,7 +28,10 @@ describe('AdminController', () => {
           useValue: mockAdminService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(AdminAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<AdminController>(AdminController);
     adminService = module.get<AdminService>(AdminService);
@@ -128,4 +135,39 @@ describe('AdminController', () => {
       expect(adminService.submitSignedTransaction).toHaveBeenCalledWith(submitDto);
     });
   });
+
+  describe('create verification', () => {
+    const rejected = {
+      success: false,
+      message: 'Verification type Custom:email is not registered or disabled',
+      error: 'VERIFICATION_NOT_ALLOWED',
+    };
+
+    it('returns 400 when the registry rejects the build', async () => {
+      mockAdminService.buildCreateVerificationTransaction.mockResolvedValue(rejected);
+
+      await expect(
+        controller.buildCreateVerificationTransaction({
+          wallet: 'GABCDEFGHIJKLMNOPQRSTUVWXYZABCDEFGHIJKLMNOPQRSTUVWXYZ',
+          verificationType: 'email',
+          sourceAccount: 'GZYXWVUTSRQPONMLKJIHGFEDCBAZYXWVUTSRQPONMLKJIHGFEDCBA',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('returns 400 when the registry rejects the signed transaction', async () => {
+      mockAdminService.submitCreateVerificationTransaction.mockResolvedValue(rejected);
+
+      await expect(
+        controller.submitCreateVerificationTransaction({ signedXdr: 'signed-xdr' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('keeps network failures in the response body', async () => {
+      const failed = { success: false, message: 'Failed to submit transaction: timeout', error: 'timeout' };
+      mockAdminService.submitCreateVerificationTransaction.mockResolvedValue(failed);
+
+      await expect(controller.submitCreateVerificationTransaction({ signedXdr: 'signed-xdr' })).resolves.toEqual(failed);
+    });
+  });
 });
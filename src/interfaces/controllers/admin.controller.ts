@@ -1,4 +1,4 @@
-import { Controller, Post, Get, Body, Param, ValidationPipe, UsePipes } from '@nestjs/common';
+import { Controller, Post, Get, Body, Param, ValidationPipe, UsePipes, UseGuards, BadRequestException } from '@nestjs/common';
 import { AdminService } from '../../application/services/admin.service';
 import { 
   BuildRegisterTransactionDto,
@@ -13,13 +13,17 @@ import {
   UpdateStatusResponse
 } from '../../domain/entities/admin.entity';
 import { ApiKeyResponse as HumanApiKeyResponse } from '../../domain/entities/api-key.entity';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
 
 @Controller('admin')
+@UseGuards(AdminAuthGuard)
 export class AdminController {
   constructor(private readonly adminService: AdminService) {}
 
 
   @Post('register/build')
+  @RequireAdminRoles('operator')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async buildRegisterTransaction(
     @Body() buildDto: BuildRegisterTransactionDto
@@ -28,6 +32,7 @@ export class AdminController {
   }
 
   @Post('register/submit')
+  @RequireAdminRoles('operator')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async submitSignedTransaction(
     @Body() submitDto: SubmitSignedTransactionDto
@@ -36,19 +41,25 @@ export class AdminController {
   }
 
   @Post('create-verification/build')
+  @RequireAdminRoles('operator')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async buildCreateVerificationTransaction(
     @Body() buildDto: BuildCreateVerificationTransactionDto
   ): Promise<BuildCreateVerificationTransactionResponse> {
-    return this.adminService.buildCreateVerificationTransaction(buildDto);
+    return this.rejectDisallowedVerification(
+      await this.adminService.buildCreateVerificationTransaction(buildDto)
+    );
   }
 
   @Post('create-verification/submit')
+  @RequireAdminRoles('operator')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async submitCreateVerificationTransaction(
     @Body() submitDto: SubmitSignedTransactionDto
   ): Promise<SubmitSignedTransactionResponse> {
-    return this.adminService.submitSignedTransaction(submitDto);
+    return this.rejectDisallowedVerification(
+      await this.adminService.submitCreateVerificationTransaction(submitDto)
+    );
   }
 
   @Get('api-key')
@@ -62,6 +73,7 @@ export class AdminController {
   }
 
   @Get('account-sequence/:accountId')
+  @RequireAdminRoles('operator', 'read-only')
   async getAccountSequence(@Param('accountId') accountId: string): Promise<{ sequence: string; success: boolean; error?: string }> {
     return this.adminService.getAccountSequence(accountId);
   }
@@ -69,11 +81,13 @@ export class AdminController {
 
 
   @Get('get-status/:wallet')
+  @RequireAdminRoles('operator', 'kyc-reviewer', 'read-only')
   async getStatus(@Param('wallet') wallet: string): Promise<GetStatusResponse> {
     return this.adminService.getStatus(wallet);
   }
 
   @Post('update-status/:wallet')
+  @RequireAdminRoles('kyc-reviewer')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async updateStatus(
     @Param('wallet') wallet: string,
@@ -81,4 +95,15 @@ export class AdminController {
   ): Promise<UpdateStatusResponse> {
     return this.adminService.updateStatus(wallet, updateDto);
   }
+
+  /**
+   * Verifications the registry does not allow are a client error, unlike
+   * network failures which keep the success: false body
+   */
+  private rejectDisallowedVerification<T extends { error?: string; message?: string }>(result: T): T {
+    if (result.error === 'VERIFICATION_NOT_ALLOWED') {
+      throw new BadRequestException(result.message);
+    }
+    return result;
+  }
 }
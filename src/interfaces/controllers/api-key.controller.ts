@@ -0,0 +1,108 @@
+import {
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ApiKeyService } from '../../application/services/api-key.service';
+import {
+  AssignApiKeyPolicyDto,
+  CreateIntegratorApiKeyDto,
+  IntegratorApiKeyListResponse,
+  IntegratorApiKeyResponse,
+} from '../../domain/entities/api-key.entity';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - API Keys')
+@Controller('admin/api-keys')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class ApiKeyController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an integrator API key',
+    description: 'Returns the plaintext key once; only its hash is stored',
+  })
+  @ApiResponse({ status: 201, description: 'API key created' })
+  async create(
+    @Body() dto: CreateIntegratorApiKeyDto,
+  ): Promise<IntegratorApiKeyResponse> {
+    return this.apiKeyService.create(dto);
+  }
+
+  @Get()
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'List integrator API keys (without secrets)' })
+  @ApiResponse({ status: 200, description: 'API keys retrieved' })
+  async list(): Promise<IntegratorApiKeyListResponse> {
+    return { success: true, keys: await this.apiKeyService.list() };
+  }
+
+  @Post(':id/rotate')
+  @ApiOperation({
+    summary: 'Rotate an integrator API key',
+    description: 'Issues a new secret for the key; the old secret stops working immediately',
+  })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 201, description: 'API key rotated' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  @ApiResponse({ status: 409, description: 'API key is revoked' })
+  async rotate(@Param('id') id: string): Promise<IntegratorApiKeyResponse> {
+    return this.unwrap(await this.apiKeyService.rotate(id));
+  }
+
+  @Put(':id/policy')
+  @ApiOperation({
+    summary: 'Assign a humanity policy to an integrator API key',
+    description: 'Applies to is-human, is-human-ns and batch verify requests made with the key unless ?policy= is given',
+  })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'Policy assigned or cleared' })
+  @ApiResponse({ status: 404, description: 'API key or humanity policy not found' })
+  async assignPolicy(
+    @Param('id') id: string,
+    @Body() dto: AssignApiKeyPolicyDto,
+  ): Promise<IntegratorApiKeyResponse> {
+    return this.unwrap(await this.apiKeyService.assignPolicy(id, dto.policyId ?? null));
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke an integrator API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'API key revoked' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  @ApiResponse({ status: 409, description: 'API key already revoked' })
+  async revoke(@Param('id') id: string): Promise<IntegratorApiKeyResponse> {
+    return this.unwrap(await this.apiKeyService.revoke(id));
+  }
+
+  private unwrap(result: IntegratorApiKeyResponse): IntegratorApiKeyResponse {
+    if (result.error === 'NOT_FOUND' || result.error === 'POLICY_NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'REVOKED') {
+      throw new ConflictException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -4,6 +4,8 @@ import {
   HttpCode,
   HttpStatus,
   Post,
+  Query,
+  Req,
   UseGuards,
 } from '@nestjs/common';
 import {
@@ -17,7 +19,11 @@ import {
   BatchVerifyRequestDto,
   BatchVerifyResponseDto,
 } from '../dto/batch-verify.dto';
-import { IntegratorApiKeyGuard } from '../guards/integrator-api-key.guard';
+import { HumanityPolicyQueryDto } from '../../domain/entities/humanity-policy.entity';
+import { IntegratorApiKeyGuard, IntegratorRequest } from '../guards/integrator-api-key.guard';
+import { RequireScopes } from '../decorators/api-key-scopes.decorator';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
+import { QuotaCost } from '../decorators/quota-cost.decorator';
 
 @ApiTags('pass')
 @Controller('pass/verify')
@@ -26,13 +32,18 @@ export class BatchVerifyController {
 
   @Post('batch')
   @HttpCode(HttpStatus.OK)
-  @UseGuards(IntegratorApiKeyGuard)
+  @UseGuards(IntegratorApiKeyGuard, RateLimitGuard)
+  @RequireScopes('verify:batch')
+  @QuotaCost('wallets')
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Batch wallet verification',
     description:
       'Verify up to BATCH_VERIFY_MAX_WALLETS (default 25) Stellar wallets in a single request. ' +
-      'Invalid address formats are skipped and counted. Unregistered wallets return registered: false.',
+      'Invalid address formats are skipped and counted. Unregistered wallets return registered: false. ' +
+      'Each wallet in the request counts against the monthly quota of the API key. ' +
+      'isHuman is decided by the humanity policy named by ?policy=, else the one assigned to the key, else "default". ' +
+      '?scoring=effective ages each verification by the expiry and decay of its type before applying the policy.',
   })
   @ApiResponse({
     status: 200,
@@ -45,15 +56,36 @@ export class BatchVerifyController {
   })
   @ApiResponse({
     status: 401,
-    description: 'Missing or invalid Authorization: Bearer <INTEGRATOR_API_KEY> header.',
+    description: 'Missing, unknown or revoked integrator API key in Authorization: Bearer <key>.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'API key does not hold the verify:batch scope.',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'The selected humanity policy does not exist.',
   })
   @ApiResponse({
     status: 422,
     description: 'All provided wallet addresses are invalid; no wallets were processed.',
   })
+  @ApiResponse({
+    status: 429,
+    description: 'Rate limit or monthly quota exceeded. See X-RateLimit-* and Retry-After headers.',
+  })
   async verifyBatch(
+    @Req() request: IntegratorRequest,
     @Body() dto: BatchVerifyRequestDto,
+    @Query() query: HumanityPolicyQueryDto,
   ): Promise<BatchVerifyResponseDto> {
-    return this.batchVerifyService.verifyBatch(dto.wallets);
+    return this.batchVerifyService.verifyBatch(
+      dto.wallets,
+      {
+        policyId: query.policy,
+        integratorPolicyId: request.apiKey?.policyId,
+      },
+      query.scoring,
+    );
   }
 }
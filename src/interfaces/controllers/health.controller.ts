@@ -4,6 +4,7 @@ import {
   HealthService,
   HealthStatusResponse,
 } from '../../application/services/health.service'
+import { IdentityCacheStats } from '../../infrastructure/cache/identity-cache.service'
 
 @ApiTags('health')
 @Controller('health')
@@ -19,4 +20,14 @@ export class HealthController {
   async getHealth(): Promise<HealthStatusResponse> {
     return this.healthService.getHealth()
   }
+
+  @Get('cache')
+  @ApiOperation({ summary: 'Get identity read cache hit/miss counters' })
+  @ApiResponse({
+    status: 200,
+    description: 'Cache counters retrieved successfully',
+  })
+  getCacheStats(): IdentityCacheStats {
+    return this.healthService.getCacheStats()
+  }
 }
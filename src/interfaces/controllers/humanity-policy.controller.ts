@@ -0,0 +1,82 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { HumanityPolicyService } from '../../application/services/humanity-policy.service';
+import {
+  HumanityPolicyListResponse,
+  HumanityPolicyResponse,
+  UpsertHumanityPolicyDto,
+} from '../../domain/entities/humanity-policy.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - Humanity Policies')
+@Controller('admin/humanity-policies')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class HumanityPolicyController {
+  constructor(private readonly humanityPolicyService: HumanityPolicyService) {}
+
+  @Get()
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'List the current version of every humanity policy' })
+  @ApiResponse({ status: 200, description: 'Policies retrieved' })
+  async list(): Promise<HumanityPolicyListResponse> {
+    return this.humanityPolicyService.list();
+  }
+
+  @Get(':id')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'Get a humanity policy with all its versions' })
+  @ApiParam({ name: 'id', description: 'Policy ID' })
+  @ApiResponse({ status: 200, description: 'Policy retrieved' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async get(@Param('id') id: string): Promise<HumanityPolicyResponse> {
+    return this.unwrap(await this.humanityPolicyService.get(id));
+  }
+
+  @Put(':id')
+  @ApiOperation({
+    summary: 'Create a humanity policy or store its next version',
+    description: 'Earlier versions are kept; responses name the version that decided them',
+  })
+  @ApiParam({ name: 'id', description: 'Policy ID (lowercase letters, digits and dashes)' })
+  @ApiResponse({ status: 200, description: 'Policy version stored' })
+  @ApiResponse({ status: 400, description: 'Invalid policy ID or body' })
+  async upsert(
+    @Req() request: AdminRequest,
+    @Param('id') id: string,
+    @Body() dto: UpsertHumanityPolicyDto,
+  ): Promise<HumanityPolicyResponse> {
+    return this.unwrap(await this.humanityPolicyService.upsert(id, dto, request.admin.email));
+  }
+
+  private unwrap(result: HumanityPolicyResponse): HumanityPolicyResponse {
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'INVALID_ID') {
+      throw new BadRequestException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,200 @@
+import {
+  BadGatewayException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Req,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { KycService } from '../../application/services/kyc.service';
+import { AdminService } from '../../application/services/admin.service';
+import { KycReviewService } from '../../application/services/kyc-review.service';
+import {
+  KycFingerprintCollisionListResponse,
+  KycFingerprintCollisionQueryDto,
+} from '../../domain/entities/kyc-fingerprint.entity';
+import {
+  CommentKycReviewCaseDto,
+  KycReviewCaseListResponse,
+  KycReviewCaseQueryDto,
+  KycReviewCaseResponse,
+  ResolveKycReviewCaseDto,
+} from '../../domain/entities/kyc-review.entity';
+import {
+  KycWebhookInboxResponse,
+  KycWebhookLogQueryDto,
+  KycWebhookLogResponse,
+} from '../../domain/entities/kyc.entity';
+import { KycStatusHistoryResponse } from '../../domain/entities/kyc-status.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - KYC')
+@Controller('admin/kyc')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class KycAdminController {
+  constructor(
+    private readonly kycService: KycService,
+    private readonly kycReviewService: KycReviewService,
+    private readonly adminService: AdminService,
+  ) {}
+
+  @Get('fingerprint-collisions')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({
+    summary: 'KYC documents approved for more than one wallet, most recent first',
+    description:
+      'Each entry is a keyed document fingerprint with the wallet first approved with it and the later wallets ' +
+      'that reused it, whose approvals were held at PENDING',
+  })
+  @ApiResponse({ status: 200, description: 'Collisions retrieved' })
+  async listFingerprintCollisions(
+    @Query() query: KycFingerprintCollisionQueryDto,
+  ): Promise<KycFingerprintCollisionListResponse> {
+    return this.kycService.listFingerprintCollisions(query.limit);
+  }
+
+  @Get('webhook-inbox')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({
+    summary: 'KYC webhook inbox backlog and failures',
+    description:
+      'Counts of webhooks queued, processing and failed, when the oldest queued one arrived, and the webhooks ' +
+      'given up on after KYC_WEBHOOK_MAX_ATTEMPTS attempts, most recently failed first',
+  })
+  @ApiResponse({ status: 200, description: 'Inbox state retrieved' })
+  async getWebhookInbox(@Query() query: KycWebhookLogQueryDto): Promise<KycWebhookInboxResponse> {
+    return this.kycService.webhookInbox(query.limit);
+  }
+
+  @Get('webhooks/:wallet')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({
+    summary: 'KYC provider webhooks applied to a wallet, most recent first',
+    description:
+      'Each entry has the webhook id, session token, payload hash, number of deliveries and the result returned for it',
+  })
+  @ApiParam({ name: 'wallet', description: 'Stellar wallet address' })
+  @ApiResponse({ status: 200, description: 'Webhook log retrieved' })
+  async listWebhookLog(
+    @Param('wallet') wallet: string,
+    @Query() query: KycWebhookLogQueryDto,
+  ): Promise<KycWebhookLogResponse> {
+    return this.kycService.listWebhookLog(wallet, query.limit);
+  }
+
+  @Get('status/:wallet')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({
+    summary: 'KYC status in force for a wallet and the decisions the state machine refused',
+    description:
+      'Provider decisions older than the status in force, or undoing a settled status, are refused and listed here',
+  })
+  @ApiParam({ name: 'wallet', description: 'Stellar wallet address' })
+  @ApiResponse({ status: 200, description: 'KYC status retrieved' })
+  async getKycStatus(@Param('wallet') wallet: string): Promise<KycStatusHistoryResponse> {
+    return this.adminService.kycStatusHistory(wallet);
+  }
+
+  @Get('review-cases')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({
+    summary: 'KYC review cases, most recently opened first',
+    description: 'Cases are opened for resubmission requests, approvals held as duplicates and failed webhooks',
+  })
+  @ApiResponse({ status: 200, description: 'Review cases retrieved' })
+  async listReviewCases(@Query() query: KycReviewCaseQueryDto): Promise<KycReviewCaseListResponse> {
+    return this.kycReviewService.list(query);
+  }
+
+  @Get('review-cases/:id')
+  @RequireAdminRoles('kyc-reviewer', 'operator', 'read-only')
+  @ApiOperation({ summary: 'Get a KYC review case with its comments and resolution' })
+  @ApiParam({ name: 'id', description: 'Review case ID' })
+  @ApiResponse({ status: 200, description: 'Review case retrieved' })
+  @ApiResponse({ status: 404, description: 'Review case not found' })
+  async getReviewCase(@Param('id') id: string): Promise<KycReviewCaseResponse> {
+    return this.unwrap(await this.kycReviewService.get(id));
+  }
+
+  @Post('review-cases/:id/claim')
+  @HttpCode(HttpStatus.OK)
+  @RequireAdminRoles('kyc-reviewer')
+  @ApiOperation({ summary: 'Claim an open KYC review case' })
+  @ApiParam({ name: 'id', description: 'Review case ID' })
+  @ApiResponse({ status: 200, description: 'Review case claimed' })
+  @ApiResponse({ status: 404, description: 'Review case not found' })
+  @ApiResponse({ status: 409, description: 'Review case claimed by another reviewer or already resolved' })
+  async claimReviewCase(@Req() request: AdminRequest, @Param('id') id: string): Promise<KycReviewCaseResponse> {
+    return this.unwrap(await this.kycReviewService.claim(id, request.admin));
+  }
+
+  @Post('review-cases/:id/comments')
+  @RequireAdminRoles('kyc-reviewer')
+  @ApiOperation({ summary: 'Comment on a KYC review case' })
+  @ApiParam({ name: 'id', description: 'Review case ID' })
+  @ApiResponse({ status: 201, description: 'Comment added' })
+  @ApiResponse({ status: 404, description: 'Review case not found' })
+  async commentReviewCase(
+    @Req() request: AdminRequest,
+    @Param('id') id: string,
+    @Body() dto: CommentKycReviewCaseDto,
+  ): Promise<KycReviewCaseResponse> {
+    return this.unwrap(await this.kycReviewService.comment(id, dto, request.admin));
+  }
+
+  @Post('review-cases/:id/resolve')
+  @HttpCode(HttpStatus.OK)
+  @RequireAdminRoles('kyc-reviewer')
+  @ApiOperation({
+    summary: 'Resolve a KYC review case',
+    description: 'Writes the decided status on-chain for the wallet and records who decided and why',
+  })
+  @ApiParam({ name: 'id', description: 'Review case ID' })
+  @ApiResponse({ status: 200, description: 'Review case resolved' })
+  @ApiResponse({ status: 404, description: 'Review case not found' })
+  @ApiResponse({ status: 409, description: 'Review case claimed by another reviewer or already resolved' })
+  @ApiResponse({ status: 502, description: 'The on-chain status update failed; the case stays open' })
+  @ApiResponse({ status: 503, description: 'Admin source account not configured' })
+  async resolveReviewCase(
+    @Req() request: AdminRequest,
+    @Param('id') id: string,
+    @Body() dto: ResolveKycReviewCaseDto,
+  ): Promise<KycReviewCaseResponse> {
+    return this.unwrap(await this.kycReviewService.resolve(id, dto, request.admin));
+  }
+
+  private unwrap(result: KycReviewCaseResponse): KycReviewCaseResponse {
+    switch (result.error) {
+      case 'NOT_FOUND':
+        throw new NotFoundException(result.message);
+      case 'ALREADY_CLAIMED':
+      case 'ALREADY_RESOLVED':
+        throw new ConflictException(result.message);
+      case 'STATUS_UPDATE_FAILED':
+        throw new BadGatewayException(result.message);
+      case 'NOT_CONFIGURED':
+        throw new ServiceUnavailableException(result.message);
+      default:
+        return result;
+    }
+  }
+}
@@ -6,18 +6,27 @@ import {
   ConflictException,
   HttpException,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
 import { AdminService } from '../../application/services/admin.service';
 import { CreatePassDto } from '../../domain/entities/pass.entity';
 import { SubmitSignedTransactionDto } from '../../domain/entities/admin.entity';
+import { ADMIN_ROLES } from '../../domain/entities/admin-user.entity';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
 
 @ApiTags('pass')
 @Controller('pass')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
 export class PassController {
   constructor(private readonly adminService: AdminService) {}
 
   @Get()
+  @RequireAdminRoles(...ADMIN_ROLES)
   @ApiOperation({ summary: 'Passport route group status' })
   @ApiResponse({
     status: 200,
@@ -33,6 +42,7 @@ export class PassController {
   }
 
   @Post('create')
+  @RequireAdminRoles('operator')
   @ApiOperation({ summary: 'Register a wallet identity on-chain (admin-sponsored)' })
   @ApiResponse({ status: 201, description: 'Identity registered on-chain' })
   @ApiResponse({ status: 409, description: 'Wallet already registered' })
@@ -56,6 +66,7 @@ export class PassController {
   }
 
   @Post('create/build')
+  @RequireAdminRoles('operator')
   @ApiOperation({ summary: 'Build an unsigned register transaction (client-signed)' })
   @ApiResponse({ status: 201 })
   @ApiBody({ type: CreatePassDto })
@@ -64,6 +75,7 @@ export class PassController {
   }
 
   @Post('create/submit')
+  @RequireAdminRoles('operator')
   @ApiOperation({ summary: 'Submit a signed register transaction' })
   @ApiResponse({ status: 201 })
   @ApiBody({ type: SubmitSignedTransactionDto })
@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PassportIndexerService } from '../../application/services/passport-indexer.service';
+import {
+  IndexedWalletQueryDto,
+  IndexedWalletResponse,
+  PassportIndexerRunResult,
+  PassportIndexerStatusResponse,
+} from '../../domain/entities/passport-event.entity';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - Indexer')
+@Controller('admin/indexer')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class PassportIndexerController {
+  constructor(private readonly indexerService: PassportIndexerService) {}
+
+  @Get('status')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'Stored cursor and result of the last indexer run' })
+  @ApiResponse({ status: 200, description: 'Indexer status retrieved' })
+  async status(): Promise<PassportIndexerStatusResponse> {
+    return this.indexerService.status();
+  }
+
+  @Post('sync')
+  @RequireAdminRoles('operator')
+  @ApiOperation({
+    summary: 'Index new Passport contract events now',
+    description: 'Runs one indexer pass from the stored cursor without waiting for the interval',
+  })
+  @ApiResponse({ status: 201, description: 'Indexer run completed' })
+  async sync(): Promise<{ success: boolean; result: PassportIndexerRunResult }> {
+    return { success: true, result: await this.indexerService.sync() };
+  }
+
+  @Get('wallets/:wallet')
+  @RequireAdminRoles('operator', 'kyc-reviewer', 'read-only')
+  @ApiOperation({
+    summary: 'Indexed identity of a wallet',
+    description: 'Score and verifications folded from contract events, plus the event history (newest first)',
+  })
+  @ApiParam({ name: 'wallet', description: 'Stellar wallet address' })
+  @ApiResponse({ status: 200, description: 'Indexed wallet retrieved' })
+  @ApiResponse({ status: 404, description: 'No indexed events for wallet' })
+  async wallet(
+    @Param('wallet') wallet: string,
+    @Query() query: IndexedWalletQueryDto,
+  ): Promise<IndexedWalletResponse> {
+    const result = await this.indexerService.getWallet(wallet, query.limit);
+
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    return result;
+  }
+}
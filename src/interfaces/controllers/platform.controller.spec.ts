@@ -1,6 +1,8 @@
+import { NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { PlatformController } from './platform.controller';
 import { PlatformService } from '../../application/services/platform.service';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
 
 describe('PlatformController', () => {
   let controller: PlatformController;
@@ -8,6 +10,7 @@ describe('PlatformController', () => {
 
   const mockPlatformService = {
     getScore: jest.fn(),
+    isHuman: jest.fn(),
   };
 
   beforeEach(async () => {
@@ -19,7 +22,10 @@ describe('PlatformController', () => {
           useValue: mockPlatformService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(RateLimitGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<PlatformController>(PlatformController);
     platformService = module.get<PlatformService>(PlatformService);
@@ -40,10 +46,19 @@ describe('PlatformController', () => {
 
       mockPlatformService.getScore.mockResolvedValue(expectedResponse);
 
-      const result = await controller.getScore(wallet);
+      const result = await controller.getScore(wallet, {});
 
       expect(result).toEqual(expectedResponse);
-      expect(platformService.getScore).toHaveBeenCalledWith(wallet);
+      expect(platformService.getScore).toHaveBeenCalledWith(wallet, undefined);
+    });
+
+    it('passes ?scoring= to the service', async () => {
+      const wallet = 'GABCDEFGHIJKLMNOPQRSTUVWXYZABCDEFGHIJKLMNOPQRSTUVWXYZ';
+      mockPlatformService.getScore.mockResolvedValue({ score: 30, rawScore: 40, scoring: 'effective', success: true, message: 'Score retrieved successfully' });
+
+      await controller.getScore(wallet, { scoring: 'effective' });
+
+      expect(platformService.getScore).toHaveBeenCalledWith(wallet, 'effective');
     });
 
     it('should handle get score failure', async () => {
@@ -55,10 +70,50 @@ describe('PlatformController', () => {
 
       mockPlatformService.getScore.mockResolvedValue(expectedResponse);
 
-      const result = await controller.getScore(wallet);
+      const result = await controller.getScore(wallet, {});
 
       expect(result).toEqual(expectedResponse);
-      expect(platformService.getScore).toHaveBeenCalledWith(wallet);
+      expect(platformService.getScore).toHaveBeenCalledWith(wallet, undefined);
+    });
+  });
+
+  describe('isHuman', () => {
+    const wallet = 'GABCDEFGHIJKLMNOPQRSTUVWXYZABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+    it('passes ?policy= and the integrator policy to the service', async () => {
+      const expectedResponse = {
+        isHuman: true,
+        score: 50,
+        policy: { id: 'strict', version: 1 },
+        unmet: [],
+        success: true,
+        message: 'Human verification completed. Score: 50, Threshold: 35, Result: Human',
+      };
+      mockPlatformService.isHuman.mockResolvedValue(expectedResponse);
+
+      const result = await controller.isHuman(
+        { apiKey: { policyId: 'lenient' } } as any,
+        wallet,
+        { policy: 'strict' },
+      );
+
+      expect(result).toEqual(expectedResponse);
+      expect(platformService.isHuman).toHaveBeenCalledWith(wallet, {
+        policyId: 'strict',
+        integratorPolicyId: 'lenient',
+      }, undefined);
+    });
+
+    it('throws 404 when the policy does not exist', async () => {
+      mockPlatformService.isHuman.mockResolvedValue({
+        success: false,
+        message: 'Humanity policy missing not found',
+        error: 'POLICY_NOT_FOUND',
+      });
+
+      await expect(controller.isHuman({} as any, wallet, { policy: 'missing' })).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
     });
   });
 });
@@ -1,13 +1,28 @@
-import { Controller, Get, Param } from '@nestjs/common';
-import { PlatformService, VerificationView } from '../../application/services/platform.service'
+import { Controller, Get, NotFoundException, Param, Query, Req, UseGuards } from '@nestjs/common';
+import {
+  IsHumanNSResponse,
+  IsHumanResponse,
+  PlatformService,
+  ScoreResponse,
+  VerificationView,
+} from '../../application/services/platform.service'
+import { HumanityPolicyQueryDto } from '../../domain/entities/humanity-policy.entity';
+import { ScoreBreakdownResponse } from '../../domain/entities/score-breakdown.entity';
+import { ScoringQueryDto } from '../../domain/entities/effective-score.entity';
+import { RateLimitGuard } from '../guards/rate-limit.guard';
+import { IntegratorRequest } from '../guards/integrator-api-key.guard';
 
 @Controller('platform')
+@UseGuards(RateLimitGuard)
 export class PlatformController {
   constructor(private readonly platformService: PlatformService) {}
 
   @Get('get-score/:wallet')
-  async getScore(@Param('wallet') wallet: string): Promise<{ score?: number; success: boolean; message: string }> {
-    return this.platformService.getScore(wallet);
+  async getScore(
+    @Param('wallet') wallet: string,
+    @Query() query: ScoringQueryDto,
+  ): Promise<ScoreResponse> {
+    return this.platformService.getScore(wallet, query.scoring);
   }
 
   @Get('get-verifications/:wallet')
@@ -16,12 +31,52 @@ export class PlatformController {
   }
 
   @Get('is-human/:wallet')
-  async isHuman(@Param('wallet') wallet: string): Promise<{ isHuman?: boolean; score?: number; success: boolean; message: string }> {
-    return this.platformService.isHuman(wallet);
+  async isHuman(
+    @Req() request: IntegratorRequest,
+    @Param('wallet') wallet: string,
+    @Query() query: HumanityPolicyQueryDto,
+  ): Promise<IsHumanResponse> {
+    return this.unwrap(
+      await this.platformService.isHuman(wallet, {
+        policyId: query.policy,
+        integratorPolicyId: request.apiKey?.policyId,
+      }, query.scoring),
+    );
   }
 
   @Get('is-human-ns/:wallet')
-  async isHumanNS(@Param('wallet') wallet: string): Promise<{ isHuman?: boolean; success: boolean; message: string }> {
-    return this.platformService.isHumanNS(wallet);
+  async isHumanNS(
+    @Req() request: IntegratorRequest,
+    @Param('wallet') wallet: string,
+    @Query() query: HumanityPolicyQueryDto,
+  ): Promise<IsHumanNSResponse> {
+    return this.unwrap(
+      await this.platformService.isHumanNS(wallet, {
+        policyId: query.policy,
+        integratorPolicyId: request.apiKey?.policyId,
+      }, query.scoring),
+    );
+  }
+
+  @Get('score-breakdown/:wallet')
+  async getScoreBreakdown(
+    @Req() request: IntegratorRequest,
+    @Param('wallet') wallet: string,
+    @Query() query: HumanityPolicyQueryDto,
+  ): Promise<ScoreBreakdownResponse> {
+    return this.unwrap(
+      await this.platformService.getScoreBreakdown(wallet, {
+        policyId: query.policy,
+        integratorPolicyId: request.apiKey?.policyId,
+      }, query.scoring),
+    );
+  }
+
+  private unwrap<T extends { error?: string; message: string }>(result: T): T {
+    if (result.error === 'POLICY_NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    return result;
   }
 }
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScoreDecayService } from '../../application/services/score-decay.service';
+import {
+  RunScoreDecayReportDto,
+  ScoreDecayReportListResponse,
+  ScoreDecayReportQueryDto,
+  ScoreDecayReportResponse,
+} from '../../domain/entities/score-decay.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - Score Decay')
+@Controller('admin/score-decay')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class ScoreDecayController {
+  constructor(private readonly scoreDecayService: ScoreDecayService) {}
+
+  @Get('reports')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({
+    summary: 'Recent score decay reports, newest first',
+    description: 'Each report lists the wallets whose effective score fell below the policy threshold during its period',
+  })
+  @ApiResponse({ status: 200, description: 'Reports retrieved' })
+  async list(@Query() query: ScoreDecayReportQueryDto): Promise<ScoreDecayReportListResponse> {
+    return this.scoreDecayService.list(query.limit);
+  }
+
+  @Post('reports')
+  @RequireAdminRoles('operator')
+  @ApiOperation({
+    summary: 'Run a score decay report now',
+    description: 'Scans indexed wallets for a period ending now without waiting for the scheduled job',
+  })
+  @ApiResponse({ status: 201, description: 'Report created' })
+  @ApiResponse({ status: 404, description: 'Humanity policy not found' })
+  async run(
+    @Req() request: AdminRequest,
+    @Body() dto: RunScoreDecayReportDto,
+  ): Promise<ScoreDecayReportResponse> {
+    const result = await this.scoreDecayService.runNow({
+      policyId: dto.policy,
+      periodSeconds: dto.periodSeconds,
+      createdBy: request.admin.email,
+    });
+
+    if (result.error === 'POLICY_NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  ServiceUnavailableException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SocialVerificationService } from '../../application/services/social-verification.service';
+import {
+  SOCIAL_PROVIDERS,
+  SocialProvider,
+  SocialVerificationCallbackQueryDto,
+  SocialVerificationResponse,
+  StartSocialVerificationDto,
+  StartSocialVerificationResponse,
+  isSocialProvider,
+} from '../../domain/entities/social-verification.entity';
+import { WalletAuthGuard } from '../guards/wallet-auth.guard';
+
+@ApiTags('Social Verification')
+@Controller('verify')
+export class SocialVerificationController {
+  constructor(private readonly socialVerificationService: SocialVerificationService) {}
+
+  @Post(':provider/start')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(WalletAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Start verifying your wallet with a GitHub or Twitter account',
+    description: 'Requires a SEP-10 wallet token for the wallet. Send the user to the returned authorization URL.',
+  })
+  @ApiParam({ name: 'provider', enum: SOCIAL_PROVIDERS })
+  @ApiResponse({ status: 200, description: 'Authorization URL to send the user to' })
+  @ApiResponse({ status: 401, description: 'Missing, invalid or expired wallet token' })
+  @ApiResponse({ status: 403, description: 'Token belongs to another wallet' })
+  @ApiResponse({ status: 404, description: 'Unknown provider' })
+  @ApiResponse({ status: 503, description: 'Provider OAuth client or admin source account not configured' })
+  async start(
+    @Param('provider') provider: string,
+    @Body() dto: StartSocialVerificationDto,
+  ): Promise<StartSocialVerificationResponse> {
+    return this.unwrap(await this.socialVerificationService.start(this.provider(provider), dto.wallet));
+  }
+
+  @Get(':provider/callback')
+  @ApiOperation({
+    summary: 'OAuth redirect target of the provider',
+    description:
+      'Reads the authorized account, checks its age and activity, links it to the wallet that started ' +
+      'the flow and writes the GitHub or Twitter verification on-chain. An account can verify one wallet.',
+  })
+  @ApiParam({ name: 'provider', enum: SOCIAL_PROVIDERS })
+  @ApiResponse({ status: 200, description: 'Verification written (or already queued)' })
+  @ApiResponse({ status: 400, description: 'Unknown or expired state, or access not granted' })
+  @ApiResponse({ status: 403, description: 'Account does not meet the age or activity criteria' })
+  @ApiResponse({ status: 409, description: 'Account already verified another wallet' })
+  @ApiResponse({ status: 502, description: 'Provider failed, or the on-chain write failed and was queued for retry' })
+  async callback(
+    @Param('provider') provider: string,
+    @Query() query: SocialVerificationCallbackQueryDto,
+  ): Promise<SocialVerificationResponse> {
+    return this.unwrap(await this.socialVerificationService.callback(this.provider(provider), query));
+  }
+
+  private provider(value: string): SocialProvider {
+    if (!isSocialProvider(value)) {
+      throw new NotFoundException(`Unknown provider ${value}`);
+    }
+    return value;
+  }
+
+  private unwrap<T extends { success: boolean; message?: string; error?: string }>(result: T): T {
+    switch (result.error) {
+      case 'INVALID_STATE':
+      case 'AUTHORIZATION_DENIED':
+      case 'VERIFICATION_NOT_ALLOWED':
+        throw new BadRequestException(result.message);
+      case 'CRITERIA_NOT_MET':
+        throw new ForbiddenException(result.message);
+      case 'ACCOUNT_ALREADY_LINKED':
+        throw new ConflictException(result.message);
+      case 'PROVIDER_ERROR':
+      case 'SUBMISSION_FAILED':
+        throw new BadGatewayException(result.message);
+      case 'NOT_CONFIGURED':
+        throw new ServiceUnavailableException(result.message);
+    }
+    return result;
+  }
+}
@@ -1,25 +1,117 @@
 import {
   Controller,
+  Get,
   Post,
+  Body,
   Param,
+  Query,
   NotFoundException,
   ConflictException,
+  UseGuards,
+  Req,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiParam,
+  ApiBearerAuth,
 } from '@nestjs/swagger';
-import { AdminService } from '../../application/services/admin.service';
-import { RetryStellarTxResponse } from '../../domain/entities/failed-stellar-tx.entity';
+import { DeadLetterService } from '../../application/services/dead-letter.service';
+import {
+  BulkRetryFailedStellarTxDto,
+  BulkRetryStellarTxResponse,
+  DiscardFailedStellarTxDto,
+  DiscardStellarTxResponse,
+  FailedStellarTxFilterDto,
+  FailedStellarTxSummaryResponse,
+  ListFailedStellarTxQueryDto,
+  ListFailedStellarTxResponse,
+  RetryStellarTxResponse,
+} from '../../domain/entities/failed-stellar-tx.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
 
 @ApiTags('Admin - Stellar')
 @Controller('admin/stellar')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
 export class StellarAdminController {
-  constructor(private readonly adminService: AdminService) {}
+  constructor(private readonly deadLetterService: DeadLetterService) {}
+
+  @Get('failed')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({
+    summary: 'List failed Stellar transactions',
+    description:
+      'Pages through stellar_failed_txs, newest first. Pass nextCursor back as cursor for the next page.',
+  })
+  @ApiResponse({ status: 200, description: 'Dead-letter records retrieved' })
+  async listFailedTransactions(
+    @Query() query: ListFailedStellarTxQueryDto,
+  ): Promise<ListFailedStellarTxResponse> {
+    return this.deadLetterService.list(query);
+  }
+
+  @Get('failed/summary')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({
+    summary: 'Count failed Stellar transactions by error class',
+    description: 'Groups matching records by the class of their lastError',
+  })
+  @ApiResponse({ status: 200, description: 'Counts retrieved' })
+  async summarizeFailedTransactions(
+    @Query() query: FailedStellarTxFilterDto,
+  ): Promise<FailedStellarTxSummaryResponse> {
+    return this.deadLetterService.summary(query);
+  }
+
+  @Post('failed/retry')
+  @RequireAdminRoles('operator')
+  @ApiOperation({
+    summary: 'Retry failed Stellar transactions in bulk',
+    description:
+      'Retries unresolved records matching the filter, one at a time, up to limit',
+  })
+  @ApiResponse({ status: 201, description: 'Bulk retry finished; see per-record results' })
+  async bulkRetryFailedTransactions(
+    @Body() dto: BulkRetryFailedStellarTxDto,
+  ): Promise<BulkRetryStellarTxResponse> {
+    return this.deadLetterService.bulkRetry(dto);
+  }
+
+  @Post('failed/:id/discard')
+  @RequireAdminRoles('operator')
+  @ApiOperation({
+    summary: 'Discard a failed Stellar transaction',
+    description: 'Resolves the record without retrying it and records why, and the signed-in admin as who discarded it',
+  })
+  @ApiParam({ name: 'id', description: 'Dead-letter record ID' })
+  @ApiResponse({ status: 201, description: 'Record discarded' })
+  @ApiResponse({ status: 404, description: 'Dead-letter record not found' })
+  @ApiResponse({ status: 409, description: 'Record already resolved' })
+  async discardFailedTransaction(
+    @Param('id') id: string,
+    @Body() dto: DiscardFailedStellarTxDto,
+    @Req() request: AdminRequest,
+  ): Promise<DiscardStellarTxResponse> {
+    const result = await this.deadLetterService.discard(id, dto, request.admin.email);
+
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'ALREADY_RESOLVED') {
+      throw new ConflictException(result.message);
+    }
+
+    return result;
+  }
 
   @Post('retry/:id')
+  @RequireAdminRoles('operator')
   @ApiOperation({
     summary: 'Retry a failed Stellar transaction',
     description:
@@ -28,17 +120,17 @@ export class StellarAdminController {
   @ApiParam({ name: 'id', description: 'Dead-letter record ID' })
   @ApiResponse({ status: 200, description: 'Retry submitted successfully' })
   @ApiResponse({ status: 404, description: 'Dead-letter record not found' })
-  @ApiResponse({ status: 409, description: 'Record already resolved' })
+  @ApiResponse({ status: 409, description: 'Record already resolved, or being retried' })
   async retryFailedTransaction(
     @Param('id') id: string,
   ): Promise<RetryStellarTxResponse> {
-    const result = await this.adminService.retryFailedStellarTx(id);
+    const result = await this.deadLetterService.retry(id);
 
     if (result.error === 'NOT_FOUND') {
       throw new NotFoundException(result.message);
     }
 
-    if (result.error === 'ALREADY_RESOLVED') {
+    if (result.error === 'ALREADY_RESOLVED' || result.error === 'RETRY_IN_PROGRESS') {
       throw new ConflictException(result.message);
     }
 
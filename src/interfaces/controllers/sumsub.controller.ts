@@ -0,0 +1,123 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+  Req,
+  RawBodyRequest
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import { KycService } from '../../application/services/kyc.service';
+import { KycWebhookWorkerService } from '../../application/services/kyc-webhook-worker.service';
+import {
+  KycWebhookResponse,
+  CreateKycSessionDto,
+  CreateKycSessionResponse
+} from '../../domain/entities/kyc.entity';
+
+@ApiTags('KYC - Sumsub Webhooks')
+@Controller('kyc/sumsub')
+export class SumsubController {
+  private readonly logger = new Logger(SumsubController.name);
+
+  constructor(
+    private readonly kycService: KycService,
+    private readonly webhookWorker: KycWebhookWorkerService,
+  ) {}
+
+  @Post('sessions')
+  @ApiOperation({
+    summary: 'Start a Sumsub verification for a wallet',
+    description: 'Finds or creates the wallet\'s Sumsub applicant and stores which wallet it verifies. Send the user to the returned WebSDK link.'
+  })
+  @ApiResponse({ status: 201, description: 'Session created' })
+  @ApiResponse({ status: 400, description: 'Invalid wallet address' })
+  @ApiResponse({ status: 502, description: 'Sumsub rejected the request or is unreachable' })
+  @ApiResponse({ status: 503, description: 'Sumsub integration not configured' })
+  async createSession(
+    @Body() dto: CreateKycSessionDto
+  ): Promise<CreateKycSessionResponse> {
+    const result = await this.kycService.createSession('sumsub', dto);
+
+    if (result.error === 'NOT_CONFIGURED') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (result.error === 'PROVIDER_ERROR') {
+      throw new BadGatewayException(result.message);
+    }
+
+    return result;
+  }
+
+  /**
+   * The body is read by the Sumsub adapter, not validated as a DTO: Sumsub
+   * adds fields to its events, which the global pipe would reject.
+   */
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Handle Sumsub webhook notifications',
+    description: 'Accepts Sumsub applicantReviewed events (GREEN approves, RED rejects or asks for a resubmission) into the KYC inbox ' +
+      'and answers once they are stored; a background worker applies them. Other events are acknowledged and ignored. ' +
+      'The digest is checked against the raw request body. Each webhook is applied once; redeliveries get the original result.'
+  })
+  @ApiHeader({
+    name: 'X-Payload-Digest',
+    description: 'Hex HMAC of the raw request body with the webhook secret key',
+    required: true
+  })
+  @ApiHeader({
+    name: 'X-Payload-Digest-Alg',
+    description: 'HMAC_SHA256_HEX or HMAC_SHA512_HEX',
+    required: true
+  })
+  @ApiResponse({ status: 200, description: 'Webhook queued or ignored, or the result of an earlier delivery', type: Object })
+  @ApiResponse({ status: 400, description: 'Unreadable event, or decided outside the accepted window' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - missing or invalid digest' })
+  @ApiResponse({ status: 409, description: 'Event id and applicant already used with a different payload' })
+  @ApiResponse({ status: 503, description: 'Webhook could not be stored; Sumsub should redeliver it' })
+  async handleWebhook(
+    @Body() payload: Record<string, unknown>,
+    @Req() request: RawBodyRequest<Request>
+  ): Promise<KycWebhookResponse> {
+    this.logger.log(`Received Sumsub ${payload?.type} webhook for applicant: ${payload?.applicantId}`);
+
+    const result = await this.kycService.processWebhook('sumsub', payload, {
+      rawBody: request.rawBody,
+      headers: request.headers
+    });
+
+    if (result.error === 'Unauthorized') {
+      throw new UnauthorizedException(result.message);
+    }
+
+    if (result.error === 'STALE_WEBHOOK' || result.error === 'INVALID_PAYLOAD') {
+      throw new BadRequestException(result.message);
+    }
+
+    if (result.error === 'PAYLOAD_MISMATCH') {
+      throw new ConflictException(result.message);
+    }
+
+    if (result.error === 'INBOX_UNAVAILABLE') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (result.queued && !result.duplicate) {
+      this.webhookWorker.wake();
+    } else if (result.duplicate) {
+      this.logger.log(`Duplicate Sumsub webhook for applicant: ${payload?.applicantId}, original result: ${result.error ?? result.status}`);
+    }
+
+    return result;
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UserController } from './user.controller';
 import { UserService } from '../../application/services/user.service';
+import { WalletAuthGuard } from '../guards/wallet-auth.guard';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
 import { User, UserStatus, CreateUserDto, UpdateUserStatusDto } from '../../domain/entities/user.entity';
 
 describe('UserController', () => {
@@ -24,7 +26,12 @@ describe('UserController', () => {
           useValue: mockUserService,
         },
       ],
-    }).compile();
+    })
+      .overrideGuard(WalletAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(AdminAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<UserController>(UserController);
     userService = module.get(UserService);
@@ -1,6 +1,10 @@
-import { Controller, Get, Post, Put, Delete, Body, Param, ValidationPipe, UsePipes } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, ValidationPipe, UsePipes, UseGuards } from '@nestjs/common';
 import { UserService } from '../../application/services/user.service';
 import { User, CreateUserDto, UpdateUserStatusDto } from '../../domain/entities/user.entity';
+import { WalletAuthGuard } from '../guards/wallet-auth.guard';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { OwnedWalletParam } from '../decorators/owned-wallet-param.decorator';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
 
 @Controller('users')
 export class UserController {
@@ -26,7 +30,10 @@ export class UserController {
     return user;
   }
 
+  /** Verification status is decided by operators, never by the wallet itself */
   @Put(':walletAddress/status')
+  @UseGuards(AdminAuthGuard)
+  @RequireAdminRoles('operator')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   async updateUserStatus(
     @Param('walletAddress') walletAddress: string,
@@ -36,6 +43,8 @@ export class UserController {
   }
 
   @Delete(':walletAddress')
+  @UseGuards(WalletAuthGuard)
+  @OwnedWalletParam('walletAddress')
   async deleteUser(@Param('walletAddress') walletAddress: string): Promise<{ message: string }> {
     await this.userService.delete(walletAddress);
     return { message: 'User deleted successfully' };
@@ -2,71 +2,147 @@ import {
   Controller, 
   Post, 
   Body, 
-  Headers, 
   HttpCode, 
   HttpStatus,
   Logger,
   UsePipes,
-  ValidationPipe
+  ValidationPipe,
+  BadGatewayException,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+  Req,
+  RawBodyRequest,
+  UseGuards
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
-import { VeriffService } from '../../application/services/veriff.service';
-import { 
-  VeriffWebhookDto, 
-  VeriffWebhookResponse 
+import { Request } from 'express';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader, ApiBearerAuth } from '@nestjs/swagger';
+import { KycService } from '../../application/services/kyc.service';
+import { KycWebhookWorkerService } from '../../application/services/kyc-webhook-worker.service';
+import { VeriffSimulatorService } from '../../application/services/veriff-simulator.service';
+import {
+  VeriffWebhookDto,
+  SimulateVeriffWebhookDto,
+  SimulateVeriffWebhookResponse
 } from '../../domain/entities/veriff.entity';
+import {
+  KycWebhookResponse,
+  CreateKycSessionDto,
+  CreateKycSessionResponse
+} from '../../domain/entities/kyc.entity';
+import { AdminAuthGuard } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
 
 @ApiTags('KYC - Veriff Webhooks')
 @Controller('kyc/veriff')
 export class VeriffController {
   private readonly logger = new Logger(VeriffController.name);
 
-  constructor(private readonly veriffService: VeriffService) {}
+  constructor(
+    private readonly kycService: KycService,
+    private readonly webhookWorker: KycWebhookWorkerService,
+    private readonly simulator: VeriffSimulatorService,
+  ) {}
+
+  @Post('sessions')
+  @ApiOperation({
+    summary: 'Start a Veriff verification session for a wallet',
+    description: 'Creates the session with Veriff and stores which wallet it verifies. Send the user to the returned verification URL.'
+  })
+  @ApiResponse({ status: 201, description: 'Session created' })
+  @ApiResponse({ status: 400, description: 'Invalid wallet address' })
+  @ApiResponse({ status: 502, description: 'Veriff rejected the request or is unreachable' })
+  @ApiResponse({ status: 503, description: 'Veriff integration not configured' })
+  async createSession(
+    @Body() dto: CreateKycSessionDto
+  ): Promise<CreateKycSessionResponse> {
+    const result = await this.kycService.createSession('veriff', dto);
+
+    if (result.error === 'NOT_CONFIGURED') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (result.error === 'PROVIDER_ERROR') {
+      throw new BadGatewayException(result.message);
+    }
+
+    return result;
+  }
 
   @Post('webhook')
   @HttpCode(HttpStatus.OK)
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
   @ApiOperation({ 
     summary: 'Handle Veriff webhook notifications',
-    description: 'Processes webhook notifications from Veriff for KYC decision updates (approve, decline, resubmission)'
+    description: 'Accepts webhook notifications from Veriff for KYC decision updates (approve, decline, resubmission) into an inbox ' +
+      'and answers once they are stored; a background worker applies them. ' +
+      'The signature is checked against the raw request body. Each webhook is applied once; redeliveries get the original result.'
   })
   @ApiHeader({
-    name: 'X-Veriff-Signature',
-    description: 'HMAC signature for webhook verification',
+    name: 'X-AUTH-CLIENT',
+    description: 'Veriff integration API key',
+    required: true
+  })
+  @ApiHeader({
+    name: 'X-HMAC-SIGNATURE',
+    description: 'Hex HMAC-SHA256 of the raw request body with the shared secret',
     required: true
   })
   @ApiResponse({ 
     status: 200, 
-    description: 'Webhook processed successfully',
+    description: 'Webhook queued, or the result of an earlier delivery',
     type: Object
   })
   @ApiResponse({ 
     status: 400, 
-    description: 'Invalid webhook data or signature'
+    description: 'Invalid webhook data, or timestamp outside the accepted window'
   })
   @ApiResponse({ 
     status: 401, 
-    description: 'Unauthorized - invalid signature'
+    description: 'Unauthorized - missing or invalid signature'
+  })
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Webhook id and session token already used with a different payload'
+  })
+  @ApiResponse({ 
+    status: 503, 
+    description: 'Webhook could not be stored; Veriff should redeliver it'
   })
   async handleWebhook(
     @Body() webhookData: VeriffWebhookDto,
-    @Headers('x-veriff-signature') signature: string
-  ): Promise<VeriffWebhookResponse> {
+    @Req() request: RawBodyRequest<Request>
+  ): Promise<KycWebhookResponse> {
     this.logger.log(`Received Veriff webhook for session: ${webhookData.sessionToken}`);
 
-    if (!signature) {
-      this.logger.warn('Missing X-Veriff-Signature header');
-      return {
-        success: false,
-        message: 'Missing signature header',
-        error: 'Unauthorized'
-      };
+    const result = await this.kycService.processWebhook('veriff', webhookData, {
+      rawBody: request.rawBody,
+      headers: request.headers
+    });
+
+    if (result.error === 'Unauthorized') {
+      throw new UnauthorizedException(result.message);
+    }
+
+    if (result.error === 'STALE_WEBHOOK' || result.error === 'INVALID_PAYLOAD') {
+      throw new BadRequestException(result.message);
+    }
+
+    if (result.error === 'PAYLOAD_MISMATCH') {
+      throw new ConflictException(result.message);
     }
 
-    const result = await this.veriffService.processWebhook(webhookData, signature);
+    if (result.error === 'INBOX_UNAVAILABLE') {
+      throw new ServiceUnavailableException(result.message);
+    }
     
-    if (result.success) {
-      this.logger.log(`Webhook processed successfully for wallet: ${result.wallet}, status: ${result.status}`);
+    if (result.queued && !result.duplicate) {
+      this.logger.log(`Webhook queued for session: ${webhookData.sessionToken}`);
+      this.webhookWorker.wake();
+    } else if (result.duplicate) {
+      this.logger.log(`Duplicate webhook for session: ${webhookData.sessionToken}, original result: ${result.error ?? result.status}`);
     } else {
       this.logger.error(`Webhook processing failed: ${result.error}`);
     }
@@ -74,25 +150,44 @@ export class VeriffController {
     return result;
   }
 
-  @Post('webhook/test')
+  @Post('webhook/simulate')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ 
-    summary: 'Test webhook endpoint',
-    description: 'Test endpoint for webhook functionality (development only)'
+  @UseGuards(AdminAuthGuard)
+  @RequireAdminRoles('operator')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Simulate a signed Veriff decision (sandbox only)',
+    description: 'Stores a session for the wallet, builds the Veriff decision webhook for the scenario (approved, declined, ' +
+      'resubmission or expired_document), signs it with VERIFF_WEBHOOK_SECRET and processes it like a real webhook. ' +
+      'Only available with VERIFF_SIMULATOR_ENABLED=true outside production, and only to operators.'
   })
-  @ApiResponse({ 
-    status: 200, 
-    description: 'Test webhook processed successfully'
-  })
-  async testWebhook(
-    @Body() testData: any
-  ): Promise<{ success: boolean; message: string; received: any }> {
-    this.logger.log('Test webhook endpoint called');
-    
-    return {
-      success: true,
-      message: 'Test webhook received successfully',
-      received: testData
-    };
+  @ApiResponse({ status: 200, description: 'Simulated webhook queued, with the signed payload' })
+  @ApiResponse({ status: 400, description: 'Invalid wallet, scenario or date of birth' })
+  @ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+  @ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+  @ApiResponse({ status: 404, description: 'Simulator disabled' })
+  @ApiResponse({ status: 503, description: 'Webhook secret not configured, or the webhook could not be stored' })
+  async simulateWebhook(
+    @Body() dto: SimulateVeriffWebhookDto
+  ): Promise<SimulateVeriffWebhookResponse> {
+    const result = await this.simulator.simulate(dto);
+
+    if (result.error === 'DISABLED') {
+      throw new NotFoundException();
+    }
+
+    if (result.error === 'NOT_CONFIGURED' || result.error === 'INBOX_UNAVAILABLE') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (result.error === 'Unauthorized') {
+      throw new UnauthorizedException(result.message);
+    }
+
+    if (result.queued && !result.duplicate) {
+      this.webhookWorker.wake();
+    }
+
+    return result;
   }
 }
@@ -0,0 +1,82 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { VerificationTypeRegistryService } from '../../application/services/verification-type-registry.service';
+import {
+  UpsertVerificationTypeDto,
+  VerificationTypeListResponse,
+  VerificationTypeResponse,
+} from '../../domain/entities/verification-type.entity';
+import { AdminAuthGuard, AdminRequest } from '../guards/admin-auth.guard';
+import { RequireAdminRoles } from '../decorators/admin-roles.decorator';
+
+@ApiTags('Admin - Verification Types')
+@Controller('admin/verification-types')
+@UseGuards(AdminAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired admin token' })
+@ApiResponse({ status: 403, description: 'Admin role not allowed on this route' })
+export class VerificationTypeController {
+  constructor(private readonly verificationTypeRegistry: VerificationTypeRegistryService) {}
+
+  @Get()
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'List the verification types the backend may issue' })
+  @ApiResponse({ status: 200, description: 'Verification types retrieved' })
+  async list(): Promise<VerificationTypeListResponse> {
+    return this.verificationTypeRegistry.list();
+  }
+
+  @Get(':type')
+  @RequireAdminRoles('operator', 'read-only')
+  @ApiOperation({ summary: 'Get a registered verification type' })
+  @ApiParam({ name: 'type', description: 'Built-in type (Over18) or custom symbol (Custom:kyc_sumsub)' })
+  @ApiResponse({ status: 200, description: 'Verification type retrieved' })
+  @ApiResponse({ status: 404, description: 'Verification type not registered' })
+  async get(@Param('type') type: string): Promise<VerificationTypeResponse> {
+    return this.unwrap(await this.verificationTypeRegistry.get(type));
+  }
+
+  @Put(':type')
+  @ApiOperation({
+    summary: 'Register a verification type or change its points and issuers',
+    description: 'Custom symbols APPROVED, PENDING and REJECTED are reserved for KYC status',
+  })
+  @ApiParam({ name: 'type', description: 'Built-in type (Over18) or custom symbol (Custom:kyc_sumsub)' })
+  @ApiResponse({ status: 200, description: 'Verification type stored' })
+  @ApiResponse({ status: 400, description: 'Invalid type, points or body' })
+  async upsert(
+    @Req() request: AdminRequest,
+    @Param('type') type: string,
+    @Body() dto: UpsertVerificationTypeDto,
+  ): Promise<VerificationTypeResponse> {
+    return this.unwrap(await this.verificationTypeRegistry.upsert(type, dto, request.admin.email));
+  }
+
+  private unwrap(result: VerificationTypeResponse): VerificationTypeResponse {
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'INVALID_TYPE' || result.error === 'INVALID_POINTS') {
+      throw new BadRequestException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { WalletAuthService } from '../../application/services/wallet-auth.service';
+import {
+  WalletChallengeQueryDto,
+  WalletChallengeResponse,
+  WalletTokenDto,
+  WalletTokenResponse,
+} from '../../domain/entities/wallet-auth.entity';
+
+@ApiTags('Wallet Auth')
+@Controller('auth')
+export class WalletAuthController {
+  constructor(private readonly walletAuthService: WalletAuthService) {}
+
+  @Get('challenge')
+  @ApiOperation({
+    summary: 'Get a SEP-10 challenge transaction',
+    description: 'Sign the returned transaction with the account master key and POST it to /auth/token',
+  })
+  @ApiResponse({ status: 200, description: 'Challenge built and signed by the server' })
+  @ApiResponse({ status: 503, description: 'Wallet authentication not configured' })
+  challenge(@Query() query: WalletChallengeQueryDto): WalletChallengeResponse {
+    return this.unwrap(this.walletAuthService.challenge(query.account));
+  }
+
+  @Post('token')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Exchange a signed SEP-10 challenge for a wallet session token',
+    description: 'Send the token as Authorization: Bearer <token> on routes owned by the wallet',
+  })
+  @ApiResponse({ status: 200, description: 'Token issued' })
+  @ApiResponse({ status: 400, description: 'Challenge invalid, expired or not signed by the account' })
+  @ApiResponse({ status: 503, description: 'Wallet authentication not configured' })
+  token(@Body() dto: WalletTokenDto): WalletTokenResponse {
+    return this.unwrap(this.walletAuthService.token(dto.transaction));
+  }
+
+  private unwrap<T extends { error?: string; message?: string }>(result: T): T {
+    if (result.error === 'NOT_CONFIGURED') {
+      throw new ServiceUnavailableException(result.message);
+    }
+
+    if (result.error === 'INVALID_CHALLENGE') {
+      throw new BadRequestException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,36 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AdminService } from '../../application/services/admin.service';
+import { ApiKeyResponse } from '../../domain/entities/api-key.entity';
+import { WalletAuthGuard } from '../guards/wallet-auth.guard';
+
+/**
+ * Routes a wallet calls for itself. Every route requires a SEP-10 wallet
+ * token for the `:wallet` in its path.
+ */
+@ApiTags('Wallets')
+@Controller('wallets')
+@UseGuards(WalletAuthGuard)
+@ApiBearerAuth()
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired wallet token' })
+@ApiResponse({ status: 403, description: 'Token belongs to another wallet' })
+export class WalletController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @Get(':wallet/api-key')
+  @ApiOperation({
+    summary: 'Generate an API key for your own human-verified wallet',
+    description: 'Denied unless the wallet meets the human verification threshold',
+  })
+  @ApiParam({ name: 'wallet', description: 'Stellar wallet address' })
+  @ApiResponse({ status: 200, description: 'Result of the human check, with the key when it passed' })
+  async generateApiKey(@Param('wallet') wallet: string): Promise<ApiKeyResponse> {
+    return this.adminService.generateApiKeyForHuman(wallet);
+  }
+}
@@ -0,0 +1,144 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WebhookService } from '../../application/services/webhook.service';
+import {
+  CreateWebhookEndpointDto,
+  ListWebhookDeliveriesQueryDto,
+  WebhookDeliveryListResponse,
+  WebhookDeliveryResponse,
+  WebhookEndpointListResponse,
+  WebhookEndpointResponse,
+} from '../../domain/entities/webhook.entity';
+import {
+  IntegratorApiKeyGuard,
+  IntegratorRequest,
+} from '../guards/integrator-api-key.guard';
+import { RequireScopes } from '../decorators/api-key-scopes.decorator';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+@UseGuards(IntegratorApiKeyGuard)
+@RequireScopes('webhooks:manage')
+@ApiBearerAuth()
+@ApiResponse({
+  status: 401,
+  description: 'Missing, unknown or revoked integrator API key in Authorization: Bearer <key>.',
+})
+@ApiResponse({
+  status: 403,
+  description: 'API key does not hold the webhooks:manage scope.',
+})
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  @Post('endpoints')
+  @ApiOperation({
+    summary: 'Register a webhook endpoint',
+    description:
+      'Subscribes a URL to identity events. Returns the signing secret once; ' +
+      'deliveries carry X-Veridion-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">.',
+  })
+  @ApiResponse({ status: 201, description: 'Endpoint registered' })
+  @ApiResponse({ status: 400, description: 'Invalid, non-https or private URL, or unknown event type' })
+  async createEndpoint(
+    @Req() request: IntegratorRequest,
+    @Body() dto: CreateWebhookEndpointDto,
+  ): Promise<WebhookEndpointResponse> {
+    const result = await this.webhookService.createEndpoint(request.apiKey.id, dto);
+
+    if (result.error === 'INVALID_URL') {
+      throw new BadRequestException(result.message);
+    }
+
+    return result;
+  }
+
+  @Get('endpoints')
+  @ApiOperation({ summary: 'List webhook endpoints of this API key (without secrets)' })
+  @ApiResponse({ status: 200, description: 'Endpoints retrieved' })
+  async listEndpoints(@Req() request: IntegratorRequest): Promise<WebhookEndpointListResponse> {
+    return {
+      success: true,
+      endpoints: await this.webhookService.listEndpoints(request.apiKey.id),
+    };
+  }
+
+  @Delete('endpoints/:id')
+  @ApiOperation({
+    summary: 'Delete a webhook endpoint',
+    description: 'Pending deliveries to the endpoint are marked failed',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint ID' })
+  @ApiResponse({ status: 200, description: 'Endpoint deleted' })
+  @ApiResponse({ status: 404, description: 'Endpoint not found' })
+  async deleteEndpoint(
+    @Req() request: IntegratorRequest,
+    @Param('id') id: string,
+  ): Promise<WebhookEndpointResponse> {
+    const result = await this.webhookService.deleteEndpoint(request.apiKey.id, id);
+
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    return result;
+  }
+
+  @Get('deliveries')
+  @ApiOperation({ summary: 'List webhook deliveries, newest first' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved' })
+  async listDeliveries(
+    @Req() request: IntegratorRequest,
+    @Query() query: ListWebhookDeliveriesQueryDto,
+  ): Promise<WebhookDeliveryListResponse> {
+    return {
+      success: true,
+      deliveries: await this.webhookService.listDeliveries(request.apiKey.id, query),
+    };
+  }
+
+  @Post('deliveries/:id/replay')
+  @ApiOperation({
+    summary: 'Replay a webhook delivery',
+    description: 'Sends the same event (same event id) to the same endpoint as a new delivery',
+  })
+  @ApiParam({ name: 'id', description: 'Webhook delivery ID' })
+  @ApiResponse({ status: 201, description: 'Replay queued' })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  @ApiResponse({ status: 409, description: 'Endpoint of the delivery was deleted' })
+  async replayDelivery(
+    @Req() request: IntegratorRequest,
+    @Param('id') id: string,
+  ): Promise<WebhookDeliveryResponse> {
+    const result = await this.webhookService.replayDelivery(request.apiKey.id, id);
+
+    if (result.error === 'NOT_FOUND') {
+      throw new NotFoundException(result.message);
+    }
+
+    if (result.error === 'ENDPOINT_INACTIVE') {
+      throw new ConflictException(result.message);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { AdminRole } from '../../domain/entities/admin-user.entity';
+
+export const ADMIN_ROLES_METADATA = 'adminRoles';
+
+/**
+ * Admin roles allowed to call the decorated route, besides `superadmin`,
+ * which may call every admin route. Routes without this decorator are
+ * superadmin-only. Enforced by AdminAuthGuard.
+ */
+export const RequireAdminRoles = (...roles: AdminRole[]) =>
+  SetMetadata(ADMIN_ROLES_METADATA, roles);
@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../domain/entities/api-key.entity';
+
+export const API_KEY_SCOPES_METADATA = 'apiKeyScopes';
+
+/**
+ * Scopes an integrator API key must hold to call the decorated route.
+ * Enforced by IntegratorApiKeyGuard.
+ */
+export const RequireScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_METADATA, scopes);
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const OWNED_WALLET_PARAM_METADATA = 'ownedWalletParam';
+
+/**
+ * Route param holding the wallet the caller must own, when it is not
+ * `:wallet`. Enforced by WalletAuthGuard.
+ *
+ * @example @OwnedWalletParam('walletAddress') // DELETE /users/:walletAddress
+ */
+export const OwnedWalletParam = (param: string) =>
+  SetMetadata(OWNED_WALLET_PARAM_METADATA, param);
@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const QUOTA_COST_METADATA = 'quotaCostField';
+
+/**
+ * Charge the monthly quota by the length of an array field in the request
+ * body instead of once per request. Enforced by RateLimitGuard.
+ *
+ * @example @QuotaCost('wallets') // a batch of 10 wallets costs 10 units
+ */
+export const QuotaCost = (bodyField: string) =>
+  SetMetadata(QUOTA_COST_METADATA, bodyField);
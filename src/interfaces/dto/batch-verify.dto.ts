@@ -5,6 +5,7 @@ import {
   IsString,
   ArrayMaxSize,
 } from 'class-validator';
+import { SCORING_MODES, ScoringMode } from '../../domain/entities/effective-score.entity';
 
 export class BatchVerifyRequestDto {
   @ApiProperty({
@@ -38,15 +39,40 @@ export class WalletResultDto {
 
   @ApiProperty({ example: true })
   isHuman: boolean;
+
+  @ApiProperty({
+    example: [],
+    type: [String],
+    description: 'Policy requirements not met, e.g. minScore, verification:Over18, kycStatus:approved.',
+  })
+  unmet: string[];
+}
+
+export class HumanityPolicyRefDto {
+  @ApiProperty({ example: 'default' })
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  version: number;
 }
 
 export class BatchVerifyResponseDto {
   @ApiProperty({ type: [WalletResultDto] })
   results: WalletResultDto[];
 
-  @ApiProperty({ example: 35, description: 'Score threshold used to determine isHuman.' })
+  @ApiProperty({ example: 35, description: 'Minimum score of the humanity policy used.' })
   threshold: number;
 
+  @ApiProperty({
+    enum: SCORING_MODES,
+    example: 'raw',
+    description: 'raw: contract scores; effective: scores aged by verification type expiry and decay.',
+  })
+  scoring: ScoringMode;
+
+  @ApiProperty({ type: HumanityPolicyRefDto, description: 'Humanity policy version that decided isHuman.' })
+  policy: HumanityPolicyRefDto;
+
   @ApiProperty({ example: 2, description: 'Number of wallets successfully processed.' })
   processed: number;
 
@@ -0,0 +1,314 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  RequestMethod,
+  UnauthorizedException,
+} from '@nestjs/common';
+import {
+  GUARDS_METADATA,
+  METHOD_METADATA,
+  PATH_METADATA,
+} from '@nestjs/common/constants';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AdminAuthGuard } from './admin-auth.guard';
+import { AdminAuthService } from '../../application/services/admin-auth.service';
+import {
+  ADMIN_ROLES,
+  AdminPrincipal,
+  AdminRole,
+} from '../../domain/entities/admin-user.entity';
+import { AdminController } from '../controllers/admin.controller';
+import { StellarAdminController } from '../controllers/stellar-admin.controller';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { PassportIndexerController } from '../controllers/passport-indexer.controller';
+import { AdminUserController } from '../controllers/admin-user.controller';
+import { AdminAuthController } from '../controllers/admin-auth.controller';
+import { PassController } from '../controllers/pass.controller';
+import { HumanityPolicyController } from '../controllers/humanity-policy.controller';
+import { VerificationTypeController } from '../controllers/verification-type.controller';
+import { ScoreDecayController } from '../controllers/score-decay.controller';
+import { KycAdminController } from '../controllers/kyc-admin.controller';
+import { VeriffController } from '../controllers/veriff.controller';
+import { ADMIN_ROLES_METADATA } from '../decorators/admin-roles.decorator';
+
+// ── Helper ────────────────────────────────────────────────────────────────────
+
+type ControllerClass = abstract new (...args: never[]) => object;
+
+function buildContext(
+  authHeader?: string,
+  controller: ControllerClass = AdminController,
+  handler = 'getStatus',
+): { context: ExecutionContext; request: Record<string, any> } {
+  const request: Record<string, any> = {
+    headers: authHeader ? { authorization: authHeader } : {},
+  };
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => request,
+    }),
+    getHandler: () => controller.prototype[handler],
+    getClass: () => controller,
+  } as unknown as ExecutionContext;
+  return { context, request };
+}
+
+const principal = (role: AdminRole): AdminPrincipal => ({
+  id: `admin-${role}`,
+  email: `${role}@veridion.id`,
+  role,
+});
+
+// Roles besides superadmin allowed on each guarded route. Adding a route to
+// one of these controllers without listing it here fails the suite.
+const OPERATOR: AdminRole[] = ['operator'];
+const OPERATOR_READ: AdminRole[] = ['operator', 'read-only'];
+const ANY_READER: AdminRole[] = ['operator', 'kyc-reviewer', 'read-only'];
+const SUPERADMIN_ONLY: AdminRole[] = [];
+
+const PERMISSIONS: [ControllerClass, Record<string, AdminRole[]>][] = [
+  [
+    AdminController,
+    {
+      'POST /admin/register/build': OPERATOR,
+      'POST /admin/register/submit': OPERATOR,
+      'POST /admin/create-verification/build': OPERATOR,
+      'POST /admin/create-verification/submit': OPERATOR,
+      'GET /admin/api-key': SUPERADMIN_ONLY,
+      'GET /admin/api-key-hm/:wallet': SUPERADMIN_ONLY,
+      'GET /admin/account-sequence/:accountId': OPERATOR_READ,
+      'GET /admin/get-status/:wallet': ANY_READER,
+      'POST /admin/update-status/:wallet': ['kyc-reviewer'],
+    },
+  ],
+  [
+    StellarAdminController,
+    {
+      'GET /admin/stellar/failed': OPERATOR_READ,
+      'GET /admin/stellar/failed/summary': OPERATOR_READ,
+      'POST /admin/stellar/failed/retry': OPERATOR,
+      'POST /admin/stellar/failed/:id/discard': OPERATOR,
+      'POST /admin/stellar/retry/:id': OPERATOR,
+    },
+  ],
+  [
+    ApiKeyController,
+    {
+      'POST /admin/api-keys': SUPERADMIN_ONLY,
+      'GET /admin/api-keys': OPERATOR_READ,
+      'POST /admin/api-keys/:id/rotate': SUPERADMIN_ONLY,
+      'PUT /admin/api-keys/:id/policy': SUPERADMIN_ONLY,
+      'DELETE /admin/api-keys/:id': SUPERADMIN_ONLY,
+    },
+  ],
+  [
+    PassportIndexerController,
+    {
+      'GET /admin/indexer/status': OPERATOR_READ,
+      'POST /admin/indexer/sync': OPERATOR,
+      'GET /admin/indexer/wallets/:wallet': ANY_READER,
+    },
+  ],
+  [
+    AdminUserController,
+    {
+      'POST /admin/users': SUPERADMIN_ONLY,
+      'GET /admin/users': SUPERADMIN_ONLY,
+      'POST /admin/users/:id/disable': SUPERADMIN_ONLY,
+    },
+  ],
+  [
+    HumanityPolicyController,
+    {
+      'GET /admin/humanity-policies': OPERATOR_READ,
+      'GET /admin/humanity-policies/:id': OPERATOR_READ,
+      'PUT /admin/humanity-policies/:id': SUPERADMIN_ONLY,
+    },
+  ],
+  [
+    VerificationTypeController,
+    {
+      'GET /admin/verification-types': OPERATOR_READ,
+      'GET /admin/verification-types/:type': OPERATOR_READ,
+      'PUT /admin/verification-types/:type': SUPERADMIN_ONLY,
+    },
+  ],
+  [
+    ScoreDecayController,
+    {
+      'GET /admin/score-decay/reports': OPERATOR_READ,
+      'POST /admin/score-decay/reports': OPERATOR,
+    },
+  ],
+  [
+    KycAdminController,
+    {
+      'GET /admin/kyc/fingerprint-collisions': ANY_READER,
+      'GET /admin/kyc/webhook-inbox': ANY_READER,
+      'GET /admin/kyc/webhooks/:wallet': ANY_READER,
+      'GET /admin/kyc/status/:wallet': ANY_READER,
+      'GET /admin/kyc/review-cases': ANY_READER,
+      'GET /admin/kyc/review-cases/:id': ANY_READER,
+      'POST /admin/kyc/review-cases/:id/claim': ['kyc-reviewer'],
+      'POST /admin/kyc/review-cases/:id/comments': ['kyc-reviewer'],
+      'POST /admin/kyc/review-cases/:id/resolve': ['kyc-reviewer'],
+    },
+  ],
+  [
+    PassController,
+    {
+      'GET /pass': ['operator', 'kyc-reviewer', 'read-only'],
+      'POST /pass/create': OPERATOR,
+      'POST /pass/create/build': OPERATOR,
+      'POST /pass/create/submit': OPERATOR,
+    },
+  ],
+];
+
+/** `METHOD /path` of every route handler on a controller, keyed to its method name. */
+function routesOf(controller: ControllerClass): Map<string, string> {
+  const base = Reflect.getMetadata(PATH_METADATA, controller) as string;
+  const routes = new Map<string, string>();
+
+  for (const name of Object.getOwnPropertyNames(controller.prototype)) {
+    const handler = controller.prototype[name];
+    if (name === 'constructor' || typeof handler !== 'function') {
+      continue;
+    }
+
+    const path = Reflect.getMetadata(PATH_METADATA, handler) as string | undefined;
+    if (path === undefined) {
+      continue;
+    }
+
+    const method = RequestMethod[Reflect.getMetadata(METHOD_METADATA, handler) as RequestMethod];
+    const fullPath = ['', base, path].join('/').replace(/\/+/g, '/').replace(/\/$/, '');
+    routes.set(`${method} ${fullPath}`, name);
+  }
+
+  return routes;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('AdminAuthGuard', () => {
+  let guard: AdminAuthGuard;
+  let adminAuthService: { authenticate: jest.Mock };
+
+  beforeEach(async () => {
+    adminAuthService = { authenticate: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminAuthGuard,
+        Reflector,
+        { provide: AdminAuthService, useValue: adminAuthService },
+      ],
+    }).compile();
+
+    guard = module.get<AdminAuthGuard>(AdminAuthGuard);
+  });
+
+  it('allows the request and attaches the admin when the role is allowed', async () => {
+    adminAuthService.authenticate.mockResolvedValue(principal('read-only'));
+    const { context, request } = buildContext('Bearer admin-token');
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(adminAuthService.authenticate).toHaveBeenCalledWith('admin-token');
+    expect(request.admin).toEqual(principal('read-only'));
+  });
+
+  it('throws 401 when the Authorization header is absent', async () => {
+    const { context } = buildContext();
+
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+    expect(adminAuthService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('throws 401 when the Authorization header does not start with Bearer', async () => {
+    const { context } = buildContext('Basic admin-token');
+
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('throws 401 when the token does not resolve to an active admin', async () => {
+    adminAuthService.authenticate.mockResolvedValue(null);
+    const { context } = buildContext('Bearer expired-token');
+
+    await expect(guard.canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('throws 403 when the role is not allowed on the route', async () => {
+    adminAuthService.authenticate.mockResolvedValue(principal('read-only'));
+    const { context, request } = buildContext('Bearer admin-token', AdminController, 'updateStatus');
+
+    await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+    expect(request.admin).toBeUndefined();
+  });
+
+  it('lets superadmins call routes without @RequireAdminRoles', async () => {
+    adminAuthService.authenticate.mockResolvedValue(principal('superadmin'));
+    const { context } = buildContext('Bearer admin-token', AdminController, 'generateApiKey');
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+  });
+
+  describe('route permission matrix', () => {
+    it.each(PERMISSIONS.map(([controller, table]) => [controller.name, controller, table] as const))(
+      '%s lists every route in the matrix',
+      (_name, controller, table) => {
+        expect([...routesOf(controller).keys()].sort()).toEqual(Object.keys(table).sort());
+      },
+    );
+
+    const cases = PERMISSIONS.flatMap(([controller, table]) => {
+      const routes = routesOf(controller);
+      return Object.entries(table).flatMap(([route, allowed]) =>
+        ADMIN_ROLES.map((role) => ({
+          controller,
+          handler: routes.get(route),
+          route,
+          role,
+          allowed: role === 'superadmin' || allowed.includes(role),
+        })),
+      );
+    });
+
+    it.each(cases)('$route as $role: allowed=$allowed', async ({ controller, handler, role, allowed }) => {
+      adminAuthService.authenticate.mockResolvedValue(principal(role));
+      const { context } = buildContext('Bearer admin-token', controller, handler);
+
+      if (allowed) {
+        await expect(guard.canActivate(context)).resolves.toBe(true);
+      } else {
+        await expect(guard.canActivate(context)).rejects.toThrow(ForbiddenException);
+      }
+    });
+
+    it('keeps login public and /admin/auth/me open to every role', () => {
+      const reflector = new Reflector();
+
+      expect(Reflect.getMetadata(GUARDS_METADATA, AdminAuthController)).toBeUndefined();
+      expect(Reflect.getMetadata(GUARDS_METADATA, AdminAuthController.prototype.login)).toBeUndefined();
+      expect(Reflect.getMetadata(GUARDS_METADATA, AdminAuthController.prototype.me)).toEqual([AdminAuthGuard]);
+      expect(reflector.get(ADMIN_ROLES_METADATA, AdminAuthController.prototype.me)).toEqual([...ADMIN_ROLES]);
+    });
+
+    it('keeps the Veriff webhook public and the simulator to operators', () => {
+      const reflector = new Reflector();
+
+      expect(Reflect.getMetadata(GUARDS_METADATA, VeriffController)).toBeUndefined();
+      expect(Reflect.getMetadata(GUARDS_METADATA, VeriffController.prototype.handleWebhook)).toBeUndefined();
+      expect(Reflect.getMetadata(GUARDS_METADATA, VeriffController.prototype.simulateWebhook)).toEqual([AdminAuthGuard]);
+      expect(reflector.get(ADMIN_ROLES_METADATA, VeriffController.prototype.simulateWebhook)).toEqual(OPERATOR);
+    });
+
+    it.each(PERMISSIONS.map(([controller]) => [controller.name, controller] as const))(
+      '%s is guarded by AdminAuthGuard',
+      (_name, controller) => {
+        expect(Reflect.getMetadata(GUARDS_METADATA, controller)).toEqual([AdminAuthGuard]);
+      },
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AdminAuthService } from '../../application/services/admin-auth.service';
+import {
+  AdminPrincipal,
+  AdminRole,
+} from '../../domain/entities/admin-user.entity';
+import { ADMIN_ROLES_METADATA } from '../decorators/admin-roles.decorator';
+
+export interface AdminRequest extends Request {
+  admin?: AdminPrincipal;
+}
+
+/**
+ * Guard that validates an admin session token supplied via the
+ * `Authorization: Bearer <token>` header (see POST /admin/auth/login).
+ *
+ * The admin's role must be listed with `@RequireAdminRoles(...)` on the
+ * route or its controller; `superadmin` passes everywhere, and routes
+ * without the decorator are superadmin-only. The resolved admin is attached
+ * to the request as `request.admin`.
+ *
+ * Returns 401 when:
+ *  - The Authorization header is absent or malformed
+ *  - The token is invalid or expired, or its admin is unknown or disabled
+ *
+ * Returns 403 when the admin's role is not allowed on the route.
+ */
+@Injectable()
+export class AdminAuthGuard implements CanActivate {
+  constructor(
+    private readonly adminAuthService: AdminAuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AdminRequest>();
+    const authHeader = request.headers['authorization'];
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException(
+        'Missing or malformed Authorization header. Expected: Bearer <token>',
+      );
+    }
+
+    const token = authHeader.slice('Bearer '.length).trim();
+    const admin = await this.adminAuthService.authenticate(token);
+
+    if (!admin) {
+      throw new UnauthorizedException('Invalid or expired admin token.');
+    }
+
+    const allowedRoles =
+      this.reflector.getAllAndOverride<AdminRole[]>(ADMIN_ROLES_METADATA, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    if (admin.role !== 'superadmin' && !allowedRoles.includes(admin.role)) {
+      throw new ForbiddenException(
+        `Role ${admin.role} may not call this route`,
+      );
+    }
+
+    request.admin = admin;
+    return true;
+  }
+}
@@ -1,97 +1,124 @@
-import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
 import { Test, TestingModule } from '@nestjs/testing';
 import { IntegratorApiKeyGuard } from './integrator-api-key.guard';
+import { ApiKeyService } from '../../application/services/api-key.service';
+import { IntegratorApiKey } from '../../domain/entities/api-key.entity';
 
 // ── Helper ────────────────────────────────────────────────────────────────────
 
-function buildContext(authHeader?: string): ExecutionContext {
-  const request = {
+function buildContext(authHeader?: string): {
+  context: ExecutionContext;
+  request: Record<string, any>;
+} {
+  const request: Record<string, any> = {
     headers: authHeader ? { authorization: authHeader } : {},
   };
-  return {
+  const context = {
     switchToHttp: () => ({
       getRequest: () => request,
     }),
+    getHandler: () => undefined,
+    getClass: () => undefined,
   } as unknown as ExecutionContext;
+  return { context, request };
 }
 
+const activeKey: IntegratorApiKey = {
+  id: 'key-1',
+  name: 'Acme',
+  keyHash: 'hash',
+  prefix: 'veridion_abcd1234',
+  scopes: ['verify:batch'],
+  revoked: false,
+  createdAt: new Date(),
+};
+
 // ── Tests ─────────────────────────────────────────────────────────────────────
 
 describe('IntegratorApiKeyGuard', () => {
   let guard: IntegratorApiKeyGuard;
-  let configService: jest.Mocked<ConfigService>;
+  let apiKeyService: { authenticate: jest.Mock };
+  let reflector: { getAllAndOverride: jest.Mock };
 
   beforeEach(async () => {
-    const mockConfigService = {
-      get: jest.fn(),
-    };
+    apiKeyService = { authenticate: jest.fn() };
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(undefined) };
 
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         IntegratorApiKeyGuard,
-        { provide: ConfigService, useValue: mockConfigService },
+        { provide: ApiKeyService, useValue: apiKeyService },
+        { provide: Reflector, useValue: reflector },
       ],
     }).compile();
 
     guard = module.get<IntegratorApiKeyGuard>(IntegratorApiKeyGuard);
-    configService = module.get(ConfigService);
   });
 
-  it('allows the request when the correct Bearer token is provided', () => {
-    configService.get.mockReturnValue('secret-key');
-
-    const result = guard.canActivate(buildContext('Bearer secret-key'));
+  it('allows the request when the key is known and active', async () => {
+    apiKeyService.authenticate.mockResolvedValue(activeKey);
+    const { context, request } = buildContext('Bearer veridion_secret');
 
-    expect(result).toBe(true);
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeyService.authenticate).toHaveBeenCalledWith('veridion_secret');
+    expect(request.apiKey).toBe(activeKey);
   });
 
-  it('throws 401 when the Authorization header is absent', () => {
-    configService.get.mockReturnValue('secret-key');
+  it('throws 401 when the Authorization header is absent', async () => {
+    const { context } = buildContext();
 
-    expect(() => guard.canActivate(buildContext())).toThrow(
+    await expect(guard.canActivate(context)).rejects.toThrow(
       UnauthorizedException,
     );
+    expect(apiKeyService.authenticate).not.toHaveBeenCalled();
   });
 
-  it('throws 401 when the Authorization header does not start with Bearer', () => {
-    configService.get.mockReturnValue('secret-key');
+  it('throws 401 when the Authorization header does not start with Bearer', async () => {
+    const { context } = buildContext('Basic veridion_secret');
 
-    expect(() =>
-      guard.canActivate(buildContext('Basic secret-key')),
-    ).toThrow(UnauthorizedException);
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      UnauthorizedException,
+    );
   });
 
-  it('throws 401 when the provided token is wrong', () => {
-    configService.get.mockReturnValue('secret-key');
+  it('throws 401 when the key is unknown or revoked', async () => {
+    apiKeyService.authenticate.mockResolvedValue(null);
+    const { context } = buildContext('Bearer wrong-token');
 
-    expect(() =>
-      guard.canActivate(buildContext('Bearer wrong-token')),
-    ).toThrow(UnauthorizedException);
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      UnauthorizedException,
+    );
   });
 
-  it('trims whitespace around the token after stripping the Bearer prefix', () => {
-    configService.get.mockReturnValue('secret-key');
+  it('trims whitespace around the token after stripping the Bearer prefix', async () => {
+    apiKeyService.authenticate.mockResolvedValue(activeKey);
+    const { context } = buildContext('Bearer  veridion_secret ');
 
-    // "Bearer  secret-key" — .trim() strips the leading space, so it matches
-    const result = guard.canActivate(buildContext('Bearer  secret-key'));
-    expect(result).toBe(true);
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(apiKeyService.authenticate).toHaveBeenCalledWith('veridion_secret');
   });
 
-  it('throws 401 when INTEGRATOR_API_KEY is not configured on the server', () => {
-    configService.get.mockReturnValue(undefined);
+  it('allows the request when the key holds every required scope', async () => {
+    apiKeyService.authenticate.mockResolvedValue(activeKey);
+    reflector.getAllAndOverride.mockReturnValue(['verify:batch']);
+    const { context } = buildContext('Bearer veridion_secret');
 
-    expect(() =>
-      guard.canActivate(buildContext('Bearer anything')),
-    ).toThrow(UnauthorizedException);
+    await expect(guard.canActivate(context)).resolves.toBe(true);
   });
 
-  it('strips "Bearer " prefix correctly and accepts exact match', () => {
-    const key = 'my-integrator-key-abc123';
-    configService.get.mockReturnValue(key);
+  it('throws 403 when the key lacks a required scope', async () => {
+    apiKeyService.authenticate.mockResolvedValue(activeKey);
+    reflector.getAllAndOverride.mockReturnValue(['verify:batch', 'webhooks:manage']);
+    const { context, request } = buildContext('Bearer veridion_secret');
 
-    const result = guard.canActivate(buildContext(`Bearer ${key}`));
-
-    expect(result).toBe(true);
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(request.apiKey).toBeUndefined();
   });
 });
@@ -1,38 +1,46 @@
 import {
   CanActivate,
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
 import { Request } from 'express';
+import { ApiKeyService } from '../../application/services/api-key.service';
+import {
+  ApiKeyScope,
+  IntegratorApiKey,
+} from '../../domain/entities/api-key.entity';
+import { API_KEY_SCOPES_METADATA } from '../decorators/api-key-scopes.decorator';
+
+export interface IntegratorRequest extends Request {
+  apiKey?: IntegratorApiKey;
+}
 
 /**
- * Guard that validates the shared integrator API key supplied via the
- * `Authorization: Bearer <INTEGRATOR_API_KEY>` header.
+ * Guard that validates a per-integrator API key supplied via the
+ * `Authorization: Bearer <api key>` header.
  *
- * Configuration:
- *   INTEGRATOR_API_KEY — the expected token (env var, required)
+ * Keys are looked up by hash in the `integrator_api_keys` collection and
+ * must hold every scope listed with `@RequireScopes(...)` on the route.
+ * The resolved key is attached to the request as `request.apiKey`.
  *
  * Returns 401 when:
  *  - The Authorization header is absent or malformed
- *  - The provided token does not match INTEGRATOR_API_KEY
- *  - INTEGRATOR_API_KEY is not configured
+ *  - The key is unknown or revoked
+ *
+ * Returns 403 when the key lacks a required scope.
  */
 @Injectable()
 export class IntegratorApiKeyGuard implements CanActivate {
-  constructor(private readonly configService: ConfigService) {}
-
-  canActivate(context: ExecutionContext): boolean {
-    const expectedKey = this.configService.get<string>('INTEGRATOR_API_KEY');
-
-    if (!expectedKey) {
-      throw new UnauthorizedException(
-        'INTEGRATOR_API_KEY is not configured on the server.',
-      );
-    }
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly reflector: Reflector,
+  ) {}
 
-    const request = context.switchToHttp().getRequest<Request>();
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<IntegratorRequest>();
     const authHeader = request.headers['authorization'];
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -42,11 +50,29 @@ export class IntegratorApiKeyGuard implements CanActivate {
     }
 
     const providedKey = authHeader.slice('Bearer '.length).trim();
+    const apiKey = await this.apiKeyService.authenticate(providedKey);
 
-    if (providedKey !== expectedKey) {
+    if (!apiKey) {
       throw new UnauthorizedException('Invalid API key.');
     }
 
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_METADATA, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+
+    const missing = requiredScopes.filter(
+      (scope) => !apiKey.scopes.includes(scope),
+    );
+
+    if (missing.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing required scope(s): ${missing.join(', ')}`,
+      );
+    }
+
+    request.apiKey = apiKey;
     return true;
   }
 }
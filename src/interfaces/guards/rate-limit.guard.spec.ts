@@ -0,0 +1,155 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from '../../application/services/rate-limit.service';
+import { ApiKeyService } from '../../application/services/api-key.service';
+
+// ── Helper ────────────────────────────────────────────────────────────────────
+
+function buildContext(request: Record<string, any>) {
+  const headers: Record<string, string> = {};
+  const response = {
+    setHeader: jest.fn((name: string, value: string) => {
+      headers[name] = value;
+    }),
+  };
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => ({ headers: {}, ...request }),
+      getResponse: () => response,
+    }),
+    getHandler: () => undefined,
+    getClass: () => undefined,
+  } as unknown as ExecutionContext;
+  return { context, headers };
+}
+
+const allowed = {
+  allowed: true,
+  limit: 60,
+  remaining: 59,
+  resetSeconds: 1,
+  quotaLimit: 1000,
+  quotaRemaining: 990,
+  quotaResetAt: 1743465600,
+};
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let rateLimitService: { consume: jest.Mock };
+  let apiKeyService: { authenticate: jest.Mock };
+  let reflector: { getAllAndOverride: jest.Mock };
+
+  beforeEach(async () => {
+    rateLimitService = { consume: jest.fn().mockResolvedValue(allowed) };
+    apiKeyService = { authenticate: jest.fn().mockResolvedValue(null) };
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        { provide: RateLimitService, useValue: rateLimitService },
+        { provide: ApiKeyService, useValue: apiKeyService },
+        { provide: Reflector, useValue: reflector },
+      ],
+    }).compile();
+
+    guard = module.get(RateLimitGuard);
+  });
+
+  it('limits anonymous requests by client IP and sets headers', async () => {
+    const { context, headers } = buildContext({ ip: '10.0.0.1' });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      { kind: 'ip', key: '10.0.0.1' },
+      1,
+    );
+    expect(headers).toMatchObject({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '59',
+      'X-RateLimit-Reset': '1',
+      'X-RateLimit-Quota-Limit': '1000',
+      'X-RateLimit-Quota-Remaining': '990',
+      'X-RateLimit-Quota-Reset': '1743465600',
+    });
+  });
+
+  it('limits by the key already resolved by IntegratorApiKeyGuard', async () => {
+    const { context } = buildContext({ ip: '10.0.0.1', apiKey: { id: 'key-1' } });
+
+    await guard.canActivate(context);
+
+    expect(apiKeyService.authenticate).not.toHaveBeenCalled();
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      { kind: 'api-key', key: 'key-1' },
+      1,
+    );
+  });
+
+  it('resolves an optional Bearer key on public routes', async () => {
+    apiKeyService.authenticate.mockResolvedValue({ id: 'key-2' });
+    const { context } = buildContext({
+      ip: '10.0.0.1',
+      headers: { authorization: 'Bearer veridion_abc' },
+    });
+
+    await guard.canActivate(context);
+
+    expect(apiKeyService.authenticate).toHaveBeenCalledWith('veridion_abc');
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      { kind: 'api-key', key: 'key-2' },
+      1,
+    );
+  });
+
+  it('falls back to the IP when the optional key is unknown', async () => {
+    const { context } = buildContext({
+      ip: '10.0.0.1',
+      headers: { authorization: 'Bearer bogus' },
+    });
+
+    await guard.canActivate(context);
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith(
+      { kind: 'ip', key: '10.0.0.1' },
+      1,
+    );
+  });
+
+  it('charges the quota by the length of the configured body field', async () => {
+    reflector.getAllAndOverride.mockReturnValue('wallets');
+    const { context } = buildContext({
+      ip: '10.0.0.1',
+      body: { wallets: ['a', 'b', 'c'] },
+    });
+
+    await guard.canActivate(context);
+
+    expect(rateLimitService.consume).toHaveBeenCalledWith(expect.anything(), 3);
+  });
+
+  it('throws 429 with Retry-After when denied', async () => {
+    rateLimitService.consume.mockResolvedValue({
+      allowed: false,
+      reason: 'rate',
+      limit: 60,
+      remaining: 0,
+      resetSeconds: 60,
+      retryAfterSeconds: 1,
+    });
+    const { context, headers } = buildContext({ ip: '10.0.0.1' });
+
+    const error = await guard.canActivate(context).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(headers['Retry-After']).toBe('1');
+    expect(headers['X-RateLimit-Remaining']).toBe('0');
+    expect(headers['X-RateLimit-Quota-Limit']).toBeUndefined();
+  });
+});
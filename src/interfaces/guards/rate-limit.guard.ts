@@ -0,0 +1,105 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { RateLimitService } from '../../application/services/rate-limit.service';
+import { ApiKeyService } from '../../application/services/api-key.service';
+import {
+  RateLimitDecision,
+  RateLimitIdentity,
+} from '../../domain/entities/rate-limit.entity';
+import { IntegratorRequest } from './integrator-api-key.guard';
+import { QUOTA_COST_METADATA } from '../decorators/quota-cost.decorator';
+
+/**
+ * Guard that applies token-bucket rate limiting and monthly quotas.
+ *
+ * Requests are counted against the integrator API key when one is present
+ * (set by IntegratorApiKeyGuard, or an optional Bearer key on public
+ * routes) and against the client IP otherwise. Every response carries
+ * `X-RateLimit-*` headers; denied requests get 429 with `Retry-After`.
+ *
+ * Must be listed after IntegratorApiKeyGuard on routes that use both.
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly rateLimitService: RateLimitService,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<IntegratorRequest>();
+    const response = http.getResponse<Response>();
+
+    if (!request.apiKey) {
+      request.apiKey = (await this.resolveOptionalApiKey(request)) ?? undefined;
+    }
+
+    const identity: RateLimitIdentity = request.apiKey
+      ? { kind: 'api-key', key: request.apiKey.id }
+      : { kind: 'ip', key: request.ip ?? request.socket?.remoteAddress ?? 'unknown' };
+
+    const decision = await this.rateLimitService.consume(
+      identity,
+      this.quotaCost(context, request),
+    );
+
+    this.setHeaders(response, decision);
+
+    if (!decision.allowed) {
+      response.setHeader('Retry-After', String(decision.retryAfterSeconds ?? 1));
+      throw new HttpException(
+        decision.reason === 'quota'
+          ? 'Monthly quota exceeded.'
+          : 'Rate limit exceeded. Slow down and retry later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Public routes accept an optional Bearer key so integrators get their own
+   * limits. An unknown key is not an error here; the request falls back to
+   * IP-based limits.
+   */
+  private async resolveOptionalApiKey(request: IntegratorRequest) {
+    const authHeader = request.headers['authorization'];
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return null;
+    }
+    return this.apiKeyService.authenticate(
+      authHeader.slice('Bearer '.length).trim(),
+    );
+  }
+
+  private quotaCost(context: ExecutionContext, request: IntegratorRequest): number {
+    const field = this.reflector.getAllAndOverride<string>(QUOTA_COST_METADATA, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const value = field ? request.body?.[field] : undefined;
+    return Array.isArray(value) && value.length > 0 ? value.length : 1;
+  }
+
+  private setHeaders(response: Response, decision: RateLimitDecision): void {
+    response.setHeader('X-RateLimit-Limit', String(decision.limit));
+    response.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+    response.setHeader('X-RateLimit-Reset', String(decision.resetSeconds));
+
+    if (decision.quotaLimit !== undefined) {
+      response.setHeader('X-RateLimit-Quota-Limit', String(decision.quotaLimit));
+      response.setHeader('X-RateLimit-Quota-Remaining', String(decision.quotaRemaining));
+      response.setHeader('X-RateLimit-Quota-Reset', String(decision.quotaResetAt));
+    }
+  }
+}
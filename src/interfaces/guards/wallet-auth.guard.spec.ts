@@ -0,0 +1,108 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { WalletAuthGuard } from './wallet-auth.guard';
+import { WalletAuthService } from '../../application/services/wallet-auth.service';
+
+// ── Helper ────────────────────────────────────────────────────────────────────
+
+const OWNER = 'GOWNERWALLETXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+const OTHER = 'GOTHERWALLETXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX';
+
+function buildContext(
+  authHeader: string | undefined,
+  params: Record<string, string>,
+  body?: Record<string, unknown>,
+): { context: ExecutionContext; request: Record<string, any> } {
+  const request: Record<string, any> = {
+    headers: authHeader ? { authorization: authHeader } : {},
+    params,
+    body,
+  };
+  const context = {
+    switchToHttp: () => ({
+      getRequest: () => request,
+    }),
+    getHandler: () => undefined,
+    getClass: () => undefined,
+  } as unknown as ExecutionContext;
+  return { context, request };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('WalletAuthGuard', () => {
+  let guard: WalletAuthGuard;
+  let walletAuthService: { authenticate: jest.Mock };
+  let reflector: { getAllAndOverride: jest.Mock };
+
+  beforeEach(async () => {
+    walletAuthService = { authenticate: jest.fn().mockReturnValue({ account: OWNER }) };
+    reflector = { getAllAndOverride: jest.fn().mockReturnValue(undefined) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletAuthGuard,
+        { provide: WalletAuthService, useValue: walletAuthService },
+        { provide: Reflector, useValue: reflector },
+      ],
+    }).compile();
+
+    guard = module.get<WalletAuthGuard>(WalletAuthGuard);
+  });
+
+  it('allows the owner of :wallet and attaches the account', () => {
+    const { context, request } = buildContext('Bearer wallet-token', { wallet: OWNER });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(walletAuthService.authenticate).toHaveBeenCalledWith('wallet-token');
+    expect(request.wallet).toEqual({ account: OWNER });
+  });
+
+  it('throws 403 when the token belongs to another wallet', () => {
+    const { context, request } = buildContext('Bearer wallet-token', { wallet: OTHER });
+
+    expect(() => guard.canActivate(context)).toThrow(ForbiddenException);
+    expect(request.wallet).toBeUndefined();
+  });
+
+  it('checks the param named with @OwnedWalletParam', () => {
+    reflector.getAllAndOverride.mockReturnValue('walletAddress');
+
+    expect(guard.canActivate(buildContext('Bearer wallet-token', { walletAddress: OWNER }).context)).toBe(true);
+    expect(() =>
+      guard.canActivate(buildContext('Bearer wallet-token', { wallet: OWNER }).context),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('takes the wallet from the body when the route has no such param', () => {
+    expect(guard.canActivate(buildContext('Bearer wallet-token', {}, { wallet: OWNER }).context)).toBe(true);
+    expect(() =>
+      guard.canActivate(buildContext('Bearer wallet-token', {}, { wallet: OTHER }).context),
+    ).toThrow(ForbiddenException);
+    expect(() =>
+      guard.canActivate(buildContext('Bearer wallet-token', { wallet: OTHER }, { wallet: OWNER }).context),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('throws 401 when the Authorization header is absent or malformed', () => {
+    expect(() => guard.canActivate(buildContext(undefined, { wallet: OWNER }).context)).toThrow(
+      UnauthorizedException,
+    );
+    expect(() => guard.canActivate(buildContext('Basic x', { wallet: OWNER }).context)).toThrow(
+      UnauthorizedException,
+    );
+    expect(walletAuthService.authenticate).not.toHaveBeenCalled();
+  });
+
+  it('throws 401 when the token is invalid or expired', () => {
+    walletAuthService.authenticate.mockReturnValue(null);
+    const { context } = buildContext('Bearer expired', { wallet: OWNER });
+
+    expect(() => guard.canActivate(context)).toThrow(UnauthorizedException);
+  });
+});
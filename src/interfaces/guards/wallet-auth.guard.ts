@@ -0,0 +1,69 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { WalletAuthService } from '../../application/services/wallet-auth.service';
+import { WalletPrincipal } from '../../domain/entities/wallet-auth.entity';
+import { OWNED_WALLET_PARAM_METADATA } from '../decorators/owned-wallet-param.decorator';
+
+export interface WalletRequest extends Request {
+  wallet?: WalletPrincipal;
+}
+
+/**
+ * Guard for owner-only routes. Validates a wallet session token (SEP-10,
+ * see POST /auth/token) supplied via the `Authorization: Bearer <token>`
+ * header and requires its subject to be the wallet in the route's `:wallet`
+ * param, or the param named with `@OwnedWalletParam(...)`. Routes without
+ * that param take it from the request body field of the same name. The
+ * account is attached to the request as `request.wallet`.
+ *
+ * Returns 401 when the Authorization header is absent or malformed, or the
+ * token is invalid or expired.
+ *
+ * Returns 403 when the token belongs to another wallet.
+ */
+@Injectable()
+export class WalletAuthGuard implements CanActivate {
+  constructor(
+    private readonly walletAuthService: WalletAuthService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<WalletRequest>();
+    const authHeader = request.headers['authorization'];
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException(
+        'Missing or malformed Authorization header. Expected: Bearer <token>',
+      );
+    }
+
+    const token = authHeader.slice('Bearer '.length).trim();
+    const wallet = this.walletAuthService.authenticate(token);
+
+    if (!wallet) {
+      throw new UnauthorizedException('Invalid or expired wallet token.');
+    }
+
+    const param =
+      this.reflector.getAllAndOverride<string>(OWNED_WALLET_PARAM_METADATA, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'wallet';
+
+    const owned = request.params?.[param] ?? request.body?.[param];
+    if (owned !== wallet.account) {
+      throw new ForbiddenException('Token does not belong to this wallet');
+    }
+
+    request.wallet = wallet;
+    return true;
+  }
+}
@@ -6,7 +6,10 @@ import { AppModule } from './app.module'
 // probando fox points
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule)
+  // rawBody keeps the exact request bytes on req.rawBody. The KYC routes
+  // (/kyc/veriff/*, /kyc/sumsub/*) verify their HMAC signatures over them;
+  // re-serialising the parsed body never matches what the sender signed.
+  const app = await NestFactory.create(AppModule, { rawBody: true })
 
   // Global validation pipe
   app.useGlobalPipes(
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AdminAuthController } from '../interfaces/controllers/admin-auth.controller';
+import { AdminUserController } from '../interfaces/controllers/admin-user.controller';
+import { AdminAuthService } from '../application/services/admin-auth.service';
+import { AdminUserRepository } from '../infrastructure/firebase/admin-user.repository';
+import { AdminAuthGuard } from '../interfaces/guards/admin-auth.guard';
+import { FirebaseModule } from './firebase.module';
+
+@Module({
+  imports: [FirebaseModule],
+  controllers: [AdminAuthController, AdminUserController],
+  providers: [AdminAuthService, AdminUserRepository, AdminAuthGuard],
+  exports: [AdminAuthService, AdminAuthGuard],
+})
+export class AdminAuthModule {}
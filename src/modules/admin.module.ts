@@ -2,13 +2,20 @@ import { Module } from '@nestjs/common';
 import { AdminController } from '../interfaces/controllers/admin.controller';
 import { StellarAdminController } from '../interfaces/controllers/stellar-admin.controller';
 import { AdminService } from '../application/services/admin.service';
+import { DeadLetterService } from '../application/services/dead-letter.service';
+import { DeadLetterRetryService } from '../application/services/dead-letter-retry.service';
+import { KycStatusRepository } from '../infrastructure/firebase/kyc-status.repository';
 import { PlatformModule } from './platform.module';
 import { UserModule } from './user.module';
+import { WebhookModule } from './webhook.module';
+import { AdminAuthModule } from './admin-auth.module';
+import { VerificationTypeModule } from './verification-type.module';
+import { FirebaseModule } from './firebase.module';
 
 @Module({
-  imports: [PlatformModule, UserModule],
+  imports: [PlatformModule, UserModule, WebhookModule, AdminAuthModule, VerificationTypeModule, FirebaseModule],
   controllers: [AdminController, StellarAdminController],
-  providers: [AdminService],
+  providers: [AdminService, DeadLetterService, DeadLetterRetryService, KycStatusRepository],
   exports: [AdminService],
 })
 export class AdminModule {}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ApiKeyController } from '../interfaces/controllers/api-key.controller';
+import { ApiKeyService } from '../application/services/api-key.service';
+import { ApiKeyRepository } from '../infrastructure/firebase/api-key.repository';
+import { WebhookEndpointRepository } from '../infrastructure/firebase/webhook-endpoint.repository';
+import { IntegratorApiKeyGuard } from '../interfaces/guards/integrator-api-key.guard';
+import { FirebaseModule } from './firebase.module';
+import { AdminAuthModule } from './admin-auth.module';
+import { HumanityPolicyModule } from './humanity-policy.module';
+
+@Module({
+  imports: [FirebaseModule, AdminAuthModule, HumanityPolicyModule],
+  controllers: [ApiKeyController],
+  providers: [ApiKeyService, ApiKeyRepository, WebhookEndpointRepository, IntegratorApiKeyGuard],
+  exports: [ApiKeyService, IntegratorApiKeyGuard],
+})
+export class ApiKeyModule {}
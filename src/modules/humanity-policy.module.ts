@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { HumanityPolicyController } from '../interfaces/controllers/humanity-policy.controller';
+import { HumanityPolicyService } from '../application/services/humanity-policy.service';
+import { HumanityPolicyRepository } from '../infrastructure/firebase/humanity-policy.repository';
+import { FirebaseModule } from './firebase.module';
+import { AdminAuthModule } from './admin-auth.module';
+import { VerificationTypeModule } from './verification-type.module';
+
+/**
+ * Kept free of Stellar dependencies: callers pass an IdentityReadPort to
+ * HumanityPolicyService.evaluate, so ApiKeyModule (and through it the
+ * rate-limited platform routes) can import this module without a cycle.
+ */
+@Module({
+  imports: [FirebaseModule, AdminAuthModule, VerificationTypeModule],
+  controllers: [HumanityPolicyController],
+  providers: [HumanityPolicyService, HumanityPolicyRepository],
+  exports: [HumanityPolicyService],
+})
+export class HumanityPolicyModule {}
@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { KycService } from '../application/services/kyc.service';
+import { KycReviewService } from '../application/services/kyc-review.service';
+import { KycWebhookWorkerService } from '../application/services/kyc-webhook-worker.service';
+import { VeriffSimulatorService } from '../application/services/veriff-simulator.service';
+import { VeriffController } from '../interfaces/controllers/veriff.controller';
+import { SumsubController } from '../interfaces/controllers/sumsub.controller';
+import { KycAdminController } from '../interfaces/controllers/kyc-admin.controller';
+import { KycSessionRepository } from '../infrastructure/firebase/kyc-session.repository';
+import { KycFingerprintRepository } from '../infrastructure/firebase/kyc-fingerprint.repository';
+import { KycReviewCaseRepository } from '../infrastructure/firebase/kyc-review-case.repository';
+import { KycWebhookRepository } from '../infrastructure/firebase/kyc-webhook.repository';
+import { VeriffKycAdapter } from '../infrastructure/veriff/veriff-kyc.adapter';
+import { SumsubKycAdapter } from '../infrastructure/sumsub/sumsub-kyc.adapter';
+import { KYC_PROVIDERS, KycProviderPort } from '../domain/ports/kyc-provider.port';
+import { AdminModule } from './admin.module';
+import { AdminAuthModule } from './admin-auth.module';
+import { FirebaseModule } from './firebase.module';
+
+@Module({
+  imports: [AdminModule, AdminAuthModule, FirebaseModule],
+  controllers: [VeriffController, SumsubController, KycAdminController],
+  providers: [
+    KycService,
+    KycWebhookWorkerService,
+    VeriffSimulatorService,
+    KycReviewService,
+    KycSessionRepository,
+    KycFingerprintRepository,
+    KycReviewCaseRepository,
+    KycWebhookRepository,
+    VeriffKycAdapter,
+    SumsubKycAdapter,
+    {
+      provide: KYC_PROVIDERS,
+      useFactory: (...providers: KycProviderPort[]) => providers,
+      inject: [VeriffKycAdapter, SumsubKycAdapter],
+    },
+  ],
+  exports: [KycService],
+})
+export class KycModule {}
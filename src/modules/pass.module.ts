@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common'
 import { PassController } from '../interfaces/controllers/pass.controller'
 import { AdminModule } from '../modules/admin.module'
+import { AdminAuthModule } from './admin-auth.module'
 
 @Module({
-  imports: [AdminModule],
+  imports: [AdminModule, AdminAuthModule],
   controllers: [PassController],
 })
 export class PassModule {}
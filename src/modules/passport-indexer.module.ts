@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { PassportIndexerController } from '../interfaces/controllers/passport-indexer.controller';
+import { PassportIndexerService } from '../application/services/passport-indexer.service';
+import { PassportEventRepository } from '../infrastructure/firebase/passport-event.repository';
+import { PassportEventSourceAdapter } from '../infrastructure/stellar/passport-event-source.adapter';
+import { PASSPORT_EVENT_SOURCE } from '../domain/ports/passport-event-source.port';
+import { FirebaseModule } from './firebase.module';
+import { PlatformModule } from './platform.module';
+import { AdminAuthModule } from './admin-auth.module';
+
+@Module({
+  imports: [
+    FirebaseModule,
+    PlatformModule, // re-uses the exported StellarService (RPC client) and IdentityCache
+    AdminAuthModule,
+  ],
+  controllers: [PassportIndexerController],
+  providers: [
+    PassportIndexerService,
+    PassportEventRepository,
+    PassportEventSourceAdapter,
+    {
+      provide: PASSPORT_EVENT_SOURCE,
+      useExisting: PassportEventSourceAdapter,
+    },
+  ],
+  exports: [PassportIndexerService, PassportEventRepository],
+})
+export class PassportIndexerModule {}
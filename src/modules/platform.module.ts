@@ -2,22 +2,35 @@ import { Module } from '@nestjs/common';
 import { PlatformController } from '../interfaces/controllers/platform.controller';
 import { PlatformService } from '../application/services/platform.service';
 import { StellarService } from '../infrastructure/stellar/stellar.service';
+import { IdentityCache } from '../infrastructure/cache/identity-cache.service';
 import { StellarTransactionQueue } from '../application/services/stellar-transaction-queue.service';
 import { FailedStellarTxRepository } from '../infrastructure/firebase/failed-stellar-tx.repository';
+import { StellarTxJobRepository } from '../infrastructure/firebase/stellar-tx-job.repository';
+import { STELLAR_TX_JOB_STORE } from '../domain/ports/stellar-tx-job-store.port';
 import { FirebaseModule } from './firebase.module';
+import { RateLimitModule } from './rate-limit.module';
+import { HumanityPolicyModule } from './humanity-policy.module';
+import { VerificationTypeModule } from './verification-type.module';
 
 @Module({
-  imports: [FirebaseModule],
+  imports: [FirebaseModule, RateLimitModule, HumanityPolicyModule, VerificationTypeModule],
   controllers: [PlatformController],
   providers: [
     PlatformService,
     StellarService,
+    IdentityCache,
     StellarTransactionQueue,
     FailedStellarTxRepository,
+    StellarTxJobRepository,
+    {
+      provide: STELLAR_TX_JOB_STORE,
+      useExisting: StellarTxJobRepository,
+    },
   ],
   exports: [
     PlatformService,
     StellarService,
+    IdentityCache,
     StellarTransactionQueue,
     FailedStellarTxRepository,
   ],
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { RateLimitService } from '../application/services/rate-limit.service';
+import { InMemoryRateLimitStore } from '../infrastructure/rate-limit/in-memory-rate-limit.store';
+import { RateLimitGuard } from '../interfaces/guards/rate-limit.guard';
+import { RATE_LIMIT_STORE } from '../domain/ports/rate-limit-store.port';
+import { ApiKeyModule } from './api-key.module';
+
+@Module({
+  imports: [ApiKeyModule],
+  providers: [
+    RateLimitService,
+    RateLimitGuard,
+    InMemoryRateLimitStore,
+    {
+      provide: RATE_LIMIT_STORE,
+      useExisting: InMemoryRateLimitStore,
+    },
+  ],
+  exports: [RateLimitService, RateLimitGuard, ApiKeyModule],
+})
+export class RateLimitModule {}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ScoreDecayController } from '../interfaces/controllers/score-decay.controller';
+import { ScoreDecayService } from '../application/services/score-decay.service';
+import { ScoreDecayReportRepository } from '../infrastructure/firebase/score-decay-report.repository';
+import { FirebaseModule } from './firebase.module';
+import { AdminAuthModule } from './admin-auth.module';
+import { HumanityPolicyModule } from './humanity-policy.module';
+import { VerificationTypeModule } from './verification-type.module';
+import { PassportIndexerModule } from './passport-indexer.module';
+
+@Module({
+  imports: [
+    FirebaseModule,
+    AdminAuthModule,
+    HumanityPolicyModule, // threshold of the reported policy
+    VerificationTypeModule, // expiry and decay of each verification type
+    PassportIndexerModule, // indexed wallets to scan
+  ],
+  controllers: [ScoreDecayController],
+  providers: [ScoreDecayService, ScoreDecayReportRepository],
+})
+export class ScoreDecayModule {}
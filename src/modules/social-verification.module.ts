@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SocialVerificationService } from '../application/services/social-verification.service';
+import { SocialVerificationController } from '../interfaces/controllers/social-verification.controller';
+import { SocialOAuthStateRepository } from '../infrastructure/firebase/social-oauth-state.repository';
+import { SocialAccountRepository } from '../infrastructure/firebase/social-account.repository';
+import { AdminModule } from './admin.module';
+import { FirebaseModule } from './firebase.module';
+import { WalletAuthModule } from './wallet-auth.module';
+
+@Module({
+  imports: [AdminModule, FirebaseModule, WalletAuthModule],
+  controllers: [SocialVerificationController],
+  providers: [SocialVerificationService, SocialOAuthStateRepository, SocialAccountRepository],
+})
+export class SocialVerificationModule {}
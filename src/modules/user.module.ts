@@ -2,9 +2,11 @@ import { Module } from '@nestjs/common';
 import { UserService } from '../application/services/user.service';
 import { UserController } from '../interfaces/controllers/user.controller';
 import { FirebaseModule } from './firebase.module';
+import { WalletAuthModule } from './wallet-auth.module';
+import { AdminAuthModule } from './admin-auth.module';
 
 @Module({
-  imports: [FirebaseModule],
+  imports: [FirebaseModule, WalletAuthModule, AdminAuthModule],
   controllers: [UserController],
   providers: [UserService],
   exports: [UserService],
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { VerificationTypeController } from '../interfaces/controllers/verification-type.controller';
+import { VerificationTypeRegistryService } from '../application/services/verification-type-registry.service';
+import { VerificationTypeRepository } from '../infrastructure/firebase/verification-type.repository';
+import { FirebaseModule } from './firebase.module';
+import { AdminAuthModule } from './admin-auth.module';
+
+@Module({
+  imports: [FirebaseModule, AdminAuthModule],
+  controllers: [VerificationTypeController],
+  providers: [VerificationTypeRegistryService, VerificationTypeRepository],
+  exports: [VerificationTypeRegistryService],
+})
+export class VerificationTypeModule {}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { WalletAuthController } from '../interfaces/controllers/wallet-auth.controller';
+import { WalletAuthService } from '../application/services/wallet-auth.service';
+import { WalletAuthGuard } from '../interfaces/guards/wallet-auth.guard';
+import { PlatformModule } from './platform.module';
+
+@Module({
+  imports: [
+    PlatformModule, // re-uses the exported StellarService for the network passphrase
+  ],
+  controllers: [WalletAuthController],
+  providers: [WalletAuthService, WalletAuthGuard],
+  exports: [WalletAuthService, WalletAuthGuard],
+})
+export class WalletAuthModule {}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WalletController } from '../interfaces/controllers/wallet.controller';
+import { AdminModule } from './admin.module';
+import { WalletAuthModule } from './wallet-auth.module';
+
+@Module({
+  imports: [AdminModule, WalletAuthModule],
+  controllers: [WalletController],
+})
+export class WalletModule {}
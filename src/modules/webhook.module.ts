@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { WebhookController } from '../interfaces/controllers/webhook.controller';
+import { WebhookService } from '../application/services/webhook.service';
+import { WebhookDispatcher } from '../application/services/webhook-dispatcher.service';
+import { WebhookEndpointRepository } from '../infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../infrastructure/firebase/webhook-delivery.repository';
+import { WebhookSender } from '../infrastructure/webhooks/webhook-sender';
+import { FirebaseModule } from './firebase.module';
+import { ApiKeyModule } from './api-key.module';
+
+@Module({
+  imports: [
+    FirebaseModule,
+    ApiKeyModule, // provides IntegratorApiKeyGuard for the management routes
+  ],
+  controllers: [WebhookController],
+  providers: [
+    WebhookService,
+    WebhookDispatcher,
+    WebhookSender,
+    WebhookEndpointRepository,
+    WebhookDeliveryRepository,
+  ],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
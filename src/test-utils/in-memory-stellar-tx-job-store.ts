@@ -0,0 +1,84 @@
+import {
+  ACTIVE_STELLAR_TX_JOB_STATES,
+  StellarTxJob,
+  StellarTxJobUpdate,
+} from '../domain/entities/stellar-tx-job.entity';
+import { StellarTxJobStore } from '../domain/ports/stellar-tx-job-store.port';
+
+/**
+ * StellarTxJobStore kept in process memory, for specs and e2e tests.
+ * Jobs are claimed in insertion order.
+ */
+export class InMemoryStellarTxJobStore implements StellarTxJobStore {
+  readonly jobs = new Map<string, StellarTxJob>();
+  readonly leases = new Map<string, { holder: string; expiresAt: number }>();
+  private nextId = 1;
+
+  async create(job: Omit<StellarTxJob, 'id'>): Promise<StellarTxJob> {
+    const stored = { id: `job-${this.nextId++}`, ...job } as StellarTxJob;
+    this.jobs.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async findById(id: string): Promise<StellarTxJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async findActiveByIdempotencyKey(idempotencyKey: string): Promise<StellarTxJob | null> {
+    for (const job of this.jobs.values()) {
+      if (
+        job.idempotencyKey === idempotencyKey &&
+        ACTIVE_STELLAR_TX_JOB_STATES.includes(job.state)
+      ) {
+        return { ...job };
+      }
+    }
+    return null;
+  }
+
+  async claimNextQueued(workerId: string): Promise<StellarTxJob | null> {
+    for (const job of this.jobs.values()) {
+      if (job.state === 'queued') {
+        const now = new Date();
+        Object.assign(job, { state: 'running', workerId, startedAt: now, updatedAt: now });
+        return { ...job };
+      }
+    }
+    return null;
+  }
+
+  async update(id: string, update: StellarTxJobUpdate): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`No job with id ${id}`);
+    }
+    Object.assign(job, update);
+  }
+
+  async requeueRunning(): Promise<number> {
+    let count = 0;
+    for (const job of this.jobs.values()) {
+      if (job.state === 'running') {
+        Object.assign(job, { state: 'queued', updatedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async acquireLease(name: string, holder: string, ttlMs: number): Promise<boolean> {
+    const lease = this.leases.get(name);
+    if (lease && lease.holder !== holder && lease.expiresAt > Date.now()) {
+      return false;
+    }
+    this.leases.set(name, { holder, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  async releaseLease(name: string, holder: string): Promise<void> {
+    if (this.leases.get(name)?.holder === holder) {
+      this.leases.delete(name);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  PassportEventPage,
+  RawPassportEvent,
+} from '../domain/entities/passport-event.entity';
+import { PassportEventSource } from '../domain/ports/passport-event-source.port';
+
+export const RECORDED_WALLET = 'GBZXN7PIRZGNMHGA7MUUUF4GWPY5AYPV6LY4UV2GL6VJGIQRXFDNMADI';
+
+/**
+ * Event values recorded from the Passport contract (base64 ScVal XDR of the
+ * contract's `Event` enum), with their topic symbol.
+ */
+export const RECORDED_PASSPORT_EVENT_XDR = {
+  userRegistered: {
+    topic: ['AAAADwAAAA5Vc2VyUmVnaXN0ZXJlZAAA'],
+    value:
+      'AAAAEAAAAAEAAAACAAAADwAAAA5Vc2VyUmVnaXN0ZXJlZAAAAAAAEgAAAAAAAAAAc3b96I5M1hzA+ylKF4az8dBh9fLxyldGX6qTIhG5RtY=',
+  },
+  // Custom("APPROVED"), 25 points, score 0 -> 25
+  customApproved: {
+    topic: ['AAAADwAAABRWZXJpZmljYXRpb25VcHNlcnRlZA=='],
+    value:
+      'AAAAEAAAAAEAAAAGAAAADwAAABRWZXJpZmljYXRpb25VcHNlcnRlZAAAABIAAAAAAAAAAHN2/eiOTNYcwPspSheGs/HQYfXy8cpXRl+qkyIRuUbWAAAAEAAAAAEAAAACAAAADwAAAAZDdXN0b20AAAAAAA8AAAAIQVBQUk9WRUQAAAAEAAAAGQAAAAQAAAAAAAAABAAAABk=',
+  },
+  // Over18, 20 points, score 25 -> 45
+  over18: {
+    topic: ['AAAADwAAABRWZXJpZmljYXRpb25VcHNlcnRlZA=='],
+    value:
+      'AAAAEAAAAAEAAAAGAAAADwAAABRWZXJpZmljYXRpb25VcHNlcnRlZAAAABIAAAAAAAAAAHN2/eiOTNYcwPspSheGs/HQYfXy8cpXRl+qkyIRuUbWAAAAEAAAAAEAAAABAAAADwAAAAZPdmVyMTgAAAAAAAQAAAAUAAAABAAAABkAAAAEAAAALQ==',
+  },
+};
+
+/** Build a raw event around recorded XDR. */
+export const recordedEvent = (
+  xdr: { topic: string[]; value: string },
+  ledger: number,
+  index = 0,
+): RawPassportEvent => ({
+  id: `${String(ledger).padStart(19, '0')}-${String(index).padStart(10, '0')}`,
+  ledger,
+  ledgerClosedAt: new Date(Date.UTC(2025, 0, 1) + ledger * 5000).toISOString(),
+  txHash: `tx-${ledger}-${index}`,
+  topic: xdr.topic,
+  value: xdr.value,
+  inSuccessfulContractCall: true,
+});
+
+/**
+ * PassportEventSource serving a fixed list of events the way the RPC does:
+ * from a start ledger or after a cursor (the id of the last event served).
+ */
+export class StubPassportEventSource implements PassportEventSource {
+  readonly requests: Array<{ startLedger?: number; cursor?: string; limit: number }> = [];
+
+  constructor(
+    public events: RawPassportEvent[],
+    public latestLedger = 1000,
+  ) {}
+
+  async getLatestLedger(): Promise<number> {
+    return this.latestLedger;
+  }
+
+  async getEvents(params: {
+    startLedger?: number;
+    cursor?: string;
+    limit: number;
+  }): Promise<PassportEventPage> {
+    this.requests.push(params);
+
+    const remaining = params.cursor
+      ? this.events.filter((event) => event.id > params.cursor)
+      : this.events.filter((event) => event.ledger >= (params.startLedger ?? 0));
+    const events = remaining.slice(0, params.limit);
+
+    return {
+      events,
+      // Like the RPC, an empty page still moves the cursor to the scanned tip
+      cursor: events.length
+        ? events[events.length - 1].id
+        : `${String(this.latestLedger).padStart(19, '0')}-9999999999`,
+      latestLedger: this.latestLedger,
+    };
+  }
+}
@@ -1,21 +1,41 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
-import { Keypair } from '@stellar/stellar-sdk';
+import { Keypair, Networks, TransactionBuilder } from '@stellar/stellar-sdk';
 import * as request from 'supertest';
 import * as crypto from 'crypto';
 import { AppModule } from '../src/app.module';
 import { StellarService } from '../src/infrastructure/stellar/stellar.service'
 import { FailedStellarTxRepository } from '../src/infrastructure/firebase/failed-stellar-tx.repository';
 import { FirebaseService } from '../src/infrastructure/firebase/firebase.adapter';
+import { STELLAR_TX_JOB_STORE } from '../src/domain/ports/stellar-tx-job-store.port';
+import { InMemoryStellarTxJobStore } from '../src/test-utils/in-memory-stellar-tx-job-store';
+import { WebhookEndpointRepository } from '../src/infrastructure/firebase/webhook-endpoint.repository';
+import { WebhookDeliveryRepository } from '../src/infrastructure/firebase/webhook-delivery.repository';
+import { KycSessionRepository } from '../src/infrastructure/firebase/kyc-session.repository';
+import { KycWebhookRepository } from '../src/infrastructure/firebase/kyc-webhook.repository';
+import { KycStatusRepository } from '../src/infrastructure/firebase/kyc-status.repository';
+import { KycReviewCaseRepository } from '../src/infrastructure/firebase/kyc-review-case.repository';
+import { KycWebhookWorkerService } from '../src/application/services/kyc-webhook-worker.service';
+import { SumsubKycAdapter } from '../src/infrastructure/sumsub/sumsub-kyc.adapter';
+import { AdminUserRepository } from '../src/infrastructure/firebase/admin-user.repository';
+import { signJwt } from '../src/infrastructure/auth/jwt';
+import { ADMIN_TOKEN_AUDIENCE } from '../src/application/services/admin-auth.service';
+import { AdminRole } from '../src/domain/entities/admin-user.entity';
 
 const WALLET = Keypair.random().publicKey();
 const SOURCE = Keypair.random().publicKey();
+const VERIFF_SECRET = 'e2e-veriff-secret';
+const VERIFF_API_KEY = 'e2e-veriff-key';
+const SUMSUB_SECRET = 'e2e-sumsub-secret';
+const ADMIN_JWT_SECRET = 'e2e-admin-secret';
+const SEP10_SIGNING_KEY = Keypair.random();
 
 describe('Stellar transaction queue (e2e)', () => {
   let app: INestApplication;
   let submitSpy: jest.Mock;
   let failedTxStore: Map<string, any>;
+  let inbox: Map<string, any>;
 
   const buildWebhookPayload = (sessionToken: string) => ({
     id: 'test-id',
@@ -53,6 +73,7 @@ describe('Stellar transaction queue (e2e)', () => {
 
   beforeEach(async () => {
     failedTxStore = new Map();
+    inbox = new Map();
     let submitAttempts = 0;
 
     submitSpy = jest.fn().mockImplementation(async () => {
@@ -67,6 +88,14 @@ describe('Stellar transaction queue (e2e)', () => {
       };
     });
 
+    process.env.VERIFF_WEBHOOK_SECRET = VERIFF_SECRET;
+    process.env.VERIFF_API_KEY = VERIFF_API_KEY;
+    process.env.SUMSUB_WEBHOOK_SECRET = SUMSUB_SECRET;
+    process.env.ADMIN_JWT_SECRET = ADMIN_JWT_SECRET;
+    process.env.SEP10_SIGNING_SECRET = SEP10_SIGNING_KEY.secret();
+    process.env.WALLET_JWT_SECRET = 'e2e-wallet-secret';
+    process.env.KYC_WEBHOOK_WORKER_INTERVAL_MS = '0';
+
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     })
@@ -78,14 +107,84 @@ describe('Stellar transaction queue (e2e)', () => {
       .overrideProvider(StellarService)
       .useValue({
         validateWalletAddress: jest.fn().mockReturnValue(true),
+        getNetworkPassphrase: jest.fn().mockReturnValue(Networks.TESTNET),
         submitVerificationWithRetry: submitSpy,
         buildRegisterTransaction: jest.fn(),
         submitSignedTransaction: jest.fn(),
         buildCreateVerificationTransaction: jest.fn(),
         getAccountSequence: jest.fn(),
-        getVerifications: jest.fn(),
+        getVerifications: jest.fn().mockResolvedValue([]),
         getScore: jest.fn(),
       })
+      .overrideProvider(STELLAR_TX_JOB_STORE)
+      .useValue(new InMemoryStellarTxJobStore())
+      .overrideProvider(AdminUserRepository)
+      .useValue({
+        findById: jest.fn(async (id: string) => ({
+          id,
+          email: `${id}@veridion.id`,
+          role: id,
+          disabled: false,
+          createdAt: new Date(),
+        })),
+        findByEmail: jest.fn(async () => null),
+      })
+      .overrideProvider(KycSessionRepository)
+      .useValue({
+        create: jest.fn(async (session: any) => session),
+        findBySessionId: jest.fn(async (sessionId: string) =>
+          sessionId === 'verification-id'
+            ? { sessionId, wallet: WALLET, url: 'https://veriff.com/verification/123', createdAt: new Date() }
+            : sessionId === 'applicant-id'
+              ? { sessionId, provider: 'sumsub', wallet: WALLET, url: 'https://in.sumsub.com/websdk/p/abc', createdAt: new Date() }
+              : null,
+        ),
+      })
+      .overrideProvider(KycWebhookRepository)
+      .useValue({
+        enqueue: jest.fn(async (delivery: any, queuedDecision: any) => {
+          const existing = inbox.get(delivery.key);
+          if (existing) {
+            return { record: existing, queued: false };
+          }
+          const record = { ...delivery, state: 'queued', deliveries: 1, attempts: 0, nextAttemptAt: new Date(), queuedDecision };
+          inbox.set(delivery.key, record);
+          return { record, queued: true };
+        }),
+        findDue: jest.fn(async (now: Date) =>
+          [...inbox.values()].filter((record) => record.state === 'queued' && record.nextAttemptAt <= now),
+        ),
+        claim: jest.fn(async (key: string, holder: string) => {
+          const record = inbox.get(key);
+          if (record?.state !== 'queued') {
+            return null;
+          }
+          Object.assign(record, { state: 'processing', attempts: record.attempts + 1, claimedBy: holder });
+          return { record, decision: record.queuedDecision };
+        }),
+        complete: jest.fn(async (key: string, _holder: string, outcome: any, retryAt: Date | null) => {
+          Object.assign(inbox.get(key), outcome, {
+            state: outcome.result.success ? 'processed' : retryAt ? 'queued' : 'failed',
+            nextAttemptAt: retryAt,
+          });
+        }),
+      })
+      .overrideProvider(KycStatusRepository)
+      .useValue({
+        find: jest.fn().mockResolvedValue(null),
+        claim: jest.fn().mockResolvedValue({ claimed: true, previous: null }),
+        confirm: jest.fn().mockResolvedValue(true),
+        release: jest.fn(),
+        recordRejection: jest.fn(),
+      })
+      .overrideProvider(KycReviewCaseRepository)
+      .useValue({
+        openUnlessUnresolved: jest.fn(async (record: any) => ({ reviewCase: { id: 'case-1', ...record }, created: true })),
+      })
+      .overrideProvider(WebhookEndpointRepository)
+      .useValue({ findActiveByEvent: jest.fn().mockResolvedValue([]) })
+      .overrideProvider(WebhookDeliveryRepository)
+      .useValue({ findDue: jest.fn().mockResolvedValue([]) })
       .overrideProvider(FailedStellarTxRepository)
       .useValue({
         create: jest.fn(async (record: any) => {
@@ -105,7 +204,14 @@ describe('Stellar transaction queue (e2e)', () => {
         }),
         markRetried: jest.fn(async (id: string) => {
           const record = failedTxStore.get(id);
-          if (record) record.retriedAt = new Date();
+          if (record) {
+            record.retriedAt = new Date();
+            record.retryCount = (record.retryCount ?? 0) + 1;
+          }
+        }),
+        recordRetryError: jest.fn(async (id: string, lastError: string) => {
+          const record = failedTxStore.get(id);
+          if (record) record.lastError = lastError;
         }),
         markResolved: jest.fn(async (id: string, hash?: string) => {
           const record = failedTxStore.get(id);
@@ -115,10 +221,41 @@ describe('Stellar transaction queue (e2e)', () => {
             if (hash) record.payload.transactionHash = hash;
           }
         }),
+        markDiscarded: jest.fn(async (id: string, discardedBy: string, reason: string) => {
+          const record = failedTxStore.get(id);
+          if (record) {
+            Object.assign(record, {
+              resolved: true,
+              resolvedAt: new Date(),
+              discarded: true,
+              discardedBy,
+              discardReason: reason,
+            });
+          }
+        }),
+        claimForRetry: jest.fn(async (id: string, holder: string) => {
+          const record = failedTxStore.get(id);
+          if (!record || record.resolved || (record.retryLeaseHolder && record.retryLeaseHolder !== holder)) {
+            return false;
+          }
+          record.retryLeaseHolder = holder;
+          return true;
+        }),
+        releaseRetryClaim: jest.fn(async (id: string, holder: string) => {
+          const record = failedTxStore.get(id);
+          if (record?.retryLeaseHolder === holder) {
+            record.retryLeaseHolder = null;
+          }
+        }),
+        list: jest.fn(async (filter: any, limit: number) => ({
+          items: [...failedTxStore.values()]
+            .filter((record) => filter.resolved === undefined || record.resolved === filter.resolved)
+            .slice(0, limit),
+        })),
       })
       .compile();
 
-    app = moduleFixture.createNestApplication();
+    app = moduleFixture.createNestApplication({ rawBody: true });
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
@@ -136,7 +273,6 @@ describe('Stellar transaction queue (e2e)', () => {
     SwaggerModule.setup('docs', app, document);
 
     process.env.ADMIN_SOURCE_ACCOUNT = SOURCE;
-    process.env.VERIFF_WEBHOOK_SECRET = '';
 
     await app.init();
   });
@@ -145,6 +281,27 @@ describe('Stellar transaction queue (e2e)', () => {
     await app.close();
   });
 
+  // Admin ids double as their role in the AdminUserRepository stand-in
+  const asAdmin = (role: AdminRole) =>
+    `Bearer ${signJwt({ sub: role, aud: ADMIN_TOKEN_AUDIENCE }, ADMIN_JWT_SECRET, 300)}`;
+
+  const postVeriffWebhook = (payload: unknown, signature?: string) => {
+    const body = JSON.stringify(payload);
+
+    return request(app.getHttpServer())
+      .post('/kyc/veriff/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-auth-client', VERIFF_API_KEY)
+      .set(
+        'x-hmac-signature',
+        signature ?? crypto.createHmac('sha256', VERIFF_SECRET).update(body).digest('hex'),
+      )
+      .send(body);
+  };
+
+  // Webhooks are answered once queued; the worker is disabled, so sweep the inbox here
+  const drainInbox = () => app.get(KycWebhookWorkerService).sweep();
+
   it('processes two concurrent webhooks for the same wallet without sequence collision', async () => {
     submitSpy.mockReset();
     submitSpy
@@ -163,21 +320,19 @@ describe('Stellar transaction queue (e2e)', () => {
     const payload2 = buildWebhookPayload('session-b');
 
     const [res1, res2] = await Promise.all([
-      request(app.getHttpServer())
-        .post('/kyc/veriff/webhook')
-        .set('x-veriff-signature', 'sha256=test')
-        .send(payload1),
-      request(app.getHttpServer())
-        .post('/kyc/veriff/webhook')
-        .set('x-veriff-signature', 'sha256=test')
-        .send(payload2),
+      postVeriffWebhook(payload1),
+      postVeriffWebhook(payload2),
     ]);
 
     expect(res1.status).toBe(200);
     expect(res2.status).toBe(200);
-    expect(res1.body.success).toBe(true);
-    expect(res2.body.success).toBe(true);
+    expect(res1.body).toEqual(expect.objectContaining({ success: true, queued: true }));
+    expect(res2.body).toEqual(expect.objectContaining({ success: true, queued: true }));
+
+    await drainInbox();
+
     expect(submitSpy).toHaveBeenCalledTimes(2);
+    expect([...inbox.values()].map((record) => record.state)).toEqual(['processed', 'processed']);
   });
 
   it('succeeds when tx_bad_seq is recovered on internal retry', async () => {
@@ -190,13 +345,11 @@ describe('Stellar transaction queue (e2e)', () => {
 
     const payload = buildWebhookPayload('session-retry');
 
-    const response = await request(app.getHttpServer())
-      .post('/kyc/veriff/webhook')
-      .set('x-veriff-signature', 'sha256=test')
-      .send(payload);
+    const response = await postVeriffWebhook(payload);
+    const sweep = await drainInbox();
 
     expect(response.status).toBe(200);
-    expect(response.body.success).toBe(true);
+    expect(sweep.processed).toBe(1);
     expect(submitSpy).toHaveBeenCalledTimes(1);
   });
 
@@ -227,6 +380,7 @@ describe('Stellar transaction queue (e2e)', () => {
 
     const response = await request(app.getHttpServer())
       .post('/admin/stellar/retry/dl-1')
+      .set('Authorization', asAdmin('operator'))
       .send();
 
     expect(response.status).toBe(201);
@@ -237,6 +391,7 @@ describe('Stellar transaction queue (e2e)', () => {
   it('POST /admin/stellar/retry/:id returns 404 for unknown id', async () => {
     const response = await request(app.getHttpServer())
       .post('/admin/stellar/retry/unknown-id')
+      .set('Authorization', asAdmin('operator'))
       .send();
 
     expect(response.status).toBe(404);
@@ -258,9 +413,260 @@ describe('Stellar transaction queue (e2e)', () => {
 
     const response = await request(app.getHttpServer())
       .post('/admin/stellar/retry/dl-resolved')
+      .set('Authorization', asAdmin('operator'))
+      .send();
+
+    expect(response.status).toBe(409);
+  });
+
+  it('POST /admin/stellar/retry/:id returns 409 while the record is being retried elsewhere', async () => {
+    failedTxStore.set('dl-leased', {
+      id: 'dl-leased',
+      wallet: WALLET,
+      operation: 'upsert_verification',
+      payload: { status: 'APPROVED', sourceAccount: SOURCE },
+      idempotencyKey: 'leased-key',
+      attempts: 5,
+      lastError: 'tx_bad_seq',
+      resolved: false,
+      createdAt: new Date(),
+      retryLeaseHolder: 'dead-letter-worker',
+    });
+    submitSpy.mockReset();
+
+    const response = await request(app.getHttpServer())
+      .post('/admin/stellar/retry/dl-leased')
+      .set('Authorization', asAdmin('operator'))
       .send();
 
     expect(response.status).toBe(409);
+    expect(submitSpy).not.toHaveBeenCalled();
+  });
+
+  it('POST /admin/stellar/failed/:id/discard records the signed-in admin as who discarded it, then 409s', async () => {
+    failedTxStore.set('dl-discard', {
+      id: 'dl-discard',
+      wallet: WALLET,
+      operation: 'register',
+      payload: { name: 'John', surnames: 'Doe', sourceAccount: SOURCE },
+      idempotencyKey: 'discard-key',
+      attempts: 5,
+      lastError: 'function_trapped',
+      resolved: false,
+      createdAt: new Date(),
+    });
+
+    const spoofed = await request(app.getHttpServer())
+      .post('/admin/stellar/failed/dl-discard/discard')
+      .set('Authorization', asAdmin('operator'))
+      .send({ discardedBy: 'someone-else@veridion.id', reason: 'Registered by hand' });
+    const first = await request(app.getHttpServer())
+      .post('/admin/stellar/failed/dl-discard/discard')
+      .set('Authorization', asAdmin('operator'))
+      .send({ reason: 'Registered by hand' });
+    const second = await request(app.getHttpServer())
+      .post('/admin/stellar/failed/dl-discard/discard')
+      .set('Authorization', asAdmin('operator'))
+      .send({ reason: 'Again' });
+
+    expect(spoofed.status).toBe(400);
+    expect(first.status).toBe(201);
+    expect(first.body.record).toMatchObject({
+      discarded: true,
+      discardedBy: 'operator@veridion.id',
+      discardReason: 'Registered by hand',
+    });
+    expect(second.status).toBe(409);
+  });
+
+  it('GET /admin/stellar/failed parses filters and validates the page size', async () => {
+    failedTxStore.set('dl-open', {
+      id: 'dl-open',
+      wallet: WALLET,
+      operation: 'upsert_verification',
+      payload: { status: 'APPROVED', sourceAccount: SOURCE },
+      idempotencyKey: 'open-key',
+      attempts: 5,
+      lastError: 'tx_bad_seq',
+      resolved: false,
+      createdAt: new Date(),
+    });
+
+    const listed = await request(app.getHttpServer())
+      .get('/admin/stellar/failed')
+      .set('Authorization', asAdmin('operator'))
+      .query({ resolved: 'false', limit: '10' });
+    const invalid = await request(app.getHttpServer())
+      .get('/admin/stellar/failed')
+      .set('Authorization', asAdmin('operator'))
+      .query({ limit: '1000' });
+
+    expect(listed.status).toBe(200);
+    expect(listed.body.items.map((item: any) => item.id)).toEqual(['dl-open']);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('ignores Veriff decisions for sessions the backend did not create', async () => {
+    submitSpy.mockReset();
+    const payload = buildWebhookPayload('session-unknown');
+    payload.verification.id = 'someone-elses-session';
+
+    const response = await postVeriffWebhook(payload);
+    await drainInbox();
+
+    expect(response.status).toBe(200);
+    expect([...inbox.values()][0].result).toEqual(
+      expect.objectContaining({ success: false, error: 'Unknown session' }),
+    );
+    expect(submitSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects Veriff webhooks whose signature does not match the raw body', async () => {
+    submitSpy.mockReset();
+    const payload = buildWebhookPayload('session-forged');
+    const signedForOtherBody = crypto
+      .createHmac('sha256', VERIFF_SECRET)
+      .update(JSON.stringify({ ...payload, status: 'DECLINED' }))
+      .digest('hex');
+
+    const forged = await postVeriffWebhook(payload, signedForOtherBody);
+    const unsigned = await request(app.getHttpServer())
+      .post('/kyc/veriff/webhook')
+      .send(payload);
+
+    expect(forged.status).toBe(401);
+    expect(unsigned.status).toBe(401);
+    expect(submitSpy).not.toHaveBeenCalled();
+  });
+
+  it('applies signed Sumsub reviews with their extra fields and acknowledges other events', async () => {
+    submitSpy.mockReset();
+    submitSpy.mockResolvedValue({ success: true, transactionHash: 'hash-sumsub', attempts: 1 });
+    // Approvals read the applicant from the Sumsub API
+    const fetchApprovalDetails = jest.spyOn(app.get(SumsubKycAdapter), 'fetchApprovalDetails').mockResolvedValue({});
+
+    const postSumsubWebhook = (payload: object, secret = SUMSUB_SECRET) => {
+      const body = JSON.stringify(payload);
+      return request(app.getHttpServer())
+        .post('/kyc/sumsub/webhook')
+        .set('Content-Type', 'application/json')
+        .set('x-payload-digest', crypto.createHmac('sha256', secret).update(body).digest('hex'))
+        .set('x-payload-digest-alg', 'HMAC_SHA256_HEX')
+        .send(body);
+    };
+    const event = {
+      applicantId: 'applicant-id',
+      externalUserId: WALLET,
+      inspectionId: 'inspection-id',
+      levelName: 'basic-kyc-level',
+      sandboxMode: true,
+      createdAtMs: new Date().toISOString().replace('T', ' ').replace('Z', ''),
+    };
+
+    const reviewed = await postSumsubWebhook({
+      ...event,
+      type: 'applicantReviewed',
+      correlationId: 'correlation-reviewed',
+      reviewStatus: 'completed',
+      reviewResult: { reviewAnswer: 'GREEN' },
+    });
+    const pending = await postSumsubWebhook({ ...event, type: 'applicantPending', correlationId: 'correlation-pending' });
+    const forged = await postSumsubWebhook(
+      { ...event, type: 'applicantReviewed', correlationId: 'correlation-forged', reviewResult: { reviewAnswer: 'GREEN' } },
+      'wrong-secret',
+    );
+    await drainInbox();
+
+    expect(reviewed.status).toBe(200);
+    expect(reviewed.body).toEqual(expect.objectContaining({ success: true, queued: true }));
+    expect(pending.status).toBe(200);
+    expect(pending.body).toEqual(expect.objectContaining({ success: true, ignored: true }));
+    expect(forged.status).toBe(401);
+    expect([...inbox.values()]).toEqual([
+      expect.objectContaining({
+        provider: 'sumsub',
+        state: 'processed',
+        wallet: WALLET,
+        result: expect.objectContaining({ status: 'APPROVED' }),
+      }),
+    ]);
+    expect(submitSpy).toHaveBeenCalledTimes(1);
+    expect(fetchApprovalDetails).toHaveBeenCalledWith('applicant-id');
+  });
+
+  it('POST /kyc/veriff/sessions validates the wallet', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/kyc/veriff/sessions')
+      .send({ wallet: 'not-a-wallet' });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('keeps the Veriff simulator to operators and hides it unless it is enabled', async () => {
+    const simulate = (authorization?: string) => {
+      const call = request(app.getHttpServer()).post('/kyc/veriff/webhook/simulate');
+      return (authorization ? call.set('Authorization', authorization) : call)
+        .send({ wallet: WALLET, scenario: 'approved' });
+    };
+
+    expect((await simulate()).status).toBe(401);
+    expect((await simulate(asAdmin('read-only'))).status).toBe(403);
+    expect((await simulate(asAdmin('operator'))).status).toBe(404);
+  });
+
+  it('requires an admin token with an allowed role on admin routes', async () => {
+    const anonymous = await request(app.getHttpServer()).get('/admin/stellar/failed');
+    const forged = await request(app.getHttpServer())
+      .get('/admin/stellar/failed')
+      .set('Authorization', `Bearer ${signJwt({ sub: 'operator', aud: ADMIN_TOKEN_AUDIENCE }, 'wrong-secret', 300)}`);
+    const readOnlyList = await request(app.getHttpServer())
+      .get('/admin/stellar/failed')
+      .set('Authorization', asAdmin('read-only'));
+    const readOnlyRetry = await request(app.getHttpServer())
+      .post('/admin/stellar/retry/dl-1')
+      .set('Authorization', asAdmin('read-only'));
+    const operatorStatus = await request(app.getHttpServer())
+      .post(`/admin/update-status/${WALLET}`)
+      .set('Authorization', asAdmin('operator'))
+      .send({});
+
+    expect(anonymous.status).toBe(401);
+    expect(forged.status).toBe(401);
+    expect(readOnlyList.status).toBe(200);
+    expect(readOnlyRetry.status).toBe(403);
+    expect(operatorStatus.status).toBe(403);
+  });
+
+  it('issues wallet tokens through SEP-10 and only for the wallet that signed', async () => {
+    const owner = Keypair.random();
+    const walletToken = async (signer: Keypair) => {
+      const challenge = await request(app.getHttpServer())
+        .get('/auth/challenge')
+        .query({ account: owner.publicKey() });
+      const tx = TransactionBuilder.fromXDR(challenge.body.transaction, challenge.body.network_passphrase);
+      tx.sign(signer);
+
+      return request(app.getHttpServer())
+        .post('/auth/token')
+        .send({ transaction: tx.toEnvelope().toXDR('base64') });
+    };
+
+    const forged = await walletToken(Keypair.random());
+    const issued = await walletToken(owner);
+    const anonymous = await request(app.getHttpServer()).get(`/wallets/${owner.publicKey()}/api-key`);
+    const otherWallet = await request(app.getHttpServer())
+      .get(`/wallets/${WALLET}/api-key`)
+      .set('Authorization', `Bearer ${issued.body.token}`);
+    const ownStatus = await request(app.getHttpServer())
+      .put(`/users/${owner.publicKey()}/status`)
+      .set('Authorization', `Bearer ${issued.body.token}`)
+      .send({ status: 'verified' });
+
+    expect(forged.status).toBe(400);
+    expect(issued.status).toBe(200);
+    expect(anonymous.status).toBe(401);
+    expect(otherWallet.status).toBe(403);
+    expect(ownStatus.status).toBe(401);
   });
 
   it('exposes retry endpoint in swagger docs', async () => {